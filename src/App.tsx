@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { StoreSettingsProvider } from "@/contexts/StoreSettingsContext";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import POS from "./pages/POS";
@@ -19,10 +20,16 @@ import AdminPromotions from "./pages/AdminPromotions";
 import AdminCustomers from "./pages/AdminCustomers";
 import AdminEmployeeAccess from "./pages/AdminEmployeeAccess";
 import AdminPrintSettings from "./pages/AdminPrintSettings";
+import AdminPaymentSettings from "./pages/AdminPaymentSettings";
+import AdminTaxSettings from "./pages/AdminTaxSettings";
+import AdminStoreSettings from "./pages/AdminStoreSettings";
+import AdminReconciliation from "./pages/AdminReconciliation";
+import AdminTips from "./pages/AdminTips";
 import Waiter from "./pages/Waiter";
 import WaiterOrder from "./pages/WaiterOrder";
 import Kitchen from "./pages/Kitchen";
 import KitchenDisplay from "./pages/KitchenDisplay";
+import Expo from "./pages/Expo";
 import Delivery from "./pages/Delivery";
 import NewDelivery from "./pages/NewDelivery";
 import CustomerDisplay from "./pages/CustomerDisplay";
@@ -42,6 +49,7 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
+          <StoreSettingsProvider>
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
@@ -60,6 +68,7 @@ const App = () => (
             <Route path="/waiter/order/:orderId" element={<WaiterOrder />} />
             <Route path="/kitchen" element={<Kitchen />} />
             <Route path="/kitchen-display" element={<KitchenDisplay />} />
+            <Route path="/expo" element={<Expo />} />
             <Route path="/delivery" element={<Delivery />} />
             <Route path="/delivery/new" element={<NewDelivery />} />
             <Route path="/customer-display" element={<CustomerDisplay />} />
@@ -68,11 +77,17 @@ const App = () => (
             <Route path="/admin/schedule" element={<AdminSchedule />} />
             <Route path="/admin/employees" element={<AdminEmployeeAccess />} />
             <Route path="/admin/print-settings" element={<AdminPrintSettings />} />
+            <Route path="/admin/payment-settings" element={<AdminPaymentSettings />} />
+            <Route path="/admin/tax-settings" element={<AdminTaxSettings />} />
+            <Route path="/admin/store-settings" element={<AdminStoreSettings />} />
+            <Route path="/admin/reconciliation" element={<AdminReconciliation />} />
+            <Route path="/admin/tips" element={<AdminTips />} />
             <Route path="/time-tracking" element={<TimeTracking />} />
             <Route path="/admin/reservations" element={<AdminReservations />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
+          </StoreSettingsProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
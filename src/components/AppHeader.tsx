@@ -1,6 +1,12 @@
+import { useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Phone, MapPin } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Phone, MapPin, CloudUpload } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { db } from '@/lib/db';
+import { SyncHealthDialog } from '@/components/SyncHealthDialog';
 
 interface AppHeaderProps {
   children: React.ReactNode;
@@ -10,6 +16,16 @@ const AppHeader = ({ children }: AppHeaderProps) => {
   const navigate = useNavigate();
   const location = useLocation();
   const isHomePage = location.pathname === '/admin';
+  const { user } = useAuth();
+  const [syncHealthOpen, setSyncHealthOpen] = useState(false);
+
+  // Unsynced sales on this terminal, surfaced next to the header actions
+  const unsyncedSales = useLiveQuery(
+    async () => (await db.sales.toArray()).filter(s => !s.synced),
+    [],
+    []
+  );
+  const hasDeadLetters = unsyncedSales.some(s => s.dead_letter);
 
   return (
     <div className="border-b bg-card">
@@ -35,6 +51,22 @@ const AppHeader = ({ children }: AppHeaderProps) => {
           {/* Spacer to push content to the sides */}
           <div className="flex-1" />
 
+          {/* Sync health */}
+          {user && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSyncHealthOpen(true)}
+              className="gap-2"
+            >
+              <CloudUpload className="h-4 w-4" />
+              Sync
+              {unsyncedSales.length > 0 && (
+                <Badge variant={hasDeadLetters ? 'destructive' : 'secondary'}>{unsyncedSales.length}</Badge>
+              )}
+            </Button>
+          )}
+
           {/* Contact info */}
           <div className="flex flex-col items-end gap-0.5 text-sm text-muted-foreground">
             <div className="flex items-center gap-1">
@@ -48,6 +80,8 @@ const AppHeader = ({ children }: AppHeaderProps) => {
           </div>
         </div>
       </div>
+
+      {user && <SyncHealthDialog open={syncHealthOpen} onOpenChange={setSyncHealthOpen} />}
     </div>
   );
 };
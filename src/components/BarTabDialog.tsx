@@ -6,10 +6,14 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { Plus, Trash2, CreditCard, X, AlertTriangle } from 'lucide-react';
 import NumberPadDialog from './NumberPadDialog';
+import { TENDER_METHODS, TIPPABLE_METHODS } from '@/lib/tenders';
+import { formatAmount, formatMoney, multiplyMoney, roundMoney, subtractMoney, sumMoney } from '@/lib/money';
+import { formatTime } from '@/lib/dateTime';
 
 interface BarTab {
   id: string;
@@ -45,6 +49,18 @@ interface CartItem {
   price_adjustment?: number;
 }
 
+// Weighed items are priced by weight; modifiers add to the unit price
+const getUnitPrice = (item: CartItem) => {
+  let price = item.product.price;
+  if (item.product.pricing_type === 'weight_based' && item.weight_amount && item.product.price_per_unit) {
+    price = multiplyMoney(item.product.price_per_unit, item.weight_amount);
+  }
+  return sumMoney([price, item.price_adjustment || 0]);
+};
+
+const getCartTotal = (cart: CartItem[]) =>
+  sumMoney(cart.map(item => multiplyMoney(getUnitPrice(item), item.qty)));
+
 interface BarTabDialogProps {
   open: boolean;
   onClose: () => void;
@@ -66,6 +82,11 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
   const [newSpendingLimit, setNewSpendingLimit] = useState('');
   const [limitPadOpen, setLimitPadOpen] = useState(false);
 
+  // Settlement
+  const [settleMethod, setSettleMethod] = useState('cash');
+  const [tipAmount, setTipAmount] = useState(0);
+  const [tipPadOpen, setTipPadOpen] = useState(false);
+
   useEffect(() => {
     if (open) {
       loadTabs();
@@ -75,6 +96,8 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
   useEffect(() => {
     if (selectedTab) {
       loadTabItems(selectedTab.id);
+      setSettleMethod('cash');
+      setTipAmount(0);
     }
   }, [selectedTab]);
 
@@ -129,7 +152,7 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
         .insert({
           customer_name: newCustomerName.trim(),
           customer_phone: newCustomerPhone.trim() || null,
-          spending_limit: parseFloat(newSpendingLimit),
+          spending_limit: roundMoney(parseFloat(newSpendingLimit)),
           opened_by: userId,
         })
         .select()
@@ -159,19 +182,11 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
       return;
     }
 
-    // Calculate cart total
-    const cartTotal = cart.reduce((sum, item) => {
-      let price = item.product.price;
-      if (item.product.pricing_type === 'weight_based' && item.weight_amount && item.product.price_per_unit) {
-        price = item.product.price_per_unit * item.weight_amount;
-      }
-      return sum + ((price + (item.price_adjustment || 0)) * item.qty);
-    }, 0);
-
-    const newTotal = selectedTab.current_total + cartTotal;
+    const cartTotal = getCartTotal(cart);
+    const newTotal = sumMoney([selectedTab.current_total, cartTotal]);
     
     if (newTotal > selectedTab.spending_limit) {
-      toast.error(`Adding these items would exceed the tab limit of R${selectedTab.spending_limit.toFixed(2)}. Current: R${selectedTab.current_total.toFixed(2)}, Adding: R${cartTotal.toFixed(2)}`);
+      toast.error(`Adding these items would exceed the tab limit of ${formatMoney(selectedTab.spending_limit)}. Current: ${formatMoney(selectedTab.current_total)}, Adding: ${formatMoney(cartTotal)}`);
       return;
     }
 
@@ -179,11 +194,7 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
     try {
       // Insert items
       const items = cart.map(item => {
-        let unitPrice = item.product.price;
-        if (item.product.pricing_type === 'weight_based' && item.weight_amount && item.product.price_per_unit) {
-          unitPrice = item.product.price_per_unit * item.weight_amount;
-        }
-        unitPrice += item.price_adjustment || 0;
+        const unitPrice = getUnitPrice(item);
 
         return {
           tab_id: selectedTab.id,
@@ -191,7 +202,7 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
           product_name: item.product.name,
           qty: item.qty,
           unit_price: unitPrice,
-          line_total: unitPrice * item.qty,
+          line_total: multiplyMoney(unitPrice, item.qty),
           added_by: userId,
         };
       });
@@ -225,12 +236,17 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
   const settleTab = async () => {
     if (!selectedTab) return;
 
+    // Tips go to whoever opened the tab
+    const tip = TIPPABLE_METHODS.includes(settleMethod) ? tipAmount : 0;
+
     setLoading(true);
     try {
       const { error } = await supabase
         .from('bar_tabs')
         .update({
           status: 'settled',
+          payment_method: settleMethod,
+          tip_amount: tip,
           closed_at: new Date().toISOString(),
           closed_by: userId,
         })
@@ -238,7 +254,7 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
 
       if (error) throw error;
 
-      toast.success(`Tab settled for R${selectedTab.current_total.toFixed(2)}`);
+      toast.success(`Tab settled for ${formatMoney(selectedTab.current_total)}${tip > 0 ? ` + ${formatMoney(tip)} tip` : ''}`);
       setSelectedTab(null);
       setTabItems([]);
       loadTabs();
@@ -280,11 +296,7 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
     }
   };
 
-  const formatTime = (dateStr: string) => {
-    return new Date(dateStr).toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit' });
-  };
-
-  const remainingLimit = selectedTab ? selectedTab.spending_limit - selectedTab.current_total : 0;
+  const remainingLimit = selectedTab ? subtractMoney(selectedTab.spending_limit, selectedTab.current_total) : 0;
   const limitPercentUsed = selectedTab ? (selectedTab.current_total / selectedTab.spending_limit) * 100 : 0;
 
   return (
@@ -333,7 +345,7 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
                       className="flex-1 h-8 px-3 text-sm border rounded-md flex items-center cursor-pointer hover:bg-accent"
                       onClick={() => setLimitPadOpen(true)}
                     >
-                      {newSpendingLimit ? `R${parseFloat(newSpendingLimit).toFixed(2)}` : 'Set Limit *'}
+                      {newSpendingLimit ? formatMoney(parseFloat(newSpendingLimit)) : 'Set Limit *'}
                     </div>
                   </div>
                   <div className="flex gap-2">
@@ -368,7 +380,7 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
                         </div>
                         <div className="flex items-center justify-between mt-1">
                           <span className="text-xs text-muted-foreground">
-                            R{tab.current_total.toFixed(2)} / R{tab.spending_limit.toFixed(2)}
+                            {formatMoney(tab.current_total)} / {formatMoney(tab.spending_limit)}
                           </span>
                           {tab.current_total >= tab.spending_limit * 0.8 && (
                             <Badge variant="destructive" className="text-[10px] h-4">
@@ -408,7 +420,7 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
                   <div className="p-2 rounded-lg bg-muted/50 space-y-1">
                     <div className="flex justify-between text-xs">
                       <span>Spent</span>
-                      <span className="font-medium">R{selectedTab.current_total.toFixed(2)}</span>
+                      <span className="font-medium">{formatMoney(selectedTab.current_total)}</span>
                     </div>
                     <div className="h-2 bg-background rounded-full overflow-hidden">
                       <div 
@@ -421,8 +433,8 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
                       />
                     </div>
                     <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>Remaining: R{remainingLimit.toFixed(2)}</span>
-                      <span>Limit: R{selectedTab.spending_limit.toFixed(2)}</span>
+                      <span>Remaining: {formatMoney(remainingLimit)}</span>
+                      <span>Limit: {formatMoney(selectedTab.spending_limit)}</span>
                     </div>
                     {limitPercentUsed >= 80 && (
                       <div className="flex items-center gap-1 text-xs text-yellow-600 dark:text-yellow-400">
@@ -443,7 +455,7 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
                         {tabItems.map(item => (
                           <div key={item.id} className="flex items-center justify-between text-xs p-1.5 bg-muted/30 rounded">
                             <span className="flex-1 truncate">{item.qty}x {item.product_name}</span>
-                            <span className="font-medium">R{item.line_total.toFixed(2)}</span>
+                            <span className="font-medium">{formatMoney(item.line_total)}</span>
                           </div>
                         ))}
                       </div>
@@ -461,9 +473,31 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
                         disabled={loading || selectedTab.current_total >= selectedTab.spending_limit}
                       >
                         <Plus className="h-3 w-3 mr-1" />
-                        Add Cart to Tab (R{cart.reduce((sum, item) => sum + (item.product.price + (item.price_adjustment || 0)) * item.qty, 0).toFixed(2)})
+                        Add Cart to Tab ({formatMoney(getCartTotal(cart))})
                       </Button>
                     )}
+                    <div className="flex gap-2">
+                      <Select value={settleMethod} onValueChange={setSettleMethod}>
+                        <SelectTrigger className="h-8 flex-1 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {TENDER_METHODS.map(method => (
+                            <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {TIPPABLE_METHODS.includes(settleMethod) && (
+                        <Button
+                          variant="outline"
+                          className="h-8 text-xs"
+                          onClick={() => setTipPadOpen(true)}
+                          disabled={loading}
+                        >
+                          Tip {formatMoney(tipAmount)}
+                        </Button>
+                      )}
+                    </div>
                     <div className="flex gap-2">
                       <Button 
                         variant="default" 
@@ -472,7 +506,7 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
                         disabled={loading || selectedTab.current_total === 0}
                       >
                         <CreditCard className="h-3 w-3 mr-1" />
-                        Settle (R{selectedTab.current_total.toFixed(2)})
+                        Settle ({formatMoney(selectedTab.current_total)})
                       </Button>
                       <Button 
                         variant="destructive" 
@@ -503,6 +537,14 @@ const BarTabDialog = ({ open, onClose, cart, userId, onClearCart }: BarTabDialog
         title="Set Spending Limit"
         initialValue={newSpendingLimit}
       />
+
+      <NumberPadDialog
+        open={tipPadOpen}
+        onClose={() => setTipPadOpen(false)}
+        onConfirm={(value) => setTipAmount(Math.max(0, roundMoney(parseFloat(value) || 0)))}
+        title="Enter Tip"
+        initialValue={tipAmount > 0 ? formatAmount(tipAmount) : ''}
+      />
     </>
   );
 };
@@ -0,0 +1,212 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import {
+  DrawerMovement,
+  DrawerMovementType,
+  DrawerSession,
+  MOVEMENT_TYPES,
+  addDrawerMovement,
+  fetchDrawerMovements,
+  getMovementLabel,
+  openDrawer,
+} from "@/lib/cashDrawer";
+import { formatMoney } from "@/lib/money";
+import { formatTime } from "@/lib/dateTime";
+
+interface CashDrawerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  drawer: DrawerSession | null;
+  onDrawerChange: (drawer: DrawerSession) => void;
+}
+
+// Opens the drawer with a float and records drops, pay-ins and pay-outs.
+// The running expected balance is deliberately not shown so the closing count stays blind.
+export function CashDrawerDialog({ open, onOpenChange, drawer, onDrawerChange }: CashDrawerDialogProps) {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [movements, setMovements] = useState<DrawerMovement[]>([]);
+  const [movementType, setMovementType] = useState<DrawerMovementType>('drop');
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open && drawer) {
+      loadMovements(drawer.id);
+    }
+  }, [open, drawer]);
+
+  const loadMovements = async (sessionId: string) => {
+    try {
+      setMovements(await fetchDrawerMovements(sessionId));
+    } catch (error) {
+      console.error('Error loading drawer movements:', error);
+      toast.error("Failed to load drawer movements");
+    }
+  };
+
+  const handleOpenDrawer = async () => {
+    if (!user) return;
+    const float = Number(openingFloat);
+    if (openingFloat === "" || isNaN(float) || float < 0) {
+      toast.error("Enter the opening float (0 if the drawer starts empty)");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const session = await openDrawer(float);
+      onDrawerChange(session);
+      setOpeningFloat("");
+      toast.success(`Drawer opened with a ${formatMoney(float)} float`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error("Failed to open drawer: " + (error instanceof Error ? error.message : "unknown error"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddMovement = async () => {
+    if (!user || !drawer) return;
+    const value = Number(amount);
+    if (!amount || isNaN(value) || value <= 0) {
+      toast.error("Enter an amount greater than zero");
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Please give a reason for this movement");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await addDrawerMovement(drawer.id, user.id, movementType, value, reason.trim());
+      toast.success(`${getMovementLabel(movementType)} of ${formatMoney(value)} recorded`);
+      setAmount("");
+      setReason("");
+      loadMovements(drawer.id);
+    } catch (error) {
+      toast.error("Failed to record movement: " + (error instanceof Error ? error.message : "unknown error"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cash Drawer</DialogTitle>
+          <DialogDescription>
+            {drawer
+              ? `Open since ${formatTime(drawer.opened_at)} with a ${formatMoney(Number(drawer.opening_float))} float`
+              : 'Count the float in the drawer before your first sale'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!drawer ? (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="opening-float">Opening Float *</Label>
+              <Input
+                id="opening-float"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+              />
+            </div>
+            <Button className="w-full" onClick={handleOpenDrawer} disabled={loading || openingFloat === ""}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Open Drawer
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Movement</Label>
+                <Select value={movementType} onValueChange={(value) => setMovementType(value as DrawerMovementType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MOVEMENT_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="movement-amount">Amount *</Label>
+                <Input
+                  id="movement-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {MOVEMENT_TYPES.find(type => type.value === movementType)?.description}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="movement-reason">Reason *</Label>
+              <Input
+                id="movement-reason"
+                placeholder="e.g. Safe drop, bread delivery, change from bank..."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <Button className="w-full" onClick={handleAddMovement} disabled={loading || !amount || !reason.trim()}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record {getMovementLabel(movementType)}
+            </Button>
+
+            {movements.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {movements.map(movement => (
+                    <TableRow key={movement.id}>
+                      <TableCell className="text-sm">{formatTime(movement.created_at)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getMovementLabel(movement.movement_type)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{movement.reason}</TableCell>
+                      <TableCell className="text-right">{formatMoney(Number(movement.amount))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { db } from '@/lib/db';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -64,43 +65,60 @@ export default function ComboSelector({
     }
   }, [open, comboProductId]);
 
+  // Read from the offline menu cache first; fall back to the cloud when the combo is not cached
+  const fetchComboData = async (): Promise<{ comboComponents: ComboComponent[]; comboProducts: Product[] }> => {
+    const cachedCombo = await db.combo_products.where('product_id').equals(comboProductId).first();
+    if (cachedCombo) {
+      const [cachedComponents, cachedProducts] = await Promise.all([
+        db.combo_components.where('combo_product_id').equals(cachedCombo.id).toArray(),
+        db.products.filter(p => p.is_active).toArray(),
+      ]);
+      return {
+        comboComponents: cachedComponents.map(c => ({ ...c, category_id: c.category_id ?? null })),
+        comboProducts: cachedProducts.map(p => ({ id: p.id, name: p.name, category_id: p.category_id ?? null })),
+      };
+    }
+
+    const { data: comboData, error: comboError } = await supabase
+      .from('combo_products')
+      .select('id')
+      .eq('product_id', comboProductId)
+      .single();
+
+    if (comboError) throw comboError;
+    if (!comboData) {
+      return { comboComponents: [], comboProducts: [] };
+    }
+
+    const [componentsRes, productsRes] = await Promise.all([
+      supabase
+        .from('combo_components')
+        .select('*')
+        .eq('combo_product_id', comboData.id),
+      supabase
+        .from('products')
+        .select('id, name, category_id')
+        .eq('is_active', true),
+    ]);
+
+    if (componentsRes.error) throw componentsRes.error;
+    if (productsRes.error) throw productsRes.error;
+
+    return { comboComponents: componentsRes.data || [], comboProducts: productsRes.data || [] };
+  };
+
   const loadComboData = async () => {
     setLoading(true);
     try {
-      const { data: comboData, error: comboError } = await supabase
-        .from('combo_products')
-        .select('id')
-        .eq('product_id', comboProductId)
-        .single();
-
-      if (comboError) throw comboError;
-      if (!comboData) {
-        setComponents([]);
-        setLoading(false);
-        return;
-      }
-
-      const [componentsRes, productsRes] = await Promise.all([
-        supabase
-          .from('combo_components')
-          .select('*')
-          .eq('combo_product_id', comboData.id),
-        supabase
-          .from('products')
-          .select('id, name, category_id')
-          .eq('is_active', true),
-      ]);
-
-      if (componentsRes.error) throw componentsRes.error;
-      if (productsRes.error) throw productsRes.error;
+      const { comboComponents, comboProducts } = await fetchComboData();
 
-      setComponents(componentsRes.data || []);
-      setProducts(productsRes.data || []);
+      setComponents(comboComponents);
+      setProducts(comboProducts);
 
       // Initialize selections with first available product for each component
       const initialSelections = new Map<string, string>();
-      (componentsRes.data || []).forEach(component => {
-        const availableProducts = getAvailableProducts(component);
+      comboComponents.forEach(component => {
+        const availableProducts = getAvailableProducts(component, comboProducts);
         if (availableProducts.length > 0) {
           initialSelections.set(component.id, availableProducts[0].id);
         }
@@ -114,11 +132,11 @@ export default function ComboSelector({
     }
   };
 
-  const getAvailableProducts = (component: ComboComponent): Product[] => {
+  const getAvailableProducts = (component: ComboComponent, productList: Product[] = products): Product[] => {
     if (component.category_id) {
-      return products.filter(p => p.category_id === component.category_id);
+      return productList.filter(p => p.category_id === component.category_id);
     }
-    return products;
+    return productList;
   };
 
   const handleSelectionChange = (componentId: string, productId: string) => {
@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Flame } from 'lucide-react';
+import { AllDayItem, getHeatLevel, getStationLoads } from '@/lib/kitchen';
+
+interface KitchenAllDayPanelProps {
+  items: AllDayItem[];
+}
+
+const HEAT_STYLES = {
+  cool: { bar: 'bg-success', text: 'text-success' },
+  warm: { bar: 'bg-warning', text: 'text-warning' },
+  hot: { bar: 'bg-destructive', text: 'text-destructive' },
+};
+
+/**
+ * "All day" count: how many of each dish are on open tickets per station, so the line can batch
+ * cook, with a heat bar showing how far each station is running behind its prep times
+ */
+export default function KitchenAllDayPanel({ items }: KitchenAllDayPanelProps) {
+  // Elapsed times move on between realtime updates
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const stations = getStationLoads(items, now);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">All Day</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {stations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing on order</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {stations.map(station => {
+              const level = getHeatLevel(station.heat);
+              return (
+                <div key={station.station} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="font-semibold capitalize">{station.station}</p>
+                    <div className={`flex items-center gap-1 text-xs font-semibold ${HEAT_STYLES[level].text}`}>
+                      <Flame className="h-3 w-3" />
+                      {Math.round(station.heat * 100)}%
+                    </div>
+                  </div>
+                  <div className="h-2 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className={`h-full ${HEAT_STYLES[level].bar}`}
+                      style={{ width: `${Math.min(100, Math.round(station.heat * 100))}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {station.pending} waiting · {station.preparing} cooking
+                    {station.overdue > 0 && <span className="text-destructive"> · {station.overdue} overdue</span>}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {station.lines.map(line => (
+                      <Badge key={line.label} variant="secondary" className="text-sm py-1">
+                        <span className="font-bold mr-1">{line.qty}</span> {line.label}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
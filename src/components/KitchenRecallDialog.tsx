@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { BumpScope, KitchenBump, describeBump, fetchRecentBumps, recallBump } from '@/lib/kitchen';
+import { formatTime } from '@/lib/dateTime';
+
+interface KitchenRecallDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Screens fed by realtime pick the change up without this
+  onRecalled?: () => void;
+  // Limits the list to a station's items or to one user's bumps; every recent bump is listed without it
+  scope?: BumpScope;
+}
+
+/**
+ * Recent bumps with who made them and when, so a mistaken bump can be put back
+ */
+export default function KitchenRecallDialog({ open, onOpenChange, onRecalled, scope }: KitchenRecallDialogProps) {
+  const [bumps, setBumps] = useState<KitchenBump[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [recalling, setRecalling] = useState(false);
+
+  useEffect(() => {
+    if (open) loadBumps();
+  }, [open]);
+
+  const loadBumps = async () => {
+    setLoading(true);
+    try {
+      setBumps(await fetchRecentBumps(15, scope));
+    } catch (error) {
+      console.error('Error loading recent bumps:', error);
+      toast.error('Failed to load recent bumps');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRecall = async (bump: KitchenBump) => {
+    setRecalling(true);
+    try {
+      await recallBump(bump);
+      toast.success(`Recalled ${describeBump(bump)}`);
+      onRecalled?.();
+      loadBumps();
+    } catch (error) {
+      console.error('Error recalling bump:', error);
+      toast.error('Failed to recall ticket');
+    } finally {
+      setRecalling(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Recall Ticket</DialogTitle>
+          <DialogDescription>Recent bumps, newest first</DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[420px]">
+          {loading ? (
+            <p className="text-center py-6 text-muted-foreground">Loading...</p>
+          ) : bumps.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">Nothing to recall</p>
+          ) : (
+            <div className="space-y-2">
+              {bumps.map(bump => (
+                <div
+                  key={`${bump.orderId}-${bump.changedAt}-${bump.toStatus}`}
+                  className="flex items-center justify-between gap-3 p-3 border rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm line-clamp-2">{describeBump(bump)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      <Badge variant="outline" className="capitalize mr-2">{bump.fromStatus} → {bump.toStatus}</Badge>
+                      {bump.changedBy || 'Unknown'} at {formatTime(bump.changedAt)}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => handleRecall(bump)} disabled={recalling}>
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Recall
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { LoyaltyCustomer, lookupLoyaltyCustomer } from '@/lib/loyalty';
+import { toast } from 'sonner';
+import { Search, Gift, Loader2 } from 'lucide-react';
+
+interface LoyaltyCustomerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (customer: LoyaltyCustomer) => void;
+}
+
+export default function LoyaltyCustomerDialog({ open, onOpenChange, onSelect }: LoyaltyCustomerDialogProps) {
+  const [phone, setPhone] = useState('');
+  const [name, setName] = useState('');
+  const [customer, setCustomer] = useState<LoyaltyCustomer | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPhone('');
+      setName('');
+      setCustomer(null);
+      setNotFound(false);
+    }
+  }, [open]);
+
+  const handleLookup = async () => {
+    if (!phone.trim()) return;
+
+    setLoading(true);
+    try {
+      const found = await lookupLoyaltyCustomer(phone);
+      setCustomer(found);
+      setNotFound(!found);
+    } catch (error) {
+      console.error('Error looking up customer:', error);
+      toast.error('Customer lookup failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Staff can create customers but not read them back directly, so re-run the lookup
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Enter the customer name');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('customers')
+        .insert({ name: name.trim(), phone: phone.trim() });
+      if (error) throw error;
+
+      const created = await lookupLoyaltyCustomer(phone);
+      setCustomer(created);
+      setNotFound(!created);
+      toast.success('Customer added to loyalty');
+    } catch (error) {
+      console.error('Error creating customer:', error);
+      toast.error('Failed to add customer');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelect = () => {
+    if (!customer) return;
+    onSelect(customer);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Loyalty Customer</DialogTitle>
+          <DialogDescription>Look the customer up by phone number</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Phone number"
+              type="tel"
+              value={phone}
+              onChange={(e) => {
+                setPhone(e.target.value);
+                setNotFound(false);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+            />
+            <Button onClick={handleLookup} disabled={loading || !phone.trim()}>
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            </Button>
+          </div>
+
+          {customer && (
+            <div className="p-3 border rounded-lg flex items-center justify-between">
+              <div>
+                <p className="font-semibold">{customer.name}</p>
+                <p className="text-sm text-muted-foreground">{customer.phone}</p>
+              </div>
+              <div className="flex items-center gap-1 text-primary font-bold">
+                <Gift className="h-4 w-4" />
+                {customer.loyalty_points} pts
+              </div>
+            </div>
+          )}
+
+          {notFound && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">No customer with this number. Add them?</p>
+              <Label htmlFor="loyalty-name">Name</Label>
+              <Input
+                id="loyalty-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Button variant="outline" className="w-full" onClick={handleCreate} disabled={loading}>
+                Add Customer
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSelect} disabled={!customer}>
+            Attach to Sale
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
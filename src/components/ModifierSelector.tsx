@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { db } from '@/lib/db';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
@@ -13,6 +14,7 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
+import { formatMoney } from '@/lib/money';
 
 interface ModifierGroup {
   id: string;
@@ -60,48 +62,78 @@ export default function ModifierSelector({
     }
   }, [open, productId]);
 
+  // Read from the offline menu cache first; fall back to the cloud when nothing is cached
+  const fetchModifierData = async () => {
+    const cachedLinks = await db.product_modifiers.where('product_id').equals(productId).toArray();
+    if (cachedLinks.length > 0) {
+      const groupIds = cachedLinks.map(pm => pm.modifier_group_id);
+      const [groups, mods] = await Promise.all([
+        db.modifier_groups.bulkGet(groupIds),
+        db.modifiers.where('modifier_group_id').anyOf(groupIds).toArray(),
+      ]);
+
+      return {
+        productModifiers: cachedLinks,
+        groups: groups
+          .filter(group => group?.is_active)
+          .sort((a, b) => a.display_order - b.display_order),
+        mods: mods
+          .filter(mod => mod.is_available)
+          .sort((a, b) => a.display_order - b.display_order),
+      };
+    }
+
+    const { data: productModifiers, error: pmError } = await supabase
+      .from('product_modifiers')
+      .select('modifier_group_id, is_required')
+      .eq('product_id', productId);
+
+    if (pmError) throw pmError;
+
+    if (!productModifiers || productModifiers.length === 0) {
+      return { productModifiers: [], groups: [], mods: [] };
+    }
+
+    const groupIds = productModifiers.map(pm => pm.modifier_group_id);
+
+    const [groupsRes, modsRes] = await Promise.all([
+      supabase
+        .from('modifier_groups')
+        .select('*')
+        .in('id', groupIds)
+        .eq('is_active', true),
+      supabase
+        .from('modifiers')
+        .select('*')
+        .in('modifier_group_id', groupIds)
+        .eq('is_available', true),
+    ]);
+
+    if (groupsRes.error) throw groupsRes.error;
+    if (modsRes.error) throw modsRes.error;
+
+    return { productModifiers, groups: groupsRes.data || [], mods: modsRes.data || [] };
+  };
+
   const loadModifiers = async () => {
     setLoading(true);
     try {
-      const { data: productModifiers, error: pmError } = await supabase
-        .from('product_modifiers')
-        .select('modifier_group_id, is_required')
-        .eq('product_id', productId);
+      const { productModifiers, groups, mods } = await fetchModifierData();
 
-      if (pmError) throw pmError;
-
-      if (!productModifiers || productModifiers.length === 0) {
+      if (productModifiers.length === 0) {
         setModifierGroups([]);
         setModifiers([]);
         setLoading(false);
         return;
       }
 
-      const groupIds = productModifiers.map(pm => pm.modifier_group_id);
-
-      const [groupsRes, modsRes] = await Promise.all([
-        supabase
-          .from('modifier_groups')
-          .select('*')
-          .in('id', groupIds)
-          .eq('is_active', true),
-        supabase
-          .from('modifiers')
-          .select('*')
-          .in('modifier_group_id', groupIds)
-          .eq('is_available', true),
-      ]);
-
-      if (groupsRes.error) throw groupsRes.error;
-      if (modsRes.error) throw modsRes.error;
-
-      const groupsWithRequired = (groupsRes.data || []).map(group => ({
+      const groupsWithRequired = groups.map(group => ({
         ...group,
         is_required: productModifiers.find(pm => pm.modifier_group_id === group.id)?.is_required || false,
       })) as ModifierGroup[];
 
       setModifierGroups(groupsWithRequired);
-      setModifiers(modsRes.data || []);
+      setModifiers(mods);
       
       // Initialize selections
       const newSelections = new Map<string, Set<string>>();
@@ -244,7 +276,7 @@ export default function ModifierSelector({
                           {modifier.name}
                           {modifier.price_adjustment !== 0 && (
                             <span className="ml-2 text-sm text-muted-foreground">
-                              {modifier.price_adjustment > 0 ? '+' : ''}R{modifier.price_adjustment.toFixed(2)}
+                              {modifier.price_adjustment > 0 ? '+' : ''}{formatMoney(modifier.price_adjustment)}
                             </span>
                           )}
                         </Label>
@@ -264,7 +296,7 @@ export default function ModifierSelector({
                           {modifier.name}
                           {modifier.price_adjustment !== 0 && (
                             <span className="ml-2 text-sm text-muted-foreground">
-                              {modifier.price_adjustment > 0 ? '+' : ''}R{modifier.price_adjustment.toFixed(2)}
+                              {modifier.price_adjustment > 0 ? '+' : ''}{formatMoney(modifier.price_adjustment)}
                             </span>
                           )}
                         </Label>
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Delete } from 'lucide-react';
+import { formatMoney, getCurrencySymbol, getMoneyFormat } from '@/lib/money';
 
 interface NumberPadDialogProps {
   open: boolean;
@@ -47,6 +48,8 @@ const NumberPadDialog = ({ open, onClose, onConfirm, title = 'Enter Amount', ini
     setValue(amount.toString());
   };
 
+  const symbolBefore = getMoneyFormat().symbolPosition === 'before';
+
   return (
     <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) { setValue(''); onClose(); } }}>
       <DialogContent className="sm:max-w-[320px] p-4">
@@ -57,8 +60,9 @@ const NumberPadDialog = ({ open, onClose, onConfirm, title = 'Enter Amount', ini
         <div className="space-y-3">
           {/* Display */}
           <div className="text-right text-3xl font-bold p-3 bg-muted rounded-lg min-h-[56px] flex items-center justify-end">
-            <span className="text-muted-foreground mr-1">R</span>
+            {symbolBefore && <span className="text-muted-foreground mr-1">{getCurrencySymbol()}</span>}
             {value || '0.00'}
+            {!symbolBefore && <span className="text-muted-foreground ml-1">{getCurrencySymbol()}</span>}
           </div>
 
           {/* Quick amounts */}
@@ -71,7 +75,7 @@ const NumberPadDialog = ({ open, onClose, onConfirm, title = 'Enter Amount', ini
                 className="text-xs"
                 onClick={() => handleQuickAmount(amount)}
               >
-                R{amount}
+                {formatMoney(amount)}
               </Button>
             ))}
           </div>
@@ -6,6 +6,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Trash2, Upload, Save } from 'lucide-react';
 import { toast } from 'sonner';
+import { formatMoney } from '@/lib/money';
+import { formatTime } from '@/lib/dateTime';
 
 export interface ParkedOrder {
   tableNumber: string;
@@ -106,11 +108,6 @@ export default function ParkedOrdersDialog({
     toast.success(`Deleted order from Table ${tableNum}`);
   };
 
-  const formatTime = (isoString: string) => {
-    const date = new Date(isoString);
-    return date.toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit' });
-  };
-
   const sortedOrders = Object.values(parkedOrders).sort(
     (a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime()
   );
@@ -139,7 +136,7 @@ export default function ParkedOrdersDialog({
           </div>
           {currentCart.length > 0 && (
             <p className="text-xs text-muted-foreground">
-              {currentCart.length} items · R{calculateTotal().toFixed(2)}
+              {currentCart.length} items · {formatMoney(calculateTotal())}
             </p>
           )}
         </div>
@@ -170,7 +167,7 @@ export default function ParkedOrdersDialog({
                         </span>
                       </div>
                       <p className="text-xs text-muted-foreground mt-1">
-                        {order.cart.length} items · R{order.total.toFixed(2)}
+                        {order.cart.length} items · {formatMoney(order.total)}
                       </p>
                     </div>
                     <div className="flex gap-1">
@@ -0,0 +1,69 @@
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { PaymentIntent } from '@/lib/payments';
+import { CreditCard, ExternalLink, Loader2, QrCode } from 'lucide-react';
+import { formatMoney } from '@/lib/money';
+
+interface PaymentIntentDialogProps {
+  open: boolean;
+  amount: number;
+  intent: PaymentIntent | null;
+  onCancel: () => void;
+}
+
+const STATUS_MESSAGES: Record<string, string> = {
+  pending: 'Waiting for the card payment',
+  processing: 'Authorising payment...',
+  completed: 'Approved',
+  failed: 'Declined',
+  cancelled: 'Cancelled',
+};
+
+// Shown while the POS waits for the provider; the sale is only saved once the payment is approved
+export default function PaymentIntentDialog({ open, amount, intent, onCancel }: PaymentIntentDialogProps) {
+  const status = intent?.status ?? 'pending';
+  const isQr = intent?.paymentMethod === 'qr';
+
+  return (
+    <Dialog open={open}>
+      <DialogContent className="sm:max-w-[380px]" onInteractOutside={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isQr ? <QrCode className="h-5 w-5" /> : <CreditCard className="h-5 w-5" />}
+            {isQr ? 'Scan to Pay' : 'Card Payment'}
+          </DialogTitle>
+          <DialogDescription>{formatMoney(amount)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-3 py-6">
+          {isQr && intent?.qrImageUrl && status === 'pending' ? (
+            <img src={intent.qrImageUrl} alt="Payment QR code" className="h-60 w-60" />
+          ) : (
+            <Loader2 className="h-10 w-10 animate-spin text-primary" />
+          )}
+          <p className="text-lg font-medium">
+            {!intent ? 'Starting payment...' : isQr && status === 'pending' ? 'Ask the customer to scan the code'
+              : intent.actionUrl && status === 'pending' ? 'Ask the customer to pay on the payment page' : STATUS_MESSAGES[status]}
+          </p>
+          {intent?.actionUrl && !isQr && (
+            <a
+              href={intent.actionUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-primary flex items-center gap-1 underline"
+            >
+              Open payment page
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="w-full" onClick={onCancel} disabled={status === 'processing'}>
+            Cancel Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
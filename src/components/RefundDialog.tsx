@@ -0,0 +1,290 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { TENDER_METHODS } from '@/lib/tenders';
+import { REFUND_REASONS, getRefundAmount, getRefundLineAmount, getRefundReasonLabel, processRefund } from '@/lib/refunds';
+import { printRefundSlip } from '@/lib/printService';
+import { toast } from 'sonner';
+import { Loader2, Minus, Plus } from 'lucide-react';
+import { formatMoney } from '@/lib/money';
+
+export interface RefundDialogSale {
+  id: string;
+  subtotal: number;
+  total: number;
+  refunded_amount: number;
+  status: string;
+  payment_method: string;
+}
+
+interface SaleItem {
+  id: string;
+  product_name: string;
+  qty: number;
+  line_total: number;
+  refunded_qty: number;
+}
+
+interface RefundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sale: RefundDialogSale | null;
+  onRefunded: () => void;
+}
+
+export default function RefundDialog({ open, onOpenChange, sale, onRefunded }: RefundDialogProps) {
+  const { profile } = useAuth();
+  const [items, setItems] = useState<SaleItem[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [isVoid, setIsVoid] = useState(false);
+  const [reasonCode, setReasonCode] = useState('customer_request');
+  const [notes, setNotes] = useState('');
+  const [refundMethod, setRefundMethod] = useState('cash');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open && sale) {
+      setQuantities({});
+      setIsVoid(false);
+      setReasonCode('customer_request');
+      setNotes('');
+      setRefundMethod(TENDER_METHODS.some(m => m.value === sale.payment_method) ? sale.payment_method : 'cash');
+      loadItems(sale.id);
+    }
+  }, [open, sale]);
+
+  const loadItems = async (saleId: string) => {
+    const { data, error } = await supabase
+      .from('sale_items')
+      .select('id, product_name, qty, line_total, refunded_qty')
+      .eq('sale_id', saleId);
+
+    if (error) {
+      console.error('Error loading sale items:', error);
+      toast.error('Failed to load sale items');
+      return;
+    }
+    setItems(data || []);
+  };
+
+  if (!sale) return null;
+
+  const refundable = items.filter(item => item.qty > item.refunded_qty);
+  // A void always takes back everything
+  const selected = isVoid
+    ? Object.fromEntries(refundable.map(item => [item.id, item.qty - item.refunded_qty]))
+    : quantities;
+  const refundAmount = getRefundAmount(sale, refundable, selected);
+  const hasSelection = refundable.some(item => (selected[item.id] || 0) > 0);
+
+  const setQty = (item: SaleItem, qty: number) => {
+    const max = item.qty - item.refunded_qty;
+    setQuantities(prev => ({ ...prev, [item.id]: Math.max(0, Math.min(max, qty)) }));
+  };
+
+  const selectAll = () => {
+    setQuantities(Object.fromEntries(refundable.map(item => [item.id, item.qty - item.refunded_qty])));
+  };
+
+  const handleConfirm = async () => {
+    if (!hasSelection) {
+      toast.error('Select the items to refund');
+      return;
+    }
+    if (reasonCode === 'other' && !notes.trim()) {
+      toast.error('Describe the reason for this refund');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const lines = refundable
+        .filter(item => (selected[item.id] || 0) > 0)
+        .map(item => ({ sale_item_id: item.id, qty: selected[item.id] }));
+
+      const { refundId, providerRefunded } = await processRefund({
+        saleId: sale.id,
+        reasonCode,
+        refundMethod,
+        notes: notes.trim() || undefined,
+        items: isVoid ? undefined : lines,
+        isVoid,
+      });
+
+      printRefundSlip({
+        refundNumber: refundId.slice(0, 8).toUpperCase(),
+        saleReference: sale.id.slice(0, 8).toUpperCase(),
+        refundType: isVoid ? 'void' : 'refund',
+        reason: getRefundReasonLabel(reasonCode),
+        notes: notes.trim() || undefined,
+        items: refundable
+          .filter(item => (selected[item.id] || 0) > 0)
+          .map(item => ({
+            productName: item.product_name,
+            qty: selected[item.id],
+            amount: getRefundLineAmount(sale, item, selected[item.id]),
+          })),
+        amount: refundAmount,
+        refundMethod,
+        processedBy: profile?.full_name,
+        timestamp: new Date(),
+      });
+
+      if (providerRefunded === false) {
+        toast.warning('Refund recorded, but the card refund failed', {
+          description: 'Retry it from the sale once the card provider is reachable',
+        });
+      } else {
+        toast.success(isVoid ? 'Sale voided' : `Refunded ${formatMoney(refundAmount)}`);
+      }
+
+      onRefunded();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Refund failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Refund failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refund Sale #{sale.id.slice(0, 8).toUpperCase()}</DialogTitle>
+          <DialogDescription>
+            {formatMoney(sale.total)} paid
+            {sale.refunded_amount > 0 && `, ${formatMoney(sale.refunded_amount)} already refunded`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {sale.status === 'completed' && (
+            <div className="flex items-center space-x-2">
+              <Switch id="void-sale" checked={isVoid} onCheckedChange={setIsVoid} />
+              <Label htmlFor="void-sale">Void the entire sale</Label>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Items</Label>
+              {!isVoid && (
+                <Button variant="ghost" size="sm" onClick={selectAll}>
+                  Select all
+                </Button>
+              )}
+            </div>
+            {items.map(item => {
+              const remaining = item.qty - item.refunded_qty;
+              const qty = selected[item.id] || 0;
+              return (
+                <div key={item.id} className="flex items-center gap-2 p-2 border rounded">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{item.product_name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.qty} sold{item.refunded_qty > 0 && `, ${item.refunded_qty} refunded`}
+                    </p>
+                  </div>
+                  {remaining > 0 ? (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        className="h-7 w-7"
+                        onClick={() => setQty(item, qty - 1)}
+                        disabled={isVoid || qty === 0}
+                      >
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <Input
+                        type="number"
+                        className="h-7 w-14 text-center"
+                        value={qty}
+                        onChange={(e) => setQty(item, parseInt(e.target.value) || 0)}
+                        disabled={isVoid}
+                      />
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        className="h-7 w-7"
+                        onClick={() => setQty(item, qty + 1)}
+                        disabled={isVoid || qty >= remaining}
+                      >
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Refunded</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reasonCode} onValueChange={setReasonCode}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REFUND_REASONS.map(reason => (
+                    <SelectItem key={reason.value} value={reason.value}>{reason.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Refund To</Label>
+              <Select value={refundMethod} onValueChange={setRefundMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TENDER_METHODS.map(method => (
+                    <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-notes">Notes{reasonCode === 'other' && ' *'}</Label>
+            <Textarea
+              id="refund-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
+            <span className="font-medium">Refund Amount</span>
+            <span className="text-xl font-bold text-destructive">-{formatMoney(refundAmount)}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={loading || !hasSelection}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isVoid ? 'Void Sale' : 'Refund'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Loader2, Printer } from "lucide-react";
+import { PrintableShiftReport, getShiftReportSections, getShiftReportTitle, printShiftReport } from "@/lib/shiftReports";
+import { formatDateTime } from "@/lib/dateTime";
+
+interface ShiftReportDialogProps {
+  report: PrintableShiftReport | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShiftReportDialog({ report, onOpenChange }: ShiftReportDialogProps) {
+  const [printing, setPrinting] = useState(false);
+
+  const handlePrint = async () => {
+    if (!report) return;
+    setPrinting(true);
+    try {
+      await printShiftReport(report);
+    } catch (error) {
+      console.error('Error printing shift report:', error);
+      toast.error("Failed to print report");
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!report} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px] max-h-[90vh] overflow-y-auto">
+        {report && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{getShiftReportTitle(report)}</DialogTitle>
+              <DialogDescription>
+                {report.report.cashier_name} - {formatDateTime(report.report.period_start)} to{' '}
+                {formatDateTime(report.report.period_end)}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              {getShiftReportSections(report.report).map(section => (
+                <div key={section.title}>
+                  <div className="text-sm font-semibold border-b mb-1">{section.title}</div>
+                  {section.rows.map((row, index) => (
+                    <div key={index} className="flex justify-between text-sm">
+                      <span className="text-muted-foreground whitespace-pre">{row.label}</span>
+                      <span>{row.value}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button onClick={handlePrint} disabled={printing}>
+                {printing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Printer className="mr-2 h-4 w-4" />}
+                Print
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,536 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { printOrder, PrintItem } from '@/lib/printService';
+import { calculateShareTax, calculateTax, fetchTaxSettings, getCachedTaxSettings, isTaxInvoice } from '@/lib/tax';
+import { allocateMoney, formatMoney, roundMoney, splitMoneyEvenly, subtractMoney, sumMoney } from '@/lib/money';
+import { TENDER_METHODS, TIPPABLE_METHODS } from '@/lib/tenders';
+import { PaymentIntent } from '@/lib/payments';
+import { useCardPayment } from '@/hooks/useCardPayment';
+import PaymentIntentDialog from '@/components/PaymentIntentDialog';
+import { toast } from 'sonner';
+import { Printer, CheckCircle2, Plus, Loader2 } from 'lucide-react';
+
+export interface SplitBillItem {
+  id: string;
+  product_name: string;
+  qty: number;
+  line_total: number;
+  tax_rate: number;
+  seat_number?: number | null;
+  check_id?: string | null;
+  modifiers?: { modifier_name: string }[];
+}
+
+interface OrderCheck {
+  id: string;
+  check_number: number;
+  label: string;
+  amount: number;
+  status: string;
+}
+
+interface CheckDraft {
+  label: string;
+  amount: number;
+  itemIds: string[];
+}
+
+interface SplitBillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  orderNumber: string;
+  tableNumber?: string;
+  guestCount?: number;
+  // Order-level promotion discount, shared across checks in proportion to their items
+  discountAmount?: number;
+  items: SplitBillItem[];
+  onChanged: () => void;
+}
+
+const MAX_SEATS = 12;
+
+const getItemsTotal = (checkItems: SplitBillItem[]) => sumMoney(checkItems.map(item => item.line_total));
+
+const toTaxLine = (item: SplitBillItem) => ({ amount: item.line_total, rate: item.tax_rate });
+
+export default function SplitBillDialog({
+  open,
+  onOpenChange,
+  orderId,
+  orderNumber,
+  tableNumber,
+  guestCount,
+  discountAmount = 0,
+  items,
+  onChanged,
+}: SplitBillDialogProps) {
+  const { profile } = useAuth();
+  const { cardPayment, takeCardPayment, cancelCardPayment } = useCardPayment();
+  const [checks, setChecks] = useState<OrderCheck[]>([]);
+  const [guests, setGuests] = useState(String(guestCount || 2));
+  const [itemChecks, setItemChecks] = useState<Record<string, number>>({});
+  const [itemCheckCount, setItemCheckCount] = useState(2);
+  const [settleMethods, setSettleMethods] = useState<Record<string, string>>({});
+  const [settleTips, setSettleTips] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [taxSettings, setTaxSettings] = useState(getCachedTaxSettings);
+
+  const inclusive = taxSettings.prices_include_tax;
+  const itemsTotal = getItemsTotal(items);
+  // What the table owes, worked out the same way POS totals a sale
+  const orderTotal = calculateTax(items.map(toTaxLine), inclusive, discountAmount).total;
+
+  // Item-based checks are each priced with their share of the discount and their own VAT, then adjusted
+  // in whole cents so the checks add up to exactly what the order owes
+  const priceChecks = (drafts: CheckDraft[]) => {
+    const discounts = allocateMoney(Math.min(discountAmount, itemsTotal), drafts.map(draft => draft.amount));
+    const totals = drafts.map((draft, index) => calculateTax(
+      items.filter(item => draft.itemIds.includes(item.id)).map(toTaxLine),
+      inclusive,
+      discounts[index]
+    ).total);
+    const amounts = allocateMoney(orderTotal, totals);
+    return drafts.map((draft, index) => ({ ...draft, amount: amounts[index] }));
+  };
+
+  const hasSettled = checks.some(c => c.status === 'settled');
+
+  useEffect(() => {
+    if (open) {
+      loadChecks();
+      fetchTaxSettings().then(setTaxSettings);
+      setGuests(String(guestCount || 2));
+      setItemChecks({});
+      setItemCheckCount(2);
+    }
+  }, [open, orderId]);
+
+  const loadChecks = async () => {
+    const { data, error } = await supabase
+      .from('order_checks')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('check_number');
+
+    if (error) {
+      console.error('Error loading checks:', error);
+      toast.error('Failed to load checks');
+      return;
+    }
+    setChecks((data || []).map(c => ({ ...c, amount: Number(c.amount) })));
+  };
+
+  const saveChecks = async (drafts: CheckDraft[]) => {
+    if (hasSettled) {
+      toast.error('Checks cannot be rebuilt once one has been settled');
+      return;
+    }
+    if (drafts.length === 0) {
+      toast.error('Nothing to split');
+      return;
+    }
+
+    setBusy('save');
+    try {
+      // Old checks are replaced and items assigned in one transaction
+      const { error } = await supabase.rpc('replace_order_checks', {
+        _order_id: orderId,
+        _checks: drafts.map(draft => ({
+          label: draft.label,
+          amount: draft.amount,
+          item_ids: draft.itemIds,
+        })),
+      });
+      if (error) throw error;
+
+      toast.success(`Bill split into ${drafts.length} checks`);
+      await loadChecks();
+      onChanged();
+    } catch (error) {
+      console.error('Error splitting bill:', error);
+      toast.error('Failed to split bill');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const splitByGuests = () => {
+    const parts = parseInt(guests);
+    if (!parts || parts < 2) {
+      toast.error('Enter at least 2 guests');
+      return;
+    }
+    saveChecks(splitMoneyEvenly(orderTotal, parts).map((amount, i) => ({
+      label: `Guest ${i + 1} of ${parts}`,
+      amount,
+      itemIds: [],
+    })));
+  };
+
+  const updateSeat = async (itemId: string, seat: string) => {
+    const { error } = await supabase
+      .from('order_items')
+      .update({ seat_number: seat === 'none' ? null : parseInt(seat) })
+      .eq('id', itemId);
+
+    if (error) {
+      console.error('Error updating seat:', error);
+      toast.error('Failed to update seat');
+      return;
+    }
+    onChanged();
+  };
+
+  const splitBySeat = () => {
+    const seats = new Map<number | null, SplitBillItem[]>();
+    items.forEach(item => {
+      const seat = item.seat_number ?? null;
+      seats.set(seat, [...(seats.get(seat) || []), item]);
+    });
+
+    const ordered = [...seats.entries()].sort(([a], [b]) => (a ?? Infinity) - (b ?? Infinity));
+    saveChecks(priceChecks(ordered.map(([seat, seatItems]) => ({
+      label: seat === null ? 'Shared' : `Seat ${seat}`,
+      amount: getItemsTotal(seatItems),
+      itemIds: seatItems.map(item => item.id),
+    }))));
+  };
+
+  const splitByItem = () => {
+    const unassigned = items.filter(item => itemChecks[item.id] === undefined);
+    if (unassigned.length > 0) {
+      toast.error(`Assign all items to a check (${unassigned.length} left)`);
+      return;
+    }
+
+    const drafts: CheckDraft[] = [];
+    for (let i = 0; i < itemCheckCount; i++) {
+      const checkItems = items.filter(item => itemChecks[item.id] === i);
+      if (checkItems.length === 0) continue;
+      drafts.push({
+        label: `Check ${drafts.length + 1}`,
+        amount: getItemsTotal(checkItems),
+        itemIds: checkItems.map(item => item.id),
+      });
+    }
+    saveChecks(priceChecks(drafts));
+  };
+
+  const assignItem = (itemId: string, checkIndex: number | undefined) => {
+    setItemChecks(prev => {
+      const next = { ...prev };
+      if (checkIndex === undefined) delete next[itemId];
+      else next[itemId] = checkIndex;
+      return next;
+    });
+  };
+
+  const handleDrop = (event: React.DragEvent, checkIndex: number | undefined) => {
+    event.preventDefault();
+    const itemId = event.dataTransfer.getData('text/plain');
+    if (itemId) assignItem(itemId, checkIndex);
+  };
+
+  const printCheck = async (check: OrderCheck) => {
+    const checkItems = items.filter(item => item.check_id === check.id);
+    // The check amount is what is charged, VAT included; an even share has no items of its own, so its
+    // VAT follows the order's mix of rates
+    const tax = calculateShareTax(check.amount, (checkItems.length > 0 ? checkItems : items).map(toTaxLine), inclusive);
+    const subtotal = checkItems.length > 0
+      ? getItemsTotal(checkItems)
+      : inclusive ? check.amount : subtractMoney(check.amount, tax.taxAmount);
+    const discount = inclusive
+      ? subtractMoney(subtotal, check.amount)
+      : subtractMoney(sumMoney([subtotal, tax.taxAmount]), check.amount);
+
+    // Even splits carry no items of their own, so print the share as a single line
+    const printItems: PrintItem[] = checkItems.length > 0
+      ? checkItems.map(item => ({
+          productName: item.product_name,
+          qty: item.qty,
+          price: item.line_total / item.qty,
+          lineTotal: item.line_total,
+          modifiers: item.modifiers?.map(m => m.modifier_name),
+        }))
+      : [{ productName: `${check.label} share of ${formatMoney(orderTotal)}`, qty: 1, price: subtotal, lineTotal: subtotal }];
+
+    await printOrder({
+      orderNumber,
+      orderType: 'dine_in',
+      tableName: `${tableNumber || ''} - ${check.label} (${check.check_number}/${checks.length})`,
+      items: printItems,
+      subtotal,
+      taxAmount: tax.taxAmount,
+      taxInclusive: inclusive,
+      taxBreakdown: tax.breakdown,
+      vatNumber: taxSettings.vat_number,
+      isTaxInvoice: isTaxInvoice(check.amount, taxSettings),
+      discountAmount: discount,
+      total: check.amount,
+      paymentMethod: check.status === 'settled' ? 'paid' : 'due',
+      cashierName: profile?.full_name,
+      timestamp: new Date(),
+    }, { printKitchenTicket: false, printReceipt: true });
+  };
+
+  const settleCheck = async (check: OrderCheck) => {
+    const method = settleMethods[check.id] || 'cash';
+    const tip = TIPPABLE_METHODS.includes(method) ? roundMoney(parseFloat(settleTips[check.id]) || 0) : 0;
+    if (tip < 0) {
+      toast.error('Tip cannot be negative');
+      return;
+    }
+
+    setBusy(check.id);
+    try {
+      // Card checks are charged through the payment provider before the check is settled
+      let transactionId: string | undefined;
+      if (method === 'card') {
+        const intent = await takeCardPayment({ orderId }, sumMoney([check.amount, tip])).catch((error): PaymentIntent => {
+          console.error('Card payment error:', error);
+          return { transactionId: '', status: 'failed', error: error instanceof Error ? error.message : null };
+        });
+        if (intent.status !== 'completed') {
+          toast.error(`Card payment ${intent.status === 'cancelled' ? 'cancelled' : 'failed'}`, {
+            description: intent.error || 'Try again or use another payment method',
+          });
+          return;
+        }
+        transactionId = intent.transactionId;
+      }
+
+      const { data: orderPaid, error } = await supabase.rpc('settle_order_check', {
+        _check_id: check.id,
+        _payment_method: method,
+        _tip_amount: tip,
+        _transaction_id: transactionId,
+      });
+      if (error) throw error;
+
+      toast.success(orderPaid ? 'All checks settled - order paid' : `${check.label} settled`);
+      await loadChecks();
+      onChanged();
+    } catch (error) {
+      console.error('Error settling check:', error);
+      toast.error('Failed to settle check');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const renderItemRow = (item: SplitBillItem) => (
+    <div
+      key={item.id}
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', item.id)}
+      className="flex items-center gap-2 p-2 border rounded text-sm bg-background cursor-grab"
+    >
+      <span className="flex-1 truncate">{item.qty}× {item.product_name}</span>
+      <span className="font-medium">{formatMoney(item.line_total)}</span>
+      <Select
+        value={itemChecks[item.id] === undefined ? 'none' : String(itemChecks[item.id])}
+        onValueChange={(value) => assignItem(item.id, value === 'none' ? undefined : parseInt(value))}
+      >
+        <SelectTrigger className="h-7 w-24 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">-</SelectItem>
+          {Array.from({ length: itemCheckCount }, (_, i) => (
+            <SelectItem key={i} value={String(i)}>Check {i + 1}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Split Bill</DialogTitle>
+          <DialogDescription>
+            Table {tableNumber} · {orderNumber} · {formatMoney(orderTotal)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {checks.length > 0 && (
+          <div className="space-y-2">
+            <Label>Checks</Label>
+            {checks.map(check => (
+              <div key={check.id} className="flex items-center gap-2 p-2 border rounded">
+                <span className="flex-1 font-medium text-sm">
+                  {check.check_number}. {check.label}
+                </span>
+                <span className="font-bold text-sm w-24 text-right">{formatMoney(check.amount)}</span>
+                {check.status === 'settled' ? (
+                  <Badge variant="secondary" className="w-40 justify-center">
+                    <CheckCircle2 className="h-3 w-3 mr-1" />
+                    Settled
+                  </Badge>
+                ) : (
+                  <>
+                    <Select
+                      value={settleMethods[check.id] || 'cash'}
+                      onValueChange={(value) => setSettleMethods(prev => ({ ...prev, [check.id]: value }))}
+                    >
+                      <SelectTrigger className="h-8 w-36 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TENDER_METHODS.map(method => (
+                          <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {TIPPABLE_METHODS.includes(settleMethods[check.id] || 'cash') && (
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Tip"
+                        value={settleTips[check.id] || ''}
+                        onChange={(e) => setSettleTips(prev => ({ ...prev, [check.id]: e.target.value }))}
+                        className="h-8 w-20 text-xs"
+                      />
+                    )}
+                    <Button size="sm" onClick={() => settleCheck(check)} disabled={busy !== null}>
+                      {busy === check.id && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                      Settle
+                    </Button>
+                  </>
+                )}
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => printCheck(check)}>
+                  <Printer className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasSettled ? (
+          <p className="text-sm text-muted-foreground text-center">
+            Settle the remaining checks to close the order
+          </p>
+        ) : (
+          <Tabs defaultValue="even">
+            <TabsList className="grid grid-cols-3 w-full">
+              <TabsTrigger value="even">Evenly</TabsTrigger>
+              <TabsTrigger value="seat">By Seat</TabsTrigger>
+              <TabsTrigger value="item">By Item</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="even" className="space-y-3">
+              <div className="flex items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="split-guests">Guests</Label>
+                  <Input
+                    id="split-guests"
+                    type="number"
+                    min={2}
+                    value={guests}
+                    onChange={(e) => setGuests(e.target.value)}
+                    className="w-24"
+                  />
+                </div>
+                <p className="flex-1 text-sm text-muted-foreground pb-2">
+                  {parseInt(guests) >= 2 && `${splitMoneyEvenly(orderTotal, parseInt(guests)).map(a => formatMoney(a)).join(' / ')}`}
+                </p>
+                <Button onClick={splitByGuests} disabled={busy !== null}>Split</Button>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="seat" className="space-y-3">
+              <ScrollArea className="h-[40vh]">
+                <div className="space-y-1">
+                  {items.map(item => (
+                    <div key={item.id} className="flex items-center gap-2 p-2 border rounded text-sm">
+                      <span className="flex-1 truncate">{item.qty}× {item.product_name}</span>
+                      <span className="font-medium">{formatMoney(item.line_total)}</span>
+                      <Select
+                        value={item.seat_number ? String(item.seat_number) : 'none'}
+                        onValueChange={(value) => updateSeat(item.id, value)}
+                      >
+                        <SelectTrigger className="h-7 w-24 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Shared</SelectItem>
+                          {Array.from({ length: MAX_SEATS }, (_, i) => (
+                            <SelectItem key={i} value={String(i + 1)}>Seat {i + 1}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+              <Button className="w-full" onClick={splitBySeat} disabled={busy !== null}>
+                Split by Seat
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="item" className="space-y-3">
+              <div className="grid grid-cols-3 gap-2">
+                <div
+                  className="space-y-1 p-2 border border-dashed rounded min-h-[120px]"
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => handleDrop(e, undefined)}
+                >
+                  <p className="text-xs font-semibold text-muted-foreground">Unassigned</p>
+                  {items.filter(item => itemChecks[item.id] === undefined).map(renderItemRow)}
+                </div>
+                <ScrollArea className="col-span-2 h-[40vh]">
+                  <div className="grid grid-cols-2 gap-2">
+                    {Array.from({ length: itemCheckCount }, (_, i) => {
+                      const checkItems = items.filter(item => itemChecks[item.id] === i);
+                      return (
+                        <div
+                          key={i}
+                          className="space-y-1 p-2 border rounded min-h-[120px]"
+                          onDragOver={(e) => e.preventDefault()}
+                          onDrop={(e) => handleDrop(e, i)}
+                        >
+                          <p className="text-xs font-semibold">
+                            Check {i + 1} · {formatMoney(getItemsTotal(checkItems))}
+                          </p>
+                          {checkItems.map(renderItemRow)}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </ScrollArea>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setItemCheckCount(count => count + 1)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Check
+                </Button>
+                <Button className="flex-1" onClick={splitByItem} disabled={busy !== null}>
+                  Split by Item
+                </Button>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+
+      <PaymentIntentDialog
+        open={!!cardPayment}
+        amount={cardPayment?.amount ?? 0}
+        intent={cardPayment?.intent ?? null}
+        onCancel={cancelCardPayment}
+      />
+    </Dialog>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState, useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { db, getTerminalId, MAX_SYNC_ATTEMPTS } from '@/lib/db';
+import { retrySaleSync, retryQueuedWrites, reportTerminalSyncStatus } from '@/hooks/useSyncEngine';
+import { toast } from 'sonner';
+import { Download, RefreshCw, Loader2 } from 'lucide-react';
+import { formatMoney } from '@/lib/money';
+import { formatDateTime, formatTime } from '@/lib/dateTime';
+
+interface SyncHealthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface TerminalStatus {
+  terminal_id: string;
+  pending_count: number;
+  dead_letter_count: number;
+  queued_count: number;
+  oldest_pending_at: string | null;
+  last_error: string | null;
+  last_sync_at: string | null;
+  profiles?: {
+    full_name: string;
+  } | null;
+}
+
+export function SyncHealthDialog({ open, onOpenChange }: SyncHealthDialogProps) {
+  const { profile } = useAuth();
+  const isAdmin = profile?.roles?.includes('admin');
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [terminals, setTerminals] = useState<TerminalStatus[]>([]);
+
+  const unsyncedSales = useLiveQuery(
+    async () => (await db.sales.toArray())
+      .filter(s => !s.synced)
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime()),
+    [],
+    []
+  );
+  const queuedWrites = useLiveQuery(() => db.sync_queue.toArray(), [], []);
+
+  useEffect(() => {
+    if (open && isAdmin) {
+      loadTerminals();
+    }
+  }, [open, isAdmin]);
+
+  const loadTerminals = async () => {
+    const { data, error } = await supabase
+      .from('terminal_sync_status')
+      .select('*, profiles(full_name)')
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading terminal sync status:', error);
+      toast.error('Failed to load terminal summary');
+      return;
+    }
+    setTerminals(data || []);
+  };
+
+  const handleRetry = async (saleIds: string[]) => {
+    if (!navigator.onLine) {
+      toast.error('Cannot retry while offline');
+      return;
+    }
+
+    setRetrying(saleIds.length === 1 ? saleIds[0] : 'all');
+    try {
+      let synced = 0;
+      for (const saleId of saleIds) {
+        const result = await retrySaleSync(saleId);
+        if (result.synced) synced++;
+      }
+
+      if (synced === saleIds.length) {
+        toast.success(`Synced ${synced} sale(s)`);
+      } else {
+        toast.error(`${saleIds.length - synced} sale(s) still failing`);
+      }
+
+      await reportTerminalSyncStatus();
+      if (isAdmin) loadTerminals();
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const handleRetryQueue = async () => {
+    if (!navigator.onLine) {
+      toast.error('Cannot retry while offline');
+      return;
+    }
+
+    setRetrying('queue');
+    try {
+      const total = queuedWrites.length;
+      const { synced } = await retryQueuedWrites();
+      if (synced === total) {
+        toast.success(`Synced ${synced} queued write(s)`);
+      } else {
+        toast.error(`${total - synced} queued write(s) still failing`);
+      }
+
+      await reportTerminalSyncStatus();
+      if (isAdmin) loadTerminals();
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const handleExport = async () => {
+    const saleIds = unsyncedSales.map(s => s.id);
+    const items = await db.sale_items.where('sale_id').anyOf(saleIds).toArray();
+    const payload = {
+      terminal_id: getTerminalId(),
+      exported_at: new Date().toISOString(),
+      sales: unsyncedSales.map(sale => ({
+        ...sale,
+        items: items.filter(item => item.sale_id === sale.id),
+      })),
+      sync_queue: queuedWrites,
+    };
+
+    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `unsynced-sales-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const deadLetterCount = unsyncedSales.filter(s => s.dead_letter).length;
+  const queueDeadLetterCount = queuedWrites.filter(entry => entry.dead_letter).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Sync Health</DialogTitle>
+          <DialogDescription>
+            Terminal {getTerminalId().slice(0, 8).toUpperCase()} · sales and queued writes stop retrying automatically after {MAX_SYNC_ATTEMPTS} failed attempts
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="sales">
+          <TabsList>
+            <TabsTrigger value="sales">
+              Unsynced Sales ({unsyncedSales.length})
+            </TabsTrigger>
+            <TabsTrigger value="queue">Queued Writes ({queuedWrites.length})</TabsTrigger>
+            {isAdmin && <TabsTrigger value="terminals">Terminals</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="sales" className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex gap-2">
+                <Badge variant="secondary">{unsyncedSales.length - deadLetterCount} pending</Badge>
+                <Badge variant={deadLetterCount > 0 ? 'destructive' : 'outline'}>{deadLetterCount} dead-letter</Badge>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleExport} disabled={unsyncedSales.length === 0}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export JSON
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => handleRetry(unsyncedSales.map(s => s.id))}
+                  disabled={unsyncedSales.length === 0 || retrying !== null}
+                >
+                  {retrying === 'all' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                  Retry All
+                </Button>
+              </div>
+            </div>
+
+            <ScrollArea className="h-[50vh]">
+              {unsyncedSales.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">All sales are synced</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sale</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Total</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Last Error</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {unsyncedSales.map(sale => (
+                      <TableRow key={sale.id}>
+                        <TableCell className="font-mono text-xs">{sale.id.slice(0, 8).toUpperCase()}</TableCell>
+                        <TableCell className="text-xs">{formatDateTime(sale.created_at)}</TableCell>
+                        <TableCell>{formatMoney(sale.total)}</TableCell>
+                        <TableCell>{sale.sync_attempts}</TableCell>
+                        <TableCell className="text-xs text-destructive max-w-[220px] truncate" title={sale.last_error}>
+                          {sale.last_error || '-'}
+                        </TableCell>
+                        <TableCell>
+                          {sale.dead_letter ? (
+                            <Badge variant="destructive">Dead-letter</Badge>
+                          ) : sale.next_attempt_at ? (
+                            <Badge variant="outline">Retry {formatTime(sale.next_attempt_at)}</Badge>
+                          ) : (
+                            <Badge variant="secondary">Pending</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRetry([sale.id])}
+                            disabled={retrying !== null}
+                          >
+                            {retrying === sale.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="queue" className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex gap-2">
+                <Badge variant="secondary">{queuedWrites.length - queueDeadLetterCount} pending</Badge>
+                <Badge variant={queueDeadLetterCount > 0 ? 'destructive' : 'outline'}>{queueDeadLetterCount} dead-letter</Badge>
+              </div>
+              <Button size="sm" onClick={handleRetryQueue} disabled={queuedWrites.length === 0 || retrying !== null}>
+                {retrying === 'queue' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                Retry All
+              </Button>
+            </div>
+
+            <ScrollArea className="h-[50vh]">
+              {queuedWrites.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No queued writes</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Queued</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Last Error</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {queuedWrites.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell><Badge variant="outline">{entry.type}</Badge></TableCell>
+                        <TableCell className="text-xs">{formatDateTime(entry.created_at)}</TableCell>
+                        <TableCell>{entry.attempts}</TableCell>
+                        <TableCell className="text-xs text-destructive max-w-[260px] truncate" title={entry.error}>
+                          {entry.error || '-'}
+                        </TableCell>
+                        <TableCell>
+                          {entry.dead_letter ? (
+                            <Badge variant="destructive">Dead-letter</Badge>
+                          ) : entry.next_attempt_at ? (
+                            <Badge variant="outline">Retry {formatTime(entry.next_attempt_at)}</Badge>
+                          ) : (
+                            <Badge variant="secondary">Pending</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          {isAdmin && (
+            <TabsContent value="terminals">
+              <ScrollArea className="h-[50vh]">
+                {terminals.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No terminals have reported yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Terminal</TableHead>
+                        <TableHead>Last User</TableHead>
+                        <TableHead>Pending</TableHead>
+                        <TableHead>Dead-letter</TableHead>
+                        <TableHead>Queued</TableHead>
+                        <TableHead>Oldest Pending</TableHead>
+                        <TableHead>Last Sync</TableHead>
+                        <TableHead>Last Error</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {terminals.map(terminal => (
+                        <TableRow key={terminal.terminal_id}>
+                          <TableCell className="font-mono text-xs">{terminal.terminal_id.slice(0, 8).toUpperCase()}</TableCell>
+                          <TableCell>{terminal.profiles?.full_name || 'Unknown'}</TableCell>
+                          <TableCell>{terminal.pending_count}</TableCell>
+                          <TableCell>
+                            <Badge variant={terminal.dead_letter_count > 0 ? 'destructive' : 'outline'}>
+                              {terminal.dead_letter_count}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{terminal.queued_count}</TableCell>
+                          <TableCell className="text-xs">
+                            {terminal.oldest_pending_at ? formatDateTime(terminal.oldest_pending_at) : '-'}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {terminal.last_sync_at ? formatDateTime(terminal.last_sync_at) : '-'}
+                          </TableCell>
+                          <TableCell className="text-xs text-destructive max-w-[180px] truncate" title={terminal.last_error || undefined}>
+                            {terminal.last_error || '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </ScrollArea>
+            </TabsContent>
+          )}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Trash2 } from 'lucide-react';
+import NumberPadDialog from '@/components/NumberPadDialog';
+import { toast } from 'sonner';
+import { LoyaltyCustomer, LoyaltySettings, getPointsForAmount, getPointsValue } from '@/lib/loyalty';
+import { formatAmount, formatMoney, roundMoney, subtractMoney } from '@/lib/money';
+import { LOYALTY_TENDER, TENDER_METHODS, TIPPABLE_METHODS, Tender, getTenderChange, getTenderLabel, getTenderTips, withTip } from '@/lib/tenders';
+
+interface TenderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  total: number;
+  onConfirm: (tenders: Tender[]) => void;
+  loyalty?: { customer: LoyaltyCustomer; settings: LoyaltySettings } | null;
+}
+
+export default function TenderDialog({ open, onOpenChange, total, onConfirm, loyalty }: TenderDialogProps) {
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [padMethod, setPadMethod] = useState<string | null>(null);
+  const [tipIndex, setTipIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setTenders([]);
+    }
+  }, [open]);
+
+  const remaining = Math.max(0, subtractMoney(total, ...tenders.map(t => t.amount)));
+  const change = getTenderChange(tenders);
+  const tips = getTenderTips(tenders);
+  const pointsAvailable = loyalty
+    ? loyalty.customer.loyalty_points - tenders.reduce((sum, t) => sum + (t.points || 0), 0)
+    : 0;
+  const canRedeem = !!loyalty && loyalty.settings.is_enabled &&
+    pointsAvailable > 0 && pointsAvailable >= loyalty.settings.min_redeem_points;
+
+  const addTender = (method: string, value: string) => {
+    const entered = roundMoney(parseFloat(value) || 0);
+    if (!entered || entered <= 0) return;
+
+    if (method !== 'cash' && entered > remaining) {
+      toast.error(`${getTenderLabel(method)} cannot exceed the remaining balance`);
+      return;
+    }
+
+    if (method === LOYALTY_TENDER.value && loyalty) {
+      const points = getPointsForAmount(entered, loyalty.settings);
+      if (points > pointsAvailable) {
+        toast.error(`Only ${pointsAvailable} points (${formatMoney(getPointsValue(pointsAvailable, loyalty.settings))}) available`);
+        return;
+      }
+      if (points < loyalty.settings.min_redeem_points) {
+        toast.error(`At least ${loyalty.settings.min_redeem_points} points must be redeemed`);
+        return;
+      }
+      setTenders([...tenders, { method, amount: entered, points }]);
+      return;
+    }
+
+    // Cash may exceed the balance; only the remaining portion is applied, the rest is change
+    const amount = Math.min(entered, remaining);
+    setTenders([...tenders, { method, amount, tendered: method === 'cash' ? entered : undefined }]);
+  };
+
+  const setTip = (index: number, value: string) => {
+    const tip = roundMoney(parseFloat(value) || 0);
+    if (tip < 0) return;
+    setTenders(tenders.map((t, i) => (i === index ? withTip(t, tip) : t)));
+  };
+
+  const removeTender = (index: number) => {
+    setTenders(tenders.filter((_, i) => i !== index));
+  };
+
+  const handleConfirm = () => {
+    if (remaining > 0) {
+      toast.error('Tenders do not cover the total yet');
+      return;
+    }
+    onConfirm(tenders);
+    onOpenChange(false);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Split Tender</DialogTitle>
+            <DialogDescription>Add payments until the total is covered</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <p className="text-xs text-muted-foreground">Total</p>
+                <p className="text-lg font-bold">{formatMoney(total)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Remaining</p>
+                <p className={`text-lg font-bold ${remaining > 0 ? 'text-destructive' : 'text-green-600 dark:text-green-400'}`}>
+                  {formatMoney(remaining)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Change</p>
+                <p className="text-lg font-bold">{formatMoney(change)}</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {TENDER_METHODS.map(method => (
+                <Button
+                  key={method.value}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPadMethod(method.value)}
+                  disabled={remaining <= 0}
+                >
+                  {method.label}
+                </Button>
+              ))}
+              {canRedeem && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="col-span-3"
+                  onClick={() => setPadMethod(LOYALTY_TENDER.value)}
+                  disabled={remaining <= 0}
+                >
+                  {LOYALTY_TENDER.label} · {pointsAvailable} pts ({formatMoney(getPointsValue(pointsAvailable, loyalty!.settings))})
+                </Button>
+              )}
+            </div>
+
+            <Separator />
+
+            {tenders.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-4">No tenders added</p>
+            ) : (
+              <div className="space-y-1">
+                {tenders.map((tender, index) => (
+                  <div key={index} className="flex items-center gap-2 p-2 border rounded text-sm">
+                    <span className="flex-1 font-medium">{getTenderLabel(tender.method)}</span>
+                    {tender.points !== undefined && (
+                      <span className="text-xs text-muted-foreground">{tender.points} pts</span>
+                    )}
+                    {tender.tendered !== undefined && tender.tendered > tender.amount && (
+                      <span className="text-xs text-muted-foreground">
+                        Tendered {formatMoney(tender.tendered)}
+                      </span>
+                    )}
+                    {TIPPABLE_METHODS.includes(tender.method) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => setTipIndex(index)}
+                      >
+                        {tender.tip ? `Tip ${formatMoney(tender.tip)}` : '+ Tip'}
+                      </Button>
+                    )}
+                    <span className="font-bold w-20 text-right">{formatMoney(tender.amount)}</span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6 text-destructive"
+                      onClick={() => removeTender(index)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                {tips > 0 && (
+                  <p className="text-xs text-muted-foreground text-right pt-1">
+                    Tips {formatMoney(tips)} (not part of the sale)
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={tenders.length === 0 || remaining > 0}>
+              Complete Sale
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <NumberPadDialog
+        open={padMethod !== null}
+        onClose={() => setPadMethod(null)}
+        onConfirm={(value) => padMethod && addTender(padMethod, value)}
+        title={padMethod ? `${getTenderLabel(padMethod)} Amount` : 'Enter Amount'}
+        initialValue={
+          padMethod === LOYALTY_TENDER.value && loyalty
+            ? formatAmount(Math.min(remaining, getPointsValue(pointsAvailable, loyalty.settings)))
+            : remaining > 0 ? formatAmount(remaining) : ''
+        }
+      />
+
+      <NumberPadDialog
+        open={tipIndex !== null}
+        onClose={() => setTipIndex(null)}
+        onConfirm={(value) => tipIndex !== null && setTip(tipIndex, value)}
+        title="Tip Amount"
+        initialValue={tipIndex !== null ? (tenders[tipIndex]?.tip ? formatAmount(tenders[tipIndex].tip!) : '') : ''}
+      />
+    </>
+  );
+}
@@ -0,0 +1,48 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { StoreSettings, applyStoreSettings, clearStoreSettingsCache, fetchStoreSettings, getCachedStoreSettings } from '@/lib/storeSettings';
+
+interface StoreSettingsContextType {
+  settings: StoreSettings;
+  reload: () => Promise<void>;
+}
+
+const StoreSettingsContext = createContext<StoreSettingsContextType | undefined>(undefined);
+
+// Start with the last settings seen on this device so the first paint is already in the store's format
+applyStoreSettings(getCachedStoreSettings());
+
+export const StoreSettingsProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<StoreSettings>(getCachedStoreSettings);
+
+  const load = useCallback(async () => {
+    const loaded = await fetchStoreSettings();
+    // Formatting reads the module-level format, so apply it before re-rendering
+    applyStoreSettings(loaded);
+    setSettings(loaded);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [user, load]);
+
+  const reload = useCallback(async () => {
+    clearStoreSettingsCache();
+    await load();
+  }, [load]);
+
+  return (
+    <StoreSettingsContext.Provider value={{ settings, reload }}>
+      {children}
+    </StoreSettingsContext.Provider>
+  );
+};
+
+export const useStoreSettings = () => {
+  const context = useContext(StoreSettingsContext);
+  if (context === undefined) {
+    throw new Error('useStoreSettings must be used within a StoreSettingsProvider');
+  }
+  return context;
+};
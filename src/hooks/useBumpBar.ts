@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Keys sent by common bump bars, which present themselves as a keyboard
+export const BUMP_BAR_KEYS = {
+  bump: ['Enter', ' '],
+  recall: ['r', 'R', 'Backspace'],
+  next: ['ArrowRight', 'Tab'],
+  previous: ['ArrowLeft'],
+  scrollDown: ['ArrowDown', 'PageDown'],
+  scrollUp: ['ArrowUp', 'PageUp'],
+  allDay: ['a', 'A'],
+};
+
+const BUMP_BAR_STORAGE_KEY = 'kitchen_bump_bar';
+
+// Called on key presses rather than during render, so a screen can set these up before its tickets are known
+interface BumpBarHandlers {
+  getTicketCount: () => number;
+  onBump: (index: number) => void;
+  onRecall: () => void;
+  onToggleAllDay: () => void;
+}
+
+/**
+ * Keyboard and bump bar control for a kitchen screen: 1-9 (0 for the tenth) select a ticket,
+ * then the bump key moves it on. Returns the selected ticket index, or null when nothing is selected.
+ */
+export const useBumpBar = (bumpBarHandlers: BumpBarHandlers) => {
+  const [enabled, setEnabled] = useState(() => localStorage.getItem(BUMP_BAR_STORAGE_KEY) === 'true');
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  // Handlers change every render; the listener reads the latest through this ref
+  const handlers = useRef(bumpBarHandlers);
+  handlers.current = bumpBarHandlers;
+  const selected = useRef(selectedIndex);
+  selected.current = selectedIndex;
+
+  const toggle = () => {
+    localStorage.setItem(BUMP_BAR_STORAGE_KEY, String(!enabled));
+    setEnabled(!enabled);
+    setSelectedIndex(null);
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const { getTicketCount, onBump, onRecall, onToggleAllDay } = handlers.current;
+      const ticketCount = getTicketCount();
+      const selectedIndex = selected.current;
+      const key = event.key;
+
+      if (/^[0-9]$/.test(key)) {
+        const index = key === '0' ? 9 : Number(key) - 1;
+        if (index < ticketCount) setSelectedIndex(index);
+      } else if (BUMP_BAR_KEYS.bump.includes(key)) {
+        if (selectedIndex !== null && selectedIndex < ticketCount) onBump(selectedIndex);
+      } else if (BUMP_BAR_KEYS.recall.includes(key)) {
+        onRecall();
+      } else if (BUMP_BAR_KEYS.next.includes(key)) {
+        if (ticketCount > 0) setSelectedIndex(selectedIndex === null ? 0 : (selectedIndex + 1) % ticketCount);
+      } else if (BUMP_BAR_KEYS.previous.includes(key)) {
+        if (ticketCount > 0) setSelectedIndex(selectedIndex === null ? 0 : (selectedIndex - 1 + ticketCount) % ticketCount);
+      } else if (BUMP_BAR_KEYS.scrollDown.includes(key)) {
+        window.scrollBy({ top: window.innerHeight * 0.8, behavior: 'smooth' });
+      } else if (BUMP_BAR_KEYS.scrollUp.includes(key)) {
+        window.scrollBy({ top: -window.innerHeight * 0.8, behavior: 'smooth' });
+      } else if (BUMP_BAR_KEYS.allDay.includes(key)) {
+        onToggleAllDay();
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+
+  return { enabled, toggle, selectedIndex, setSelectedIndex };
+};
@@ -0,0 +1,35 @@
+import { useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { PaymentIntent, PaymentIntentTarget, createPaymentIntent, waitForPaymentIntent } from '@/lib/payments';
+
+/**
+ * Runs card tenders through the active payment provider. `cardPayment` drives PaymentIntentDialog while
+ * a payment is waiting; cancelling it cancels the intent.
+ */
+export const useCardPayment = () => {
+  const { user } = useAuth();
+  const [cardPayment, setCardPayment] = useState<{ amount: number; intent: PaymentIntent | null } | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  // Resolves with the settled intent
+  const takeCardPayment = async (target: PaymentIntentTarget, amount: number) => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setCardPayment({ amount, intent: null });
+    try {
+      const intent = await createPaymentIntent(target, amount, user!.id);
+      setCardPayment({ amount, intent });
+      return await waitForPaymentIntent(intent.transactionId, {
+        signal: controller.signal,
+        onUpdate: (update) => setCardPayment({ amount, intent: update }),
+      });
+    } finally {
+      abort.current = null;
+      setCardPayment(null);
+    }
+  };
+
+  const cancelCardPayment = () => abort.current?.abort();
+
+  return { cardPayment, takeCardPayment, cancelCardPayment };
+};
@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { KitchenTicketItem, OPEN_ORDER_STATUSES, fetchKitchenTickets } from '@/lib/kitchen';
+
+interface KitchenTicketOptions {
+  enabled: boolean;
+  onOrderCreated?: () => void;
+}
+
+// Insert or replace an extra (modifier or combo selection) on its item
+const upsertExtra = <T extends { id: string }>(extras: T[], extra: T) =>
+  extras.some(existing => existing.id === extra.id)
+    ? extras.map(existing => (existing.id === extra.id ? extra : existing))
+    : [...extras, extra];
+
+type ItemExtras = Pick<KitchenTicketItem, 'modifiers' | 'combo_selections'>;
+
+/**
+ * Live kitchen tickets for the kitchen screens. Loads everything once, then applies each realtime change
+ * to the items in place; only an item or order the screen hasn't seen yet is fetched, for just that order.
+ * Extras for an item that isn't on screen yet are held until its fetch lands, so they can't be lost to it.
+ * Resyncs in full whenever the channel (re)subscribes, since changes made while disconnected were missed.
+ */
+export const useKitchenTickets = ({ enabled, onOrderCreated }: KitchenTicketOptions) => {
+  const [items, setItems] = useState<KitchenTicketItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Realtime callbacks are set up once; they read the latest state through these refs
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const orderCreated = useRef(onOrderCreated);
+  orderCreated.current = onOrderCreated;
+  // Extras that arrived before their item, keyed by order_item_id
+  const pendingExtras = useRef(new Map<string, ItemExtras>());
+
+  const holdExtras = (orderItemId: string, update: (extras: ItemExtras) => ItemExtras) => {
+    const held = pendingExtras.current.get(orderItemId) || { modifiers: [], combo_selections: [] };
+    pendingExtras.current.set(orderItemId, update(held));
+  };
+
+  // Merge held extras into freshly fetched items; the fetch may have run before they were written
+  const withPendingExtras = (fresh: KitchenTicketItem[]) => fresh.map(item => {
+    const held = pendingExtras.current.get(item.id);
+    if (!held) return item;
+    pendingExtras.current.delete(item.id);
+    return {
+      ...item,
+      modifiers: held.modifiers.reduce((mods, mod) => upsertExtra(mods, mod), item.modifiers),
+      combo_selections: held.combo_selections.reduce((sels, sel) => upsertExtra(sels, sel), item.combo_selections),
+    };
+  });
+
+  const reload = async () => {
+    try {
+      setItems(withPendingExtras(await fetchKitchenTickets()));
+      // Anything still held belongs to an item no longer open
+      pendingExtras.current.clear();
+    } catch (error) {
+      console.error('Error loading kitchen tickets:', error);
+      toast.error('Failed to load orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Replace everything held for these orders with a fresh copy, dropping orders that are no longer open
+  const refreshOrders = async (orderIds: string[]) => {
+    try {
+      const fresh = withPendingExtras(
+        (await fetchKitchenTickets(orderIds)).filter(item => OPEN_ORDER_STATUSES.includes(item.order_status)),
+      );
+      setItems(current => [...current.filter(item => !orderIds.includes(item.order_id)), ...fresh]);
+    } catch (error) {
+      console.error('Error refreshing kitchen ticket:', error);
+    }
+  };
+
+  const patchItems = (update: (item: KitchenTicketItem) => KitchenTicketItem) =>
+    setItems(current => current.map(update));
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel('kitchen-tickets')
+      .on<Tables<'order_items'>>('postgres_changes', { event: '*', schema: 'public', table: 'order_items' }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          setItems(current => current.filter(item => item.id !== payload.old.id));
+          return;
+        }
+        const row = payload.new;
+        if (payload.eventType === 'UPDATE' && itemsRef.current.some(item => item.id === row.id)) {
+          patchItems(item => (item.id === row.id ? { ...item, ...row } : item));
+        } else {
+          refreshOrders([row.order_id]);
+        }
+      })
+      .on<Tables<'order_item_modifiers'>>('postgres_changes', { event: '*', schema: 'public', table: 'order_item_modifiers' }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          pendingExtras.current.forEach(held => { held.modifiers = held.modifiers.filter(mod => mod.id !== payload.old.id); });
+          patchItems(item => ({ ...item, modifiers: item.modifiers.filter(mod => mod.id !== payload.old.id) }));
+          return;
+        }
+        const { id, order_item_id, modifier_name, price_adjustment } = payload.new;
+        const modifier = { id, modifier_name, price_adjustment };
+        if (!itemsRef.current.some(item => item.id === order_item_id)) {
+          holdExtras(order_item_id, held => ({ ...held, modifiers: upsertExtra(held.modifiers, modifier) }));
+        }
+        patchItems(item => (item.id === order_item_id
+          ? { ...item, modifiers: upsertExtra(item.modifiers, modifier) }
+          : item));
+      })
+      .on<Tables<'order_item_combo_selections'>>('postgres_changes', { event: '*', schema: 'public', table: 'order_item_combo_selections' }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          pendingExtras.current.forEach(held => {
+            held.combo_selections = held.combo_selections.filter(sel => sel.id !== payload.old.id);
+          });
+          patchItems(item => ({ ...item, combo_selections: item.combo_selections.filter(sel => sel.id !== payload.old.id) }));
+          return;
+        }
+        const { id, order_item_id, selected_product_name, qty } = payload.new;
+        const selection = { id, selected_product_name, qty };
+        if (!itemsRef.current.some(item => item.id === order_item_id)) {
+          holdExtras(order_item_id, held => ({ ...held, combo_selections: upsertExtra(held.combo_selections, selection) }));
+        }
+        patchItems(item => (item.id === order_item_id
+          ? { ...item, combo_selections: upsertExtra(item.combo_selections, selection) }
+          : item));
+      })
+      .on<Tables<'orders'>>('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          setItems(current => current.filter(item => item.order_id !== payload.old.id));
+          return;
+        }
+        if (payload.eventType === 'INSERT') {
+          // New orders have no items yet; those arrive as order_items changes
+          orderCreated.current?.();
+          return;
+        }
+        const order = payload.new;
+        if (!OPEN_ORDER_STATUSES.includes(order.status)) {
+          setItems(current => current.filter(item => item.order_id !== order.id));
+        } else if (itemsRef.current.some(item => item.order_id === order.id)) {
+          patchItems(item => (item.order_id === order.id
+            ? { ...item, order_status: order.status, customer_name: order.customer_name, order_type: order.order_type }
+            : item));
+        } else {
+          // Back open, e.g. recalled from ready
+          refreshOrders([order.id]);
+        }
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') reload();
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled]);
+
+  return { items, loading, reload };
+};
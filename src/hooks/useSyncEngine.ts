@@ -1,38 +1,379 @@
 import { useEffect, useCallback, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { db } from '@/lib/db';
+import { Table } from 'dexie';
+import {
+  db,
+  LocalSale,
+  LocalSaleItem,
+  SyncQueue,
+  SYNC_QUEUE_ORDER,
+  MAX_SYNC_ATTEMPTS,
+  getNextSyncAttempt,
+  getTerminalId
+} from '@/lib/db';
 import { useNetworkStatus } from './useNetworkStatus';
 import { toast } from 'sonner';
+import { roundMoney } from '@/lib/money';
+
+// Menu tables mirrored into Dexie alongside products
+const MENU_SYNC_TABLES = [
+  'categories',
+  'modifier_groups',
+  'modifiers',
+  'product_modifiers',
+  'combo_products',
+  'combo_components',
+  'promotions'
+] as const;
+
+type MenuSyncTable = typeof MENU_SYNC_TABLES[number];
+
+// PostgREST caps responses, so deltas are fetched page by page
+const SYNC_PAGE_SIZE = 1000;
+
+const fetchAllPages = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += SYNC_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + SYNC_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < SYNC_PAGE_SIZE) return rows;
+  }
+};
+
+const getSyncCursor = async (entity: string) => (await db.sync_state.get(entity))?.cursor;
+
+const setSyncCursor = async (entity: string, rows: { updated_at: string }[]) => {
+  if (rows.length === 0) return;
+  const cursor = rows.reduce((max, row) => row.updated_at > max ? row.updated_at : max, '');
+  await db.sync_state.put({ entity, cursor, synced_at: new Date() });
+};
+
+// Store a pulled delta; the first pull has no cursor and replaces the whole table
+const applyDelta = async (table: Table<{ id: string }, string>, rows: { id: string }[], isFullSync: boolean) => {
+  await db.transaction('rw', table, async () => {
+    await table.bulkPut(rows);
+    if (isFullSync) {
+      const keep = new Set(rows.map(row => row.id));
+      const stale = (await table.toCollection().primaryKeys()).filter(id => !keep.has(id));
+      await table.bulkDelete(stale);
+    }
+  });
+};
+
+// Quantities sold on this terminal that the cloud has not seen yet
+const getPendingStockQty = async () => {
+  const pendingSaleIds = (await db.sales.toArray()).filter(s => !s.synced).map(s => s.id);
+  const pendingItems = await db.sale_items.where('sale_id').anyOf(pendingSaleIds).toArray();
+  const pending = new Map<string, number>();
+  pendingItems.forEach(item => pending.set(item.product_id, (pending.get(item.product_id) || 0) + item.qty));
+  return pending;
+};
+
+// Tombstones are applied once each, so the cursor is strictly after the last one seen, tie-broken on id
+const syncTombstonesFromCloud = async () => {
+  const state = await db.sync_state.get('sync_tombstones');
+  const tombstones = await fetchAllPages((from, to) => {
+    let query = supabase.from('sync_tombstones').select('*');
+    if (state?.cursor_id) {
+      query = query.or(
+        `deleted_at.gt."${state.cursor}",and(deleted_at.eq."${state.cursor}",id.gt.${state.cursor_id})`
+      );
+    } else if (state) {
+      // Cursor saved before the id tie-break; re-reads its last tombstone once
+      query = query.gte('deleted_at', state.cursor);
+    }
+    return query.order('deleted_at').order('id').range(from, to);
+  });
+
+  for (const tombstone of tombstones) {
+    if (tombstone.table_name !== 'products' && !(MENU_SYNC_TABLES as readonly string[]).includes(tombstone.table_name)) continue;
+    const table = db.table(tombstone.table_name);
+    // A row changed since it was removed, e.g. reactivated, outlives its tombstone
+    const local = await table.get(tombstone.record_id);
+    if (local?.updated_at && new Date(local.updated_at) > new Date(tombstone.deleted_at)) continue;
+    await table.delete(tombstone.record_id);
+  }
+
+  const last = tombstones[tombstones.length - 1];
+  if (last) {
+    await db.sync_state.put({ entity: 'sync_tombstones', cursor: last.deleted_at, cursor_id: last.id, synced_at: new Date() });
+  }
+};
+
+const syncProductsFromCloud = async () => {
+  const cursor = await getSyncCursor('products');
+  const products = await fetchAllPages((from, to) => {
+    let query = supabase.from('products').select('*, categories(name)').eq('is_active', true);
+    if (cursor) query = query.gte('updated_at', cursor);
+    return query.order('updated_at').range(from, to);
+  });
+
+  // Keep offline sales deducted until they reach the cloud
+  const pendingQty = await getPendingStockQty();
+  await applyDelta(
+    db.products,
+    products.map(({ categories, ...p }) => ({
+      ...p,
+      category_name: categories?.name || null,
+      stock_qty: Math.max(0, p.stock_qty - (pendingQty.get(p.id) || 0)),
+      synced_at: new Date()
+    })),
+    !cursor
+  );
+  await setSyncCursor('products', products);
+};
+
+const syncMenuTableFromCloud = async (table: MenuSyncTable) => {
+  const cursor = await getSyncCursor(table);
+  const rows = await fetchAllPages((from, to) => {
+    let query = supabase.from(table).select('*');
+    if (cursor) query = query.gte('updated_at', cursor);
+    return query.order('updated_at').range(from, to);
+  });
+
+  await applyDelta(db.table(table), rows, !cursor);
+  await setSyncCursor(table, rows);
+};
+
+// Commit a locally recorded sale through the commit_sale RPC; safe to retry.
+// Amounts go up in whole cents so the stored sale matches the printed receipt
+export const commitSaleToCloud = async (sale: LocalSale, items: LocalSaleItem[]) => {
+  const { error } = await supabase.rpc('commit_sale', {
+    _sale: {
+      id: sale.id,
+      cashier_id: sale.cashier_id,
+      subtotal: roundMoney(sale.subtotal),
+      tax_amount: roundMoney(sale.tax_amount),
+      discount_amount: roundMoney(sale.discount_amount),
+      total: roundMoney(sale.total),
+      payment_method: sale.payment_method,
+      notes: sale.notes ?? null,
+      created_at: sale.created_at.toISOString()
+    },
+    _items: items.map(item => ({
+      id: item.id,
+      product_id: item.product_id,
+      product_name: item.product_name,
+      product_sku: item.product_sku,
+      qty: item.qty,
+      price_at_sale: roundMoney(item.price_at_sale),
+      cost_at_sale: item.cost_at_sale,
+      tax_rate: item.tax_rate,
+      line_total: roundMoney(item.line_total)
+    }))
+  });
+
+  if (error) throw error;
+};
+
+// Sync one local sale, recording the error and scheduling a backoff retry on failure
+export const syncSale = async (sale: LocalSale) => {
+  try {
+    const saleItems = await db.sale_items.where('sale_id').equals(sale.id).toArray();
+
+    // Commit sale, items and stock in one idempotent transaction
+    await commitSaleToCloud(sale, saleItems);
+
+    // Mark as synced in local DB
+    await db.sales.update(sale.id, {
+      synced: true,
+      sync_attempts: 0,
+      last_error: undefined,
+      next_attempt_at: undefined,
+      dead_letter: false
+    });
+
+    console.log(`Sale ${sale.id} synced successfully`);
+    return { synced: true, deadLetter: false };
+  } catch (error) {
+    console.error(`Error syncing sale ${sale.id}:`, error);
+    const attempts = sale.sync_attempts + 1;
+    const deadLetter = attempts >= MAX_SYNC_ATTEMPTS;
+    const now = new Date();
+    await db.sales.update(sale.id, {
+      sync_attempts: attempts,
+      last_error: error instanceof Error ? error.message : (error as { message?: string })?.message || String(error),
+      last_attempt_at: now,
+      next_attempt_at: deadLetter ? undefined : getNextSyncAttempt(attempts, now),
+      dead_letter: deadLetter
+    });
+    return { synced: false, deadLetter };
+  }
+};
+
+// Manual retry from the sync health panel; also lifts a sale out of dead-letter
+export const retrySaleSync = async (saleId: string) => {
+  await db.sales.update(saleId, { sync_attempts: 0, next_attempt_at: undefined, dead_letter: false });
+  const sale = await db.sales.get(saleId);
+  return sale ? syncSale(sale) : { synced: false, deadLetter: false };
+};
+
+// Report this terminal's backlog so admins can see sync health per terminal
+export const reportTerminalSyncStatus = async () => {
+  try {
+    const unsynced = (await db.sales.toArray()).filter(s => !s.synced);
+    const queuedCount = await db.sync_queue.count();
+    const oldest = unsynced.reduce<Date | null>(
+      (min, s) => (!min || s.created_at < min ? s.created_at : min),
+      null
+    );
+    const lastFailed = unsynced
+      .filter(s => s.last_error)
+      .sort((a, b) => (b.last_attempt_at?.getTime() || 0) - (a.last_attempt_at?.getTime() || 0))[0];
+
+    // Written server-side so any cashier signed in on a shared terminal can update its row
+    const { error } = await supabase.rpc('report_terminal_sync_status', {
+      _terminal_id: getTerminalId(),
+      _pending_count: unsynced.filter(s => !s.dead_letter).length,
+      _dead_letter_count: unsynced.filter(s => s.dead_letter).length,
+      _queued_count: queuedCount,
+      _oldest_pending_at: oldest?.toISOString() ?? null,
+      _last_error: lastFailed?.last_error ?? null
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error reporting terminal sync status:', error);
+  }
+};
+
+// Parent rows each queued write depends on; children of a failed parent wait for the next run
+const getQueueParentIds = (entry: SyncQueue): string[] => {
+  switch (entry.type) {
+    case 'order_item':
+      return [entry.data.order_id];
+    case 'order_item_modifier':
+      return [entry.data.order_item_id];
+    case 'payment':
+    case 'loyalty_sale':
+      // Both point at the sale, which is committed outside the queue
+      return [entry.data.order_id, entry.data.sale_id].filter(Boolean);
+    case 'promotion_usage':
+      return [entry.data.order_id];
+    default:
+      return [];
+  }
+};
+
+const pushQueueEntry = async (entry: SyncQueue) => {
+  switch (entry.type) {
+    case 'order':
+      return supabase.from('orders').upsert(entry.data, { onConflict: 'id', ignoreDuplicates: true });
+    case 'order_item':
+      return supabase.from('order_items').upsert(entry.data, { onConflict: 'id', ignoreDuplicates: true });
+    case 'order_item_modifier':
+      return supabase.from('order_item_modifiers').upsert(entry.data, { onConflict: 'id', ignoreDuplicates: true });
+    case 'payment':
+      return supabase.from('payments').upsert(entry.data, { onConflict: 'id', ignoreDuplicates: true });
+    case 'promotion_usage':
+      // Usage counts are incremented server-side, once per promotion and order
+      return supabase.rpc('record_promotion_usage', {
+        _promotion_id: entry.data.promotion_id,
+        _order_id: entry.data.order_id,
+        _customer_id: entry.data.customer_id ?? undefined,
+        _discount_applied: entry.data.discount_applied,
+      });
+    case 'loyalty_sale':
+      // Replays are safe: the ledger allows one earn and one redeem per sale
+      return supabase.rpc('record_loyalty_sale', {
+        _customer_id: entry.data.customer_id,
+        _sale_id: entry.data.sale_id,
+        _order_id: entry.data.order_id,
+        _amount_paid: entry.data.amount_paid,
+        _points_redeemed: entry.data.points_redeemed,
+      });
+    default:
+      throw new Error(`Unsupported sync queue type: ${entry.type}`);
+  }
+};
+
+/**
+ * Push due queued writes in dependency order. Children of a write that fails, is backing off or is
+ * dead-lettered wait with it.
+ */
+const replaySyncQueue = async () => {
+  const now = new Date();
+  const entries = await db.sync_queue
+    .where('type')
+    .anyOf([...SYNC_QUEUE_ORDER])
+    .toArray();
+
+  entries.sort((a, b) =>
+    SYNC_QUEUE_ORDER.indexOf(a.type as typeof SYNC_QUEUE_ORDER[number]) -
+      SYNC_QUEUE_ORDER.indexOf(b.type as typeof SYNC_QUEUE_ORDER[number]) ||
+    (a.id ?? 0) - (b.id ?? 0)
+  );
+
+  // Sales not yet committed hold their payments and loyalty the same way a failed queued parent does
+  const heldIds = new Set<string>((await db.sales.toArray()).filter(s => !s.synced).map(s => s.id));
+  let synced = 0;
+  let deadLetter = 0;
+
+  for (const entry of entries) {
+    if (
+      getQueueParentIds(entry).some(parentId => heldIds.has(parentId)) ||
+      entry.dead_letter ||
+      (entry.next_attempt_at && entry.next_attempt_at > now)
+    ) {
+      heldIds.add(entry.data.id);
+      continue;
+    }
+
+    try {
+      const { error } = await pushQueueEntry(entry);
+      if (error) throw error;
+
+      await db.sync_queue.delete(entry.id!);
+      synced++;
+    } catch (error) {
+      console.error(`Error syncing queued ${entry.type} ${entry.data.id}:`, error);
+      heldIds.add(entry.data.id);
+      const attempts = entry.attempts + 1;
+      const isDeadLetter = attempts >= MAX_SYNC_ATTEMPTS;
+      if (isDeadLetter) deadLetter++;
+      await db.sync_queue.update(entry.id!, {
+        attempts,
+        last_attempt: now,
+        next_attempt_at: isDeadLetter ? undefined : getNextSyncAttempt(attempts, now),
+        dead_letter: isDeadLetter,
+        error: error instanceof Error ? error.message : (error as { message?: string })?.message || String(error)
+      });
+    }
+  }
+
+  return { synced, deadLetter };
+};
+
+// Manual retry from the sync health panel; also lifts queued writes out of dead-letter
+export const retryQueuedWrites = async () => {
+  await db.sync_queue.toCollection().modify(entry => {
+    entry.attempts = 0;
+    entry.dead_letter = false;
+    delete entry.next_attempt_at;
+  });
+  return replaySyncQueue();
+};
 
 export const useSyncEngine = (userId: string | undefined) => {
   const { isOnline, wasOffline } = useNetworkStatus();
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSync, setLastSync] = useState<Date | null>(null);
 
-  // Sync products from cloud to local
-  const syncProductsFromCloud = useCallback(async () => {
+  // Pull menu changes since this terminal's cursors: tombstones first, then upserts
+  const syncMenuFromCloud = useCallback(async () => {
     if (!isOnline || !userId) return;
 
     try {
-      const { data: products, error } = await supabase
-        .from('products')
-        .select('*, categories(name)')
-        .eq('is_active', true);
-
-      if (error) throw error;
-
-      if (products) {
-        await db.products.clear();
-        await db.products.bulkAdd(
-          products.map(p => ({
-            ...p,
-            category_name: p.categories?.name || null,
-            synced_at: new Date()
-          }))
-        );
+      await syncTombstonesFromCloud();
+      await syncProductsFromCloud();
+      for (const table of MENU_SYNC_TABLES) {
+        await syncMenuTableFromCloud(table);
       }
     } catch (error) {
-      console.error('Error syncing products from cloud:', error);
+      console.error('Error syncing menu from cloud:', error);
     }
   }, [isOnline, userId]);
 
@@ -41,105 +382,66 @@ export const useSyncEngine = (userId: string | undefined) => {
     if (!isOnline || !userId) return;
 
     try {
+      const now = new Date();
       const allSales = await db.sales.toArray();
-      const pendingSales = allSales.filter(s => !s.synced);
+      // Dead-lettered sales wait for a manual retry; others wait out their backoff
+      const pendingSales = allSales.filter(s =>
+        !s.synced && !s.dead_letter && (!s.next_attempt_at || s.next_attempt_at <= now)
+      );
 
+      let syncedCount = 0;
+      let deadLetterCount = 0;
       for (const sale of pendingSales) {
-        try {
-          // Get sale items
-          const saleItems = await db.sale_items.where('sale_id').equals(sale.id).toArray();
-
-          // Upsert sale to cloud (handles retries and duplicate prevention)
-          const { data: cloudSale, error: saleError } = await supabase
-            .from('sales')
-            .upsert({
-              id: sale.id,
-              cashier_id: sale.cashier_id,
-              subtotal: sale.subtotal,
-              tax_amount: sale.tax_amount,
-              discount_amount: sale.discount_amount,
-              total: sale.total,
-              payment_method: sale.payment_method,
-              notes: sale.notes,
-              created_at: sale.created_at.toISOString(),
-              synced_at: new Date().toISOString()
-            }, {
-              onConflict: 'id'
-            })
-            .select()
-            .single();
-
-          if (saleError) throw saleError;
-
-          // Upsert sale items (handles retries and duplicate prevention)
-          const { error: itemsError } = await supabase
-            .from('sale_items')
-            .upsert(
-              saleItems.map(item => ({
-                id: item.id,
-                sale_id: item.sale_id,
-                product_id: item.product_id,
-                product_name: item.product_name,
-                product_sku: item.product_sku,
-                qty: item.qty,
-                price_at_sale: item.price_at_sale,
-                cost_at_sale: item.cost_at_sale,
-                tax_rate: item.tax_rate,
-                line_total: item.line_total
-              })),
-              {
-                onConflict: 'id'
-              }
-            );
-
-          if (itemsError) throw itemsError;
-
-          // Update stock quantities
-          for (const item of saleItems) {
-            const { data: product } = await supabase
-              .from('products')
-              .select('stock_qty')
-              .eq('id', item.product_id)
-              .single();
-
-            if (product) {
-              await supabase
-                .from('products')
-                .update({ stock_qty: product.stock_qty - item.qty })
-                .eq('id', item.product_id);
-            }
-          }
-
-          // Mark as synced in local DB
-          await db.sales.update(sale.id, { synced: true, sync_attempts: 0 });
-          
-          console.log(`Sale ${sale.id} synced successfully`);
-        } catch (error) {
-          console.error(`Error syncing sale ${sale.id}:`, error);
-          await db.sales.update(sale.id, { 
-            sync_attempts: sale.sync_attempts + 1 
-          });
-        }
+        const result = await syncSale(sale);
+        if (result.synced) syncedCount++;
+        if (result.deadLetter) deadLetterCount++;
       }
 
-      if (pendingSales.length > 0) {
-        toast.success(`Synced ${pendingSales.length} sale(s) to cloud`);
+      if (syncedCount > 0) {
+        toast.success(`Synced ${syncedCount} sale(s) to cloud`);
+      }
+      if (deadLetterCount > 0) {
+        toast.error(`${deadLetterCount} sale(s) failed to sync after ${MAX_SYNC_ATTEMPTS} attempts`, {
+          description: 'Open Sync Health to retry or export them'
+        });
       }
+
+      await reportTerminalSyncStatus();
     } catch (error) {
       console.error('Error syncing sales to cloud:', error);
       toast.error('Failed to sync some sales');
     }
   }, [isOnline, userId]);
 
+  // Replay queued order and payment writes to cloud in dependency order
+  const syncQueueToCloud = useCallback(async () => {
+    if (!isOnline || !userId) return;
+
+    try {
+      const { synced, deadLetter } = await replaySyncQueue();
+      if (synced > 0) {
+        console.log(`Synced ${synced} queued order/payment write(s)`);
+      }
+      if (deadLetter > 0) {
+        toast.error(`${deadLetter} queued write(s) failed to sync after ${MAX_SYNC_ATTEMPTS} attempts`, {
+          description: 'Open Sync Health to retry or export them'
+        });
+      }
+    } catch (error) {
+      console.error('Error syncing queue to cloud:', error);
+    }
+  }, [isOnline, userId]);
+
   // Main sync function
   const sync = useCallback(async () => {
     if (!isOnline || !userId || isSyncing) return;
 
     setIsSyncing(true);
     try {
+      // Queued payments reference their sale, so sales are committed before the queue replays
       await Promise.all([
-        syncProductsFromCloud(),
-        syncSalesToCloud()
+        syncMenuFromCloud(),
+        syncSalesToCloud().then(syncQueueToCloud)
       ]);
       setLastSync(new Date());
     } catch (error) {
@@ -147,7 +449,7 @@ export const useSyncEngine = (userId: string | undefined) => {
     } finally {
       setIsSyncing(false);
     }
-  }, [isOnline, userId, isSyncing, syncProductsFromCloud, syncSalesToCloud]);
+  }, [isOnline, userId, isSyncing, syncMenuFromCloud, syncSalesToCloud, syncQueueToCloud]);
 
   // Auto-sync when coming back online
   useEffect(() => {
@@ -80,9 +80,11 @@ export type Database = {
           notes: string | null
           opened_at: string
           opened_by: string
+          payment_method: string | null
           spending_limit: number
           status: string
           table_id: string | null
+          tip_amount: number
           updated_at: string
         }
         Insert: {
@@ -96,9 +98,11 @@ export type Database = {
           notes?: string | null
           opened_at?: string
           opened_by: string
+          payment_method?: string | null
           spending_limit: number
           status?: string
           table_id?: string | null
+          tip_amount?: number
           updated_at?: string
         }
         Update: {
@@ -112,9 +116,11 @@ export type Database = {
           notes?: string | null
           opened_at?: string
           opened_by?: string
+          payment_method?: string | null
           spending_limit?: number
           status?: string
           table_id?: string | null
+          tip_amount?: number
           updated_at?: string
         }
         Relationships: [
@@ -127,24 +133,197 @@ export type Database = {
           },
         ]
       }
+      business_days: {
+        Row: {
+          actual_cash: number | null
+          business_date: string
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          eod_count: number | null
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          status: string
+          total_refunds: number | null
+          total_sales: number | null
+          total_tips: number | null
+          updated_at: string
+        }
+        Insert: {
+          actual_cash?: number | null
+          business_date: string
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          eod_count?: number | null
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          status?: string
+          total_refunds?: number | null
+          total_sales?: number | null
+          total_tips?: number | null
+          updated_at?: string
+        }
+        Update: {
+          actual_cash?: number | null
+          business_date?: string
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          eod_count?: number | null
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          status?: string
+          total_refunds?: number | null
+          total_sales?: number | null
+          total_tips?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_days_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_drawer_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string
+          id: string
+          movement_type: string
+          reason: string
+          session_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by: string
+          id?: string
+          movement_type: string
+          reason: string
+          session_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string
+          id?: string
+          movement_type?: string
+          reason?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_drawer_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_drawer_movements_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "cash_drawer_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_drawer_sessions: {
+        Row: {
+          business_day_id: string | null
+          cashier_id: string
+          closed_at: string | null
+          count_breakdown: Json | null
+          counted_cash: number | null
+          created_at: string
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opening_float: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          business_day_id?: string | null
+          cashier_id: string
+          closed_at?: string | null
+          count_breakdown?: Json | null
+          counted_cash?: number | null
+          created_at?: string
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opening_float?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          business_day_id?: string | null
+          cashier_id?: string
+          closed_at?: string | null
+          count_breakdown?: Json | null
+          counted_cash?: number | null
+          created_at?: string
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opening_float?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_drawer_sessions_cashier_id_fkey"
+            columns: ["cashier_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_drawer_sessions_business_day_id_fkey"
+            columns: ["business_day_id"]
+            isOneToOne: false
+            referencedRelation: "business_days"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           created_at: string
           description: string | null
           id: string
           name: string
+          updated_at: string
         }
         Insert: {
           created_at?: string
           description?: string | null
           id?: string
           name: string
+          updated_at?: string
         }
         Update: {
           created_at?: string
           description?: string | null
           id?: string
           name?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -157,6 +336,7 @@ export type Database = {
           created_at: string
           id: string
           qty: number
+          updated_at: string
         }
         Insert: {
           allows_substitution?: boolean
@@ -166,6 +346,7 @@ export type Database = {
           created_at?: string
           id?: string
           qty?: number
+          updated_at?: string
         }
         Update: {
           allows_substitution?: boolean
@@ -175,6 +356,7 @@ export type Database = {
           created_at?: string
           id?: string
           qty?: number
+          updated_at?: string
         }
         Relationships: [
           {
@@ -394,54 +576,69 @@ export type Database = {
         Row: {
           actual_cash: number | null
           admin_notes: string | null
+          business_day_id: string | null
           cash_difference: number | null
           cashier_id: string
           cashier_notes: string | null
           created_at: string
+          drawer_session_id: string | null
           expected_cash: number
           id: string
           reviewed_at: string | null
           reviewed_by: string | null
+          rolled_from_day_id: string | null
           shift_date: string
           status: string
           submitted_at: string | null
+          total_refunds: number
           total_sales: number
+          total_tips: number
           total_transactions: number
           updated_at: string
         }
         Insert: {
           actual_cash?: number | null
           admin_notes?: string | null
+          business_day_id?: string | null
           cash_difference?: number | null
           cashier_id: string
           cashier_notes?: string | null
           created_at?: string
+          drawer_session_id?: string | null
           expected_cash?: number
           id?: string
           reviewed_at?: string | null
           reviewed_by?: string | null
+          rolled_from_day_id?: string | null
           shift_date?: string
           status?: string
           submitted_at?: string | null
+          total_refunds?: number
           total_sales?: number
+          total_tips?: number
           total_transactions?: number
           updated_at?: string
         }
         Update: {
           actual_cash?: number | null
           admin_notes?: string | null
+          business_day_id?: string | null
           cash_difference?: number | null
           cashier_id?: string
           cashier_notes?: string | null
           created_at?: string
+          drawer_session_id?: string | null
           expected_cash?: number
           id?: string
           reviewed_at?: string | null
           reviewed_by?: string | null
+          rolled_from_day_id?: string | null
           shift_date?: string
           status?: string
           submitted_at?: string | null
+          total_refunds?: number
           total_sales?: number
+          total_tips?: number
           total_transactions?: number
           updated_at?: string
         }
@@ -474,6 +671,27 @@ export type Database = {
             referencedRelation: "profiles_safe"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "eod_sessions_drawer_session_id_fkey"
+            columns: ["drawer_session_id"]
+            isOneToOne: false
+            referencedRelation: "cash_drawer_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "eod_sessions_business_day_id_fkey"
+            columns: ["business_day_id"]
+            isOneToOne: false
+            referencedRelation: "business_days"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "eod_sessions_rolled_from_day_id_fkey"
+            columns: ["rolled_from_day_id"]
+            isOneToOne: false
+            referencedRelation: "business_days"
+            referencedColumns: ["id"]
+          },
         ]
       }
       floor_plans: {
@@ -555,114 +773,353 @@ export type Database = {
           },
         ]
       }
-      modifier_groups: {
+      kitchen_status_events: {
         Row: {
+          changed_by: string | null
           created_at: string
-          display_order: number
+          from_status: Database["public"]["Enums"]["order_status"]
           id: string
-          is_active: boolean
-          max_selections: number | null
-          min_selections: number
-          name: string
-          selection_type: string
-          updated_at: string
+          order_id: string
+          order_item_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
         }
         Insert: {
+          changed_by?: string | null
           created_at?: string
-          display_order?: number
+          from_status: Database["public"]["Enums"]["order_status"]
           id?: string
-          is_active?: boolean
-          max_selections?: number | null
-          min_selections?: number
-          name: string
-          selection_type: string
-          updated_at?: string
+          order_id: string
+          order_item_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
         }
         Update: {
+          changed_by?: string | null
           created_at?: string
-          display_order?: number
+          from_status?: Database["public"]["Enums"]["order_status"]
           id?: string
-          is_active?: boolean
-          max_selections?: number | null
-          min_selections?: number
-          name?: string
-          selection_type?: string
-          updated_at?: string
+          order_id?: string
+          order_item_id?: string
+          to_status?: Database["public"]["Enums"]["order_status"]
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "kitchen_status_events_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kitchen_status_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kitchen_status_events_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      modifiers: {
+      loyalty_sales: {
         Row: {
+          amount_paid: number
           created_at: string
-          display_order: number
-          id: string
-          is_available: boolean
-          modifier_group_id: string
-          name: string
-          price_adjustment: number
-          updated_at: string
+          customer_id: string
+          order_id: string | null
+          points_earned: number
+          points_redeemed: number
+          sale_id: string
         }
         Insert: {
+          amount_paid: number
           created_at?: string
-          display_order?: number
-          id?: string
-          is_available?: boolean
-          modifier_group_id: string
-          name: string
-          price_adjustment?: number
-          updated_at?: string
+          customer_id: string
+          order_id?: string | null
+          points_earned?: number
+          points_redeemed?: number
+          sale_id: string
         }
         Update: {
+          amount_paid?: number
           created_at?: string
-          display_order?: number
-          id?: string
-          is_available?: boolean
-          modifier_group_id?: string
-          name?: string
-          price_adjustment?: number
-          updated_at?: string
+          customer_id?: string
+          order_id?: string | null
+          points_earned?: number
+          points_redeemed?: number
+          sale_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "modifiers_modifier_group_id_fkey"
-            columns: ["modifier_group_id"]
+            foreignKeyName: "loyalty_sales_customer_id_fkey"
+            columns: ["customer_id"]
             isOneToOne: false
-            referencedRelation: "modifier_groups"
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_sales_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_sales_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: true
+            referencedRelation: "sales"
             referencedColumns: ["id"]
           },
         ]
       }
-      order_item_combo_selections: {
+      loyalty_settings: {
         Row: {
-          combo_component_id: string
           created_at: string
           id: string
-          order_item_id: string
-          qty: number
-          selected_product_id: string
-          selected_product_name: string
+          is_enabled: boolean
+          min_redeem_points: number
+          points_per_unit: number
+          updated_at: string
+          value_per_point: number
         }
         Insert: {
-          combo_component_id: string
           created_at?: string
           id?: string
-          order_item_id: string
-          qty?: number
-          selected_product_id: string
-          selected_product_name: string
+          is_enabled?: boolean
+          min_redeem_points?: number
+          points_per_unit?: number
+          updated_at?: string
+          value_per_point?: number
         }
         Update: {
-          combo_component_id?: string
           created_at?: string
           id?: string
-          order_item_id?: string
-          qty?: number
-          selected_product_id?: string
-          selected_product_name?: string
+          is_enabled?: boolean
+          min_redeem_points?: number
+          points_per_unit?: number
+          updated_at?: string
+          value_per_point?: number
         }
-        Relationships: [
-          {
-            foreignKeyName: "order_item_combo_selections_combo_component_id_fkey"
+        Relationships: []
+      }
+      loyalty_transactions: {
+        Row: {
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          id: string
+          order_id: string | null
+          points: number
+          reason: string | null
+          sale_id: string | null
+          transaction_type: string
+        }
+        Insert: {
+          balance_after: number
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          id?: string
+          order_id?: string | null
+          points: number
+          reason?: string | null
+          sale_id?: string | null
+          transaction_type: string
+        }
+        Update: {
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          id?: string
+          order_id?: string | null
+          points?: number
+          reason?: string | null
+          sale_id?: string | null
+          transaction_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loyalty_transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_transactions_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_groups: {
+        Row: {
+          created_at: string
+          display_order: number
+          id: string
+          is_active: boolean
+          max_selections: number | null
+          min_selections: number
+          name: string
+          selection_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          is_active?: boolean
+          max_selections?: number | null
+          min_selections?: number
+          name: string
+          selection_type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          is_active?: boolean
+          max_selections?: number | null
+          min_selections?: number
+          name?: string
+          selection_type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      modifiers: {
+        Row: {
+          created_at: string
+          display_order: number
+          id: string
+          is_available: boolean
+          modifier_group_id: string
+          name: string
+          price_adjustment: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          is_available?: boolean
+          modifier_group_id: string
+          name: string
+          price_adjustment?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          is_available?: boolean
+          modifier_group_id?: string
+          name?: string
+          price_adjustment?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifiers_modifier_group_id_fkey"
+            columns: ["modifier_group_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_checks: {
+        Row: {
+          amount: number
+          check_number: number
+          created_at: string
+          id: string
+          label: string
+          order_id: string
+          settled_at: string | null
+          settled_by: string | null
+          status: string
+        }
+        Insert: {
+          amount: number
+          check_number: number
+          created_at?: string
+          id?: string
+          label: string
+          order_id: string
+          settled_at?: string | null
+          settled_by?: string | null
+          status?: string
+        }
+        Update: {
+          amount?: number
+          check_number?: number
+          created_at?: string
+          id?: string
+          label?: string
+          order_id?: string
+          settled_at?: string | null
+          settled_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_checks_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_item_combo_selections: {
+        Row: {
+          combo_component_id: string
+          created_at: string
+          id: string
+          order_item_id: string
+          qty: number
+          selected_product_id: string
+          selected_product_name: string
+        }
+        Insert: {
+          combo_component_id: string
+          created_at?: string
+          id?: string
+          order_item_id: string
+          qty?: number
+          selected_product_id: string
+          selected_product_name: string
+        }
+        Update: {
+          combo_component_id?: string
+          created_at?: string
+          id?: string
+          order_item_id?: string
+          qty?: number
+          selected_product_id?: string
+          selected_product_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_combo_selections_combo_component_id_fkey"
             columns: ["combo_component_id"]
             isOneToOne: false
             referencedRelation: "combo_components"
@@ -728,9 +1185,14 @@ export type Database = {
       }
       order_items: {
         Row: {
+          called_at: string | null
+          check_id: string | null
           completed_at: string | null
           cost_at_order: number
+          course_name: string | null
+          course_number: number
           created_at: string
+          fired_at: string | null
           id: string
           kitchen_station: Database["public"]["Enums"]["kitchen_station"]
           line_total: number
@@ -740,6 +1202,7 @@ export type Database = {
           product_name: string
           product_sku: string
           qty: number
+          seat_number: number | null
           special_instructions: string | null
           started_at: string | null
           status: Database["public"]["Enums"]["order_status"]
@@ -749,9 +1212,14 @@ export type Database = {
           weight_unit: string | null
         }
         Insert: {
+          called_at?: string | null
+          check_id?: string | null
           completed_at?: string | null
           cost_at_order: number
+          course_name?: string | null
+          course_number?: number
           created_at?: string
+          fired_at?: string | null
           id?: string
           kitchen_station?: Database["public"]["Enums"]["kitchen_station"]
           line_total: number
@@ -761,6 +1229,7 @@ export type Database = {
           product_name: string
           product_sku: string
           qty: number
+          seat_number?: number | null
           special_instructions?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["order_status"]
@@ -770,9 +1239,14 @@ export type Database = {
           weight_unit?: string | null
         }
         Update: {
+          called_at?: string | null
+          check_id?: string | null
           completed_at?: string | null
           cost_at_order?: number
+          course_name?: string | null
+          course_number?: number
           created_at?: string
+          fired_at?: string | null
           id?: string
           kitchen_station?: Database["public"]["Enums"]["kitchen_station"]
           line_total?: number
@@ -782,6 +1256,7 @@ export type Database = {
           product_name?: string
           product_sku?: string
           qty?: number
+          seat_number?: number | null
           special_instructions?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["order_status"]
@@ -805,14 +1280,24 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_check_id_fkey"
+            columns: ["check_id"]
+            isOneToOne: false
+            referencedRelation: "order_checks"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
         Row: {
+          called_at: string | null
+          called_course: string | null
           created_at: string
           customer_id: string | null
           customer_name: string | null
           discount_amount: number | null
+          expedited_by: string | null
           guest_count: number | null
           id: string
           notes: string | null
@@ -820,16 +1305,20 @@ export type Database = {
           order_type: Database["public"]["Enums"]["order_type"]
           pickup_time: string | null
           promotion_id: string | null
+          ready_at: string | null
           status: Database["public"]["Enums"]["order_status"]
           table_id: string | null
           updated_at: string
           waiter_id: string | null
         }
         Insert: {
+          called_at?: string | null
+          called_course?: string | null
           created_at?: string
           customer_id?: string | null
           customer_name?: string | null
           discount_amount?: number | null
+          expedited_by?: string | null
           guest_count?: number | null
           id?: string
           notes?: string | null
@@ -837,16 +1326,20 @@ export type Database = {
           order_type?: Database["public"]["Enums"]["order_type"]
           pickup_time?: string | null
           promotion_id?: string | null
+          ready_at?: string | null
           status?: Database["public"]["Enums"]["order_status"]
           table_id?: string | null
           updated_at?: string
           waiter_id?: string | null
         }
         Update: {
+          called_at?: string | null
+          called_course?: string | null
           created_at?: string
           customer_id?: string | null
           customer_name?: string | null
           discount_amount?: number | null
+          expedited_by?: string | null
           guest_count?: number | null
           id?: string
           notes?: string | null
@@ -854,6 +1347,7 @@ export type Database = {
           order_type?: Database["public"]["Enums"]["order_type"]
           pickup_time?: string | null
           promotion_id?: string | null
+          ready_at?: string | null
           status?: Database["public"]["Enums"]["order_status"]
           table_id?: string | null
           updated_at?: string
@@ -867,6 +1361,20 @@ export type Database = {
             referencedRelation: "customers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_expedited_by_fkey"
+            columns: ["expedited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_expedited_by_fkey"
+            columns: ["expedited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles_safe"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "orders_promotion_id_fkey"
             columns: ["promotion_id"]
@@ -883,6 +1391,27 @@ export type Database = {
           },
         ]
       }
+      payment_settings: {
+        Row: {
+          active_provider: string
+          created_at: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          active_provider?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+        }
+        Update: {
+          active_provider?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       payment_transactions: {
         Row: {
           amount: number
@@ -898,6 +1427,7 @@ export type Database = {
           payment_provider: string
           processed_at: string | null
           provider_transaction_id: string | null
+          refund_id: string | null
           sale_id: string | null
           status: string
           updated_at: string | null
@@ -916,6 +1446,7 @@ export type Database = {
           payment_provider: string
           processed_at?: string | null
           provider_transaction_id?: string | null
+          refund_id?: string | null
           sale_id?: string | null
           status: string
           updated_at?: string | null
@@ -934,6 +1465,7 @@ export type Database = {
           payment_provider?: string
           processed_at?: string | null
           provider_transaction_id?: string | null
+          refund_id?: string | null
           sale_id?: string | null
           status?: string
           updated_at?: string | null
@@ -953,39 +1485,85 @@ export type Database = {
             referencedRelation: "sales"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "payment_transactions_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      payment_webhook_events: {
+        Row: {
+          created_at: string
+          event_id: string
+          event_type: string
+          id: string
+          payload: Json | null
+          processed_at: string | null
+          provider: string
+          provider_transaction_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          event_type: string
+          id?: string
+          payload?: Json | null
+          processed_at?: string | null
+          provider: string
+          provider_transaction_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          event_type?: string
+          id?: string
+          payload?: Json | null
+          processed_at?: string | null
+          provider?: string
+          provider_transaction_id?: string | null
+        }
+        Relationships: []
+      }
       payments: {
         Row: {
           amount: number
+          check_id: string | null
           created_at: string
           id: string
           notes: string | null
           order_id: string
           payment_method: string
           processed_by: string | null
+          refund_id: string | null
           sale_id: string | null
           tip_amount: number
         }
         Insert: {
           amount: number
+          check_id?: string | null
           created_at?: string
           id?: string
           notes?: string | null
           order_id: string
           payment_method: string
           processed_by?: string | null
+          refund_id?: string | null
           sale_id?: string | null
           tip_amount?: number
         }
         Update: {
           amount?: number
+          check_id?: string | null
           created_at?: string
           id?: string
           notes?: string | null
           order_id?: string
           payment_method?: string
           processed_by?: string | null
+          refund_id?: string | null
           sale_id?: string | null
           tip_amount?: number
         }
@@ -1004,6 +1582,20 @@ export type Database = {
             referencedRelation: "sales"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "payments_check_id_fkey"
+            columns: ["check_id"]
+            isOneToOne: false
+            referencedRelation: "order_checks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
         ]
       }
       print_routing_rules: {
@@ -1108,6 +1700,7 @@ export type Database = {
           is_required: boolean
           modifier_group_id: string
           product_id: string
+          updated_at: string
         }
         Insert: {
           created_at?: string
@@ -1115,6 +1708,7 @@ export type Database = {
           is_required?: boolean
           modifier_group_id: string
           product_id: string
+          updated_at?: string
         }
         Update: {
           created_at?: string
@@ -1122,6 +1716,7 @@ export type Database = {
           is_required?: boolean
           modifier_group_id?: string
           product_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -1252,6 +1847,7 @@ export type Database = {
           discount_applied: number
           id: string
           order_id: string | null
+          over_limit: boolean
           promotion_id: string
         }
         Insert: {
@@ -1260,6 +1856,7 @@ export type Database = {
           discount_applied: number
           id?: string
           order_id?: string | null
+          over_limit?: boolean
           promotion_id: string
         }
         Update: {
@@ -1268,6 +1865,7 @@ export type Database = {
           discount_applied?: number
           id?: string
           order_id?: string | null
+          over_limit?: boolean
           promotion_id?: string
         }
         Relationships: [
@@ -1305,6 +1903,7 @@ export type Database = {
           end_date: string
           id: string
           is_active: boolean | null
+          is_stackable: boolean
           max_discount_amount: number | null
           min_purchase_amount: number | null
           name: string
@@ -1326,6 +1925,7 @@ export type Database = {
           end_date: string
           id?: string
           is_active?: boolean | null
+          is_stackable?: boolean
           max_discount_amount?: number | null
           min_purchase_amount?: number | null
           name: string
@@ -1347,6 +1947,7 @@ export type Database = {
           end_date?: string
           id?: string
           is_active?: boolean | null
+          is_stackable?: boolean
           max_discount_amount?: number | null
           min_purchase_amount?: number | null
           name?: string
@@ -1420,12 +2021,131 @@ export type Database = {
         }
         Relationships: []
       }
-      reservations: {
+      refund_items: {
         Row: {
-          created_at: string
-          customer_email: string | null
-          customer_id: string | null
-          customer_name: string
+          amount: number
+          id: string
+          product_id: string
+          product_name: string
+          qty: number
+          refund_id: string
+          sale_item_id: string
+        }
+        Insert: {
+          amount: number
+          id?: string
+          product_id: string
+          product_name: string
+          qty: number
+          refund_id: string
+          sale_item_id: string
+        }
+        Update: {
+          amount?: number
+          id?: string
+          product_id?: string
+          product_name?: string
+          qty?: number
+          refund_id?: string
+          sale_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refund_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refund_items_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refund_items_sale_item_id_fkey"
+            columns: ["sale_item_id"]
+            isOneToOne: false
+            referencedRelation: "sale_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          order_id: string | null
+          processed_by: string
+          provider_claimed_at: string | null
+          provider_status: string | null
+          reason_code: string
+          reason_notes: string | null
+          refund_method: string
+          refund_type: string
+          sale_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          order_id?: string | null
+          processed_by: string
+          provider_claimed_at?: string | null
+          provider_status?: string | null
+          reason_code: string
+          reason_notes?: string | null
+          refund_method: string
+          refund_type: string
+          sale_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          order_id?: string | null
+          processed_by?: string
+          provider_claimed_at?: string | null
+          provider_status?: string | null
+          reason_code?: string
+          reason_notes?: string | null
+          refund_method?: string
+          refund_type?: string
+          sale_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_processed_by_fkey"
+            columns: ["processed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reservations: {
+        Row: {
+          created_at: string
+          customer_email: string | null
+          customer_id: string | null
+          customer_name: string
           customer_phone: string
           guest_count: number
           id: string
@@ -1540,6 +2260,7 @@ export type Database = {
           product_name: string
           product_sku: string
           qty: number
+          refunded_qty: number
           sale_id: string
           tax_rate: number
         }
@@ -1552,6 +2273,7 @@ export type Database = {
           product_name: string
           product_sku: string
           qty: number
+          refunded_qty?: number
           sale_id: string
           tax_rate?: number
         }
@@ -1564,6 +2286,7 @@ export type Database = {
           product_name?: string
           product_sku?: string
           qty?: number
+          refunded_qty?: number
           sale_id?: string
           tax_rate?: number
         }
@@ -1592,6 +2315,8 @@ export type Database = {
           id: string
           notes: string | null
           payment_method: string
+          refunded_amount: number
+          status: string
           subtotal: number
           synced_at: string | null
           tax_amount: number
@@ -1604,6 +2329,8 @@ export type Database = {
           id?: string
           notes?: string | null
           payment_method: string
+          refunded_amount?: number
+          status?: string
           subtotal: number
           synced_at?: string | null
           tax_amount?: number
@@ -1616,6 +2343,8 @@ export type Database = {
           id?: string
           notes?: string | null
           payment_method?: string
+          refunded_amount?: number
+          status?: string
           subtotal?: number
           synced_at?: string | null
           tax_amount?: number
@@ -1692,6 +2421,147 @@ export type Database = {
           },
         ]
       }
+      store_settings: {
+        Row: {
+          created_at: string
+          currency_code: string
+          date_format: string
+          decimal_separator: string
+          id: string
+          locale: string
+          symbol_position: string
+          time_format: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          currency_code?: string
+          date_format?: string
+          decimal_separator?: string
+          id?: string
+          locale?: string
+          symbol_position?: string
+          time_format?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          currency_code?: string
+          date_format?: string
+          decimal_separator?: string
+          id?: string
+          locale?: string
+          symbol_position?: string
+          time_format?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sync_tombstones: {
+        Row: {
+          deleted_at: string
+          id: string
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          deleted_at?: string
+          id?: string
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          deleted_at?: string
+          id?: string
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      tax_settings: {
+        Row: {
+          created_at: string
+          id: string
+          prices_include_tax: boolean
+          tax_invoice_threshold: number
+          updated_at: string
+          vat_number: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          prices_include_tax?: boolean
+          tax_invoice_threshold?: number
+          updated_at?: string
+          vat_number?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          prices_include_tax?: boolean
+          tax_invoice_threshold?: number
+          updated_at?: string
+          vat_number?: string | null
+        }
+        Relationships: []
+      }
+      terminal_sync_status: {
+        Row: {
+          created_at: string
+          dead_letter_count: number
+          last_error: string | null
+          last_sync_at: string | null
+          oldest_pending_at: string | null
+          pending_count: number
+          queued_count: number
+          terminal_id: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          dead_letter_count?: number
+          last_error?: string | null
+          last_sync_at?: string | null
+          oldest_pending_at?: string | null
+          pending_count?: number
+          queued_count?: number
+          terminal_id: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          dead_letter_count?: number
+          last_error?: string | null
+          last_sync_at?: string | null
+          oldest_pending_at?: string | null
+          pending_count?: number
+          queued_count?: number
+          terminal_id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "terminal_sync_status_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "terminal_sync_status_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles_safe"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       time_tracking: {
         Row: {
           break_end: string | null
@@ -1759,6 +2629,33 @@ export type Database = {
           },
         ]
       }
+      tip_pool_settings: {
+        Row: {
+          created_at: string
+          front_split: string
+          id: string
+          is_enabled: boolean
+          kitchen_percent: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          front_split?: string
+          id?: string
+          is_enabled?: boolean
+          kitchen_percent?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          front_split?: string
+          id?: string
+          is_enabled?: boolean
+          kitchen_percent?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -1819,6 +2716,74 @@ export type Database = {
         }
         Relationships: []
       }
+      z_reports: {
+        Row: {
+          cashier_id: string
+          created_at: string
+          created_by: string
+          drawer_session_id: string | null
+          eod_session_id: string
+          id: string
+          period_end: string
+          period_start: string
+          report: Json
+          report_number: number
+        }
+        Insert: {
+          cashier_id: string
+          created_at?: string
+          created_by: string
+          drawer_session_id?: string | null
+          eod_session_id: string
+          id?: string
+          period_end: string
+          period_start: string
+          report: Json
+          report_number: number
+        }
+        Update: {
+          cashier_id?: string
+          created_at?: string
+          created_by?: string
+          drawer_session_id?: string | null
+          eod_session_id?: string
+          id?: string
+          period_end?: string
+          period_start?: string
+          report?: Json
+          report_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "z_reports_cashier_id_fkey"
+            columns: ["cashier_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "z_reports_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "z_reports_drawer_session_id_fkey"
+            columns: ["drawer_session_id"]
+            isOneToOne: false
+            referencedRelation: "cash_drawer_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "z_reports_eod_session_id_fkey"
+            columns: ["eod_session_id"]
+            isOneToOne: true
+            referencedRelation: "eod_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       profiles_safe: {
@@ -1847,7 +2812,91 @@ export type Database = {
       }
     }
     Functions: {
+      adjust_loyalty_points: {
+        Args: { _customer_id: string; _points: number; _reason: string }
+        Returns: number
+      }
+      apply_order_promotions: {
+        Args: { _order_id: string; _promotions: Json }
+        Returns: undefined
+      }
+      claim_order_payment_intent: {
+        Args: {
+          _amount: number
+          _order_id: string
+          _payment_id: string
+          _transaction_id: string
+        }
+        Returns: undefined
+      }
+      close_business_day: {
+        Args: { _business_day_id: string; _notes?: string }
+        Returns: undefined
+      }
+      close_cash_drawer: {
+        Args: {
+          _count_breakdown: Json
+          _notes?: string
+          _session_id: string
+        }
+        Returns: string
+      }
+      commit_sale: { Args: { _items: Json; _sale: Json }; Returns: boolean }
+      create_z_report: {
+        Args: { _eod_session_id: string }
+        Returns: {
+          cashier_id: string
+          created_at: string
+          created_by: string
+          drawer_session_id: string | null
+          eod_session_id: string
+          id: string
+          period_end: string
+          period_start: string
+          report: Json
+          report_number: number
+        }
+      }
+      expedite_order: {
+        Args: { _course_number?: number; _order_id: string }
+        Returns: undefined
+      }
       generate_order_number: { Args: never; Returns: string }
+      get_current_business_day: {
+        Args: { _local_date: string }
+        Returns: string
+      }
+      get_kitchen_tickets: {
+        Args: { _order_ids?: string[] }
+        Returns: {
+          called_at: string
+          combo_selections: Json
+          completed_at: string
+          course_name: string
+          course_number: number
+          created_at: string
+          customer_name: string
+          estimated_prep_minutes: number
+          fired_at: string
+          id: string
+          kitchen_station: Database["public"]["Enums"]["kitchen_station"]
+          modifiers: Json
+          order_created_at: string
+          order_id: string
+          order_number: string
+          order_status: Database["public"]["Enums"]["order_status"]
+          order_type: Database["public"]["Enums"]["order_type"]
+          product_id: string
+          product_name: string
+          qty: number
+          special_instructions: string
+          started_at: string
+          status: Database["public"]["Enums"]["order_status"]
+          table_number: string
+          weight_amount: number
+          weight_unit: string
+        }[]
+      }
       get_customers_limited: {
         Args: never
         Returns: {
@@ -1856,6 +2905,46 @@ export type Database = {
           phone: string
         }[]
       }
+      get_order_bill_total: { Args: { _order_id: string }; Returns: number }
+      get_recent_kitchen_bumps: {
+        Args: {
+          _changed_by?: string
+          _limit?: number
+          _station?: Database["public"]["Enums"]["kitchen_station"]
+        }
+        Returns: {
+          changed_at: string
+          changed_by: string
+          changed_by_name: string
+          from_status: Database["public"]["Enums"]["order_status"]
+          items: Json
+          order_id: string
+          order_number: string
+          table_number: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }[]
+      }
+      get_shift_report: {
+        Args: {
+          _cashier_id: string
+          _drawer_session_id?: string
+          _end: string
+          _start: string
+        }
+        Returns: Json
+      }
+      get_tip_shift_summary: {
+        Args: { _end: string; _start: string }
+        Returns: {
+          card_tips: number
+          cash_tips: number
+          employee_id: string
+          full_name: string
+          hours_worked: number
+          is_kitchen: boolean
+          other_tips: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1864,9 +2953,98 @@ export type Database = {
         Returns: boolean
       }
       is_profiles_view_context: { Args: never; Returns: boolean }
+      lookup_loyalty_customer: {
+        Args: { _phone: string }
+        Returns: {
+          id: string
+          loyalty_points: number
+          name: string
+          phone: string
+        }[]
+      }
+      open_cash_drawer: {
+        Args: { _local_date: string; _opening_float: number }
+        Returns: {
+          business_day_id: string | null
+          cashier_id: string
+          closed_at: string | null
+          count_breakdown: Json | null
+          counted_cash: number | null
+          created_at: string
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opening_float: number
+          status: string
+          updated_at: string
+        }
+      }
+      process_refund: {
+        Args: {
+          _items?: Json
+          _reason_code: string
+          _reason_notes?: string
+          _refund_method: string
+          _sale_id: string
+          _void?: boolean
+        }
+        Returns: string
+      }
+      record_loyalty_sale: {
+        Args: {
+          _amount_paid: number
+          _customer_id: string
+          _order_id: string
+          _points_redeemed?: number
+          _sale_id: string
+        }
+        Returns: number
+      }
+      record_promotion_usage: {
+        Args: {
+          _customer_id?: string
+          _discount_applied: number
+          _order_id: string
+          _promotion_id: string
+        }
+        Returns: boolean
+      }
+      replace_order_checks: {
+        Args: { _checks: Json; _order_id: string }
+        Returns: undefined
+      }
+      report_terminal_sync_status: {
+        Args: {
+          _dead_letter_count: number
+          _last_error: string
+          _oldest_pending_at: string
+          _pending_count: number
+          _queued_count: number
+          _terminal_id: string
+        }
+        Returns: undefined
+      }
+      roll_forward_eod: {
+        Args: { _eod_session_id: string }
+        Returns: string
+      }
+      settle_order: {
+        Args: { _order_id: string; _tenders: Json }
+        Returns: boolean
+      }
+      settle_order_check: {
+        Args: {
+          _check_id: string
+          _payment_method: string
+          _tip_amount?: number
+          _transaction_id?: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
-      app_role: "admin" | "cashier" | "waiter" | "kitchen"
+      app_role: "admin" | "cashier" | "waiter" | "kitchen" | "supervisor"
       kitchen_station:
         | "grill"
         | "fryer"
@@ -2011,7 +3189,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "cashier", "waiter", "kitchen"],
+      app_role: ["admin", "cashier", "waiter", "kitchen", "supervisor"],
       kitchen_station: ["grill", "fryer", "salad", "dessert", "bar", "general"],
       order_status: [
         "pending",
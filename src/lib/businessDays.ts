@@ -0,0 +1,94 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface BusinessDay {
+  id: string;
+  business_date: string;
+  status: string;
+  opened_at: string;
+  closed_at: string | null;
+  notes: string | null;
+  total_sales: number | null;
+  total_refunds: number | null;
+  total_tips: number | null;
+  expected_cash: number | null;
+  actual_cash: number | null;
+  eod_count: number | null;
+}
+
+// Where a day stands on its way to being closed
+export interface BusinessDayStatus {
+  openDrawers: number;
+  pending: number;
+  rejected: number;
+  approved: number;
+}
+
+export const canCloseDay = (status: BusinessDayStatus) =>
+  status.openDrawers === 0 && status.pending === 0 && status.rejected === 0;
+
+/**
+ * Open days plus the most recent closed ones, newest first, each with its drawer and EOD counts.
+ */
+export const fetchBusinessDays = async (closedLimit = 7) => {
+  const [openRes, closedRes] = await Promise.all([
+    supabase.from('business_days').select('*').eq('status', 'open').order('business_date', { ascending: false }),
+    supabase
+      .from('business_days')
+      .select('*')
+      .eq('status', 'closed')
+      .order('business_date', { ascending: false })
+      .limit(closedLimit),
+  ]);
+
+  if (openRes.error) throw openRes.error;
+  if (closedRes.error) throw closedRes.error;
+
+  const days: BusinessDay[] = [...(openRes.data || []), ...(closedRes.data || [])];
+  const openIds = (openRes.data || []).map(d => d.id);
+  const statuses = new Map<string, BusinessDayStatus>(
+    days.map(d => [d.id, { openDrawers: 0, pending: 0, rejected: 0, approved: 0 }])
+  );
+
+  if (openIds.length > 0) {
+    const [drawersRes, eodRes] = await Promise.all([
+      supabase.from('cash_drawer_sessions').select('business_day_id').eq('status', 'open').in('business_day_id', openIds),
+      supabase.from('eod_sessions').select('business_day_id, status').in('business_day_id', openIds),
+    ]);
+
+    if (drawersRes.error) throw drawersRes.error;
+    if (eodRes.error) throw eodRes.error;
+
+    (drawersRes.data || []).forEach(d => {
+      const status = d.business_day_id ? statuses.get(d.business_day_id) : undefined;
+      if (status) status.openDrawers++;
+    });
+    (eodRes.data || []).forEach(e => {
+      const status = e.business_day_id ? statuses.get(e.business_day_id) : undefined;
+      if (!status) return;
+      if (e.status === 'pending') status.pending++;
+      else if (e.status === 'rejected') status.rejected++;
+      else if (e.status === 'approved') status.approved++;
+    });
+  }
+
+  return { days, statuses };
+};
+
+export const closeBusinessDay = async (dayId: string, notes: string | null) => {
+  const { error } = await supabase.rpc('close_business_day', {
+    _business_day_id: dayId,
+    _notes: notes || undefined,
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Carry a rejected EOD into the next open day for another review; returns that day's id.
+ */
+export const rollForwardEOD = async (eodSessionId: string) => {
+  const { data, error } = await supabase.rpc('roll_forward_eod', { _eod_session_id: eodSessionId });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,138 @@
+import { supabase } from '@/integrations/supabase/client';
+import { formatMoney, fromCents, getCurrencySymbol, getMoneyFormat, toCents } from '@/lib/money';
+import { getStoreDateKey } from '@/lib/dateTime';
+
+export type DrawerMovementType = 'drop' | 'pay_in' | 'pay_out';
+
+export interface DrawerSession {
+  id: string;
+  cashier_id: string;
+  business_day_id: string | null;
+  status: string;
+  opening_float: number;
+  opened_at: string;
+  closed_at: string | null;
+  expected_cash: number | null;
+  counted_cash: number | null;
+  count_breakdown: unknown;
+  notes: string | null;
+}
+
+export interface DrawerMovement {
+  id: string;
+  session_id: string;
+  movement_type: string;
+  amount: number;
+  reason: string;
+  created_at: string;
+}
+
+// Denomination -> quantity counted, keyed by the denomination as text
+export type CountBreakdown = Record<string, number>;
+
+// Notes and coins in circulation for common store currencies, largest first
+const CURRENCY_DENOMINATIONS: Record<string, number[]> = {
+  ZAR: [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1],
+  USD: [100, 50, 20, 10, 5, 2, 1, 0.25, 0.1, 0.05, 0.01],
+  EUR: [500, 200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+  GBP: [50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+  AUD: [100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05],
+};
+
+// Any other currency is counted in a generic 1-2-5 series
+const DEFAULT_DENOMINATIONS = [100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01];
+
+// What the blind count asks for, in the store's currency
+export const getDenominations = (currency = getMoneyFormat().currency) =>
+  CURRENCY_DENOMINATIONS[currency.toUpperCase()] || DEFAULT_DENOMINATIONS;
+
+export const MOVEMENT_TYPES: { value: DrawerMovementType; label: string; description: string }[] = [
+  { value: 'drop', label: 'Cash Drop', description: 'Cash taken from the drawer to the safe' },
+  { value: 'pay_in', label: 'Pay-in', description: 'Cash added to the drawer, e.g. extra change' },
+  { value: 'pay_out', label: 'Pay-out', description: 'Petty cash paid from the drawer' },
+];
+
+export const getMovementLabel = (type: string) =>
+  MOVEMENT_TYPES.find(m => m.value === type)?.label || type;
+
+// Pay-ins add to the drawer; drops and pay-outs take from it
+export const getSignedAmount = (movement: Pick<DrawerMovement, 'movement_type' | 'amount'>) =>
+  movement.movement_type === 'pay_in' ? Number(movement.amount) : -Number(movement.amount);
+
+export const formatDenomination = (value: number) => {
+  if (!Number.isInteger(value)) return formatMoney(value);
+  return getMoneyFormat().symbolPosition === 'after' ? `${value} ${getCurrencySymbol()}` : `${getCurrencySymbol()}${value}`;
+};
+
+// Counted in cents so coin totals do not pick up floating point noise
+export const getCountTotal = (breakdown: CountBreakdown) =>
+  fromCents(Object.entries(breakdown).reduce(
+    (sum, [denomination, quantity]) => sum + toCents(Number(denomination)) * (quantity || 0),
+    0
+  ));
+
+export const fetchOpenDrawer = async (cashierId: string): Promise<DrawerSession | null> => {
+  const { data, error } = await supabase
+    .from('cash_drawer_sessions')
+    .select('*')
+    .eq('cashier_id', cashierId)
+    .eq('status', 'open')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const fetchDrawerMovements = async (sessionId: string): Promise<DrawerMovement[]> => {
+  const { data, error } = await supabase
+    .from('cash_drawer_movements')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Open a drawer for the signed-in cashier. It joins the site's open business day; the terminal's
+ * local date is only used when a new day has to be started.
+ */
+export const openDrawer = async (openingFloat: number): Promise<DrawerSession> => {
+  const { data, error } = await supabase.rpc('open_cash_drawer', {
+    _opening_float: openingFloat,
+    _local_date: getStoreDateKey(),
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const addDrawerMovement = async (
+  sessionId: string,
+  userId: string,
+  movementType: DrawerMovementType,
+  amount: number,
+  reason: string
+) => {
+  const { error } = await supabase
+    .from('cash_drawer_movements')
+    .insert({ session_id: sessionId, created_by: userId, movement_type: movementType, amount, reason });
+
+  if (error) throw error;
+};
+
+/**
+ * Close the drawer with a blind count. Expected cash is worked out on the server and the
+ * resulting EOD goes to a manager for approval; returns the EOD id.
+ */
+export const closeDrawer = async (sessionId: string, breakdown: CountBreakdown, notes: string | null) => {
+  const { data, error } = await supabase.rpc('close_cash_drawer', {
+    _session_id: sessionId,
+    _count_breakdown: breakdown,
+    _notes: notes || undefined,
+  });
+
+  if (error) throw error;
+  return data;
+};
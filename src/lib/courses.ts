@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Course {
+  number: number;
+  name: string;
+}
+
+export const DEFAULT_COURSES: Course[] = [
+  { number: 1, name: 'Starters' },
+  { number: 2, name: 'Mains' },
+  { number: 3, name: 'Desserts' },
+];
+
+// New items go to mains unless the waiter picks another course
+export const DEFAULT_COURSE = DEFAULT_COURSES[1];
+
+// Saved items have an id; fired_at is null while their course is held
+export interface CoursedItem {
+  id?: string;
+  course_number: number;
+  course_name?: string | null;
+  fired_at?: string | null;
+}
+
+/**
+ * The standard courses plus any custom ones on the ticket, in the order they are served
+ */
+export const getTicketCourses = (items: CoursedItem[], extra: Course[] = []): Course[] => {
+  const courses = new Map<number, Course>();
+  for (const course of [...DEFAULT_COURSES, ...extra]) courses.set(course.number, course);
+  for (const item of items) {
+    if (!courses.has(item.course_number)) {
+      courses.set(item.course_number, { number: item.course_number, name: item.course_name || `Course ${item.course_number}` });
+    }
+  }
+  return [...courses.values()].sort((a, b) => a.number - b.number);
+};
+
+export const getNextCourseNumber = (courses: Course[]) =>
+  courses.reduce((max, course) => Math.max(max, course.number), 0) + 1;
+
+/**
+ * Whether items in this course go to the kitchen as soon as they are sent. Anything up to the
+ * latest fired course goes straight through; before the first fire, only the first course on the
+ * ticket does and the rest are held.
+ */
+export const shouldFireOnSend = (courseNumber: number, items: CoursedItem[]) => {
+  const fired = items.filter(item => item.id && item.fired_at);
+  if (fired.length > 0) {
+    return courseNumber <= Math.max(...fired.map(item => item.course_number));
+  }
+  return items.every(item => courseNumber <= item.course_number);
+};
+
+export const isCourseHeld = (courseNumber: number, items: CoursedItem[]) =>
+  items.some(item => item.id && item.course_number === courseNumber && !item.fired_at);
+
+/**
+ * Release a held course to the kitchen; returns the items that were fired
+ */
+export const fireCourse = async (orderId: string, courseNumber: number) => {
+  const { data, error } = await supabase
+    .from('order_items')
+    .update({ fired_at: new Date().toISOString() })
+    .eq('order_id', orderId)
+    .eq('course_number', courseNumber)
+    .is('fired_at', null)
+    .select('id, product_id, product_name, qty, special_instructions, kitchen_station, course_name');
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { fromStoreTime, getStoreDayWindow, toStoreTime } from '@/lib/dateTime';
+
+describe('fromStoreTime', () => {
+  it('finds the instant a store wall-clock time happens', () => {
+    expect(fromStoreTime(new Date(2026, 0, 15, 0, 0, 0), 'Africa/Johannesburg').toISOString()).toBe('2026-01-14T22:00:00.000Z');
+    expect(fromStoreTime(new Date(2026, 6, 1, 12, 30, 0), 'Europe/London').toISOString()).toBe('2026-07-01T11:30:00.000Z');
+  });
+
+  it('reverses toStoreTime', () => {
+    const instant = new Date('2026-03-29T09:15:00.000Z');
+    expect(fromStoreTime(toStoreTime(instant, 'America/New_York'), 'America/New_York').toISOString()).toBe(instant.toISOString());
+  });
+});
+
+describe('getStoreDayWindow', () => {
+  it('spans the store calendar day', () => {
+    expect(getStoreDayWindow('2026-01-15')).toEqual({
+      start: '2026-01-14T22:00:00.000Z',
+      end: '2026-01-15T22:00:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { format as formatPattern } from 'date-fns';
+
+/**
+ * Dates and times as the store shows them: date-fns patterns, in the store's timezone rather
+ * than whatever the terminal's clock is set to.
+ */
+
+export interface DateTimeFormat {
+  dateFormat: string;
+  timeFormat: string;
+  timezone: string;
+}
+
+export const DEFAULT_DATE_TIME_FORMAT: DateTimeFormat = {
+  dateFormat: 'dd/MM/yyyy',
+  timeFormat: 'HH:mm',
+  timezone: 'Africa/Johannesburg',
+};
+
+// The store's format once its settings have loaded; see applyStoreSettings
+let activeFormat = DEFAULT_DATE_TIME_FORMAT;
+
+export const setDateTimeFormat = (format: DateTimeFormat) => {
+  activeFormat = format;
+};
+
+export const getDateTimeFormat = () => activeFormat;
+
+const toDate = (value: Date | string | number) => (value instanceof Date ? value : new Date(value));
+
+/**
+ * The wall-clock time in the store's timezone, as a Date whose local fields carry that time.
+ * Only for formatting or reading its calendar fields; the result is not the same instant.
+ */
+export const toStoreTime = (value: Date | string | number, timezone = activeFormat.timezone) => {
+  const date = toDate(value);
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(date);
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    return new Date(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  } catch {
+    // Unknown zone: fall back to the terminal's own clock
+    return date;
+  }
+};
+
+// Wall-clock fields of a Date read as if they were UTC, so two wall clocks can be subtracted
+const wallClockAsUtc = (date: Date) =>
+  Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds());
+
+/**
+ * The instant at which the store's clock shows the wall-clock time carried in the local fields of
+ * wallClock; the reverse of toStoreTime. The zone offset is measured at the first guess and again at
+ * the result, so a daylight-saving change between the two is corrected.
+ */
+export const fromStoreTime = (wallClock: Date, timezone = activeFormat.timezone) => {
+  const target = wallClockAsUtc(wallClock);
+  let instant = target;
+  for (let i = 0; i < 2; i++) {
+    instant = target - (wallClockAsUtc(toStoreTime(instant, timezone)) - instant);
+  }
+  return new Date(instant);
+};
+
+/**
+ * Start and end (exclusive) of a store calendar day (yyyy-MM-dd) as ISO timestamps, for querying a
+ * day's records whatever timezone the terminal is in
+ */
+export const getStoreDayWindow = (dateKey: string) => {
+  const start = new Date(`${dateKey}T00:00:00`);
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+  return { start: fromStoreTime(start).toISOString(), end: fromStoreTime(end).toISOString() };
+};
+
+export const formatInStoreTime = (value: Date | string | number, pattern: string) =>
+  formatPattern(toStoreTime(value), pattern);
+
+export const formatDate = (value: Date | string | number) => formatInStoreTime(value, activeFormat.dateFormat);
+
+export const formatTime = (value: Date | string | number) => formatInStoreTime(value, activeFormat.timeFormat);
+
+export const formatDateTime = (value: Date | string | number) =>
+  formatInStoreTime(value, `${activeFormat.dateFormat} ${activeFormat.timeFormat}`);
+
+// Today's calendar date at the store as yyyy-MM-dd, e.g. for opening the business day
+export const getStoreDateKey = (value: Date | string | number = new Date()) => formatInStoreTime(value, 'yyyy-MM-dd');
+
+// A calendar date stored without a time (yyyy-MM-dd) in the store's date format; no timezone shift applies
+export const formatDateKey = (dateKey: string) =>
+  formatPattern(new Date(`${dateKey}T00:00:00`), activeFormat.dateFormat);
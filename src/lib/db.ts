@@ -20,6 +20,7 @@ export interface LocalProduct {
   unit_type?: string;
   kitchen_station?: string;
   estimated_prep_minutes?: number;
+  updated_at?: string;
 }
 
 export interface LocalSale {
@@ -34,6 +35,10 @@ export interface LocalSale {
   created_at: Date;
   synced: boolean;
   sync_attempts: number;
+  last_error?: string;
+  last_attempt_at?: Date;
+  next_attempt_at?: Date;
+  dead_letter?: boolean;
 }
 
 export interface LocalSaleItem {
@@ -49,16 +54,130 @@ export interface LocalSaleItem {
   line_total: number;
 }
 
+export interface LocalCategory {
+  id: string;
+  name: string;
+  description?: string;
+  updated_at: string;
+}
+
+export interface LocalModifierGroup {
+  id: string;
+  name: string;
+  selection_type: string;
+  min_selections: number;
+  max_selections?: number;
+  display_order: number;
+  is_active: boolean;
+  updated_at: string;
+}
+
+export interface LocalModifier {
+  id: string;
+  modifier_group_id: string;
+  name: string;
+  price_adjustment: number;
+  display_order: number;
+  is_available: boolean;
+  updated_at: string;
+}
+
+export interface LocalProductModifier {
+  id: string;
+  product_id: string;
+  modifier_group_id: string;
+  is_required: boolean;
+  updated_at: string;
+}
+
+export interface LocalComboProduct {
+  id: string;
+  product_id: string;
+  combo_description?: string;
+  updated_at: string;
+}
+
+export interface LocalComboComponent {
+  id: string;
+  combo_product_id: string;
+  component_name: string;
+  category_id?: string;
+  qty: number;
+  allows_substitution: boolean;
+  updated_at: string;
+}
+
+export interface LocalPromotion {
+  id: string;
+  name: string;
+  description: string | null;
+  discount_type: string;
+  discount_value: number;
+  min_purchase_amount: number | null;
+  max_discount_amount: number | null;
+  start_date: string;
+  end_date: string;
+  days_of_week: number[] | null;
+  time_start: string | null;
+  time_end: string | null;
+  is_active: boolean | null;
+  is_stackable: boolean;
+  usage_limit: number | null;
+  usage_count: number | null;
+  applies_to: string;
+  target_ids: string[] | null;
+  updated_at: string | null;
+}
+
+// Delta sync cursor per entity, stored on this terminal
+export interface SyncState {
+  entity: string;
+  cursor: string;
+  // Tie-break on id for entities whose cursor timestamps can repeat
+  cursor_id?: string;
+  synced_at: Date;
+}
+
+// Cloud writes are replayed in this order so parents exist before their children
+export const SYNC_QUEUE_ORDER = ['order', 'order_item', 'order_item_modifier', 'payment', 'promotion_usage', 'loyalty_sale'] as const;
+
+export type SyncQueueType = 'sale' | 'product' | 'inventory' | typeof SYNC_QUEUE_ORDER[number];
+
 export interface SyncQueue {
   id?: number;
-  type: 'sale' | 'product' | 'inventory';
+  type: SyncQueueType;
   data: any;
   attempts: number;
   created_at: Date;
   last_attempt?: Date;
   error?: string;
+  // Same backoff and dead-letter rules as sales
+  next_attempt_at?: Date;
+  dead_letter?: boolean;
 }
 
+// Failed sales and queued writes back off exponentially and stop retrying after this many attempts
+export const MAX_SYNC_ATTEMPTS = 5;
+const SYNC_BACKOFF_BASE_MS = 30 * 1000;
+const SYNC_BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+export const getNextSyncAttempt = (attempts: number, from = new Date()) => {
+  const delay = Math.min(SYNC_BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), SYNC_BACKOFF_MAX_MS);
+  return new Date(from.getTime() + delay);
+};
+
+// Stable id for this device, used to report sync health per terminal
+const TERMINAL_ID_KEY = 'pos_terminal_id';
+
+export const getTerminalId = (): string => {
+  let terminalId = localStorage.getItem(TERMINAL_ID_KEY);
+  if (!terminalId) {
+    terminalId = crypto.randomUUID();
+    localStorage.setItem(TERMINAL_ID_KEY, terminalId);
+  }
+  return terminalId;
+};
+
 // Delete database using native API (more reliable for corrupted DBs)
 const deleteDatabase = (): Promise<void> => {
   return new Promise((resolve, reject) => {
@@ -83,6 +202,14 @@ export class POSDatabase extends Dexie {
   sales!: Table<LocalSale, string>;
   sale_items!: Table<LocalSaleItem, string>;
   sync_queue!: Table<SyncQueue, number>;
+  sync_state!: Table<SyncState, string>;
+  categories!: Table<LocalCategory, string>;
+  modifier_groups!: Table<LocalModifierGroup, string>;
+  modifiers!: Table<LocalModifier, string>;
+  product_modifiers!: Table<LocalProductModifier, string>;
+  combo_products!: Table<LocalComboProduct, string>;
+  combo_components!: Table<LocalComboComponent, string>;
+  promotions!: Table<LocalPromotion, string>;
 
   constructor() {
     super('POSDatabase');
@@ -94,6 +221,43 @@ export class POSDatabase extends Dexie {
       sync_queue: '++id, type, created_at, attempts'
     });
 
+    // Delta sync cursors and the rest of the menu for offline use
+    this.version(2).stores({
+      products: 'id, sku, barcode, synced_at, updated_at',
+      sync_state: 'entity',
+      categories: 'id, name',
+      modifier_groups: 'id',
+      modifiers: 'id, modifier_group_id',
+      product_modifiers: 'id, product_id, modifier_group_id',
+      combo_products: 'id, product_id',
+      combo_components: 'id, combo_product_id'
+    });
+
+    // Seed categories from cached products so an upgraded terminal has them before its first menu sync
+    this.version(3).stores({}).upgrade(async tx => {
+      const categories = new Map<string, LocalCategory>();
+      await tx.table('products').toCollection().modify(product => {
+        if (product.category_id && product.category_name && !categories.has(product.category_id)) {
+          categories.set(product.category_id, {
+            id: product.category_id,
+            name: product.category_name,
+            updated_at: ''
+          });
+        }
+        // Drop the joined categories object older syncs stored on each product
+        delete product.categories;
+      });
+
+      if (await tx.table('categories').count() === 0) {
+        await tx.table('categories').bulkAdd([...categories.values()]);
+      }
+    });
+
+    // Promotions are evaluated at checkout, so terminals keep them offline too
+    this.version(4).stores({
+      promotions: 'id'
+    });
+
     // Handle database errors globally
     this.on('blocked', () => {
       console.warn('[DB] Database blocked - another connection is open');
@@ -142,6 +306,16 @@ export const clearSyncQueue = async () => {
   }
 };
 
+// Add a cloud write to the outbox; replayed by the sync engine when online
+export const enqueueSync = async (type: SyncQueueType, data: SyncQueue['data']) => {
+  return db.sync_queue.add({
+    type,
+    data,
+    attempts: 0,
+    created_at: new Date()
+  });
+};
+
 // Reset database completely
 export const resetDatabase = async () => {
   try {
@@ -0,0 +1,347 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Enums } from '@/integrations/supabase/types';
+
+export type KitchenStatus = 'pending' | 'confirmed' | 'preparing' | 'ready' | 'served' | 'paid' | 'cancelled';
+
+// Bumping moves a ticket one step along this line; recalling moves it back
+const KITCHEN_FLOW: KitchenStatus[] = ['pending', 'preparing', 'ready'];
+
+export const getNextKitchenStatus = (status: string): KitchenStatus | null => {
+  const index = KITCHEN_FLOW.indexOf(status as KitchenStatus);
+  return index >= 0 && index < KITCHEN_FLOW.length - 1 ? KITCHEN_FLOW[index + 1] : null;
+};
+
+/**
+ * Move items to a new status in one statement, so the audit rows share a time and the ticket can
+ * be recalled as a whole
+ */
+export const bumpItems = async (itemIds: string[], status: KitchenStatus) => {
+  if (itemIds.length === 0) return;
+  const { error } = await supabase
+    .from('order_items')
+    .update({ status })
+    .in('id', itemIds);
+  if (error) throw error;
+};
+
+// One bump of a ticket: every item an update moved forward at the same moment
+export interface KitchenBump {
+  orderId: string;
+  orderNumber: string;
+  tableNumber?: string;
+  fromStatus: KitchenStatus;
+  toStatus: KitchenStatus;
+  changedBy: string | null;
+  changedAt: string;
+  items: { id: string; productName: string; qty: number }[];
+}
+
+export const describeBump = (bump: KitchenBump) =>
+  `${bump.tableNumber ? `Table ${bump.tableNumber}` : `#${bump.orderNumber.split('-').pop()}`} ` +
+  bump.items.map(item => `${item.qty}x ${item.productName}`).join(', ');
+
+// Which bumps a screen may recall: its own station's items, or what its user bumped
+export interface BumpScope {
+  station?: string;
+  changedBy?: string;
+}
+
+/**
+ * Recent forward bumps whose items are still where the bump left them, newest first. Events are grouped
+ * into bumps by the database, so a bump always comes back with every one of its items.
+ */
+export const fetchRecentBumps = async (limit = 10, scope: BumpScope = {}): Promise<KitchenBump[]> => {
+  const { data, error } = await supabase.rpc('get_recent_kitchen_bumps', {
+    _limit: limit,
+    _station: scope.station as Enums<'kitchen_station'> | undefined,
+    _changed_by: scope.changedBy,
+  });
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    orderId: row.order_id,
+    orderNumber: row.order_number,
+    tableNumber: row.table_number || undefined,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    changedBy: row.changed_by_name || null,
+    changedAt: row.changed_at,
+    items: ((row.items || []) as unknown as { id: string; product_name: string; qty: number }[])
+      .map(item => ({ id: item.id, productName: item.product_name, qty: item.qty })),
+  }));
+};
+
+/**
+ * Put a bumped ticket back where it was; a ticket recalled from ready is open on the kitchen screens again
+ */
+export const recallBump = async (bump: KitchenBump) => {
+  await bumpItems(bump.items.map(item => item.id), bump.fromStatus);
+
+  if (bump.toStatus === 'ready') {
+    // Back to cooking, so the pass has to call them again
+    const { error: itemError } = await supabase
+      .from('order_items')
+      .update({ called_at: null })
+      .in('id', bump.items.map(item => item.id));
+    if (itemError) throw itemError;
+
+    const { error } = await supabase
+      .from('orders')
+      .update({ status: 'preparing' })
+      .eq('id', bump.orderId)
+      .eq('status', 'ready');
+    if (error) throw error;
+  }
+};
+
+/**
+ * Recall the most recent bump within the screen's scope; null when there is nothing to recall
+ */
+export const recallLastBump = async (scope: BumpScope) => {
+  const [bump] = await fetchRecentBumps(1, scope);
+  if (!bump) return null;
+  await recallBump(bump);
+  return bump;
+};
+
+// Used when a product has no prep time set, as on the kitchen tickets
+export const DEFAULT_PREP_MINUTES = 10;
+
+export interface AllDayItem {
+  product_name: string;
+  qty: number;
+  status: string;
+  kitchen_station: string;
+  started_at?: string | null;
+  estimated_prep_minutes?: number;
+  modifiers?: { modifier_name: string }[];
+}
+
+export interface AllDayLine {
+  label: string;
+  qty: number;
+}
+
+export interface StationLoad {
+  station: string;
+  lines: AllDayLine[];
+  pending: number;
+  preparing: number;
+  overdue: number;
+  // Average elapsed / estimated prep time over what is cooking; 1 means on the limit
+  heat: number;
+}
+
+export const getHeatLevel = (heat: number) => (heat > 1 ? 'hot' : heat > 0.8 ? 'warm' : 'cool');
+
+const getAllDayLabel = (item: AllDayItem) => {
+  const modifiers = (item.modifiers || []).map(mod => mod.modifier_name).sort();
+  return modifiers.length > 0 ? `${item.product_name} (${modifiers.join(', ')})` : item.product_name;
+};
+
+/**
+ * All-day counts per station for open (pending and preparing) items: identical dishes with the same
+ * modifiers are added up, alongside how far behind the station is running
+ */
+export const getStationLoads = (items: AllDayItem[], now = Date.now()): StationLoad[] => {
+  const stations = new Map<string, { counts: Map<string, number>; load: StationLoad; ratios: number[] }>();
+
+  for (const item of items) {
+    if (item.status !== 'pending' && item.status !== 'preparing') continue;
+
+    let entry = stations.get(item.kitchen_station);
+    if (!entry) {
+      entry = {
+        counts: new Map(),
+        load: { station: item.kitchen_station, lines: [], pending: 0, preparing: 0, overdue: 0, heat: 0 },
+        ratios: [],
+      };
+      stations.set(item.kitchen_station, entry);
+    }
+
+    const label = getAllDayLabel(item);
+    entry.counts.set(label, (entry.counts.get(label) || 0) + item.qty);
+
+    if (item.status === 'pending') {
+      entry.load.pending += item.qty;
+    } else {
+      entry.load.preparing += item.qty;
+      if (item.started_at) {
+        const elapsed = (now - new Date(item.started_at).getTime()) / 60000;
+        const ratio = elapsed / (item.estimated_prep_minutes || DEFAULT_PREP_MINUTES);
+        entry.ratios.push(ratio);
+        if (ratio > 1) entry.load.overdue += 1;
+      }
+    }
+  }
+
+  return [...stations.values()]
+    .map(({ counts, load, ratios }) => ({
+      ...load,
+      lines: [...counts.entries()]
+        .map(([label, qty]) => ({ label, qty }))
+        .sort((a, b) => b.qty - a.qty || a.label.localeCompare(b.label)),
+      heat: ratios.length > 0 ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : 0,
+    }))
+    .sort((a, b) => b.heat - a.heat || a.station.localeCompare(b.station));
+};
+
+export interface ExpoItem {
+  status: string;
+  kitchen_station: string;
+  course_number: number;
+  course_name: string | null;
+  // Null while the item's course is held by the waiter
+  fired_at: string | null;
+  // Set once the pass has called the item's course
+  called_at: string | null;
+}
+
+// One fired course of an order waiting at the pass
+export interface ExpoCall<T extends ExpoItem> {
+  courseNumber: number;
+  courseName: string | null;
+  items: T[];
+}
+
+export interface StationReadiness {
+  station: string;
+  ready: number;
+  total: number;
+}
+
+// Cancelled items never reach the pass, so they don't hold a call up
+const isOutstanding = (item: ExpoItem) => item.status !== 'cancelled' && item.status !== 'ready';
+
+export const getHoldingItems = <T extends ExpoItem>(items: T[]) => items.filter(isOutstanding);
+
+/**
+ * An order's fired courses that the pass has not called yet, in course order. Held courses are left
+ * out, so they never keep an earlier course from being called.
+ */
+export const getExpoCalls = <T extends ExpoItem>(items: T[]): ExpoCall<T>[] => {
+  const calls = new Map<number, ExpoCall<T>>();
+  for (const item of items) {
+    if (item.status === 'cancelled' || !item.fired_at || item.called_at) continue;
+    const call = calls.get(item.course_number) || { courseNumber: item.course_number, courseName: item.course_name, items: [] };
+    call.items.push(item);
+    calls.set(item.course_number, call);
+  }
+  return [...calls.values()].sort((a, b) => a.courseNumber - b.courseNumber);
+};
+
+/**
+ * How many of each station's items on a ticket are ready
+ */
+export const getStationReadiness = (items: ExpoItem[]): StationReadiness[] => {
+  const stations = new Map<string, StationReadiness>();
+  for (const item of items) {
+    if (item.status === 'cancelled') continue;
+    const readiness = stations.get(item.kitchen_station) || { station: item.kitchen_station, ready: 0, total: 0 };
+    readiness.total += 1;
+    if (!isOutstanding(item)) readiness.ready += 1;
+    stations.set(item.kitchen_station, readiness);
+  }
+  return [...stations.values()].sort((a, b) => a.station.localeCompare(b.station));
+};
+
+/**
+ * Call a course from the pass, or every fired course when none is given. The waiter is notified of
+ * each call; once nothing on the order is left to call it turns ready, which puts it on the customer
+ * ready board. The database refuses while any item being called is still cooking.
+ */
+export const expediteOrder = async (orderId: string, courseNumber?: number) => {
+  const { error } = await supabase.rpc('expedite_order', { _order_id: orderId, _course_number: courseNumber });
+  if (error) throw error;
+};
+
+// Orders still being worked on by the kitchen
+export const OPEN_ORDER_STATUSES = ['pending', 'confirmed', 'preparing'];
+
+// One item as the kitchen screens see it, with its order and extras joined by get_kitchen_tickets
+export interface KitchenTicketItem {
+  id: string;
+  order_id: string;
+  product_id: string;
+  product_name: string;
+  qty: number;
+  special_instructions: string | null;
+  status: KitchenStatus;
+  kitchen_station: string;
+  course_number: number;
+  course_name: string | null;
+  created_at: string;
+  // Null while the item's course is held by the waiter
+  fired_at: string | null;
+  called_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  weight_amount: number | null;
+  weight_unit: string | null;
+  order_number: string;
+  order_type: string;
+  order_status: string;
+  order_created_at: string;
+  customer_name: string | null;
+  table_number: string | null;
+  estimated_prep_minutes: number;
+  modifiers: { id: string; modifier_name: string; price_adjustment: number }[];
+  combo_selections: { id: string; selected_product_name: string; qty: number }[];
+}
+
+/**
+ * Items of open orders, or of just the given orders, with everything a ticket shows in one query
+ */
+export const fetchKitchenTickets = async (orderIds?: string[]): Promise<KitchenTicketItem[]> => {
+  const { data, error } = await supabase.rpc('get_kitchen_tickets', orderIds ? { _order_ids: orderIds } : {});
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    ...row,
+    estimated_prep_minutes: row.estimated_prep_minutes || DEFAULT_PREP_MINUTES,
+    modifiers: (row.modifiers || []) as unknown as KitchenTicketItem['modifiers'],
+    combo_selections: (row.combo_selections || []) as unknown as KitchenTicketItem['combo_selections'],
+  }));
+};
+
+export interface KitchenTicket {
+  id: string;
+  order_number: string;
+  order_type: string;
+  customer_name: string | null;
+  created_at: string;
+  status: string;
+  // Fired items the pass has not called yet; has_held_items says whether a course is still with the waiter
+  order_items: KitchenTicketItem[];
+  has_held_items: boolean;
+}
+
+/**
+ * Group items into open orders, oldest first. Orders with nothing fired and uncalled are left out.
+ */
+export const groupKitchenTickets = (items: KitchenTicketItem[]): KitchenTicket[] => {
+  const tickets = new Map<string, KitchenTicket>();
+  for (const item of items) {
+    if (!OPEN_ORDER_STATUSES.includes(item.order_status)) continue;
+
+    let ticket = tickets.get(item.order_id);
+    if (!ticket) {
+      ticket = {
+        id: item.order_id,
+        order_number: item.order_number,
+        order_type: item.order_type,
+        customer_name: item.customer_name,
+        created_at: item.order_created_at,
+        status: item.order_status,
+        order_items: [],
+        has_held_items: false,
+      };
+      tickets.set(item.order_id, ticket);
+    }
+    if (!item.fired_at) ticket.has_held_items = true;
+    else if (!item.called_at) ticket.order_items.push(item);
+  }
+  return [...tickets.values()]
+    .filter(ticket => ticket.order_items.length > 0)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
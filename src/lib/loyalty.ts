@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+import { multiplyMoney } from '@/lib/money';
+
+export interface LoyaltySettings {
+  is_enabled: boolean;
+  points_per_unit: number;
+  value_per_point: number;
+  min_redeem_points: number;
+}
+
+export interface LoyaltyCustomer {
+  id: string;
+  name: string;
+  phone: string;
+  loyalty_points: number;
+}
+
+// Cache settings for the session; they rarely change
+let cachedSettings: LoyaltySettings | null = null;
+let lastFetchTime = 0;
+const CACHE_DURATION = 5 * 60 * 1000;
+
+/**
+ * Fetch the loyalty programme settings with caching
+ */
+export const fetchLoyaltySettings = async (): Promise<LoyaltySettings | null> => {
+  const now = Date.now();
+  if (cachedSettings && now - lastFetchTime < CACHE_DURATION) {
+    return cachedSettings;
+  }
+
+  const { data, error } = await supabase
+    .from('loyalty_settings')
+    .select('*')
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to fetch loyalty settings:', error);
+    return cachedSettings;
+  }
+
+  cachedSettings = data
+    ? {
+        is_enabled: data.is_enabled,
+        points_per_unit: Number(data.points_per_unit),
+        value_per_point: Number(data.value_per_point),
+        min_redeem_points: data.min_redeem_points,
+      }
+    : null;
+  lastFetchTime = now;
+  return cachedSettings;
+};
+
+/**
+ * Clear the loyalty settings cache (call after updating settings)
+ */
+export const clearLoyaltySettingsCache = () => {
+  cachedSettings = null;
+  lastFetchTime = 0;
+};
+
+export const lookupLoyaltyCustomer = async (phone: string): Promise<LoyaltyCustomer | null> => {
+  const { data, error } = await supabase.rpc('lookup_loyalty_customer', { _phone: phone.trim() });
+  if (error) throw error;
+  return data?.[0] ?? null;
+};
+
+// Mirrors record_loyalty_sale so the cashier can tell the customer what they earned
+export const getPointsEarned = (amountPaid: number, settings: LoyaltySettings) =>
+  settings.is_enabled ? Math.floor(Math.max(0, amountPaid) * settings.points_per_unit) : 0;
+
+export const getPointsValue = (points: number, settings: LoyaltySettings) =>
+  multiplyMoney(settings.value_per_point, points);
+
+// Whole points needed to cover an amount, rounded up so the tender is fully paid
+export const getPointsForAmount = (amount: number, settings: LoyaltySettings) =>
+  Math.ceil(amount / settings.value_per_point - 1e-9);
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MoneyFormat,
+  allocateCents,
+  formatAmount,
+  formatMoney,
+  roundCents,
+  roundMoney,
+  subtractMoney,
+  toCents,
+} from '@/lib/money';
+
+describe('roundCents', () => {
+  it('rounds half a cent away from zero by default', () => {
+    expect(roundCents(2.5)).toBe(3);
+    expect(roundCents(3.5)).toBe(4);
+    expect(roundCents(2.4999)).toBe(2);
+  });
+
+  it('rounds half a cent to the even cent with half-even', () => {
+    expect(roundCents(2.5, 'half-even')).toBe(2);
+    expect(roundCents(3.5, 'half-even')).toBe(4);
+    expect(roundCents(2.51, 'half-even')).toBe(3);
+  });
+
+  it('rounds negative halves away from zero, or to even', () => {
+    expect(roundCents(-2.5)).toBe(-3);
+    expect(roundCents(-2.5, 'half-even')).toBe(-2);
+    expect(roundCents(-3.5, 'half-even')).toBe(-4);
+  });
+
+  it('never returns negative zero', () => {
+    expect(roundCents(-0.4)).toBe(0);
+    expect(roundCents(-0.5, 'half-even')).toBe(0);
+  });
+});
+
+describe('toCents and roundMoney', () => {
+  it('treats 1.005 as exactly half a cent despite binary noise', () => {
+    expect(toCents(1.005)).toBe(101);
+    expect(roundMoney(1.005)).toBe(1.01);
+    expect(roundMoney(1.005, 'half-even')).toBe(1);
+    expect(roundMoney(1.015, 'half-even')).toBe(1.02);
+  });
+
+  it('rounds .5 of a cent', () => {
+    expect(toCents(0.005)).toBe(1);
+    expect(toCents(0.005, 'half-even')).toBe(0);
+  });
+
+  it('rounds negative amounts symmetrically', () => {
+    expect(toCents(-1.005)).toBe(-101);
+    expect(roundMoney(-1.005, 'half-even')).toBe(-1);
+    expect(subtractMoney(5, 7.5)).toBe(-2.5);
+  });
+});
+
+describe('allocateCents', () => {
+  it('keeps every part and the total in whole cents', () => {
+    expect(allocateCents(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateCents(1000, [3, 1])).toEqual([750, 250]);
+  });
+
+  it('splits a negative total so the parts still add back up', () => {
+    const parts = allocateCents(-100, [1, 1, 1]);
+    expect(parts).toEqual([-34, -33, -33]);
+    expect(parts.reduce((sum, part) => sum + part, 0)).toBe(-100);
+  });
+
+  it('splits evenly when every weight is zero', () => {
+    expect(allocateCents(100, [0, 0, 0])).toEqual([34, 33, 33]);
+    expect(allocateCents(-5, [0, 0])).toEqual([-3, -2]);
+  });
+
+  it('returns nothing for no weights', () => {
+    expect(allocateCents(100, [])).toEqual([]);
+  });
+});
+
+describe('formatMoney', () => {
+  const rand: MoneyFormat = { currency: 'ZAR', locale: 'en-ZA', symbolPosition: 'before', decimalSeparator: '.' };
+  const euro: MoneyFormat = { currency: 'EUR', locale: 'de-DE', symbolPosition: 'after', decimalSeparator: ',' };
+
+  it('puts the symbol before the amount', () => {
+    expect(formatMoney(1234.5, rand)).toBe('R1234.50');
+    expect(formatMoney(-5, rand)).toBe('-R5.00');
+  });
+
+  it('puts the symbol after the amount with a comma separator', () => {
+    expect(formatMoney(1234.5, euro)).toBe('1234,50 €');
+    expect(formatMoney(-12.5, euro)).toBe('-12,50 €');
+    expect(formatMoney(0.005, euro)).toBe('0,01 €');
+  });
+
+  it('formats bare amounts with the separator', () => {
+    expect(formatAmount(-0.5, ',')).toBe('-0,50');
+    expect(formatAmount(1.005)).toBe('1.01');
+  });
+});
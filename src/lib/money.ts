@@ -0,0 +1,158 @@
+/**
+ * Money - all arithmetic on amounts is done in integer cents and only converted back to
+ * rands (or whatever the currency is) at the edges, so the cart, the saved sale, the
+ * receipt and the card charge always agree to the cent.
+ */
+
+export type Cents = number;
+
+// half-up rounds .5 away from zero; half-even (banker's rounding) rounds .5 to the even cent
+export type RoundingMode = 'half-up' | 'half-even' | 'down' | 'up';
+
+export interface MoneyFormat {
+  currency: string;
+  locale: string;
+  symbolPosition: 'before' | 'after';
+  decimalSeparator: string;
+}
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = {
+  currency: 'ZAR',
+  locale: 'en-ZA',
+  symbolPosition: 'before',
+  decimalSeparator: '.',
+};
+
+// The store's format once its settings have loaded; see applyStoreSettings
+let activeFormat = DEFAULT_MONEY_FORMAT;
+
+export const setMoneyFormat = (format: MoneyFormat) => {
+  activeFormat = format;
+};
+
+export const getMoneyFormat = () => activeFormat;
+
+// Drops binary noise such as 1.005 * 100 = 100.49999999999999 before rounding
+const clean = (value: number) => Number(value.toPrecision(15));
+
+/**
+ * Round a fractional number of cents to a whole cent
+ */
+export const roundCents = (cents: number, mode: RoundingMode = 'half-up'): Cents => {
+  const value = clean(cents);
+  const sign = value < 0 ? -1 : 1;
+  const abs = Math.abs(value);
+  const floor = Math.floor(abs);
+  const fraction = clean(abs - floor);
+
+  let rounded: number;
+  switch (mode) {
+    case 'down':
+      rounded = floor;
+      break;
+    case 'up':
+      rounded = fraction > 0 ? floor + 1 : floor;
+      break;
+    case 'half-even':
+      rounded = fraction > 0.5 || (fraction === 0.5 && floor % 2 === 1) ? floor + 1 : floor;
+      break;
+    default:
+      rounded = fraction >= 0.5 ? floor + 1 : floor;
+  }
+  return sign * rounded || 0;
+};
+
+export const toCents = (amount: number, mode: RoundingMode = 'half-up'): Cents =>
+  roundCents(Number(amount || 0) * 100, mode);
+
+export const fromCents = (cents: Cents) => cents / 100;
+
+/**
+ * Round an amount to the nearest cent
+ */
+export const roundMoney = (amount: number, mode: RoundingMode = 'half-up') => fromCents(toCents(amount, mode));
+
+export const sumMoney = (amounts: number[]) =>
+  fromCents(amounts.reduce((sum, amount) => sum + toCents(amount), 0));
+
+export const subtractMoney = (amount: number, ...deductions: number[]) =>
+  fromCents(deductions.reduce((cents, deduction) => cents - toCents(deduction), toCents(amount)));
+
+/**
+ * Multiply an amount by a quantity, weight or rate, rounding the result once
+ */
+export const multiplyMoney = (amount: number, factor: number, mode: RoundingMode = 'half-up') =>
+  fromCents(roundCents(toCents(amount) * factor, mode));
+
+export const percentOf = (amount: number, percent: number, mode: RoundingMode = 'half-up') =>
+  multiplyMoney(amount, percent / 100, mode);
+
+/**
+ * Split whole cents in proportion to the weights; the leftover cents go to the largest
+ * remainders so the parts always add back up to the total
+ */
+export const allocateCents = (total: Cents, weights: number[]): Cents[] => {
+  const weightTotal = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (weights.length === 0) return [];
+  if (weightTotal <= 0) return allocateCents(total, weights.map(() => 1));
+
+  const exact = weights.map(weight => total * Math.max(0, weight) / weightTotal);
+  const parts = exact.map(value => Math.trunc(clean(value)));
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+  const step = leftover < 0 ? -1 : 1;
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: Math.abs(clean(value - parts[index])) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (let i = 0; leftover !== 0; i = (i + 1) % byRemainder.length) {
+    parts[byRemainder[i].index] += step;
+    leftover -= step;
+  }
+  return parts;
+};
+
+export const allocateMoney = (amount: number, weights: number[]) =>
+  allocateCents(toCents(amount), weights).map(fromCents);
+
+export const splitMoneyEvenly = (amount: number, parts: number) =>
+  allocateMoney(amount, Array<number>(Math.max(1, parts)).fill(1));
+
+const symbolCache = new Map<string, string>();
+
+export const getCurrencySymbol = (format: MoneyFormat = activeFormat) => {
+  const key = `${format.locale}|${format.currency}`;
+  let symbol = symbolCache.get(key);
+  if (symbol === undefined) {
+    try {
+      symbol = new Intl.NumberFormat(format.locale, { style: 'currency', currency: format.currency, currencyDisplay: 'narrowSymbol' })
+        .formatToParts(0)
+        .find(part => part.type === 'currency')?.value || format.currency;
+    } catch {
+      symbol = format.currency;
+    }
+    symbolCache.set(key, symbol);
+  }
+  return symbol;
+};
+
+/**
+ * Amount with two decimals and no symbol, e.g. "1234.50". Uses a dot by default so the text can
+ * be put back into a number input or parsed with parseFloat.
+ */
+export const formatAmount = (amount: number, decimalSeparator = '.') => {
+  const cents = toCents(amount);
+  const abs = Math.abs(cents);
+  return `${cents < 0 ? '-' : ''}${Math.floor(abs / 100)}${decimalSeparator}${String(abs % 100).padStart(2, '0')}`;
+};
+
+/**
+ * Amount with the currency symbol in the store's format, e.g. "R1234.50", "-R5.00" or "12,50 €".
+ * Digits stay plain ASCII so the same text works on thermal printers and on screen.
+ */
+export const formatMoney = (amount: number, format: MoneyFormat = activeFormat) => {
+  const cents = toCents(amount);
+  const sign = cents < 0 ? '-' : '';
+  const digits = formatAmount(Math.abs(fromCents(cents)), format.decimalSeparator);
+  const symbol = getCurrencySymbol(format);
+  return format.symbolPosition === 'after' ? `${sign}${digits} ${symbol}` : `${sign}${symbol}${digits}`;
+};
@@ -0,0 +1,147 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Client side of the payment intent lifecycle in the process-payment edge function
+
+export type PaymentIntentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface PaymentIntent {
+  transactionId: string;
+  status: PaymentIntentStatus;
+  provider?: string;
+  paymentMethod?: 'card' | 'qr';
+  actionUrl?: string | null;
+  qrImageUrl?: string | null;
+  cardBrand?: string | null;
+  cardLastFour?: string | null;
+  // Already phrased for the cashier by the edge function
+  error?: string | null;
+}
+
+// Providers the edge function router knows about; admins pick one in payment settings
+export const PAYMENT_PROVIDERS = [
+  { value: 'yoco_checkout', label: 'Yoco Checkout', description: 'Customer pays by card on a Yoco checkout page (no card machine)' },
+  { value: 'snapscan', label: 'SnapScan', description: 'Customer scans a QR code on the POS screen' },
+  { value: 'simulator', label: 'Simulator', description: 'Approves test payments without a provider' },
+];
+
+export interface PaymentSettings {
+  active_provider: string;
+}
+
+// Cache settings for the session; they rarely change
+let cachedSettings: PaymentSettings | null = null;
+let lastFetchTime = 0;
+const CACHE_DURATION = 5 * 60 * 1000;
+
+/**
+ * Fetch the payment provider settings with caching
+ */
+export const fetchPaymentSettings = async (): Promise<PaymentSettings | null> => {
+  const now = Date.now();
+  if (cachedSettings && now - lastFetchTime < CACHE_DURATION) {
+    return cachedSettings;
+  }
+
+  const { data, error } = await supabase
+    .from('payment_settings')
+    .select('active_provider')
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to fetch payment settings:', error);
+    return cachedSettings;
+  }
+
+  cachedSettings = data;
+  lastFetchTime = now;
+  return cachedSettings;
+};
+
+/**
+ * Clear the payment settings cache (call after updating settings)
+ */
+export const clearPaymentSettingsCache = () => {
+  cachedSettings = null;
+  lastFetchTime = 0;
+};
+
+const POLL_INTERVAL_MS = 2000;
+// Give up on the payment after this long; the intent is cancelled so it cannot complete later
+const POLL_TIMEOUT_MS = 3 * 60 * 1000;
+
+const invoke = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('process-payment', { body });
+  // Non-2xx responses still carry the cashier-friendly message in the body
+  const message = data?.error || (error && 'context' in error
+    ? (await (error.context as Response).json().catch(() => null))?.error
+    : null);
+  if (error || !data?.success) throw new Error(message || 'Payment processing failed');
+  return data;
+};
+
+const toIntent = (data: Record<string, unknown>): PaymentIntent => ({
+  transactionId: data.transaction_id as string,
+  status: data.status as PaymentIntentStatus,
+  provider: data.provider as string | undefined,
+  paymentMethod: data.payment_method as 'card' | 'qr' | undefined,
+  actionUrl: data.action_url as string | null | undefined,
+  qrImageUrl: data.qr_image_url as string | null | undefined,
+  cardBrand: data.card_brand as string | null | undefined,
+  cardLastFour: data.card_last_four as string | null | undefined,
+  error: data.error as string | null | undefined,
+});
+
+export const isSettled = (status: PaymentIntentStatus) =>
+  status === 'completed' || status === 'failed' || status === 'cancelled';
+
+// What a payment is for: a POS sale that is saved once approved, or a table's order being settled
+export type PaymentIntentTarget = { saleId: string } | { orderId: string };
+
+// The currency comes from store settings on the server
+export const createPaymentIntent = async (target: PaymentIntentTarget, amount: number, cashierId: string) =>
+  toIntent(await invoke({
+    action: 'create',
+    amount,
+    ...('saleId' in target ? { sale_id: target.saleId } : { order_id: target.orderId }),
+    metadata: { cashier_id: cashierId },
+  }));
+
+export const getPaymentIntentStatus = async (transactionId: string) =>
+  toIntent(await invoke({ action: 'status', transaction_id: transactionId }));
+
+export const cancelPaymentIntent = async (transactionId: string) =>
+  toIntent(await invoke({ action: 'cancel', transaction_id: transactionId }));
+
+/**
+ * Poll an intent until it settles. Aborting the signal, or timing out, cancels the intent.
+ */
+export const waitForPaymentIntent = async (
+  transactionId: string,
+  options: { signal?: AbortSignal; onUpdate?: (intent: PaymentIntent) => void } = {}
+): Promise<PaymentIntent> => {
+  const startedAt = Date.now();
+
+  while (true) {
+    if (options.signal?.aborted || Date.now() - startedAt > POLL_TIMEOUT_MS) {
+      const cancelled = await cancelPaymentIntent(transactionId);
+      // The payment may have gone through just before the cancel arrived
+      if (cancelled.status !== 'completed') {
+        return { ...cancelled, error: options.signal?.aborted ? 'Cancelled' : 'The payment timed out. Check the payment status before trying again.' };
+      }
+      return getPaymentIntentStatus(transactionId);
+    }
+
+    try {
+      const intent = await getPaymentIntentStatus(transactionId);
+      options.onUpdate?.(intent);
+      if (isSettled(intent.status)) return intent;
+    } catch (error) {
+      // A dropped poll is not a failed payment; keep asking until the timeout
+      console.error('Payment status check failed:', error);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+};
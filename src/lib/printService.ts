@@ -5,6 +5,9 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { sanitizeString } from '@/lib/validations';
+import { TaxBreakdownLine, getTaxLineLabel } from '@/lib/tax';
+import { formatMoney, multiplyMoney, subtractMoney, sumMoney } from '@/lib/money';
+import { formatDateTime } from '@/lib/dateTime';
 
 export interface PrintItem {
   productName: string;
@@ -28,12 +31,53 @@ export interface PrintOrderData {
   subtotal: number;
   taxAmount: number;
   discountAmount: number;
+  // Promotion discounts, each printed on its own line; included in discountAmount
+  discounts?: { name: string; amount: number }[];
   total: number;
+  // Tax invoice details; taxInclusive defaults to true (VAT already in the prices)
+  taxInclusive?: boolean;
+  taxBreakdown?: TaxBreakdownLine[];
+  vatNumber?: string | null;
+  isTaxInvoice?: boolean;
   paymentMethod: string;
   cashierName?: string;
   timestamp: Date;
 }
 
+export interface CourseFiredChitData {
+  orderNumber: string;
+  tableName?: string;
+  courseName: string;
+  items: PrintItem[];
+  firedBy?: string;
+  timestamp: Date;
+}
+
+export interface RefundSlipData {
+  refundNumber: string;
+  saleReference: string;
+  refundType: 'refund' | 'void';
+  reason: string;
+  notes?: string;
+  items: { productName: string; qty: number; amount: number }[];
+  amount: number;
+  refundMethod: string;
+  processedBy?: string;
+  timestamp: Date;
+}
+
+export interface ReportSlipSection {
+  title: string;
+  rows: { label: string; value: string }[];
+}
+
+export interface ReportSlipData {
+  title: string;
+  subtitle?: string;
+  details: string[];
+  sections: ReportSlipSection[];
+}
+
 interface PrinterSetting {
   id: string;
   name: string;
@@ -286,6 +330,57 @@ export const generateKitchenTicket = (order: PrintOrderData, kitchenItems?: Prin
   `;
 };
 
+/**
+ * Generate the chit that tells the kitchen a held course can now be cooked
+ */
+export const generateCourseFiredChit = (chit: CourseFiredChitData, kitchenItems?: PrintItem[]): string => {
+  const items = kitchenItems || chit.items;
+
+  if (items.length === 0) return '';
+
+  return `
+    <div style="font-family: 'Courier New', monospace; width: 280px; padding: 10px; background: white; color: black;">
+      <div style="text-align: center; border-bottom: 2px dashed #000; padding-bottom: 15px; margin-bottom: 10px;">
+        <div style="font-size: 28px; font-weight: bold;">FIRE ${sanitizeString(chit.courseName.toUpperCase())}</div>
+        ${chit.tableName ? `<div style="font-size: 36px; font-weight: bold; margin: 10px 0;">TABLE ${sanitizeString(chit.tableName)}</div>` : ''}
+        <div style="font-size: 14px;">#${sanitizeString(chit.orderNumber.split('-').pop()?.toUpperCase() || '')}</div>
+      </div>
+
+      <div style="margin-bottom: 10px;">
+        ${items.map(item => `
+          <div style="margin: 8px 0; font-size: 18px; font-weight: bold;">
+            ${item.qty}x ${sanitizeString(item.productName)}
+            ${item.specialInstructions ? `
+              <div style="font-size: 14px; color: #c00; margin-left: 30px;">
+                ⚠ ${sanitizeString(item.specialInstructions)}
+              </div>
+            ` : ''}
+          </div>
+        `).join('')}
+      </div>
+
+      <div style="border-top: 2px dashed #000; padding-top: 10px; text-align: center; font-size: 12px; color: #666;">
+        ${chit.firedBy ? `Fired by ${sanitizeString(chit.firedBy)} · ` : ''}${formatDateTime(chit.timestamp)}
+      </div>
+    </div>
+  `;
+};
+
+// Discount not accounted for by a named promotion line
+const getManualDiscount = (order: PrintOrderData) =>
+  subtractMoney(order.discountAmount, sumMoney((order.discounts || []).map(d => d.amount)));
+
+const getLineTotal = (item: PrintItem) => item.lineTotal || multiplyMoney(item.price || 0, item.qty);
+
+// One VAT line per rate; a single total line when no breakdown was supplied
+const getTaxLines = (order: PrintOrderData) => {
+  const inclusive = order.taxInclusive !== false;
+  if (!order.taxBreakdown || order.taxBreakdown.length === 0) {
+    return [{ label: inclusive ? 'VAT (incl)' : 'VAT', net: null, tax: order.taxAmount }];
+  }
+  return order.taxBreakdown.map(line => ({ label: getTaxLineLabel(line, inclusive), net: line.net, tax: line.tax }));
+};
+
 /**
  * Generate customer receipt content with branding
  */
@@ -293,7 +388,7 @@ export const generateReceipt = (
   order: PrintOrderData, 
   branding?: ReceiptBranding | null
 ): string => {
-  const timestamp = order.timestamp.toLocaleString('en-ZA');
+  const timestamp = formatDateTime(order.timestamp);
   const orderTypeDisplay = order.orderType.replace('_', ' ').toUpperCase();
 
   const businessName = sanitizeString(branding?.business_name || 'MR TECH SOLUTIONS');
@@ -316,10 +411,11 @@ export const generateReceipt = (
         <div style="font-size: 11px;">${addressLine1}</div>
         ${addressLine2 ? `<div style="font-size: 11px;">${addressLine2}</div>` : ''}
         <div style="font-size: 11px;">Tel: ${phone}</div>
-        <div style="font-size: 11px; margin-top: 5px;">VAT No: [VAT NUMBER]</div>
+        ${order.vatNumber ? `<div style="font-size: 11px; margin-top: 5px;">VAT No: ${sanitizeString(order.vatNumber)}</div>` : ''}
       </div>
       
       <div style="border-top: 1px dashed #000; border-bottom: 1px dashed #000; padding: 8px 0; margin: 8px 0; text-align: center;">
+        ${order.isTaxInvoice ? `<div style="font-size: 14px; font-weight: bold;">TAX INVOICE</div>` : ''}
         <div style="font-size: 14px; font-weight: bold;">Receipt #${sanitizeString(order.orderNumber.split('-').pop()?.toUpperCase() || '')}</div>
         <div style="font-size: 11px;">${orderTypeDisplay}</div>
         ${order.tableName ? `<div style="font-size: 11px;">Table: ${sanitizeString(order.tableName)}</div>` : ''}
@@ -342,7 +438,7 @@ export const generateReceipt = (
               ` : ''}
             </div>
             <div style="text-align: right; white-space: nowrap;">
-              R${((item.lineTotal || (item.price || 0) * item.qty)).toFixed(2)}
+              ${formatMoney(getLineTotal(item))}
             </div>
           </div>
         `).join('')}
@@ -351,21 +447,29 @@ export const generateReceipt = (
       <div style="border-top: 1px dashed #000; padding-top: 8px; margin-top: 8px;">
         <div style="display: flex; justify-content: space-between; font-size: 12px; margin: 3px 0;">
           <span>Subtotal:</span>
-          <span>R${order.subtotal.toFixed(2)}</span>
-        </div>
-        <div style="display: flex; justify-content: space-between; font-size: 12px; margin: 3px 0;">
-          <span>VAT (incl):</span>
-          <span>R${order.taxAmount.toFixed(2)}</span>
+          <span>${formatMoney(order.subtotal)}</span>
         </div>
-        ${order.discountAmount > 0 ? `
+        ${(order.discounts || []).map(discount => `
+          <div style="display: flex; justify-content: space-between; font-size: 12px; margin: 3px 0; color: #090;">
+            <span>${sanitizeString(discount.name)}:</span>
+            <span>-${formatMoney(discount.amount)}</span>
+          </div>
+        `).join('')}
+        ${getManualDiscount(order) > 0 ? `
           <div style="display: flex; justify-content: space-between; font-size: 12px; margin: 3px 0; color: #090;">
             <span>Discount:</span>
-            <span>-R${order.discountAmount.toFixed(2)}</span>
+            <span>-${formatMoney(getManualDiscount(order))}</span>
           </div>
         ` : ''}
+        ${getTaxLines(order).map(line => `
+          <div style="display: flex; justify-content: space-between; font-size: 12px; margin: 3px 0;">
+            <span>${line.label}${line.net !== null ? ` on ${formatMoney(line.net)}` : ''}:</span>
+            <span>${formatMoney(line.tax)}</span>
+          </div>
+        `).join('')}
         <div style="display: flex; justify-content: space-between; font-size: 16px; font-weight: bold; margin: 8px 0; border-top: 1px solid #000; padding-top: 8px;">
           <span>TOTAL:</span>
-          <span>R${order.total.toFixed(2)}</span>
+          <span>${formatMoney(order.total)}</span>
         </div>
         <div style="display: flex; justify-content: space-between; font-size: 12px; margin: 3px 0;">
           <span>Payment:</span>
@@ -375,12 +479,149 @@ export const generateReceipt = (
       
       <div style="text-align: center; margin-top: 15px; padding-top: 10px; border-top: 1px dashed #000;">
         <div style="font-size: 12px; font-weight: bold;">${footerText}</div>
-        <div style="font-size: 10px; color: #666; margin-top: 5px;">VAT included where applicable</div>
+        <div style="font-size: 10px; color: #666; margin-top: 5px;">${order.taxInclusive === false ? 'VAT added at checkout' : 'VAT included where applicable'}</div>
+      </div>
+    </div>
+  `;
+};
+
+/**
+ * Generate refund/void slip content; the customer signs the merchant copy
+ */
+export const generateRefundSlip = (
+  refund: RefundSlipData,
+  branding?: ReceiptBranding | null
+): string => {
+  const timestamp = formatDateTime(refund.timestamp);
+  const businessName = sanitizeString(branding?.business_name || 'MR TECH SOLUTIONS');
+  const title = refund.refundType === 'void' ? 'VOID' : 'REFUND';
+
+  return `
+    <div style="font-family: 'Courier New', monospace; width: 280px; padding: 10px; background: white; color: black;">
+      <div style="text-align: center; margin-bottom: 10px;">
+        <div style="font-size: 14px; font-weight: bold;">${businessName}</div>
+        <div style="font-size: 18px; font-weight: bold; margin-top: 5px;">*** ${title} ***</div>
+      </div>
+
+      <div style="border-top: 1px dashed #000; border-bottom: 1px dashed #000; padding: 8px 0; margin: 8px 0; text-align: center;">
+        <div style="font-size: 12px;">${title} #${sanitizeString(refund.refundNumber)}</div>
+        <div style="font-size: 11px;">Original receipt #${sanitizeString(refund.saleReference)}</div>
+        <div style="font-size: 10px; color: #666;">${timestamp}</div>
+        ${refund.processedBy ? `<div style="font-size: 10px; color: #666;">Authorised by: ${sanitizeString(refund.processedBy)}</div>` : ''}
+      </div>
+
+      <div style="margin-bottom: 10px;">
+        ${refund.items.map(item => `
+          <div style="display: flex; justify-content: space-between; margin: 4px 0; font-size: 12px;">
+            <div style="flex: 1;">
+              <span>${sanitizeString(item.productName)}</span>
+              <span style="color: #666;"> x${item.qty}</span>
+            </div>
+            <div style="text-align: right; white-space: nowrap;">-${formatMoney(item.amount)}</div>
+          </div>
+        `).join('')}
+      </div>
+
+      <div style="border-top: 1px dashed #000; padding-top: 8px; margin-top: 8px;">
+        <div style="display: flex; justify-content: space-between; font-size: 16px; font-weight: bold; margin: 8px 0;">
+          <span>REFUNDED:</span>
+          <span>-${formatMoney(refund.amount)}</span>
+        </div>
+        <div style="display: flex; justify-content: space-between; font-size: 12px; margin: 3px 0;">
+          <span>Refunded to:</span>
+          <span>${sanitizeString(refund.refundMethod.toUpperCase())}</span>
+        </div>
+        <div style="font-size: 12px; margin: 3px 0;">Reason: ${sanitizeString(refund.reason)}</div>
+        ${refund.notes ? `<div style="font-size: 11px; color: #666;">${sanitizeString(refund.notes)}</div>` : ''}
+      </div>
+
+      <div style="margin-top: 30px; border-top: 1px solid #000; padding-top: 4px; font-size: 10px; text-align: center;">
+        Customer signature
+      </div>
+    </div>
+  `;
+};
+
+/**
+ * Print a refund slip on the receipt printer, falling back to the browser
+ */
+export const printRefundSlip = async (
+  refund: RefundSlipData,
+  paperSize: PaperSize = DEFAULT_PAPER_SIZE
+): Promise<void> => {
+  const { printers, branding } = await fetchPrintSettings();
+  const receiptPrinter = printers.find(p => p.printer_type === 'receipt');
+  const content = generateRefundSlip(refund, branding);
+
+  const printed = receiptPrinter?.ip_address
+    ? await sendToNetworkPrinter(receiptPrinter.ip_address, content, 'Receipt')
+    : false;
+
+  if (!printed) {
+    printToBrowser(content, 1, paperSize, 'REFUND');
+  }
+};
+
+/**
+ * Generate a shift report (X/Z) slip: a header block followed by label/value sections
+ */
+export const generateReportSlip = (
+  slip: ReportSlipData,
+  branding?: ReceiptBranding | null
+): string => {
+  const businessName = sanitizeString(branding?.business_name || 'MR TECH SOLUTIONS');
+
+  return `
+    <div style="font-family: 'Courier New', monospace; width: 280px; padding: 10px; background: white; color: black;">
+      <div style="text-align: center; margin-bottom: 10px;">
+        <div style="font-size: 14px; font-weight: bold;">${businessName}</div>
+        <div style="font-size: 18px; font-weight: bold; margin-top: 5px;">${sanitizeString(slip.title)}</div>
+        ${slip.subtitle ? `<div style="font-size: 11px;">${sanitizeString(slip.subtitle)}</div>` : ''}
+      </div>
+
+      <div style="border-top: 1px dashed #000; border-bottom: 1px dashed #000; padding: 8px 0; margin: 8px 0;">
+        ${slip.details.map(line => `<div style="font-size: 11px;">${sanitizeString(line)}</div>`).join('')}
+      </div>
+
+      ${slip.sections.map(section => `
+        <div style="margin-bottom: 10px;">
+          <div style="font-size: 12px; font-weight: bold; border-bottom: 1px solid #000; margin-bottom: 4px;">${sanitizeString(section.title.toUpperCase())}</div>
+          ${section.rows.map(row => `
+            <div style="display: flex; justify-content: space-between; margin: 2px 0; font-size: 11px;">
+              <span style="flex: 1; white-space: pre;">${sanitizeString(row.label)}</span>
+              <span style="text-align: right; white-space: nowrap;">${sanitizeString(row.value)}</span>
+            </div>
+          `).join('')}
+        </div>
+      `).join('')}
+
+      <div style="text-align: center; margin-top: 15px; padding-top: 10px; border-top: 1px dashed #000; font-size: 10px;">
+        *** END OF REPORT ***
       </div>
     </div>
   `;
 };
 
+/**
+ * Print a shift report on the receipt printer, falling back to the browser
+ */
+export const printReportSlip = async (
+  slip: ReportSlipData,
+  paperSize: PaperSize = DEFAULT_PAPER_SIZE
+): Promise<void> => {
+  const { printers, branding } = await fetchPrintSettings();
+  const receiptPrinter = printers.find(p => p.printer_type === 'receipt');
+  const content = generateReportSlip(slip, branding);
+
+  const printed = receiptPrinter?.ip_address
+    ? await sendToNetworkPrinter(receiptPrinter.ip_address, content, 'Receipt')
+    : false;
+
+  if (!printed) {
+    printToBrowser(content, 1, paperSize, slip.title);
+  }
+};
+
 /**
  * Print to browser automatically using iframe (silent print)
  * Paper size: 80mm × 210mm (72.1mm printable width)
@@ -560,12 +801,16 @@ export const printOrderViaEdgeFunction = async (
         product_name: item.productName,
         qty: item.qty,
         price_at_order: item.price || 0,
-        line_total: item.lineTotal || (item.price || 0) * item.qty,
+        line_total: getLineTotal(item),
         special_instructions: item.specialInstructions,
         modifiers: item.modifiers?.map(m => ({ modifier_name: m, price_adjustment: 0 })) || [],
       })),
       subtotal: order.subtotal,
       tax: order.taxAmount,
+      tax_inclusive: order.taxInclusive,
+      tax_breakdown: order.taxBreakdown,
+      vat_number: order.vatNumber,
+      is_tax_invoice: order.isTaxInvoice,
       total: order.total,
       payment_method: order.paymentMethod,
       cashier_name: order.cashierName,
@@ -741,6 +986,38 @@ export const printOrder = async (
   };
 };
 
+/**
+ * The kitchen or bar printer the routing rules send these items to; the first kitchen printer
+ * when no rule matches
+ */
+const getRoutedKitchenPrinter = (
+  items: PrintItem[],
+  routes: RoutingRule[],
+  printers: PrinterSetting[]
+): PrinterSetting | undefined => {
+  const categories = items.map(item => (item.categoryName || '').toLowerCase());
+  const route = routes.find(r => categories.includes(r.category_name.toLowerCase()) &&
+    printers.some(p => p.id === r.printer_id && p.printer_type !== 'receipt'));
+  return printers.find(p => p.id === route?.printer_id) || printers.find(p => p.printer_type === 'kitchen');
+};
+
+/**
+ * Print a course fired chit on the routed kitchen printer, falling back to the browser
+ */
+export const printCourseFired = async (chit: CourseFiredChitData): Promise<boolean> => {
+  const { printers, routes } = await fetchPrintSettings();
+  const kitchenItems = filterKitchenItems(chit.items, routes, printers);
+  const content = generateCourseFiredChit(chit, kitchenItems);
+  if (!content) return false;
+
+  const printer = getRoutedKitchenPrinter(kitchenItems, routes, printers);
+  if (printer?.ip_address && await sendToNetworkPrinter(printer.ip_address, content, printer.name)) {
+    return true;
+  }
+  printToBrowser(content, 1, DEFAULT_PAPER_SIZE, `FIRE ${chit.courseName.toUpperCase()}`);
+  return true;
+};
+
 /**
  * Quick function to print both kitchen and receipt at once
  */
@@ -778,28 +1055,45 @@ export const generateEscPosReceipt = (
   data += 'GRILL & COFFEE\n';
   data += addressLine1 + '\n';
   data += `Tel: ${phone}\n`;
+  if (order.vatNumber) {
+    data += `VAT No: ${order.vatNumber}\n`;
+  }
   data += COMMANDS.FEED_LINES(1);
   
+  if (order.isTaxInvoice) {
+    data += COMMANDS.BOLD_ON;
+    data += 'TAX INVOICE\n';
+    data += COMMANDS.BOLD_OFF;
+  }
   data += COMMANDS.LEFT;
   data += `Receipt: ${order.orderNumber}\n`;
-  data += `Date: ${order.timestamp.toLocaleString()}\n`;
+  data += `Date: ${formatDateTime(order.timestamp)}\n`;
   data += COMMANDS.FEED_LINES(1);
   
   data += '--------------------------------\n';
   order.items.forEach(item => {
-    const itemTotal = (item.lineTotal || (item.price || 0) * item.qty).toFixed(2);
     data += `${item.qty}x ${item.productName}\n`;
     if (item.modifiers && item.modifiers.length > 0) {
       data += `   ${item.modifiers.join(', ')}\n`;
     }
     data += COMMANDS.RIGHT;
-    data += `R${itemTotal}\n`;
+    data += `${formatMoney(getLineTotal(item))}\n`;
     data += COMMANDS.LEFT;
   });
   data += '--------------------------------\n';
+
+  (order.discounts || []).forEach(discount => {
+    data += `${discount.name}: -${formatMoney(discount.amount)}\n`;
+  });
+  if (getManualDiscount(order) > 0) {
+    data += `Discount: -${formatMoney(getManualDiscount(order))}\n`;
+  }
+  getTaxLines(order).forEach(line => {
+    data += `${line.label}${line.net !== null ? ` on ${formatMoney(line.net)}` : ''}: ${formatMoney(line.tax)}\n`;
+  });
   
   data += COMMANDS.BOLD_ON;
-  data += `TOTAL: R${order.total.toFixed(2)}\n`;
+  data += `TOTAL: ${formatMoney(order.total)}\n`;
   data += COMMANDS.BOLD_OFF;
   data += `Payment: ${order.paymentMethod}\n`;
   
@@ -0,0 +1,139 @@
+import { LocalPromotion } from '@/lib/db';
+import { multiplyMoney, percentOf, roundMoney, subtractMoney, sumMoney } from '@/lib/money';
+import { toStoreTime } from '@/lib/dateTime';
+
+// Promotion engine: finds the promotions that apply to a cart right now and picks the best set
+
+export interface PromotionCartLine {
+  productId: string;
+  categoryId?: string | null;
+  unitPrice: number;
+  qty: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  amount: number;
+}
+
+// "HH:MM" or "HH:MM:SS" to minutes since midnight
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const isPromotionActive = (promotion: LocalPromotion, at: Date = new Date()) => {
+  if (!promotion.is_active) return false;
+  if (at < new Date(promotion.start_date) || at > new Date(promotion.end_date)) return false;
+  if (promotion.usage_limit !== null && (promotion.usage_count || 0) >= promotion.usage_limit) return false;
+
+  // Day and time windows are the store's wall clock, whatever zone the terminal is set to
+  const storeTime = toStoreTime(at);
+  if (promotion.days_of_week && promotion.days_of_week.length > 0 && !promotion.days_of_week.includes(storeTime.getDay())) {
+    return false;
+  }
+
+  if (promotion.time_start && promotion.time_end) {
+    const now = storeTime.getHours() * 60 + storeTime.getMinutes();
+    const start = toMinutes(promotion.time_start);
+    const end = toMinutes(promotion.time_end);
+    // A window like 22:00-02:00 runs past midnight
+    const inWindow = start <= end ? now >= start && now < end : now >= start || now < end;
+    if (!inWindow) return false;
+  }
+
+  return true;
+};
+
+const getLinesTotal = (lines: PromotionCartLine[]) =>
+  sumMoney(lines.map(line => multiplyMoney(line.unitPrice, line.qty)));
+
+const getEligibleLines = (promotion: LocalPromotion, lines: PromotionCartLine[]) => {
+  const targets = promotion.target_ids || [];
+  switch (promotion.applies_to) {
+    case 'product':
+      return lines.filter(line => targets.includes(line.productId));
+    case 'category':
+      return lines.filter(line => !!line.categoryId && targets.includes(line.categoryId));
+    default:
+      return lines;
+  }
+};
+
+// Discount a single promotion gives this cart, before it is combined with others
+export const getPromotionDiscount = (promotion: LocalPromotion, lines: PromotionCartLine[]) => {
+  const cartSubtotal = getLinesTotal(lines);
+  if (cartSubtotal < (promotion.min_purchase_amount || 0)) return 0;
+
+  const eligible = getEligibleLines(promotion, lines);
+  const eligibleSubtotal = getLinesTotal(eligible);
+  if (eligibleSubtotal <= 0) return 0;
+
+  let discount = 0;
+  switch (promotion.discount_type) {
+    case 'percentage':
+      discount = percentOf(eligibleSubtotal, promotion.discount_value);
+      break;
+    case 'fixed_amount':
+      discount = promotion.discount_value;
+      break;
+    case 'buy_x_get_y': {
+      // Buy discount_value items, get the next one free; the cheapest units are the free ones
+      const groupSize = Math.floor(promotion.discount_value) + 1;
+      if (groupSize < 2) return 0;
+      const unitPrices = eligible
+        .flatMap(line => Array<number>(line.qty).fill(line.unitPrice))
+        .sort((a, b) => a - b);
+      const freeUnits = Math.floor(unitPrices.length / groupSize);
+      discount = sumMoney(unitPrices.slice(0, freeUnits));
+      break;
+    }
+    default:
+      return 0;
+  }
+
+  if (promotion.max_discount_amount !== null) {
+    discount = Math.min(discount, promotion.max_discount_amount);
+  }
+  return roundMoney(Math.min(discount, eligibleSubtotal));
+};
+
+/**
+ * Pick the promotions to apply: either every applicable stackable promotion together,
+ * or the single best promotion, whichever saves the customer more
+ */
+export const applyPromotions = (
+  promotions: LocalPromotion[],
+  lines: PromotionCartLine[],
+  at: Date = new Date()
+): AppliedPromotion[] => {
+  const cartSubtotal = getLinesTotal(lines);
+  const candidates = promotions
+    .filter(promotion => isPromotionActive(promotion, at))
+    .map(promotion => ({
+      promotionId: promotion.id,
+      name: promotion.name,
+      amount: getPromotionDiscount(promotion, lines),
+      stackable: promotion.is_stackable,
+    }))
+    .filter(candidate => candidate.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+
+  if (candidates.length === 0) return [];
+
+  const stacked = candidates.filter(candidate => candidate.stackable);
+  const stackedTotal = sumMoney(stacked.map(candidate => candidate.amount));
+  const chosen = stacked.length > 1 && stackedTotal > candidates[0].amount ? stacked : [candidates[0]];
+
+  // Stacked discounts never take the cart below zero
+  let remaining = cartSubtotal;
+  return chosen.flatMap(({ promotionId, name, amount }) => {
+    const applied = Math.min(amount, remaining);
+    remaining = subtractMoney(remaining, applied);
+    return applied > 0 ? [{ promotionId, name, amount: applied }] : [];
+  });
+};
+
+export const getPromotionTotal = (applied: AppliedPromotion[]) =>
+  sumMoney(applied.map(promotion => promotion.amount));
@@ -4,6 +4,10 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import type { ReportSlipData } from '@/lib/printService';
+import { TaxBreakdownLine, getTaxLineLabel } from '@/lib/tax';
+import { formatMoney, multiplyMoney, subtractMoney, sumMoney } from '@/lib/money';
+import { formatDateTime } from '@/lib/dateTime';
 
 // Declare QZ Tray global
 declare global {
@@ -140,6 +144,13 @@ export interface OrderData {
   subtotal?: number;
   tax?: number;
   discount?: number;
+  // Promotion discounts printed line by line; included in discount
+  discounts?: { name: string; amount: number }[];
+  // Tax invoice details; taxInclusive defaults to true (VAT already in the prices)
+  taxInclusive?: boolean;
+  taxBreakdown?: TaxBreakdownLine[];
+  vatNumber?: string | null;
+  isTaxInvoice?: boolean;
   paymentMethod?: string;
   note?: string;
   tableName?: string;
@@ -148,11 +159,26 @@ export interface OrderData {
   timestamp?: Date;
 }
 
+// Discount not accounted for by a named promotion line
+const getManualDiscount = (order: OrderData) =>
+  subtractMoney(order.discount || 0, sumMoney((order.discounts || []).map(d => d.amount)));
+
+// One VAT line per rate; a single total line when no breakdown was supplied
+const getTaxLines = (order: OrderData) => {
+  const inclusive = order.taxInclusive !== false;
+  if (!order.taxBreakdown || order.taxBreakdown.length === 0) {
+    return order.tax ? [`${inclusive ? 'VAT (incl)' : 'VAT'}: ${formatMoney(order.tax)}\n`] : [];
+  }
+  return order.taxBreakdown.map(line =>
+    `${getTaxLineLabel(line, inclusive)} on ${formatMoney(line.net)}: ${formatMoney(line.tax)}\n`
+  );
+};
+
 /**
  * Build customer receipt ESC/POS data
  */
 export const buildCustomerReceipt = (order: OrderData): any[] => {
-  const timestamp = (order.timestamp || new Date()).toLocaleString('en-ZA');
+  const timestamp = formatDateTime(order.timestamp || new Date());
   
   return [
     { type: 'raw', format: 'plain', data: ESCPOS.RESET },
@@ -161,7 +187,13 @@ export const buildCustomerReceipt = (order: OrderData): any[] => {
     { type: 'raw', format: 'plain', data: 'MR TECH SOLUTIONS\n' },
     { type: 'raw', format: 'plain', data: ESCPOS.NORMAL },
     { type: 'raw', format: 'plain', data: 'POS SYSTEM\n' },
+    ...(order.vatNumber ? [{ type: 'raw', format: 'plain', data: `VAT No: ${order.vatNumber}\n` }] : []),
     { type: 'raw', format: 'plain', data: '\n' },
+    ...(order.isTaxInvoice ? [
+      { type: 'raw', format: 'plain', data: ESCPOS.BOLD_ON },
+      { type: 'raw', format: 'plain', data: 'TAX INVOICE\n' },
+      { type: 'raw', format: 'plain', data: ESCPOS.BOLD_OFF },
+    ] : []),
     { type: 'raw', format: 'plain', data: '\n' },
     { type: 'raw', format: 'plain', data: ESCPOS.FEED(1) },
     { type: 'raw', format: 'plain', data: ESCPOS.LEFT },
@@ -177,15 +209,16 @@ export const buildCustomerReceipt = (order: OrderData): any[] => {
         ? [{ type: 'raw', format: 'plain', data: `   ${item.modifiers.join(', ')}\n` }] 
         : []),
       ...(item.price 
-        ? [{ type: 'raw', format: 'plain', data: ESCPOS.RIGHT + `R${(item.price * item.qty).toFixed(2)}\n` + ESCPOS.LEFT }] 
+        ? [{ type: 'raw', format: 'plain', data: ESCPOS.RIGHT + `${formatMoney(multiplyMoney(item.price, item.qty))}\n` + ESCPOS.LEFT }] 
         : []),
     ]),
     { type: 'raw', format: 'plain', data: '-'.repeat(32) + '\n' },
-    ...(order.subtotal ? [{ type: 'raw', format: 'plain', data: `Subtotal: R${order.subtotal.toFixed(2)}\n` }] : []),
-    ...(order.tax ? [{ type: 'raw', format: 'plain', data: `VAT (incl): R${order.tax.toFixed(2)}\n` }] : []),
-    ...(order.discount && order.discount > 0 ? [{ type: 'raw', format: 'plain', data: `Discount: -R${order.discount.toFixed(2)}\n` }] : []),
+    ...(order.subtotal ? [{ type: 'raw', format: 'plain', data: `Subtotal: ${formatMoney(order.subtotal)}\n` }] : []),
+    ...(order.discounts || []).map(discount => ({ type: 'raw', format: 'plain', data: `${discount.name}: -${formatMoney(discount.amount)}\n` })),
+    ...(getManualDiscount(order) > 0 ? [{ type: 'raw', format: 'plain', data: `Discount: -${formatMoney(getManualDiscount(order))}\n` }] : []),
+    ...getTaxLines(order).map(line => ({ type: 'raw', format: 'plain', data: line })),
     { type: 'raw', format: 'plain', data: ESCPOS.BOLD_ON },
-    { type: 'raw', format: 'plain', data: `TOTAL: R${order.total.toFixed(2)}\n` },
+    { type: 'raw', format: 'plain', data: `TOTAL: ${formatMoney(order.total)}\n` },
     { type: 'raw', format: 'plain', data: ESCPOS.BOLD_OFF },
     ...(order.paymentMethod ? [{ type: 'raw', format: 'plain', data: `Payment: ${order.paymentMethod.toUpperCase()}\n` }] : []),
     { type: 'raw', format: 'plain', data: ESCPOS.FEED(1) },
@@ -236,6 +269,44 @@ export const buildKitchenSlip = (order: OrderData): any[] => {
   ];
 };
 
+const SLIP_WIDTH = 32;
+
+// One label/value row padded to the slip width; long labels are cut short rather than wrapped
+const formatSlipRow = (label: string, value: string) => {
+  const room = SLIP_WIDTH - value.length - 1;
+  const text = label.length > room ? label.slice(0, room) : label;
+  return `${text.padEnd(room)} ${value}\n`;
+};
+
+/**
+ * Build shift report (X/Z) ESC/POS data
+ */
+export const buildReportSlip = (slip: ReportSlipData): { type: string; format: string; data: string }[] => {
+  return [
+    { type: 'raw', format: 'plain', data: ESCPOS.RESET },
+    { type: 'raw', format: 'plain', data: ESCPOS.CENTER },
+    { type: 'raw', format: 'plain', data: ESCPOS.DOUBLE_SIZE },
+    { type: 'raw', format: 'plain', data: `${slip.title}\n` },
+    { type: 'raw', format: 'plain', data: ESCPOS.NORMAL },
+    ...(slip.subtitle ? [{ type: 'raw', format: 'plain', data: `${slip.subtitle}\n` }] : []),
+    { type: 'raw', format: 'plain', data: ESCPOS.LEFT },
+    { type: 'raw', format: 'plain', data: '-'.repeat(SLIP_WIDTH) + '\n' },
+    ...slip.details.map(line => ({ type: 'raw', format: 'plain', data: `${line}\n` })),
+    ...slip.sections.flatMap(section => [
+      { type: 'raw', format: 'plain', data: '-'.repeat(SLIP_WIDTH) + '\n' },
+      { type: 'raw', format: 'plain', data: ESCPOS.BOLD_ON },
+      { type: 'raw', format: 'plain', data: `${section.title.toUpperCase()}\n` },
+      { type: 'raw', format: 'plain', data: ESCPOS.BOLD_OFF },
+      ...section.rows.map(row => ({ type: 'raw', format: 'plain', data: formatSlipRow(row.label, row.value) })),
+    ]),
+    { type: 'raw', format: 'plain', data: '-'.repeat(SLIP_WIDTH) + '\n' },
+    { type: 'raw', format: 'plain', data: ESCPOS.CENTER },
+    { type: 'raw', format: 'plain', data: '*** END OF REPORT ***\n' },
+    { type: 'raw', format: 'plain', data: ESCPOS.FEED(3) },
+    { type: 'raw', format: 'plain', data: ESCPOS.CUT },
+  ];
+};
+
 export interface QZPrinterConfig {
   cashier: string | null;
   kitchen: string | null;
@@ -410,6 +481,30 @@ export const autoPrintOrder = async (order: OrderData): Promise<QZPrintResult> =
   };
 };
 
+/**
+ * Print a shift report on the cashier printer via QZ Tray; false when QZ Tray or the printer is unavailable
+ */
+export const autoPrintReportSlip = async (slip: ReportSlipData): Promise<boolean> => {
+  if (!await initQZTray()) {
+    return false;
+  }
+
+  const config = await fetchQZPrinterConfig();
+  const printerConfig = config.cashier ? createPrinterConfig(config.cashier) : null;
+  if (!printerConfig) {
+    return false;
+  }
+
+  try {
+    await window.qz.print(printerConfig, buildReportSlip(slip));
+    console.log('[QZ Tray] Report printed');
+    return true;
+  } catch (err) {
+    console.error('[QZ Tray] Report print error:', err);
+    return false;
+  }
+};
+
 /**
  * Test print to a specific printer
  */
@@ -429,7 +524,7 @@ export const testPrint = async (printerName: string): Promise<boolean> => {
       { type: 'raw', format: 'plain', data: 'TEST PRINT\n' },
       { type: 'raw', format: 'plain', data: ESCPOS.NORMAL },
       { type: 'raw', format: 'plain', data: `Printer: ${printerName}\n` },
-      { type: 'raw', format: 'plain', data: `Time: ${new Date().toLocaleString()}\n` },
+      { type: 'raw', format: 'plain', data: `Time: ${formatDateTime(new Date())}\n` },
       { type: 'raw', format: 'plain', data: ESCPOS.FEED(1) },
       { type: 'raw', format: 'plain', data: 'If you see this, QZ Tray\n' },
       { type: 'raw', format: 'plain', data: 'is working correctly!\n' },
@@ -0,0 +1,261 @@
+import { roundMoney, sumMoney, toCents } from '@/lib/money';
+
+// Matches what the payment providers charged against what the POS recorded as sold
+
+export interface ReconTransaction {
+  id: string;
+  sale_id: string | null;
+  order_id: string | null;
+  refund_id: string | null;
+  payment_provider: string;
+  provider_transaction_id: string | null;
+  amount: number;
+  status: string;
+  created_at: string;
+}
+
+export interface ReconPayment {
+  sale_id: string | null;
+  // Tables are paid against their order and have no sale
+  order_id: string | null;
+  amount: number;
+  // Card tips are charged together with the tender
+  tip_amount: number;
+}
+
+export interface SettlementRow {
+  providerTransactionId: string;
+  amount: number;
+  status?: string;
+}
+
+export type ReconIssueType = 'orphan_charge' | 'missing_charge' | 'amount_mismatch';
+
+export interface ReconIssue {
+  type: ReconIssueType;
+  source: 'sales' | 'settlement';
+  saleId?: string | null;
+  orderId?: string | null;
+  providerTransactionId?: string | null;
+  expected: number;
+  actual: number;
+  detail: string;
+}
+
+export const RECON_ISSUE_LABELS: Record<ReconIssueType, string> = {
+  orphan_charge: 'Orphan charge',
+  missing_charge: 'Missing charge',
+  amount_mismatch: 'Amount mismatch',
+};
+
+// Money actually taken from the customer; refunded and charged back charges still happened on the day
+const CHARGED_STATUSES = ['completed', 'refunded', 'charged_back'];
+
+const differs = (a: number, b: number) => toCents(a) !== toCents(b);
+
+export const getChargedAmount = (payment: ReconPayment) =>
+  sumMoney([Number(payment.amount), Number(payment.tip_amount || 0)]);
+
+export const isCharge = (transaction: ReconTransaction) =>
+  CHARGED_STATUSES.includes(transaction.status) && !transaction.refund_id && transaction.amount > 0;
+
+interface PayeeTotal {
+  saleId: string | null;
+  orderId: string | null;
+  amount: number;
+}
+
+// Totals per sale, or per order for table payments that have no sale
+const sumByPayee = <T extends { sale_id: string | null; order_id: string | null; amount: number }>(rows: T[]) => {
+  const totals = new Map<string, PayeeTotal>();
+  rows.forEach(row => {
+    const key = row.sale_id || (row.order_id && `order:${row.order_id}`);
+    if (!key) return;
+    const current = totals.get(key) || { saleId: row.sale_id, orderId: row.sale_id ? null : row.order_id, amount: 0 };
+    totals.set(key, { ...current, amount: sumMoney([current.amount, Number(row.amount)]) });
+  });
+  return totals;
+};
+
+/**
+ * Compare one day's provider charges with the card payments recorded on sales and settled tables.
+ * Payments are the card tenders of the day, excluding refunds.
+ */
+export const reconcileDay = (transactions: ReconTransaction[], payments: ReconPayment[]): ReconIssue[] => {
+  const charges = transactions.filter(isCharge);
+  const issues: ReconIssue[] = charges
+    .filter(charge => !charge.sale_id && !charge.order_id)
+    .map(charge => ({
+      type: 'orphan_charge',
+      source: 'sales',
+      saleId: null,
+      providerTransactionId: charge.provider_transaction_id,
+      expected: 0,
+      actual: Number(charge.amount),
+      detail: `Charged through ${charge.payment_provider} but no sale was saved`,
+    }));
+
+  const charged = sumByPayee(charges);
+  const recorded = sumByPayee(payments.map(p => ({ sale_id: p.sale_id, order_id: p.order_id, amount: getChargedAmount(p) })));
+
+  recorded.forEach(({ saleId, orderId, amount: expected }, key) => {
+    const actual = charged.get(key)?.amount;
+    if (actual === undefined) {
+      issues.push({
+        type: 'missing_charge',
+        source: 'sales',
+        saleId,
+        orderId,
+        expected,
+        actual: 0,
+        detail: `${saleId ? 'Card sale' : 'Table card payment'} with no approved payment transaction`,
+      });
+    } else if (differs(actual, expected)) {
+      issues.push({
+        type: 'amount_mismatch',
+        source: 'sales',
+        saleId,
+        orderId,
+        expected,
+        actual,
+        detail: 'Card tenders and provider charges differ',
+      });
+    }
+  });
+
+  charged.forEach(({ saleId, orderId, amount: actual }, key) => {
+    if (!recorded.has(key)) {
+      issues.push({
+        type: 'amount_mismatch',
+        source: 'sales',
+        saleId,
+        orderId,
+        expected: 0,
+        actual,
+        detail: saleId
+          ? 'Charge linked to a sale with no card tender on this day'
+          : 'Charge taken for a table that was not settled by card on this day',
+      });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Compare our charges for one provider with the provider's settlement report.
+ */
+export const reconcileSettlement = (transactions: ReconTransaction[], settlement: SettlementRow[]): ReconIssue[] => {
+  const issues: ReconIssue[] = [];
+  const byProviderId = new Map(
+    transactions
+      .filter(t => t.provider_transaction_id && !t.refund_id)
+      .map(t => [t.provider_transaction_id as string, t])
+  );
+  const settledIds = new Set<string>();
+
+  settlement.forEach(row => {
+    settledIds.add(row.providerTransactionId);
+    const ours = byProviderId.get(row.providerTransactionId);
+
+    if (!ours || !isCharge(ours)) {
+      issues.push({
+        type: 'orphan_charge',
+        source: 'settlement',
+        saleId: ours?.sale_id ?? null,
+        providerTransactionId: row.providerTransactionId,
+        expected: 0,
+        actual: row.amount,
+        detail: ours ? `Settled by the provider but recorded as ${ours.status}` : 'Settled by the provider but not recorded',
+      });
+    } else if (differs(Number(ours.amount), row.amount)) {
+      issues.push({
+        type: 'amount_mismatch',
+        source: 'settlement',
+        saleId: ours.sale_id,
+        providerTransactionId: row.providerTransactionId,
+        expected: Number(ours.amount),
+        actual: row.amount,
+        detail: 'Settled amount differs from the recorded charge',
+      });
+    }
+  });
+
+  transactions
+    .filter(t => isCharge(t) && t.provider_transaction_id && !settledIds.has(t.provider_transaction_id))
+    .forEach(t => {
+      issues.push({
+        type: 'missing_charge',
+        source: 'settlement',
+        saleId: t.sale_id,
+        providerTransactionId: t.provider_transaction_id,
+        expected: Number(t.amount),
+        actual: 0,
+        detail: 'Recorded charge missing from the settlement report',
+      });
+    });
+
+  return issues;
+};
+
+// Split one CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string) => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+const ID_COLUMNS = ['provider_transaction_id', 'transaction_id', 'id', 'reference'];
+// Rows the provider did not settle, e.g. declines listed for completeness
+const UNSETTLED_STATUS = /fail|declin|cancel/i;
+
+/**
+ * Parse a provider settlement CSV. Needs a transaction id column and an amount column in rands.
+ */
+export const parseSettlementCsv = (text: string): SettlementRow[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) throw new Error('The settlement file is empty');
+
+  const header = splitCsvLine(lines[0]).map(column => column.toLowerCase().replace(/\s+/g, '_'));
+  const idIndex = header.findIndex(column => ID_COLUMNS.includes(column));
+  const amountIndex = header.indexOf('amount');
+  const statusIndex = header.indexOf('status');
+
+  if (idIndex === -1 || amountIndex === -1) {
+    throw new Error('The settlement file needs a transaction id column and an amount column');
+  }
+
+  return lines.slice(1).flatMap((line, index) => {
+    const fields = splitCsvLine(line);
+    const amount = parseFloat(fields[amountIndex]?.replace(/[^0-9.-]/g, ''));
+    if (!fields[idIndex] || isNaN(amount)) {
+      throw new Error(`Row ${index + 2} of the settlement file is missing its id or amount`);
+    }
+    const status = statusIndex === -1 ? undefined : fields[statusIndex];
+    if (status && UNSETTLED_STATUS.test(status)) return [];
+    return [{ providerTransactionId: fields[idIndex], amount: roundMoney(amount), status }];
+  });
+};
@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import { multiplyMoney, subtractMoney, sumMoney } from '@/lib/money';
+
+// Reason codes accepted by process_refund
+export const REFUND_REASONS = [
+  { value: 'customer_request', label: 'Customer request' },
+  { value: 'wrong_item', label: 'Wrong item' },
+  { value: 'quality_issue', label: 'Quality issue' },
+  { value: 'pricing_error', label: 'Pricing error' },
+  { value: 'duplicate_sale', label: 'Duplicate sale' },
+  { value: 'other', label: 'Other' },
+];
+
+export const getRefundReasonLabel = (code: string) =>
+  REFUND_REASONS.find(r => r.value === code)?.label || code;
+
+export const canRefund = (roles: string[] | undefined) =>
+  !!roles?.some(role => role === 'admin' || role === 'supervisor');
+
+export interface RefundableSale {
+  id: string;
+  subtotal: number;
+  total: number;
+  refunded_amount: number;
+}
+
+export interface RefundableItem {
+  id: string;
+  qty: number;
+  line_total: number;
+  refunded_qty: number;
+}
+
+// Mirrors process_refund: lines are prorated against the sale total so tax and discounts come back proportionally
+export const getRefundLineAmount = (sale: RefundableSale, item: RefundableItem, qty: number) =>
+  sale.subtotal > 0
+    ? multiplyMoney(sale.total, (item.line_total / item.qty) * qty / sale.subtotal)
+    : 0;
+
+export const getRefundAmount = (
+  sale: RefundableSale,
+  items: RefundableItem[],
+  quantities: Record<string, number>
+) => {
+  const remaining = subtractMoney(sale.total, sale.refunded_amount);
+  const refundsEverything = items.every(item => (quantities[item.id] || 0) === item.qty - item.refunded_qty);
+  if (refundsEverything) return remaining;
+
+  const amount = sumMoney(items.map(item => getRefundLineAmount(sale, item, quantities[item.id] || 0)));
+  return Math.min(amount, remaining);
+};
+
+/**
+ * Record a refund or void and, for card refunds, send it back through the payment provider that took the charge.
+ * Returns the refund id and whether the card refund went through (null when not a card refund).
+ */
+export const processRefund = async (params: {
+  saleId: string;
+  reasonCode: string;
+  refundMethod: string;
+  notes?: string;
+  items?: { sale_item_id: string; qty: number }[];
+  isVoid?: boolean;
+}): Promise<{ refundId: string; providerRefunded: boolean | null }> => {
+  const { data: refundId, error } = await supabase.rpc('process_refund', {
+    _sale_id: params.saleId,
+    _reason_code: params.reasonCode,
+    _refund_method: params.refundMethod,
+    _items: params.items,
+    _reason_notes: params.notes,
+    _void: params.isVoid,
+  });
+  if (error) throw error;
+
+  if (params.refundMethod !== 'card') {
+    return { refundId, providerRefunded: null };
+  }
+
+  return { refundId, providerRefunded: await retryCardRefund(refundId) };
+};
+
+// Card refunds that failed at the provider stay recorded and can be sent again
+export const retryCardRefund = async (refundId: string) => {
+  const { data, error } = await supabase.functions.invoke('process-refund', {
+    body: { refund_id: refundId },
+  });
+  if (error) {
+    console.error('Card refund failed:', error);
+    return false;
+  }
+  return !!data?.success;
+};
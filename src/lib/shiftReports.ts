@@ -0,0 +1,172 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ReportSlipData, ReportSlipSection, printReportSlip } from '@/lib/printService';
+import { autoPrintReportSlip } from '@/lib/qzTray';
+import { DrawerSession, getMovementLabel } from '@/lib/cashDrawer';
+import { formatMoney } from '@/lib/money';
+import { formatDateTime } from '@/lib/dateTime';
+
+// The JSON document built by get_shift_report (plus cash_count on Z-reports)
+export interface ShiftReport {
+  cashier_id: string;
+  cashier_name: string | null;
+  period_start: string;
+  period_end: string;
+  sales: { count: number; subtotal: number; tax: number; discounts: number; discounted_count: number; total: number };
+  payments: { method: string; count: number; amount: number; tips: number }[];
+  categories: { category: string; qty: number; amount: number }[];
+  tax_rates: { rate: number; net: number; tax: number }[];
+  refunds: { count: number; amount: number; cash: number };
+  voids: { count: number; amount: number };
+  tips: { total: number; cash: number; card: number };
+  cash_movements: {
+    opening_float: number;
+    drops: number;
+    pay_ins: number;
+    pay_outs: number;
+    entries: { type: string; amount: number; reason: string; created_at: string }[];
+  };
+  cash_count?: { expected: number; counted: number; difference: number };
+}
+
+export type ShiftReportKind = 'X' | 'Z';
+
+export interface PrintableShiftReport {
+  kind: ShiftReportKind;
+  // Z-reports only
+  reportNumber?: number;
+  generatedAt: Date;
+  report: ShiftReport;
+}
+
+const money = (value: number) => formatMoney(Number(value));
+
+/**
+ * Lay a report out as titled sections of label/value rows, shared by the on-screen view and both print templates.
+ */
+export const getShiftReportSections = (report: ShiftReport): ReportSlipSection[] => {
+  const { sales, refunds, voids, tips, cash_movements: cash } = report;
+  const sections: ReportSlipSection[] = [
+    {
+      title: 'Sales',
+      rows: [
+        { label: 'Transactions', value: String(sales.count) },
+        { label: 'Gross sales', value: money(sales.subtotal) },
+        { label: `Discounts (${sales.discounted_count})`, value: `-${money(sales.discounts)}` },
+        { label: 'Tax', value: money(sales.tax) },
+        { label: 'Net sales', value: money(sales.total) },
+      ],
+    },
+    {
+      title: 'Payments',
+      rows: report.payments.map(p => ({ label: `${p.method.toUpperCase()} (${p.count})`, value: money(p.amount) })),
+    },
+    {
+      title: 'Categories',
+      rows: report.categories.map(c => ({ label: `${c.category} x${Number(c.qty)}`, value: money(c.amount) })),
+    },
+    {
+      title: 'Tax',
+      rows: report.tax_rates.map(t => ({ label: `${Number(t.rate)}% on ${money(t.net)}`, value: money(t.tax) })),
+    },
+    {
+      title: 'Refunds & Voids',
+      rows: [
+        { label: `Refunds (${refunds.count})`, value: `-${money(refunds.amount)}` },
+        { label: `Voids (${voids.count})`, value: `-${money(voids.amount)}` },
+        { label: 'Paid back in cash', value: `-${money(refunds.cash)}` },
+      ],
+    },
+    {
+      title: 'Tips',
+      rows: [
+        { label: 'Cash tips', value: money(tips.cash) },
+        { label: 'Card tips', value: money(tips.card) },
+        { label: 'Total tips', value: money(tips.total) },
+      ],
+    },
+    {
+      title: 'Cash Movements',
+      rows: [
+        { label: 'Opening float', value: money(cash.opening_float) },
+        { label: 'Pay-ins', value: money(cash.pay_ins) },
+        { label: 'Pay-outs', value: `-${money(cash.pay_outs)}` },
+        { label: 'Cash drops', value: `-${money(cash.drops)}` },
+        ...cash.entries.map(entry => ({
+          label: `  ${getMovementLabel(entry.type)}: ${entry.reason}`,
+          value: `${entry.type === 'pay_in' ? '' : '-'}${money(entry.amount)}`,
+        })),
+      ],
+    },
+  ];
+
+  if (report.cash_count) {
+    sections.push({
+      title: 'Cash Count',
+      rows: [
+        { label: 'Expected', value: money(report.cash_count.expected) },
+        { label: 'Counted', value: money(report.cash_count.counted) },
+        {
+          label: 'Difference',
+          value: `${report.cash_count.difference >= 0 ? '+' : '-'}${money(Math.abs(report.cash_count.difference))}`,
+        },
+      ],
+    });
+  }
+
+  return sections.filter(section => section.rows.length > 0);
+};
+
+export const getShiftReportTitle = (printable: PrintableShiftReport) =>
+  printable.kind === 'Z' ? `Z-REPORT #${printable.reportNumber}` : 'X-REPORT';
+
+export const toReportSlip = (printable: PrintableShiftReport): ReportSlipData => ({
+  title: getShiftReportTitle(printable),
+  subtitle: printable.kind === 'X' ? 'Mid-shift - not a closing report' : 'Closing report',
+  details: [
+    `Cashier: ${printable.report.cashier_name || 'Unknown'}`,
+    `From: ${formatDateTime(printable.report.period_start)}`,
+    `To: ${formatDateTime(printable.report.period_end)}`,
+    `Printed: ${formatDateTime(printable.generatedAt)}`,
+  ],
+  sections: getShiftReportSections(printable.report),
+});
+
+/**
+ * X-report for the cashier's open drawer, from opening until now. Nothing is saved.
+ */
+export const fetchXReport = async (drawer: DrawerSession): Promise<PrintableShiftReport> => {
+  const generatedAt = new Date();
+  const { data, error } = await supabase.rpc('get_shift_report', {
+    _cashier_id: drawer.cashier_id,
+    _start: drawer.opened_at,
+    _end: generatedAt.toISOString(),
+    _drawer_session_id: drawer.id,
+  });
+
+  if (error) throw error;
+  return { kind: 'X', generatedAt, report: data as unknown as ShiftReport };
+};
+
+/**
+ * Issue the Z-report for an approved EOD, or return the one already issued.
+ */
+export const issueZReport = async (eodSessionId: string): Promise<PrintableShiftReport> => {
+  const { data, error } = await supabase.rpc('create_z_report', { _eod_session_id: eodSessionId });
+
+  if (error) throw error;
+  return {
+    kind: 'Z',
+    reportNumber: data.report_number,
+    generatedAt: new Date(data.created_at),
+    report: data.report as unknown as ShiftReport,
+  };
+};
+
+/**
+ * Print through QZ Tray when it is running, otherwise the receipt printer or browser.
+ */
+export const printShiftReport = async (printable: PrintableShiftReport) => {
+  const slip = toReportSlip(printable);
+  if (await autoPrintReportSlip(slip)) return;
+  await printReportSlip(slip);
+};
@@ -0,0 +1,110 @@
+import { supabase } from '@/integrations/supabase/client';
+import { setMoneyFormat } from '@/lib/money';
+import { setDateTimeFormat } from '@/lib/dateTime';
+
+export interface StoreSettings {
+  currency_code: string;
+  locale: string;
+  symbol_position: string;
+  decimal_separator: string;
+  date_format: string;
+  time_format: string;
+  timezone: string;
+}
+
+// Used until the settings have been fetched once on this device
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  currency_code: 'ZAR',
+  locale: 'en-ZA',
+  symbol_position: 'before',
+  decimal_separator: '.',
+  date_format: 'dd/MM/yyyy',
+  time_format: 'HH:mm',
+  timezone: 'Africa/Johannesburg',
+};
+
+export const SYMBOL_POSITIONS = [
+  { value: 'before', label: 'Before the amount', example: 'R12.50' },
+  { value: 'after', label: 'After the amount', example: '12.50 R' },
+];
+
+export const DECIMAL_SEPARATORS = [
+  { value: '.', label: 'Dot (12.50)' },
+  { value: ',', label: 'Comma (12,50)' },
+];
+
+export const DATE_FORMATS = ['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd', 'dd.MM.yyyy', 'd MMM yyyy'];
+
+export const TIME_FORMATS = [
+  { value: 'HH:mm', label: '24-hour (18:30)' },
+  { value: 'h:mm a', label: '12-hour (6:30 PM)' },
+];
+
+/**
+ * Point money and date formatting everywhere in the app at these settings
+ */
+export const applyStoreSettings = (settings: StoreSettings) => {
+  setMoneyFormat({
+    currency: settings.currency_code,
+    locale: settings.locale,
+    symbolPosition: settings.symbol_position === 'after' ? 'after' : 'before',
+    decimalSeparator: settings.decimal_separator,
+  });
+  setDateTimeFormat({
+    dateFormat: settings.date_format,
+    timeFormat: settings.time_format,
+    timezone: settings.timezone,
+  });
+};
+
+// Last known settings are kept on the device so an offline till still formats like the store
+const STORE_SETTINGS_KEY = 'pos_store_settings';
+
+let cachedSettings: StoreSettings | null = null;
+let lastFetchTime = 0;
+const CACHE_DURATION = 5 * 60 * 1000;
+
+export const getCachedStoreSettings = (): StoreSettings => {
+  if (cachedSettings) return cachedSettings;
+  try {
+    const stored = localStorage.getItem(STORE_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_STORE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_STORE_SETTINGS;
+  } catch {
+    return DEFAULT_STORE_SETTINGS;
+  }
+};
+
+/**
+ * Fetch the store settings with caching; falls back to the last settings seen on this device
+ */
+export const fetchStoreSettings = async (): Promise<StoreSettings> => {
+  const now = Date.now();
+  if (cachedSettings && now - lastFetchTime < CACHE_DURATION) {
+    return cachedSettings;
+  }
+
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('currency_code, locale, symbol_position, decimal_separator, date_format, time_format, timezone')
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('Failed to fetch store settings:', error);
+    return getCachedStoreSettings();
+  }
+
+  cachedSettings = data;
+  lastFetchTime = now;
+  localStorage.setItem(STORE_SETTINGS_KEY, JSON.stringify(data));
+  return cachedSettings;
+};
+
+/**
+ * Clear the store settings cache (call after updating settings)
+ */
+export const clearStoreSettingsCache = () => {
+  cachedSettings = null;
+  lastFetchTime = 0;
+};
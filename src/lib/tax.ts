@@ -0,0 +1,144 @@
+import { supabase } from '@/integrations/supabase/client';
+import { allocateCents, fromCents, roundCents, toCents } from '@/lib/money';
+
+export interface TaxSettings {
+  prices_include_tax: boolean;
+  vat_number: string | null;
+  tax_invoice_threshold: number;
+}
+
+// Used until the settings have been fetched once on this device
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  prices_include_tax: false,
+  vat_number: null,
+  tax_invoice_threshold: 50,
+};
+
+export interface TaxableLine {
+  amount: number;
+  rate: number;
+}
+
+// VAT for one rate on a receipt; net + tax is what the customer paid at that rate
+export interface TaxBreakdownLine {
+  rate: number;
+  net: number;
+  tax: number;
+}
+
+export interface TaxResult {
+  breakdown: TaxBreakdownLine[];
+  taxAmount: number;
+  total: number;
+}
+
+/**
+ * Work out VAT per rate for a set of lines. The discount is shared across rates in proportion to their
+ * value, and VAT is rounded once per rate (not per line) so the breakdown always adds up to the totals.
+ * Inclusive prices have VAT extracted; exclusive prices have it added on top.
+ */
+export const calculateTax = (lines: TaxableLine[], pricesIncludeTax: boolean, discount = 0): TaxResult => {
+  const byRate = new Map<number, number>();
+  lines.forEach(line => {
+    const rate = Number(line.rate) || 0;
+    byRate.set(rate, (byRate.get(rate) || 0) + toCents(line.amount));
+  });
+
+  const rates = [...byRate.keys()].sort((a, b) => b - a);
+  const grossCents = rates.map(rate => byRate.get(rate) || 0);
+  const totalCents = grossCents.reduce((sum, c) => sum + c, 0);
+  const discountCents = Math.min(toCents(discount), totalCents);
+
+  // Whole-cent discount shares in proportion to each rate's value
+  const discountShares = allocateCents(discountCents, grossCents);
+
+  const breakdown = rates.map((rate, i) => {
+    const base = grossCents[i] - discountShares[i];
+    const tax = pricesIncludeTax
+      ? roundCents(base * rate / (100 + rate))
+      : roundCents(base * rate / 100);
+    return { rate, net: fromCents(pricesIncludeTax ? base - tax : base), tax: fromCents(tax) };
+  });
+
+  const taxCents = breakdown.reduce((sum, line) => sum + toCents(line.tax), 0);
+  const totalAfterDiscount = totalCents - discountCents;
+
+  return {
+    breakdown: breakdown.filter(line => line.net !== 0 || line.tax !== 0),
+    taxAmount: fromCents(taxCents),
+    total: fromCents(pricesIncludeTax ? totalAfterDiscount : totalAfterDiscount + taxCents),
+  };
+};
+
+/**
+ * VAT in part of a bill, such as one check of a split. The amount already carries its VAT, so it is
+ * spread over the lines by what each costs with VAT and the VAT at each rate is extracted from that.
+ */
+export const calculateShareTax = (amount: number, lines: TaxableLine[], pricesIncludeTax: boolean): TaxResult => {
+  const gross = lines.map(line => toCents(calculateTax([line], pricesIncludeTax).total));
+  const shares = allocateCents(toCents(amount), gross);
+  return calculateTax(lines.map((line, i) => ({ amount: fromCents(shares[i]), rate: line.rate })), true);
+};
+
+export const isTaxInvoice = (total: number, settings: TaxSettings) =>
+  total > Number(settings.tax_invoice_threshold);
+
+// Receipt label for one rate, e.g. "VAT 15% (incl)"
+export const getTaxLineLabel = (line: Pick<TaxBreakdownLine, 'rate'>, pricesIncludeTax: boolean) =>
+  `VAT ${Number(line.rate)}%${pricesIncludeTax ? ' (incl)' : ''}`;
+
+// Last known settings are kept on the device so offline sales are priced the same way
+const TAX_SETTINGS_KEY = 'pos_tax_settings';
+
+let cachedSettings: TaxSettings | null = null;
+let lastFetchTime = 0;
+const CACHE_DURATION = 5 * 60 * 1000;
+
+const readStoredSettings = (): TaxSettings => {
+  try {
+    const stored = localStorage.getItem(TAX_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_TAX_SETTINGS, ...JSON.parse(stored) } : DEFAULT_TAX_SETTINGS;
+  } catch {
+    return DEFAULT_TAX_SETTINGS;
+  }
+};
+
+/**
+ * Fetch the store tax settings with caching; falls back to the last settings seen on this device
+ */
+export const fetchTaxSettings = async (): Promise<TaxSettings> => {
+  const now = Date.now();
+  if (cachedSettings && now - lastFetchTime < CACHE_DURATION) {
+    return cachedSettings;
+  }
+
+  const { data, error } = await supabase
+    .from('tax_settings')
+    .select('prices_include_tax, vat_number, tax_invoice_threshold')
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('Failed to fetch tax settings:', error);
+    return cachedSettings || readStoredSettings();
+  }
+
+  cachedSettings = data;
+  lastFetchTime = now;
+  localStorage.setItem(TAX_SETTINGS_KEY, JSON.stringify(data));
+  return cachedSettings;
+};
+
+/**
+ * Settings available without a network round trip, for pricing the cart as it changes
+ */
+export const getCachedTaxSettings = (): TaxSettings => cachedSettings || readStoredSettings();
+
+/**
+ * Clear the tax settings cache (call after updating settings)
+ */
+export const clearTaxSettingsCache = () => {
+  cachedSettings = null;
+  lastFetchTime = 0;
+};
@@ -0,0 +1,54 @@
+import { formatMoney, subtractMoney, sumMoney } from '@/lib/money';
+
+export interface Tender {
+  method: string;
+  // Portion of the sale settled by this tender
+  amount: number;
+  // Cash handed over; anything above amount is given back as change
+  tendered?: number;
+  // Loyalty points spent on a loyalty tender
+  points?: number;
+  // Gratuity on top of amount; card tips are charged with the tender, cash tips come out of tendered
+  tip?: number;
+}
+
+export const TENDER_METHODS = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card / QR' },
+  { value: 'capitec', label: 'Capitec Pay' },
+  { value: 'eft', label: 'EFT / Bank Transfer' },
+  { value: 'other', label: 'Other' },
+];
+
+// Only offered when a loyalty customer is attached to the sale
+export const LOYALTY_TENDER = { value: 'loyalty', label: 'Loyalty Points' };
+
+export const getTenderLabel = (method: string) =>
+  [...TENDER_METHODS, LOYALTY_TENDER].find(m => m.value === method)?.label || method;
+
+// Sale-level payment method: the single tender's method, or 'split'
+export const getSalePaymentMethod = (tenders: Tender[]) =>
+  tenders.length === 1 ? tenders[0].method : 'split';
+
+export const describeTenders = (tenders: Tender[]) =>
+  tenders.length === 1
+    ? tenders[0].method
+    : tenders.map(t => `${getTenderLabel(t.method)} ${formatMoney(t.amount)}`).join(' + ');
+
+export const getTenderChange = (tenders: Tender[]) =>
+  sumMoney(tenders.map(t => Math.max(0, subtractMoney(t.tendered ?? t.amount, t.amount, t.tip || 0))));
+
+export const getTenderTips = (tenders: Tender[]) =>
+  sumMoney(tenders.map(t => t.tip || 0));
+
+// Only tenders the customer can add a gratuity to
+export const TIPPABLE_METHODS = ['cash', 'card'];
+
+// A cash tip comes out of what was handed over, so the customer must have handed over at least the bill plus tip
+export const withTip = (tender: Tender, tip: number): Tender => ({
+  ...tender,
+  tip: tip > 0 ? tip : undefined,
+  tendered: tender.method === 'cash' && tip > 0
+    ? Math.max(tender.tendered ?? tender.amount, sumMoney([tender.amount, tip]))
+    : tender.tendered,
+});
@@ -0,0 +1,117 @@
+import { supabase } from '@/integrations/supabase/client';
+import { allocateMoney, percentOf, roundMoney, subtractMoney, sumMoney, toCents } from '@/lib/money';
+
+export interface TipPoolSettings {
+  is_enabled: boolean;
+  kitchen_percent: number;
+  front_split: string;
+}
+
+export const FRONT_SPLITS = [
+  { value: 'collected', label: 'Keep what each collected' },
+  { value: 'hours', label: 'Pool by hours worked' },
+];
+
+// One row per employee from get_tip_shift_summary
+export interface TipShiftRow {
+  employee_id: string;
+  full_name: string;
+  is_kitchen: boolean;
+  hours_worked: number;
+  cash_tips: number;
+  card_tips: number;
+  other_tips: number;
+}
+
+export interface TipPayout {
+  employeeId: string;
+  fullName: string;
+  isKitchen: boolean;
+  hoursWorked: number;
+  collected: number;
+  payout: number;
+}
+
+// Nobody with a share of the weight means nobody is paid from this pool
+const allocate = (amount: number, weights: number[]) => {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight <= 0 || toCents(amount) <= 0) return weights.map(() => 0);
+  return allocateMoney(amount, weights);
+};
+
+export const getCollectedTips = (row: TipShiftRow) =>
+  Number(row.cash_tips) + Number(row.card_tips) + Number(row.other_tips);
+
+/**
+ * Apply the pooling rules to one shift. The kitchen share is split by hours among kitchen staff who
+ * clocked time; if none did, it stays with front-of-house.
+ */
+export const distributeTips = (rows: TipShiftRow[], settings: TipPoolSettings | null): TipPayout[] => {
+  const collected = rows.map(getCollectedTips);
+  const total = sumMoney(collected);
+  const payouts = new Array<number>(rows.length).fill(0);
+
+  if (!settings?.is_enabled) {
+    collected.forEach((c, i) => { payouts[i] = c; });
+  } else {
+    const kitchenHours = rows.map(r => (r.is_kitchen ? Number(r.hours_worked) : 0));
+    const kitchenPool = kitchenHours.some(h => h > 0)
+      ? percentOf(total, Number(settings.kitchen_percent))
+      : 0;
+    allocate(kitchenPool, kitchenHours).forEach((share, i) => { payouts[i] += share; });
+
+    const frontPool = subtractMoney(total, kitchenPool);
+    const frontHours = rows.map(r => (r.is_kitchen ? 0 : Number(r.hours_worked)));
+    const byHours = settings.front_split === 'hours' && frontHours.some(h => h > 0);
+    allocate(frontPool, byHours ? frontHours : collected).forEach((share, i) => { payouts[i] += share; });
+  }
+
+  return rows.map((row, i) => ({
+    employeeId: row.employee_id,
+    fullName: row.full_name,
+    isKitchen: row.is_kitchen,
+    hoursWorked: Number(row.hours_worked),
+    collected: roundMoney(collected[i]),
+    payout: roundMoney(payouts[i]),
+  }));
+};
+
+// A shift is a business day, the same one its drawers and EODs belong to: from when its first drawer
+// opened until the day was closed, or until now while it is still open. Hours clocked either side of it don't count.
+export const getShiftWindow = async (businessDayId: string) => {
+  const { data, error } = await supabase
+    .from('business_days')
+    .select('opened_at, closed_at')
+    .eq('id', businessDayId)
+    .single();
+
+  if (error) throw error;
+  return { start: data.opened_at, end: data.closed_at ?? new Date().toISOString() };
+};
+
+export const fetchTipPoolSettings = async (): Promise<(TipPoolSettings & { id: string }) | null> => {
+  const { data, error } = await supabase
+    .from('tip_pool_settings')
+    .select('id, is_enabled, kitchen_percent, front_split')
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to fetch tip pool settings:', error);
+    return null;
+  }
+  return data;
+};
+
+export const fetchTipShiftSummary = async (businessDayId: string): Promise<TipShiftRow[]> => {
+  const { start, end } = await getShiftWindow(businessDayId);
+  const { data, error } = await supabase.rpc('get_tip_shift_summary', { _start: start, _end: end });
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchTipPayouts = async (businessDayId: string) => {
+  const [rows, settings] = await Promise.all([fetchTipShiftSummary(businessDayId), fetchTipPoolSettings()]);
+  return distributeTips(rows, settings);
+};
@@ -4,9 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Navigate, Link, useNavigate } from 'react-router-dom';
-import { BarChart3, Calendar, ChefHat, DollarSign, MapPin, Package, Settings, ShoppingBag, Users, Utensils, Clock, Percent, Puzzle, LogOut, Wifi, WifiOff, RefreshCw, Truck, Users as UsersIcon, Printer, KeyRound } from "lucide-react";
+import { BarChart3, Calendar, ChefHat, DollarSign, MapPin, Package, Settings, ShoppingBag, Users, Utensils, Clock, Percent, Puzzle, LogOut, Wifi, WifiOff, RefreshCw, Truck, Users as UsersIcon, Printer, KeyRound, CreditCard, Scale, HandCoins, Receipt, Globe, ConciergeBell } from "lucide-react";
 import AppHeader from '@/components/AppHeader';
 import logo from '@/assets/casbah-logo.svg';
+import { formatTime } from '@/lib/dateTime';
 
 const Admin = () => {
   const { user, profile, signOut } = useAuth();
@@ -39,7 +40,7 @@ const Admin = () => {
           {isSyncing && <Badge variant="secondary">Syncing...</Badge>}
           {lastSync && (
             <span className="text-xs text-muted-foreground">
-              Last sync: {lastSync.toLocaleTimeString()}
+              Last sync: {formatTime(lastSync)}
             </span>
           )}
           <Button variant="ghost" size="icon" onClick={sync} disabled={isSyncing}>
@@ -242,6 +243,27 @@ const Admin = () => {
             </Link>
           </Card>
 
+          <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+            <Link to="/expo">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-rose-500/10 rounded-lg">
+                    <ConciergeBell className="h-6 w-6 text-rose-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Expo</CardTitle>
+                    <CardDescription>Pass coordination</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground">
+                  Check every station's items before a ticket leaves the pass
+                </p>
+              </CardContent>
+            </Link>
+          </Card>
+
           <Card className="hover:shadow-lg transition-shadow cursor-pointer">
             <Link to="/delivery">
               <CardHeader>
@@ -368,6 +390,111 @@ const Admin = () => {
             </Link>
           </Card>
 
+          <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+            <Link to="/admin/payment-settings">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-emerald-500/10 rounded-lg">
+                    <CreditCard className="h-6 w-6 text-emerald-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Payment Settings</CardTitle>
+                    <CardDescription>Card & QR providers</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground">
+                  Choose the provider for card and QR payments
+                </p>
+              </CardContent>
+            </Link>
+          </Card>
+
+          <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+            <Link to="/admin/tax-settings">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-lime-500/10 rounded-lg">
+                    <Receipt className="h-6 w-6 text-lime-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Tax Settings</CardTitle>
+                    <CardDescription>VAT & tax invoices</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground">
+                  Set inclusive or exclusive pricing, the VAT number and the tax invoice threshold
+                </p>
+              </CardContent>
+            </Link>
+          </Card>
+
+          <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+            <Link to="/admin/store-settings">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-fuchsia-500/10 rounded-lg">
+                    <Globe className="h-6 w-6 text-fuchsia-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Store Settings</CardTitle>
+                    <CardDescription>Currency, dates & timezone</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground">
+                  Set the currency, number format, date and time formats and the store's timezone
+                </p>
+              </CardContent>
+            </Link>
+          </Card>
+
+          <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+            <Link to="/admin/reconciliation">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-sky-500/10 rounded-lg">
+                    <Scale className="h-6 w-6 text-sky-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Reconciliation</CardTitle>
+                    <CardDescription>Match charges to sales</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground">
+                  Find orphan charges, missing charges and amount mismatches
+                </p>
+              </CardContent>
+            </Link>
+          </Card>
+
+          <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+            <Link to="/admin/tips">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-amber-500/10 rounded-lg">
+                    <HandCoins className="h-6 w-6 text-amber-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Tips</CardTitle>
+                    <CardDescription>Pooling and payouts</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground">
+                  Set tip pooling rules and see each shift's payouts
+                </p>
+              </CardContent>
+            </Link>
+          </Card>
+
           <Card className="hover:shadow-lg transition-shadow cursor-pointer">
             <Link to="/time-tracking">
               <CardHeader>
@@ -25,6 +25,7 @@ import { Card } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Trash2, Edit, Plus } from 'lucide-react';
 import { toast } from 'sonner';
+import { formatMoney } from '@/lib/money';
 
 interface Product {
   id: string;
@@ -274,7 +275,7 @@ export default function AdminCombos() {
                     <SelectContent>
                       {products.map((product) => (
                         <SelectItem key={product.id} value={product.id}>
-                          {product.name} - R{product.price.toFixed(2)}
+                          {product.name} - {formatMoney(product.price)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -319,7 +320,7 @@ export default function AdminCombos() {
               <div>
                 <h3 className="text-lg font-semibold">{combo.products.name}</h3>
                 <p className="text-sm text-muted-foreground">
-                  R{combo.products.price.toFixed(2)}
+                  {formatMoney(combo.products.price)}
                 </p>
                 {combo.combo_description && (
                   <p className="text-sm text-muted-foreground mt-1">
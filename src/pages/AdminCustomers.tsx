@@ -10,8 +10,12 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
-import { Search, UserPlus, Phone, Mail, MapPin, Gift } from "lucide-react";
+import { Search, UserPlus, Phone, Mail, MapPin, Gift, Settings } from "lucide-react";
+import { LoyaltySettings, clearLoyaltySettingsCache } from "@/lib/loyalty";
+import { formatMoney, getCurrencySymbol } from "@/lib/money";
+import { formatDateKey, formatDateTime } from "@/lib/dateTime";
 
 interface Customer {
   id: string;
@@ -27,6 +31,15 @@ interface Customer {
   created_at: string;
 }
 
+interface LoyaltyTransaction {
+  id: string;
+  transaction_type: string;
+  points: number;
+  balance_after: number;
+  reason: string | null;
+  created_at: string;
+}
+
 interface OrderHistory {
   id: string;
   order_number: string;
@@ -44,6 +57,12 @@ const AdminCustomers = () => {
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [orderHistory, setOrderHistory] = useState<OrderHistory[]>([]);
   const [showDialog, setShowDialog] = useState(false);
+  const [pointsHistory, setPointsHistory] = useState<LoyaltyTransaction[]>([]);
+  const [adjustPoints, setAdjustPoints] = useState("");
+  const [adjustReason, setAdjustReason] = useState("");
+  const [showSettings, setShowSettings] = useState(false);
+  const [loyaltySettings, setLoyaltySettings] = useState<(LoyaltySettings & { id: string }) | null>(null);
+  const isAdmin = profile?.roles?.includes("admin");
 
   useEffect(() => {
     if (!user || !profile?.roles?.some(role => ["admin", "cashier", "waiter"].includes(role))) {
@@ -95,12 +114,104 @@ const AdminCustomers = () => {
     setOrderHistory(ordersWithTotals);
   };
 
+  const fetchPointsHistory = async (customerId: string) => {
+    const { data, error } = await supabase
+      .from("loyalty_transactions")
+      .select("id, transaction_type, points, balance_after, reason, created_at")
+      .eq("customer_id", customerId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error(error);
+      return;
+    }
+    setPointsHistory(data || []);
+  };
+
   const handleSelectCustomer = (customer: Customer) => {
     setSelectedCustomer(customer);
     fetchOrderHistory(customer.id);
+    fetchPointsHistory(customer.id);
+    setAdjustPoints("");
+    setAdjustReason("");
     setShowDialog(true);
   };
 
+  const handleAdjustPoints = async () => {
+    if (!selectedCustomer) return;
+    const points = parseInt(adjustPoints);
+    if (!points) {
+      toast.error("Enter the number of points to add or remove");
+      return;
+    }
+    if (!adjustReason.trim()) {
+      toast.error("A reason is required for manual adjustments");
+      return;
+    }
+
+    const { data: balance, error } = await supabase.rpc("adjust_loyalty_points", {
+      _customer_id: selectedCustomer.id,
+      _points: points,
+      _reason: adjustReason.trim(),
+    });
+
+    if (error) {
+      toast.error(error.message || "Failed to adjust points");
+      return;
+    }
+
+    toast.success("Points adjusted");
+    setSelectedCustomer({ ...selectedCustomer, loyalty_points: balance });
+    setAdjustPoints("");
+    setAdjustReason("");
+    fetchPointsHistory(selectedCustomer.id);
+    fetchCustomers();
+  };
+
+  const openLoyaltySettings = async () => {
+    const { data, error } = await supabase
+      .from("loyalty_settings")
+      .select("*")
+      .order("created_at")
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data) {
+      toast.error("Failed to load loyalty settings");
+      return;
+    }
+    setLoyaltySettings({
+      id: data.id,
+      is_enabled: data.is_enabled,
+      points_per_unit: Number(data.points_per_unit),
+      value_per_point: Number(data.value_per_point),
+      min_redeem_points: data.min_redeem_points,
+    });
+    setShowSettings(true);
+  };
+
+  const saveLoyaltySettings = async () => {
+    if (!loyaltySettings) return;
+    const { id, ...settings } = loyaltySettings;
+    if (settings.points_per_unit < 0 || settings.value_per_point <= 0 || settings.min_redeem_points < 0) {
+      toast.error("Rates must be positive");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("loyalty_settings")
+      .update(settings)
+      .eq("id", id);
+
+    if (error) {
+      toast.error("Failed to save loyalty settings");
+      return;
+    }
+    clearLoyaltySettingsCache();
+    toast.success("Loyalty settings saved");
+    setShowSettings(false);
+  };
+
   const updateCustomerNotes = async (customerId: string, notes: string) => {
     const { error } = await supabase
       .from("customers")
@@ -130,6 +241,12 @@ const AdminCustomers = () => {
       <AppHeader>
         <div className="flex items-center justify-between">
           <h1 className="text-xl font-bold">Customer Management</h1>
+          {isAdmin && (
+            <Button variant="outline" onClick={openLoyaltySettings}>
+              <Settings className="mr-2 h-4 w-4" />
+              Loyalty Settings
+            </Button>
+          )}
         </div>
       </AppHeader>
 
@@ -178,7 +295,7 @@ const AdminCustomers = () => {
                 <div className="text-right space-y-1">
                   <p className="text-sm font-medium">{customer.total_orders} orders</p>
                   <p className="text-sm text-muted-foreground">
-                    ${customer.total_spent.toFixed(2)} spent
+                    {formatMoney(customer.total_spent)} spent
                   </p>
                   <div className="flex items-center gap-1 text-sm text-primary">
                     <Gift className="h-4 w-4" />
@@ -199,9 +316,10 @@ const AdminCustomers = () => {
 
           {selectedCustomer && (
             <Tabs defaultValue="details" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="details">Details</TabsTrigger>
                 <TabsTrigger value="history">Order History</TabsTrigger>
+                <TabsTrigger value="points">Points</TabsTrigger>
                 <TabsTrigger value="notes">Notes</TabsTrigger>
               </TabsList>
 
@@ -229,7 +347,7 @@ const AdminCustomers = () => {
                   </div>
                   <div>
                     <Label>Total Spent</Label>
-                    <p className="text-sm mt-1">${selectedCustomer.total_spent.toFixed(2)}</p>
+                    <p className="text-sm mt-1">{formatMoney(selectedCustomer.total_spent)}</p>
                   </div>
                   <div>
                     <Label>Loyalty Points</Label>
@@ -239,7 +357,7 @@ const AdminCustomers = () => {
                     <div>
                       <Label>Date of Birth</Label>
                       <p className="text-sm mt-1">
-                        {new Date(selectedCustomer.date_of_birth).toLocaleDateString()}
+                        {formatDateKey(selectedCustomer.date_of_birth)}
                       </p>
                     </div>
                   )}
@@ -256,11 +374,11 @@ const AdminCustomers = () => {
                         <div>
                           <p className="font-medium">{order.order_number}</p>
                           <p className="text-sm text-muted-foreground">
-                            {order.order_type} • {new Date(order.created_at).toLocaleString()}
+                            {order.order_type} • {formatDateTime(order.created_at)}
                           </p>
                         </div>
                         <div className="text-right">
-                          <p className="font-medium">${order.total.toFixed(2)}</p>
+                          <p className="font-medium">{formatMoney(order.total)}</p>
                           <p className="text-sm text-muted-foreground">{order.status}</p>
                         </div>
                       </div>
@@ -269,6 +387,59 @@ const AdminCustomers = () => {
                 )}
               </TabsContent>
 
+              <TabsContent value="points" className="space-y-3">
+                {isAdmin && (
+                  <Card className="p-4 space-y-3">
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <Label htmlFor="adjust_points">Points (+/-)</Label>
+                        <Input
+                          id="adjust_points"
+                          type="number"
+                          step="1"
+                          value={adjustPoints}
+                          onChange={(e) => setAdjustPoints(e.target.value)}
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        <Label htmlFor="adjust_reason">Reason</Label>
+                        <Input
+                          id="adjust_reason"
+                          value={adjustReason}
+                          onChange={(e) => setAdjustReason(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <Button className="w-full" onClick={handleAdjustPoints}>
+                      Adjust Points
+                    </Button>
+                  </Card>
+                )}
+                {pointsHistory.length === 0 ? (
+                  <p className="text-muted-foreground text-center py-8">No points activity yet</p>
+                ) : (
+                  pointsHistory.map((entry) => (
+                    <Card key={entry.id} className="p-4">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <p className="font-medium capitalize">{entry.transaction_type}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatDateTime(entry.created_at)}
+                            {entry.reason && ` • ${entry.reason}`}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className={`font-medium ${entry.points < 0 ? "text-destructive" : "text-primary"}`}>
+                            {entry.points > 0 ? "+" : ""}{entry.points} pts
+                          </p>
+                          <p className="text-sm text-muted-foreground">Balance {entry.balance_after}</p>
+                        </div>
+                      </div>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
+
               <TabsContent value="notes">
                 <Textarea
                   placeholder="Add notes about this customer..."
@@ -289,6 +460,60 @@ const AdminCustomers = () => {
           )}
         </DialogContent>
       </Dialog>
+
+      <Dialog open={showSettings} onOpenChange={setShowSettings}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Loyalty Settings</DialogTitle>
+          </DialogHeader>
+
+          {loyaltySettings && (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="loyalty_enabled"
+                  checked={loyaltySettings.is_enabled}
+                  onCheckedChange={(checked) => setLoyaltySettings({ ...loyaltySettings, is_enabled: checked })}
+                />
+                <Label htmlFor="loyalty_enabled">Earn points on sales</Label>
+              </div>
+              <div>
+                <Label htmlFor="points_per_unit">Points earned per {formatMoney(1)} paid</Label>
+                <Input
+                  id="points_per_unit"
+                  type="number"
+                  step="0.01"
+                  value={loyaltySettings.points_per_unit}
+                  onChange={(e) => setLoyaltySettings({ ...loyaltySettings, points_per_unit: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="value_per_point">Value of one point ({getCurrencySymbol()})</Label>
+                <Input
+                  id="value_per_point"
+                  type="number"
+                  step="0.01"
+                  value={loyaltySettings.value_per_point}
+                  onChange={(e) => setLoyaltySettings({ ...loyaltySettings, value_per_point: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="min_redeem_points">Minimum points to redeem</Label>
+                <Input
+                  id="min_redeem_points"
+                  type="number"
+                  step="1"
+                  value={loyaltySettings.min_redeem_points}
+                  onChange={(e) => setLoyaltySettings({ ...loyaltySettings, min_redeem_points: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <Button className="w-full" onClick={saveLoyaltySettings}>
+                Save Settings
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
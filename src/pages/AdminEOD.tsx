@@ -11,8 +11,30 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { CheckCircle2, XCircle, Eye } from "lucide-react";
+import { CheckCircle2, XCircle, Eye, FileText, Forward, Lock } from "lucide-react";
 import { format } from "date-fns";
+import { TipPayout, fetchTipPayouts } from "@/lib/tips";
+import {
+  CountBreakdown,
+  DrawerMovement,
+  DrawerSession,
+  fetchDrawerMovements,
+  formatDenomination,
+  getMovementLabel,
+  getSignedAmount,
+} from "@/lib/cashDrawer";
+import { PrintableShiftReport, issueZReport, printShiftReport } from "@/lib/shiftReports";
+import { ShiftReportDialog } from "@/components/ShiftReportDialog";
+import {
+  BusinessDay,
+  BusinessDayStatus,
+  canCloseDay,
+  closeBusinessDay,
+  fetchBusinessDays,
+  rollForwardEOD,
+} from "@/lib/businessDays";
+import { formatMoney } from "@/lib/money";
+import { formatDateKey, formatDateTime, formatTime } from "@/lib/dateTime";
 
 interface EODSession {
   id: string;
@@ -23,7 +45,12 @@ interface EODSession {
   actual_cash: number;
   cash_difference: number;
   total_sales: number;
+  total_refunds: number;
+  total_tips: number;
   total_transactions: number;
+  drawer_session_id: string | null;
+  business_day_id: string | null;
+  rolled_from_day_id: string | null;
   cashier_notes: string | null;
   admin_notes: string | null;
   submitted_at: string;
@@ -31,8 +58,15 @@ interface EODSession {
   cashier?: {
     full_name: string;
   };
+  drawer?: {
+    opened_at: string;
+    closed_at: string | null;
+  } | null;
 }
 
+// shift_date is a plain date; parse it as local midnight rather than UTC
+const parseShiftDate = (shiftDate: string) => new Date(`${shiftDate}T00:00:00`);
+
 export default function AdminEOD() {
   const { profile } = useAuth();
   const [sessions, setSessions] = useState<EODSession[]>([]);
@@ -41,18 +75,45 @@ export default function AdminEOD() {
   const [adminNotes, setAdminNotes] = useState("");
   const [viewDetailsOpen, setViewDetailsOpen] = useState(false);
   const [salesDetails, setSalesDetails] = useState<any[]>([]);
+  const [tipPayouts, setTipPayouts] = useState<TipPayout[]>([]);
+  const [drawer, setDrawer] = useState<DrawerSession | null>(null);
+  const [drawerMovements, setDrawerMovements] = useState<DrawerMovement[]>([]);
+  const [zReport, setZReport] = useState<PrintableShiftReport | null>(null);
+  const [businessDays, setBusinessDays] = useState<BusinessDay[]>([]);
+  const [dayStatuses, setDayStatuses] = useState<Map<string, BusinessDayStatus>>(new Map());
+  const [closingDay, setClosingDay] = useState<BusinessDay | null>(null);
+  const [closeNotes, setCloseNotes] = useState("");
 
   useEffect(() => {
     loadEODSessions();
+    loadBusinessDays();
   }, []);
 
+  useEffect(() => {
+    setTipPayouts([]);
+    if (selectedSession?.business_day_id) {
+      fetchTipPayouts(selectedSession.business_day_id)
+        .then(setTipPayouts)
+        .catch((error) => console.error("Error loading tip payouts:", error));
+    }
+  }, [selectedSession]);
+
+  useEffect(() => {
+    setDrawer(null);
+    setDrawerMovements([]);
+    if (selectedSession?.drawer_session_id) {
+      loadDrawerLedger(selectedSession.drawer_session_id);
+    }
+  }, [selectedSession]);
+
   const loadEODSessions = async () => {
     setLoading(true);
     const { data, error } = await supabase
       .from('eod_sessions')
       .select(`
         *,
-        cashier:profiles!eod_sessions_cashier_id_fkey(full_name)
+        cashier:profiles!eod_sessions_cashier_id_fkey(full_name),
+        drawer:cash_drawer_sessions!eod_sessions_drawer_session_id_fkey(opened_at, closed_at)
       `)
       .order('submitted_at', { ascending: false });
 
@@ -66,6 +127,62 @@ export default function AdminEOD() {
     setLoading(false);
   };
 
+  const loadBusinessDays = async () => {
+    try {
+      const { days, statuses } = await fetchBusinessDays();
+      setBusinessDays(days);
+      setDayStatuses(statuses);
+    } catch (error) {
+      console.error("Error loading business days:", error);
+      toast.error("Failed to load business days");
+    }
+  };
+
+  const handleCloseDay = async () => {
+    if (!closingDay) return;
+    try {
+      await closeBusinessDay(closingDay.id, closeNotes || null);
+      toast.success(`Business day ${formatDateKey(closingDay.business_date)} closed`);
+      setClosingDay(null);
+      setCloseNotes("");
+      loadBusinessDays();
+    } catch (error) {
+      toast.error("Failed to close day: " + (error instanceof Error ? error.message : "unknown error"));
+    }
+  };
+
+  const handleRollForward = async (session: EODSession) => {
+    try {
+      await rollForwardEOD(session.id);
+      toast.success("EOD moved to the next business day for another review");
+      loadEODSessions();
+      loadBusinessDays();
+    } catch (error) {
+      toast.error("Failed to roll EOD forward: " + (error instanceof Error ? error.message : "unknown error"));
+    }
+  };
+
+  const loadDrawerLedger = async (sessionId: string) => {
+    const { data, error } = await supabase
+      .from('cash_drawer_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      toast.error("Failed to load cash drawer");
+      return;
+    }
+
+    try {
+      setDrawerMovements(await fetchDrawerMovements(sessionId));
+      setDrawer(data);
+    } catch (error) {
+      console.error("Error loading drawer movements:", error);
+      toast.error("Failed to load cash drawer movements");
+    }
+  };
+
   const handleApprove = async (session: EODSession) => {
     const { error } = await supabase
       .from('eod_sessions')
@@ -86,6 +203,26 @@ export default function AdminEOD() {
     setSelectedSession(null);
     setAdminNotes("");
     loadEODSessions();
+    loadBusinessDays();
+
+    // The approval stands even if the Z-report fails; it can be issued again from the list
+    try {
+      const report = await issueZReport(session.id);
+      setZReport(report);
+      await printShiftReport(report);
+    } catch (error) {
+      console.error("Error issuing Z-report:", error);
+      toast.error("EOD approved, but the Z-report could not be issued");
+    }
+  };
+
+  const viewZReport = async (session: EODSession) => {
+    try {
+      setZReport(await issueZReport(session.id));
+    } catch (error) {
+      console.error("Error loading Z-report:", error);
+      toast.error("Failed to load Z-report");
+    }
   };
 
   const handleReject = async (session: EODSession) => {
@@ -113,16 +250,19 @@ export default function AdminEOD() {
     setSelectedSession(null);
     setAdminNotes("");
     loadEODSessions();
+    loadBusinessDays();
   };
 
   const viewTransactionDetails = async (session: EODSession) => {
-    const shiftDate = session.shift_date;
+    // Drawer EODs cover exactly the drawer's open window, even across midnight
+    const start = session.drawer ? new Date(session.drawer.opened_at) : parseShiftDate(session.shift_date);
+    const end = session.drawer?.closed_at ? new Date(session.drawer.closed_at) : new Date(start.getTime() + 24 * 60 * 60 * 1000);
     const { data, error } = await supabase
       .from('sales')
       .select('*')
       .eq('cashier_id', session.cashier_id)
-      .gte('created_at', `${shiftDate}T00:00:00`)
-      .lte('created_at', `${shiftDate}T23:59:59`)
+      .gte('created_at', start.toISOString())
+      .lt('created_at', end.toISOString())
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -146,7 +286,79 @@ export default function AdminEOD() {
         </div>
       </AppHeader>
       
-      <div className="container mx-auto p-6">
+      <div className="container mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Business Days</CardTitle>
+            <CardDescription>
+              Close the day once every drawer is counted and every EOD approved; roll rejected EODs forward to close a day
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {businessDays.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No business days yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Open Drawers</TableHead>
+                    <TableHead className="text-right">EODs (pending / rejected / approved)</TableHead>
+                    <TableHead className="text-right">Total Sales</TableHead>
+                    <TableHead className="text-right">Cash Difference</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {businessDays.map((day) => {
+                    const status = dayStatuses.get(day.id);
+                    const cashDifference = Number(day.actual_cash || 0) - Number(day.expected_cash || 0);
+                    return (
+                      <TableRow key={day.id}>
+                        <TableCell>
+                          {formatDateKey(day.business_date)}
+                          <div className="text-xs text-muted-foreground">
+                            Opened {formatDateTime(day.opened_at)}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={day.status === 'open' ? 'secondary' : 'default'}>{day.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{day.status === 'open' ? status?.openDrawers ?? 0 : '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {day.status === 'open'
+                            ? `${status?.pending ?? 0} / ${status?.rejected ?? 0} / ${status?.approved ?? 0}`
+                            : `${day.eod_count ?? 0} approved`}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {day.total_sales !== null ? formatMoney(Number(day.total_sales)) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {day.status === 'closed' ? `${cashDifference >= 0 ? '+' : ''}${formatMoney(cashDifference)}` : '-'}
+                        </TableCell>
+                        <TableCell>
+                          {day.status === 'open' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setClosingDay(day)}
+                              disabled={!status || !canCloseDay(status)}
+                            >
+                              <Lock className="h-4 w-4 mr-1" />
+                              Close Day
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>EOD Submissions</CardTitle>
@@ -174,7 +386,7 @@ export default function AdminEOD() {
                 <TableBody>
                   {sessions.map((session) => (
                     <TableRow key={session.id}>
-                      <TableCell>{format(new Date(session.shift_date), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell>{formatDateKey(session.shift_date)}</TableCell>
                       <TableCell>{session.cashier?.full_name}</TableCell>
                       <TableCell>
                         <Badge variant={
@@ -184,17 +396,25 @@ export default function AdminEOD() {
                         }>
                           {session.status}
                         </Badge>
+                        {session.rolled_from_day_id && (
+                          <Badge variant="outline" className="ml-1">rolled forward</Badge>
+                        )}
                       </TableCell>
-                      <TableCell className="text-right">R{session.expected_cash.toFixed(2)}</TableCell>
-                      <TableCell className="text-right">R{session.actual_cash.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(session.expected_cash)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(session.actual_cash)}</TableCell>
                       <TableCell className={`text-right font-semibold ${
                         session.cash_difference === 0 ? 'text-green-600 dark:text-green-400' :
                         session.cash_difference > 0 ? 'text-blue-600 dark:text-blue-400' :
                         'text-red-600 dark:text-red-400'
                       }`}>
-                        {session.cash_difference >= 0 ? '+' : ''}R{session.cash_difference.toFixed(2)}
+                        {session.cash_difference >= 0 ? '+' : ''}{formatMoney(session.cash_difference)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(session.total_sales)}
+                        {session.total_refunds > 0 && (
+                          <div className="text-xs text-destructive">-{formatMoney(session.total_refunds)} refunds</div>
+                        )}
                       </TableCell>
-                      <TableCell className="text-right">R{session.total_sales.toFixed(2)}</TableCell>
                       <TableCell>
                         <div className="flex gap-2">
                           <Button
@@ -204,6 +424,25 @@ export default function AdminEOD() {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
+                          {session.status === 'approved' && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => viewZReport(session)}
+                            >
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {session.status === 'rejected' && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleRollForward(session)}
+                            >
+                              <Forward className="h-4 w-4 mr-1" />
+                              Roll Forward
+                            </Button>
+                          )}
                           {session.status === 'pending' && (
                             <>
                               <Button
@@ -228,11 +467,11 @@ export default function AdminEOD() {
 
       {/* Review Dialog */}
       <Dialog open={!!selectedSession} onOpenChange={(open) => !open && setSelectedSession(null)}>
-        <DialogContent className="sm:max-w-[600px]">
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Review EOD Submission</DialogTitle>
             <DialogDescription>
-              {selectedSession?.cashier?.full_name} - {selectedSession && format(new Date(selectedSession.shift_date), 'MMM dd, yyyy')}
+              {selectedSession?.cashier?.full_name} - {selectedSession && formatDateKey(selectedSession.shift_date)}
             </DialogDescription>
           </DialogHeader>
 
@@ -241,11 +480,11 @@ export default function AdminEOD() {
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label>Expected Cash</Label>
-                  <div className="text-lg font-semibold">R{selectedSession.expected_cash.toFixed(2)}</div>
+                  <div className="text-lg font-semibold">{formatMoney(selectedSession.expected_cash)}</div>
                 </div>
                 <div>
                   <Label>Actual Cash</Label>
-                  <div className="text-lg font-semibold">R{selectedSession.actual_cash.toFixed(2)}</div>
+                  <div className="text-lg font-semibold">{formatMoney(selectedSession.actual_cash)}</div>
                 </div>
                 <div>
                   <Label>Difference</Label>
@@ -254,15 +493,122 @@ export default function AdminEOD() {
                     selectedSession.cash_difference > 0 ? 'text-blue-600 dark:text-blue-400' :
                     'text-red-600 dark:text-red-400'
                   }`}>
-                    {selectedSession.cash_difference >= 0 ? '+' : ''}R{selectedSession.cash_difference.toFixed(2)}
+                    {selectedSession.cash_difference >= 0 ? '+' : ''}{formatMoney(selectedSession.cash_difference)}
                   </div>
                 </div>
                 <div>
                   <Label>Total Sales</Label>
-                  <div className="text-lg font-semibold">R{selectedSession.total_sales.toFixed(2)}</div>
+                  <div className="text-lg font-semibold">{formatMoney(selectedSession.total_sales)}</div>
+                </div>
+                <div>
+                  <Label>Refunds</Label>
+                  <div className="text-lg font-semibold text-destructive">-{formatMoney(selectedSession.total_refunds)}</div>
+                </div>
+                <div>
+                  <Label>Net Sales</Label>
+                  <div className="text-lg font-semibold">
+                    {formatMoney(selectedSession.total_sales - selectedSession.total_refunds)}
+                  </div>
+                </div>
+                <div>
+                  <Label>Tips Collected</Label>
+                  <div className="text-lg font-semibold">{formatMoney(selectedSession.total_tips)}</div>
                 </div>
               </div>
 
+              {drawer && (() => {
+                const movementTotal = drawerMovements.reduce((sum, m) => sum + getSignedAmount(m), 0);
+                // Whatever the float and movements don't explain came from cash sales, tips and refunds
+                const cashTakings = Number(drawer.expected_cash) - Number(drawer.opening_float) - movementTotal;
+                const breakdown = (drawer.count_breakdown || {}) as CountBreakdown;
+                return (
+                  <div className="space-y-2">
+                    <Label>Cash Drawer Ledger</Label>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Time</TableHead>
+                          <TableHead>Entry</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        <TableRow>
+                          <TableCell className="text-sm">{formatTime(drawer.opened_at)}</TableCell>
+                          <TableCell>Opening float</TableCell>
+                          <TableCell className="text-right">{formatMoney(Number(drawer.opening_float))}</TableCell>
+                        </TableRow>
+                        {drawerMovements.map((movement) => (
+                          <TableRow key={movement.id}>
+                            <TableCell className="text-sm">{formatTime(movement.created_at)}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className="mr-2">{getMovementLabel(movement.movement_type)}</Badge>
+                              <span className="text-sm">{movement.reason}</span>
+                            </TableCell>
+                            <TableCell className={`text-right ${getSignedAmount(movement) < 0 ? 'text-destructive' : ''}`}>
+                              {getSignedAmount(movement) < 0 ? '-' : '+'}{formatMoney(Number(movement.amount))}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow>
+                          <TableCell />
+                          <TableCell>Cash sales and tips, less cash refunds</TableCell>
+                          <TableCell className="text-right">
+                            {cashTakings < 0 ? '-' : '+'}{formatMoney(Math.abs(cashTakings))}
+                          </TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell className="text-sm">
+                            {drawer.closed_at && formatTime(drawer.closed_at)}
+                          </TableCell>
+                          <TableCell className="font-semibold">Expected in drawer</TableCell>
+                          <TableCell className="text-right font-semibold">{formatMoney(Number(drawer.expected_cash))}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell />
+                          <TableCell className="font-semibold">Counted (blind)</TableCell>
+                          <TableCell className="text-right font-semibold">{formatMoney(Number(drawer.counted_cash))}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                    <div className="grid grid-cols-4 gap-2 text-sm">
+                      {/* Read from the count itself, which may predate a change of store currency */}
+                      {Object.keys(breakdown).map(Number).filter(d => breakdown[String(d)] > 0).sort((a, b) => b - a).map(d => (
+                        <div key={d} className="p-2 bg-muted rounded-md">
+                          {formatDenomination(d)} × {breakdown[String(d)]}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })()}
+
+              {tipPayouts.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Tip Payouts for the Shift</Label>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        <TableHead className="text-right">Hours</TableHead>
+                        <TableHead className="text-right">Collected</TableHead>
+                        <TableHead className="text-right">Payout</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {tipPayouts.map((payout) => (
+                        <TableRow key={payout.employeeId}>
+                          <TableCell>{payout.fullName}</TableCell>
+                          <TableCell className="text-right">{payout.hoursWorked.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{formatMoney(payout.collected)}</TableCell>
+                          <TableCell className="text-right font-semibold">{formatMoney(payout.payout)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
               {selectedSession.cashier_notes && (
                 <div>
                   <Label>Cashier Notes</Label>
@@ -303,6 +649,42 @@ export default function AdminEOD() {
         </DialogContent>
       </Dialog>
 
+      {/* Day Close Dialog */}
+      <Dialog open={!!closingDay} onOpenChange={(open) => !open && setClosingDay(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Close Business Day</DialogTitle>
+            <DialogDescription>
+              {closingDay && `${format(parseShiftDate(closingDay.business_date), 'EEEE')}, ${formatDateKey(closingDay.business_date)}`} - totals are fixed once the day is closed.
+              New drawers will start the next day.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="close-notes">Notes (optional)</Label>
+            <Textarea
+              id="close-notes"
+              value={closeNotes}
+              onChange={(e) => setCloseNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClosingDay(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCloseDay}>
+              <Lock className="mr-2 h-4 w-4" />
+              Close Day
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ShiftReportDialog
+        report={zReport}
+        onOpenChange={(open) => !open && setZReport(null)}
+      />
+
       {/* Transaction Details Dialog */}
       <Dialog open={viewDetailsOpen} onOpenChange={setViewDetailsOpen}>
         <DialogContent className="sm:max-w-[700px] max-h-[80vh] overflow-y-auto">
@@ -329,14 +711,14 @@ export default function AdminEOD() {
                   {salesDetails.map((sale) => (
                     <TableRow key={sale.id}>
                       <TableCell className="text-sm">
-                        {format(new Date(sale.created_at), 'HH:mm:ss')}
+                        {formatTime(sale.created_at)}
                       </TableCell>
                       <TableCell>
                         <Badge variant="outline">{sale.payment_method}</Badge>
                       </TableCell>
-                      <TableCell className="text-right">R{Number(sale.subtotal).toFixed(2)}</TableCell>
-                      <TableCell className="text-right">R{Number(sale.tax_amount).toFixed(2)}</TableCell>
-                      <TableCell className="text-right font-semibold">R{Number(sale.total).toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(Number(sale.subtotal))}</TableCell>
+                      <TableCell className="text-right">{formatMoney(Number(sale.tax_amount))}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatMoney(Number(sale.total))}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
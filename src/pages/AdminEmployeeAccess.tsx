@@ -15,6 +15,7 @@ import { ArrowLeft, Plus, Pencil, Trash2, Key, RefreshCw, Users } from 'lucide-r
 import AppHeader from '@/components/AppHeader';
 import logo from '@/assets/casbah-logo.svg';
 import { hashPIN } from '@/components/PINLogin';
+import { formatDate } from '@/lib/dateTime';
 
 interface Employee {
   id: string;
@@ -39,7 +40,7 @@ const AdminEmployeeAccess = () => {
   // Form state
   const [formName, setFormName] = useState('');
   const [formEmail, setFormEmail] = useState('');
-  const [formRole, setFormRole] = useState<'admin' | 'cashier' | 'waiter' | 'kitchen'>('cashier');
+  const [formRole, setFormRole] = useState<'admin' | 'supervisor' | 'cashier' | 'waiter' | 'kitchen'>('cashier');
   
   // PIN form state
   const [pin, setPin] = useState('');
@@ -245,6 +246,7 @@ const AdminEmployeeAccess = () => {
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
       case 'admin': return 'destructive';
+      case 'supervisor': return 'destructive';
       case 'cashier': return 'default';
       case 'waiter': return 'secondary';
       case 'kitchen': return 'outline';
@@ -324,7 +326,7 @@ const AdminEmployeeAccess = () => {
                         </Badge>
                       </TableCell>
                       <TableCell>
-                        {new Date(employee.created_at).toLocaleDateString()}
+                        {formatDate(employee.created_at)}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -400,6 +402,7 @@ const AdminEmployeeAccess = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="admin">Admin</SelectItem>
+                  <SelectItem value="supervisor">Supervisor</SelectItem>
                   <SelectItem value="cashier">Cashier</SelectItem>
                   <SelectItem value="waiter">Waiter</SelectItem>
                   <SelectItem value="kitchen">Kitchen</SelectItem>
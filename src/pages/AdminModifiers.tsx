@@ -23,6 +23,7 @@ import {
 import { Card } from '@/components/ui/card';
 import { Trash2, Edit, Plus } from 'lucide-react';
 import { toast } from 'sonner';
+import { formatMoney, getCurrencySymbol } from '@/lib/money';
 
 interface ModifierGroup {
   id: string;
@@ -391,7 +392,7 @@ export default function AdminModifiers() {
                         />
                       </div>
                       <div>
-                        <Label>Price Adjustment (R)</Label>
+                        <Label>Price Adjustment ({getCurrencySymbol()})</Label>
                         <Input
                           type="number"
                           step="0.01"
@@ -435,8 +436,7 @@ export default function AdminModifiers() {
                         <span className="font-medium">{modifier.name}</span>
                         {modifier.price_adjustment !== 0 && (
                           <span className="ml-2 text-sm text-muted-foreground">
-                            {modifier.price_adjustment > 0 ? '+' : ''}R
-                            {modifier.price_adjustment.toFixed(2)}
+                            {modifier.price_adjustment > 0 ? '+' : ''}{formatMoney(modifier.price_adjustment)}
                           </span>
                         )}
                       </div>
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Navigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { toast } from 'sonner';
+import { CreditCard } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import { PAYMENT_PROVIDERS, clearPaymentSettingsCache } from '@/lib/payments';
+
+const AdminPaymentSettings = () => {
+  const { user, profile } = useAuth();
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [activeProvider, setActiveProvider] = useState('yoco_checkout');
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = !!profile?.roles?.includes('admin');
+
+  useEffect(() => {
+    if (isAdmin) loadSettings();
+  }, [isAdmin]);
+
+  const loadSettings = async () => {
+    const { data, error } = await supabase
+      .from('payment_settings')
+      .select('*')
+      .order('created_at')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading payment settings:', error);
+      toast.error('Failed to load payment settings');
+      return;
+    }
+    if (data) {
+      setSettingsId(data.id);
+      setActiveProvider(data.active_provider);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settingsId) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('payment_settings')
+      .update({ active_provider: activeProvider })
+      .eq('id', settingsId);
+    setSaving(false);
+
+    if (error) {
+      toast.error('Failed to save payment settings');
+      return;
+    }
+    clearPaymentSettingsCache();
+    toast.success('Payment settings saved');
+  };
+
+  if (!user) return <Navigate to="/auth" />;
+  if (!isAdmin) return <Navigate to="/pos" />;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader>
+        <div className="flex items-center gap-2 justify-center">
+          <CreditCard className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-bold">Payment Settings</h1>
+        </div>
+      </AppHeader>
+
+      <div className="container mx-auto p-6 max-w-2xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Payment Provider</CardTitle>
+            <CardDescription>Card / QR tenders at the POS are sent to this provider</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <RadioGroup value={activeProvider} onValueChange={setActiveProvider}>
+              {PAYMENT_PROVIDERS.map(provider => (
+                <div key={provider.value} className="flex items-start space-x-3 p-3 border rounded-lg">
+                  <RadioGroupItem value={provider.value} id={`provider-${provider.value}`} className="mt-1" />
+                  <Label htmlFor={`provider-${provider.value}`} className="cursor-pointer">
+                    <div className="font-medium">{provider.label}</div>
+                    <div className="text-sm text-muted-foreground font-normal">{provider.description}</div>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            {activeProvider === 'simulator' && (
+              <Alert>
+                <AlertDescription>
+                  No money moves with the simulator. Amounts ending in 13, 14 or 15 cents are declined for testing.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button onClick={handleSave} disabled={saving || !settingsId}>
+              Save Settings
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPaymentSettings;
@@ -14,6 +14,7 @@ import { Package, Plus, Pencil, Trash2, Upload, X } from 'lucide-react';
 import { Navigate } from 'react-router-dom';
 import AppHeader from '@/components/AppHeader';
 import { productSchema, validateForm, getFirstError } from '@/lib/validations';
+import { formatMoney, getCurrencySymbol } from '@/lib/money';
 
 interface Product {
   id: string;
@@ -368,7 +369,7 @@ const AdminProducts = () => {
                     </Select>
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="price">Price (R) *</Label>
+                    <Label htmlFor="price">Price ({getCurrencySymbol()}) *</Label>
                     <Input
                       id="price"
                       type="number"
@@ -380,7 +381,7 @@ const AdminProducts = () => {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="cost">Cost (R) *</Label>
+                    <Label htmlFor="cost">Cost ({getCurrencySymbol()}) *</Label>
                     <Input
                       id="cost"
                       type="number"
@@ -555,7 +556,7 @@ const AdminProducts = () => {
                     <TableRow key={product.id}>
                       <TableCell className="font-medium">{product.name}</TableCell>
                       <TableCell>{product.sku}</TableCell>
-                      <TableCell>R{product.price.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(product.price)}</TableCell>
                       <TableCell>
                         <Badge variant={product.stock_qty > 10 ? "default" : product.stock_qty > 0 ? "secondary" : "destructive"}>
                           {product.stock_qty}
@@ -12,6 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import { Plus, Trash2 } from "lucide-react";
+import { formatDate } from "@/lib/dateTime";
 
 interface Promotion {
   id: string;
@@ -26,6 +27,7 @@ interface Promotion {
   time_start: string | null;
   time_end: string | null;
   is_active: boolean;
+  is_stackable: boolean;
   usage_limit: number | null;
   usage_count: number;
   applies_to: string;
@@ -48,6 +50,7 @@ const AdminPromotions = () => {
     time_start: "",
     time_end: "",
     is_active: true,
+    is_stackable: false,
     usage_limit: null as number | null,
     applies_to: "all",
   });
@@ -97,6 +100,7 @@ const AdminPromotions = () => {
         time_start: "",
         time_end: "",
         is_active: true,
+        is_stackable: false,
         usage_limit: null,
         applies_to: "all",
       });
@@ -169,6 +173,7 @@ const AdminPromotions = () => {
                     <SelectContent>
                       <SelectItem value="percentage">Percentage</SelectItem>
                       <SelectItem value="fixed_amount">Fixed Amount</SelectItem>
+                      <SelectItem value="buy_x_get_y">Buy X Get 1 Free</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -186,7 +191,9 @@ const AdminPromotions = () => {
               <div className="grid grid-cols-3 gap-4">
                 <div>
                   <Label htmlFor="discount_value">
-                    Discount Value {formData.discount_type === "percentage" ? "(%)" : "($)"}
+                    {formData.discount_type === "buy_x_get_y"
+                      ? "Buy Quantity"
+                      : `Discount Value ${formData.discount_type === "percentage" ? "(%)" : "($)"}`}
                   </Label>
                   <Input
                     id="discount_value"
@@ -272,6 +279,15 @@ const AdminPromotions = () => {
                 <Label htmlFor="is_active">Active</Label>
               </div>
 
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="is_stackable"
+                  checked={formData.is_stackable}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_stackable: checked })}
+                />
+                <Label htmlFor="is_stackable">Can be combined with other stackable promotions</Label>
+              </div>
+
               <Button type="submit" className="w-full">Create Promotion</Button>
             </form>
           </Card>
@@ -297,7 +313,10 @@ const AdminPromotions = () => {
                       <strong>Discount:</strong>{" "}
                       {promo.discount_type === "percentage"
                         ? `${promo.discount_value}%`
-                        : `$${promo.discount_value}`}
+                        : promo.discount_type === "buy_x_get_y"
+                          ? `Buy ${promo.discount_value} get 1 free`
+                          : `$${promo.discount_value}`}
+                      {promo.is_stackable && " (stackable)"}
                     </p>
                     {promo.min_purchase_amount > 0 && (
                       <p><strong>Min Purchase:</strong> ${promo.min_purchase_amount}</p>
@@ -306,8 +325,8 @@ const AdminPromotions = () => {
                       <p><strong>Max Discount:</strong> ${promo.max_discount_amount}</p>
                     )}
                     <p>
-                      <strong>Valid:</strong> {new Date(promo.start_date).toLocaleDateString()} -{" "}
-                      {new Date(promo.end_date).toLocaleDateString()}
+                      <strong>Valid:</strong> {formatDate(promo.start_date)} -{" "}
+                      {formatDate(promo.end_date)}
                     </p>
                     {promo.time_start && promo.time_end && (
                       <p>
@@ -317,6 +336,9 @@ const AdminPromotions = () => {
                     {promo.usage_limit && (
                       <p>
                         <strong>Usage:</strong> {promo.usage_count} / {promo.usage_limit}
+                        {promo.usage_count > promo.usage_limit && (
+                          <span className="text-destructive"> (over limit from offline sales)</span>
+                        )}
                       </p>
                     )}
                   </div>
@@ -0,0 +1,273 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Navigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Scale, Upload, X } from 'lucide-react';
+import { format } from 'date-fns';
+import AppHeader from '@/components/AppHeader';
+import { PAYMENT_PROVIDERS } from '@/lib/payments';
+import {
+  RECON_ISSUE_LABELS,
+  ReconIssue,
+  ReconPayment,
+  ReconTransaction,
+  SettlementRow,
+  getChargedAmount,
+  isCharge,
+  parseSettlementCsv,
+  reconcileDay,
+  reconcileSettlement,
+} from '@/lib/reconciliation';
+import { formatMoney } from '@/lib/money';
+import { getStoreDateKey, getStoreDayWindow, formatDateKey } from '@/lib/dateTime';
+
+const ISSUE_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  orphan_charge: 'destructive',
+  missing_charge: 'destructive',
+  amount_mismatch: 'secondary',
+};
+
+const AdminReconciliation = () => {
+  const { user, profile } = useAuth();
+  const [day, setDay] = useState(getStoreDateKey());
+  const [transactions, setTransactions] = useState<ReconTransaction[]>([]);
+  const [payments, setPayments] = useState<ReconPayment[]>([]);
+  const [settlementProvider, setSettlementProvider] = useState('yoco_checkout');
+  const [settlement, setSettlement] = useState<{ fileName: string; rows: SettlementRow[] } | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = !!profile?.roles?.includes('admin');
+
+  useEffect(() => {
+    if (isAdmin) loadDay();
+  }, [isAdmin, day]);
+
+  const loadDay = async () => {
+    setLoading(true);
+    try {
+      const { start, end } = getStoreDayWindow(day);
+
+      const { data: paymentData, error: paymentError } = await supabase
+        .from('payments')
+        .select('sale_id, order_id, amount, tip_amount')
+        .eq('payment_method', 'card')
+        .is('refund_id', null)
+        .gt('amount', 0)
+        .gte('created_at', start)
+        .lt('created_at', end);
+
+      if (paymentError) throw paymentError;
+
+      const columns = 'id, sale_id, order_id, refund_id, payment_provider, provider_transaction_id, amount, status, created_at';
+      const { data: dayTransactions, error: transactionError } = await supabase
+        .from('payment_transactions')
+        .select(columns)
+        .gte('created_at', start)
+        .lt('created_at', end);
+
+      if (transactionError) throw transactionError;
+
+      // Intents are created just before the sale or settle, so one right after midnight can carry yesterday's charge
+      const saleIds = [...new Set((paymentData || []).map(p => p.sale_id).filter((id): id is string => !!id))];
+      const orderIds = [...new Set((paymentData || []).filter(p => !p.sale_id).map(p => p.order_id).filter((id): id is string => !!id))];
+      const loadedIds = new Set((dayTransactions || []).map(t => t.id));
+      let linkedTransactions: ReconTransaction[] = [];
+      if (saleIds.length > 0 || orderIds.length > 0) {
+        const [bySale, byOrder] = await Promise.all([
+          saleIds.length > 0
+            ? supabase.from('payment_transactions').select(columns).in('sale_id', saleIds)
+            : { data: [], error: null },
+          orderIds.length > 0
+            ? supabase.from('payment_transactions').select(columns).is('sale_id', null).in('order_id', orderIds)
+            : { data: [], error: null },
+        ]);
+        if (bySale.error || byOrder.error) throw bySale.error || byOrder.error;
+        linkedTransactions = [...(bySale.data || []), ...(byOrder.data || [])].filter(t => !loadedIds.has(t.id));
+      }
+
+      setPayments(paymentData || []);
+      setTransactions([...(dayTransactions || []), ...linkedTransactions]);
+    } catch (error) {
+      console.error('Error loading reconciliation data:', error);
+      toast.error('Failed to load payments for this day');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSettlementFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const rows = parseSettlementCsv(await file.text());
+      setSettlement({ fileName: file.name, rows });
+      toast.success(`Imported ${rows.length} settled transactions`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the settlement file');
+    }
+  };
+
+  if (!user) return <Navigate to="/auth" />;
+  if (!isAdmin) return <Navigate to="/pos" />;
+
+  const charges = transactions.filter(isCharge);
+  const chargedTotal = charges.reduce((sum, t) => sum + Number(t.amount), 0);
+  const recordedTotal = payments.reduce((sum, p) => sum + getChargedAmount(p), 0);
+  const chargebacks = charges.filter(t => t.status === 'charged_back');
+
+  const issues: ReconIssue[] = [
+    ...reconcileDay(transactions, payments),
+    ...(settlement
+      ? reconcileSettlement(transactions.filter(t => t.payment_provider === settlementProvider), settlement.rows)
+      : []),
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader>
+        <div className="flex items-center gap-2 justify-center">
+          <Scale className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-bold">Payment Reconciliation</h1>
+        </div>
+      </AppHeader>
+
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="recon-day">Day</Label>
+            <Input id="recon-day" type="date" value={day} onChange={(e) => setDay(e.target.value)} className="w-44" />
+          </div>
+          <div className="space-y-2">
+            <Label>Settlement Provider</Label>
+            <Select value={settlementProvider} onValueChange={setSettlementProvider}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_PROVIDERS.map(provider => (
+                  <SelectItem key={provider.value} value={provider.value}>{provider.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settlement-file">Settlement CSV</Label>
+            {settlement ? (
+              <div className="flex items-center gap-2 h-10">
+                <span className="text-sm">{settlement.fileName} ({settlement.rows.length} rows)</span>
+                <Button size="icon" variant="ghost" onClick={() => setSettlement(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Upload className="h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="settlement-file"
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="w-64"
+                  onChange={(e) => {
+                    handleSettlementFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Provider Charges</CardDescription>
+              <CardTitle>{formatMoney(chargedTotal)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">{charges.length} transactions</CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Card Tenders on Sales</CardDescription>
+              <CardTitle>{formatMoney(recordedTotal)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">{payments.length} tenders</CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Chargebacks</CardDescription>
+              <CardTitle>{chargebacks.length}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {formatMoney(chargebacks.reduce((sum, t) => sum + Number(t.amount), 0))}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Issues</CardDescription>
+              <CardTitle className={issues.length > 0 ? 'text-destructive' : ''}>{issues.length}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {settlement ? 'Including settlement check' : 'Import a settlement CSV to check the provider side'}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Issues</CardTitle>
+            <CardDescription>{format(new Date(`${day}T00:00:00`), 'EEEE')}, {formatDateKey(day)}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading payments...</p>
+            ) : issues.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">Everything matches</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Issue</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Sale / Order</TableHead>
+                    <TableHead>Transaction</TableHead>
+                    <TableHead>Detail</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Actual</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {issues.map((issue, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Badge variant={ISSUE_VARIANTS[issue.type]}>{RECON_ISSUE_LABELS[issue.type]}</Badge>
+                      </TableCell>
+                      <TableCell className="capitalize">{issue.source}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {issue.saleId
+                          ? issue.saleId.slice(0, 8).toUpperCase()
+                          : issue.orderId ? `Order ${issue.orderId.slice(0, 8).toUpperCase()}` : '-'}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{issue.providerTransactionId || '-'}</TableCell>
+                      <TableCell className="text-sm">{issue.detail}</TableCell>
+                      <TableCell className="text-right">{formatMoney(issue.expected)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(issue.actual)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminReconciliation;
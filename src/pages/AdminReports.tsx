@@ -7,6 +7,8 @@ import { toast } from 'sonner';
 import { BarChart3, Download, TrendingUp, Package, DollarSign } from 'lucide-react';
 import { Navigate } from 'react-router-dom';
 import AppHeader from '@/components/AppHeader';
+import { formatMoney } from '@/lib/money';
+import { formatDateTime } from '@/lib/dateTime';
 
 interface ReportData {
   totalSales: number;
@@ -93,7 +95,7 @@ const AdminReports = () => {
       // Convert to CSV
       let csv = 'Date,Cashier,Payment Method,Subtotal,Tax,Discount,Total\n';
       sales?.forEach(sale => {
-        csv += `${new Date(sale.created_at).toLocaleString()},${sale.profiles?.full_name || 'Unknown'},${sale.payment_method},${sale.subtotal},${sale.tax_amount},${sale.discount_amount},${sale.total}\n`;
+        csv += `${formatDateTime(sale.created_at)},${sale.profiles?.full_name || 'Unknown'},${sale.payment_method},${sale.subtotal},${sale.tax_amount},${sale.discount_amount},${sale.total}\n`;
       });
 
       // Download
@@ -152,7 +154,7 @@ const AdminReports = () => {
                   <DollarSign className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">R{reportData.totalRevenue.toFixed(2)}</div>
+                  <div className="text-2xl font-bold">{formatMoney(reportData.totalRevenue)}</div>
                   <p className="text-xs text-muted-foreground">
                     Gross sales
                   </p>
@@ -165,7 +167,7 @@ const AdminReports = () => {
                   <TrendingUp className="h-4 w-4 text-success" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-success">R{reportData.totalProfit.toFixed(2)}</div>
+                  <div className="text-2xl font-bold text-success">{formatMoney(reportData.totalProfit)}</div>
                   <p className="text-xs text-muted-foreground">
                     Net profit
                   </p>
@@ -197,7 +199,7 @@ const AdminReports = () => {
                     <p className="text-sm font-medium">Average Order Value</p>
                     <p className="text-xs text-muted-foreground">Per transaction</p>
                   </div>
-                  <div className="text-2xl font-bold">R{reportData.averageOrderValue.toFixed(2)}</div>
+                  <div className="text-2xl font-bold">{formatMoney(reportData.averageOrderValue)}</div>
                 </div>
                 <div className="flex justify-between items-center p-4 border rounded-lg">
                   <div>
@@ -9,8 +9,8 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar, Clock, Users, Plus, Edit, Trash, Phone } from "lucide-react";
 import { toast } from "sonner";
-import { format } from "date-fns";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatDateKey, formatTime, getStoreDateKey } from "@/lib/dateTime";
 
 interface Reservation {
   id: string;
@@ -52,7 +52,7 @@ export default function AdminReservations() {
     customer_phone: "",
     customer_email: "",
     table_id: "",
-    reservation_date: format(new Date(), "yyyy-MM-dd"),
+    reservation_date: getStoreDateKey(),
     reservation_time: "19:00",
     guest_count: 2,
     status: "pending",
@@ -208,7 +208,7 @@ export default function AdminReservations() {
       customer_phone: "",
       customer_email: "",
       table_id: "",
-      reservation_date: format(new Date(), "yyyy-MM-dd"),
+      reservation_date: getStoreDateKey(),
       reservation_time: "19:00",
       guest_count: 2,
       status: "pending",
@@ -385,7 +385,7 @@ export default function AdminReservations() {
                       <div className="flex items-center gap-4 text-sm">
                         <div className="flex items-center gap-1">
                           <Calendar className="h-4 w-4" />
-                          {format(new Date(reservation.reservation_date), "MMM dd, yyyy")}
+                          {formatDateKey(reservation.reservation_date)}
                         </div>
                         <div className="flex items-center gap-1">
                           <Clock className="h-4 w-4" />
@@ -447,7 +447,7 @@ export default function AdminReservations() {
                         </div>
                         <div className="flex items-center gap-1">
                           <Clock className="h-4 w-4" />
-                          Added {format(new Date(entry.created_at), "HH:mm")}
+                          Added {formatTime(entry.created_at)}
                         </div>
                         {entry.estimated_wait_time && (
                           <span className="text-yellow-600">
@@ -4,10 +4,15 @@ import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
-import { History } from 'lucide-react';
+import { History, RotateCcw } from 'lucide-react';
 import { Navigate } from 'react-router-dom';
 import AppHeader from '@/components/AppHeader';
+import RefundDialog from '@/components/RefundDialog';
+import { canRefund, getRefundReasonLabel, retryCardRefund } from '@/lib/refunds';
+import { formatMoney } from '@/lib/money';
+import { formatDateTime } from '@/lib/dateTime';
 
 interface Sale {
   id: string;
@@ -17,19 +22,45 @@ interface Sale {
   discount_amount: number;
   total: number;
   payment_method: string;
+  status: string;
+  refunded_amount: number;
   created_at: string;
   profiles?: {
     full_name: string;
   };
 }
 
+interface Refund {
+  id: string;
+  sale_id: string;
+  refund_type: string;
+  reason_code: string;
+  reason_notes: string | null;
+  refund_method: string;
+  amount: number;
+  provider_status: string | null;
+  created_at: string;
+  profiles?: {
+    full_name: string;
+  } | null;
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  completed: 'outline',
+  partially_refunded: 'secondary',
+  refunded: 'destructive',
+  voided: 'destructive',
+};
+
 const AdminSales = () => {
   const { user, profile } = useAuth();
   const [sales, setSales] = useState<Sale[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [refundSale, setRefundSale] = useState<Sale | null>(null);
   const [loading, setLoading] = useState(true);
 
   if (!user) return <Navigate to="/auth" />;
-  if (!profile?.roles?.includes('admin')) return <Navigate to="/pos" />;
+  if (!canRefund(profile?.roles)) return <Navigate to="/pos" />;
 
   useEffect(() => {
     loadSales();
@@ -46,6 +77,15 @@ const AdminSales = () => {
 
       if (error) throw error;
       if (data) setSales(data);
+
+      const { data: refundData, error: refundError } = await supabase
+        .from('refunds')
+        .select('*, profiles(full_name)')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (refundError) throw refundError;
+      if (refundData) setRefunds(refundData);
     } catch (error) {
       console.error('Error loading sales:', error);
       toast.error('Failed to load sales');
@@ -54,6 +94,18 @@ const AdminSales = () => {
     }
   };
 
+  const handleRetryCardRefund = async (refundId: string) => {
+    if (await retryCardRefund(refundId)) {
+      toast.success('Card refund sent');
+    } else {
+      toast.error('Card refund failed again');
+    }
+    loadSales();
+  };
+
+  const grossTotal = sales.reduce((sum, sale) => sum + sale.total, 0);
+  const refundedTotal = sales.reduce((sum, sale) => sum + sale.refunded_amount, 0);
+
   return (
     <div className="min-h-screen bg-background">
       <AppHeader>
@@ -63,11 +115,13 @@ const AdminSales = () => {
         </div>
       </AppHeader>
 
-      <div className="p-6">
+      <div className="p-6 space-y-6">
         <Card>
           <CardHeader>
             <CardTitle>Recent Sales</CardTitle>
-            <CardDescription>View all sales transactions</CardDescription>
+            <CardDescription>
+              {formatMoney(grossTotal)} sold, {formatMoney(refundedTotal)} refunded, {formatMoney(grossTotal - refundedTotal)} net
+            </CardDescription>
           </CardHeader>
           <CardContent>
             {loading ? (
@@ -84,26 +138,111 @@ const AdminSales = () => {
                     <TableHead>Subtotal</TableHead>
                     <TableHead>Tax</TableHead>
                     <TableHead>Discount</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead className="text-right">Total</TableHead>
+                    <TableHead></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {sales.map(sale => (
                     <TableRow key={sale.id}>
                       <TableCell>
-                        {new Date(sale.created_at).toLocaleString()}
+                        {formatDateTime(sale.created_at)}
                       </TableCell>
                       <TableCell>{sale.profiles?.full_name || 'Unknown'}</TableCell>
                       <TableCell>
                         <Badge variant="outline">{sale.payment_method}</Badge>
                       </TableCell>
-                      <TableCell>R{sale.subtotal.toFixed(2)}</TableCell>
-                      <TableCell>R{sale.tax_amount.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(sale.subtotal)}</TableCell>
+                      <TableCell>{formatMoney(sale.tax_amount)}</TableCell>
+                      <TableCell>
+                        {sale.discount_amount > 0 ? `-${formatMoney(sale.discount_amount)}` : '-'}
+                      </TableCell>
                       <TableCell>
-                        {sale.discount_amount > 0 ? `-R${sale.discount_amount.toFixed(2)}` : '-'}
+                        <Badge variant={STATUS_VARIANTS[sale.status] || 'outline'}>
+                          {sale.status.replace('_', ' ')}
+                        </Badge>
                       </TableCell>
                       <TableCell className="text-right font-bold">
-                        R{sale.total.toFixed(2)}
+                        {formatMoney(sale.total)}
+                        {sale.refunded_amount > 0 && (
+                          <div className="text-xs font-normal text-destructive">
+                            -{formatMoney(sale.refunded_amount)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRefundSale(sale)}
+                          disabled={sale.status === 'refunded' || sale.status === 'voided'}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Refund
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Refunds &amp; Voids</CardTitle>
+            <CardDescription>Who reversed what, and why</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {refunds.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No refunds yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Sale</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Refunded To</TableHead>
+                    <TableHead>Authorised By</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {refunds.map(refund => (
+                    <TableRow key={refund.id}>
+                      <TableCell>{formatDateTime(refund.created_at)}</TableCell>
+                      <TableCell className="font-mono text-xs">{refund.sale_id.slice(0, 8).toUpperCase()}</TableCell>
+                      <TableCell>
+                        <Badge variant={refund.refund_type === 'void' ? 'destructive' : 'secondary'}>
+                          {refund.refund_type}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {getRefundReasonLabel(refund.reason_code)}
+                        {refund.reason_notes && (
+                          <div className="text-xs text-muted-foreground">{refund.reason_notes}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{refund.refund_method}</Badge>
+                        {refund.provider_status === 'failed' && (
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => handleRetryCardRefund(refund.id)}
+                          >
+                            Retry card refund
+                          </Button>
+                        )}
+                      </TableCell>
+                      <TableCell>{refund.profiles?.full_name || 'Unknown'}</TableCell>
+                      <TableCell className="text-right font-bold text-destructive">
+                        -{formatMoney(Number(refund.amount))}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -113,6 +252,13 @@ const AdminSales = () => {
           </CardContent>
         </Card>
       </div>
+
+      <RefundDialog
+        open={!!refundSale}
+        onOpenChange={(open) => !open && setRefundSale(null)}
+        sale={refundSale}
+        onRefunded={loadSales}
+      />
     </div>
   );
 };
@@ -9,7 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar, Clock, User, Plus, Edit, Trash } from "lucide-react";
 import { toast } from "sonner";
-import { format } from "date-fns";
+import { formatDateKey, getStoreDateKey } from "@/lib/dateTime";
 
 interface Shift {
   id: string;
@@ -43,7 +43,7 @@ export default function AdminSchedule() {
     notes: string;
   }>({
     employee_id: "",
-    shift_date: format(new Date(), "yyyy-MM-dd"),
+    shift_date: getStoreDateKey(),
     start_time: "09:00",
     end_time: "17:00",
     role: "waiter",
@@ -159,7 +159,7 @@ export default function AdminSchedule() {
   const resetForm = () => {
     setFormData({
       employee_id: "",
-      shift_date: format(new Date(), "yyyy-MM-dd"),
+      shift_date: getStoreDateKey(),
       start_time: "09:00",
       end_time: "17:00",
       role: "waiter",
@@ -321,7 +321,7 @@ export default function AdminSchedule() {
                     <div className="flex items-center gap-4 text-sm">
                       <div className="flex items-center gap-1">
                         <Calendar className="h-4 w-4" />
-                        {format(new Date(shift.shift_date), "MMM dd, yyyy")}
+                        {formatDateKey(shift.shift_date)}
                       </div>
                       <div className="flex items-center gap-1">
                         <Clock className="h-4 w-4" />
@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStoreSettings } from '@/contexts/StoreSettingsContext';
+import { Navigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Globe } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import { formatMoney } from '@/lib/money';
+import { toStoreTime } from '@/lib/dateTime';
+import {
+  DATE_FORMATS,
+  DECIMAL_SEPARATORS,
+  DEFAULT_STORE_SETTINGS,
+  StoreSettings,
+  SYMBOL_POSITIONS,
+  TIME_FORMATS,
+} from '@/lib/storeSettings';
+
+const isValidCurrency = (currency: string, locale: string) => {
+  if (!/^[A-Z]{3}$/.test(currency)) return false;
+  try {
+    new Intl.NumberFormat(locale, { style: 'currency', currency });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isValidLocale = (locale: string) => {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const AdminStoreSettings = () => {
+  const { user, profile } = useAuth();
+  const { reload } = useStoreSettings();
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [form, setForm] = useState<StoreSettings>(DEFAULT_STORE_SETTINGS);
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = !!profile?.roles?.includes('admin');
+
+  useEffect(() => {
+    if (isAdmin) loadSettings();
+  }, [isAdmin]);
+
+  const loadSettings = async () => {
+    const { data, error } = await supabase
+      .from('store_settings')
+      .select('*')
+      .order('created_at')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading store settings:', error);
+      toast.error('Failed to load store settings');
+      return;
+    }
+    if (data) {
+      setSettingsId(data.id);
+      setForm({
+        currency_code: data.currency_code,
+        locale: data.locale,
+        symbol_position: data.symbol_position,
+        decimal_separator: data.decimal_separator,
+        date_format: data.date_format,
+        time_format: data.time_format,
+        timezone: data.timezone,
+      });
+    }
+  };
+
+  const update = (changes: Partial<StoreSettings>) => setForm(current => ({ ...current, ...changes }));
+
+  const handleSave = async () => {
+    if (!settingsId) return;
+    const settings = {
+      ...form,
+      currency_code: form.currency_code.trim().toUpperCase(),
+      locale: form.locale.trim(),
+      timezone: form.timezone.trim(),
+    };
+
+    if (!isValidLocale(settings.locale)) {
+      toast.error('Enter a valid locale, e.g. en-ZA');
+      return;
+    }
+    if (!isValidCurrency(settings.currency_code, settings.locale)) {
+      toast.error('Enter a valid 3-letter ISO currency code, e.g. ZAR');
+      return;
+    }
+    if (!isValidTimezone(settings.timezone)) {
+      toast.error('Enter a valid IANA timezone, e.g. Africa/Johannesburg');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('store_settings')
+      .update(settings)
+      .eq('id', settingsId);
+    setSaving(false);
+
+    if (error) {
+      toast.error('Failed to save store settings');
+      return;
+    }
+    setForm(settings);
+    await reload();
+    toast.success('Store settings saved');
+  };
+
+  const preview = () => {
+    const currency = form.currency_code.trim().toUpperCase();
+    const locale = form.locale.trim();
+    const timezone = form.timezone.trim();
+    if (!isValidLocale(locale) || !isValidCurrency(currency, locale) || !isValidTimezone(timezone)) return null;
+
+    const money = formatMoney(1234.5, {
+      currency,
+      locale,
+      symbolPosition: form.symbol_position === 'after' ? 'after' : 'before',
+      decimalSeparator: form.decimal_separator,
+    });
+    return `${money} · ${format(toStoreTime(new Date(), timezone), `${form.date_format} ${form.time_format}`)}`;
+  };
+
+  if (!user) return <Navigate to="/auth" />;
+  if (!isAdmin) return <Navigate to="/pos" />;
+
+  const previewText = preview();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader>
+        <div className="flex items-center gap-2 justify-center">
+          <Globe className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-bold">Store Settings</h1>
+        </div>
+      </AppHeader>
+
+      <div className="container mx-auto p-6 max-w-2xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Currency</CardTitle>
+            <CardDescription>Used for prices on screen, receipts and card payments</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="currency-code">Currency Code</Label>
+                <Input
+                  id="currency-code"
+                  value={form.currency_code}
+                  maxLength={3}
+                  placeholder="ZAR"
+                  onChange={(e) => update({ currency_code: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="locale">Locale</Label>
+                <Input
+                  id="locale"
+                  value={form.locale}
+                  placeholder="en-ZA"
+                  onChange={(e) => update({ locale: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Symbol Position</Label>
+              <RadioGroup value={form.symbol_position} onValueChange={(value) => update({ symbol_position: value })}>
+                {SYMBOL_POSITIONS.map(position => (
+                  <div key={position.value} className="flex items-center space-x-3">
+                    <RadioGroupItem value={position.value} id={`symbol-${position.value}`} />
+                    <Label htmlFor={`symbol-${position.value}`} className="cursor-pointer font-normal">
+                      {position.label} <span className="text-muted-foreground">({position.example})</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Decimal Separator</Label>
+              <RadioGroup value={form.decimal_separator} onValueChange={(value) => update({ decimal_separator: value })}>
+                {DECIMAL_SEPARATORS.map(separator => (
+                  <div key={separator.value} className="flex items-center space-x-3">
+                    <RadioGroupItem value={separator.value} id={`separator-${separator.value}`} />
+                    <Label htmlFor={`separator-${separator.value}`} className="cursor-pointer font-normal">
+                      {separator.label}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Date & Time</CardTitle>
+            <CardDescription>How dates and times are shown and printed, in the store's timezone</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Date Format</Label>
+                <Select value={form.date_format} onValueChange={(value) => update({ date_format: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map(pattern => (
+                      <SelectItem key={pattern} value={pattern}>
+                        {format(new Date(), pattern)} ({pattern})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Time Format</Label>
+                <Select value={form.time_format} onValueChange={(value) => update({ time_format: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_FORMATS.map(timeFormat => (
+                      <SelectItem key={timeFormat.value} value={timeFormat.value}>
+                        {timeFormat.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Timezone</Label>
+              <Input
+                id="timezone"
+                value={form.timezone}
+                placeholder="Africa/Johannesburg"
+                onChange={(e) => update({ timezone: e.target.value })}
+              />
+            </div>
+
+            <div className="p-3 bg-muted rounded-lg text-sm">
+              <span className="text-muted-foreground">Preview: </span>
+              {previewText ?? <span className="text-destructive">Check the currency, locale and timezone</span>}
+            </div>
+
+            <Button onClick={handleSave} disabled={saving || !settingsId}>
+              Save Settings
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminStoreSettings;
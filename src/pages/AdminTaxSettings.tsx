@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Navigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { toast } from 'sonner';
+import { Receipt } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import { clearTaxSettingsCache } from '@/lib/tax';
+import { getCurrencySymbol } from '@/lib/money';
+
+const PRICING_MODES = [
+  { value: 'inclusive', label: 'Tax inclusive', description: 'Menu prices already include VAT; receipts show the VAT portion' },
+  { value: 'exclusive', label: 'Tax exclusive', description: 'VAT is added on top of menu prices at checkout' },
+];
+
+const AdminTaxSettings = () => {
+  const { user, profile } = useAuth();
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [pricingMode, setPricingMode] = useState('exclusive');
+  const [vatNumber, setVatNumber] = useState('');
+  const [threshold, setThreshold] = useState('50');
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = !!profile?.roles?.includes('admin');
+
+  useEffect(() => {
+    if (isAdmin) loadSettings();
+  }, [isAdmin]);
+
+  const loadSettings = async () => {
+    const { data, error } = await supabase
+      .from('tax_settings')
+      .select('*')
+      .order('created_at')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading tax settings:', error);
+      toast.error('Failed to load tax settings');
+      return;
+    }
+    if (data) {
+      setSettingsId(data.id);
+      setPricingMode(data.prices_include_tax ? 'inclusive' : 'exclusive');
+      setVatNumber(data.vat_number || '');
+      setThreshold(String(data.tax_invoice_threshold));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settingsId) return;
+    const thresholdValue = Number(threshold);
+    if (threshold === '' || isNaN(thresholdValue) || thresholdValue < 0) {
+      toast.error('Tax invoice threshold must be zero or more');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('tax_settings')
+      .update({
+        prices_include_tax: pricingMode === 'inclusive',
+        vat_number: vatNumber.trim() || null,
+        tax_invoice_threshold: thresholdValue,
+      })
+      .eq('id', settingsId);
+    setSaving(false);
+
+    if (error) {
+      toast.error('Failed to save tax settings');
+      return;
+    }
+    clearTaxSettingsCache();
+    toast.success('Tax settings saved');
+  };
+
+  if (!user) return <Navigate to="/auth" />;
+  if (!isAdmin) return <Navigate to="/pos" />;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader>
+        <div className="flex items-center gap-2 justify-center">
+          <Receipt className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-bold">Tax Settings</h1>
+        </div>
+      </AppHeader>
+
+      <div className="container mx-auto p-6 max-w-2xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Pricing</CardTitle>
+            <CardDescription>How product prices relate to VAT at the POS</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <RadioGroup value={pricingMode} onValueChange={setPricingMode}>
+              {PRICING_MODES.map(mode => (
+                <div key={mode.value} className="flex items-start space-x-3 p-3 border rounded-lg">
+                  <RadioGroupItem value={mode.value} id={`pricing-${mode.value}`} className="mt-1" />
+                  <Label htmlFor={`pricing-${mode.value}`} className="cursor-pointer">
+                    <div className="font-medium">{mode.label}</div>
+                    <div className="text-sm text-muted-foreground font-normal">{mode.description}</div>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tax Invoices</CardTitle>
+            <CardDescription>Receipts above the threshold are printed as a tax invoice</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="vat-number">VAT Number</Label>
+              <Input
+                id="vat-number"
+                value={vatNumber}
+                placeholder="e.g. 4123456789"
+                onChange={(e) => setVatNumber(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="invoice-threshold">Tax Invoice Threshold ({getCurrencySymbol()})</Label>
+              <Input
+                id="invoice-threshold"
+                type="number"
+                step="0.01"
+                min="0"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="w-40"
+              />
+            </div>
+
+            <Button onClick={handleSave} disabled={saving || !settingsId}>
+              Save Settings
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminTaxSettings;
@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Navigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { HandCoins } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import {
+  FRONT_SPLITS,
+  TipPoolSettings,
+  TipShiftRow,
+  distributeTips,
+  fetchTipPoolSettings,
+  fetchTipShiftSummary,
+} from '@/lib/tips';
+import { formatMoney } from '@/lib/money';
+import { formatDateKey } from '@/lib/dateTime';
+import { BusinessDay, fetchBusinessDays } from '@/lib/businessDays';
+
+const AdminTips = () => {
+  const { user, profile } = useAuth();
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<TipPoolSettings>({ is_enabled: false, kitchen_percent: 0, front_split: 'collected' });
+  const [businessDays, setBusinessDays] = useState<BusinessDay[]>([]);
+  const [businessDayId, setBusinessDayId] = useState<string | null>(null);
+  const [rows, setRows] = useState<TipShiftRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = !!profile?.roles?.includes('admin');
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadSettings();
+      loadBusinessDays();
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (isAdmin && businessDayId) loadShift(businessDayId);
+  }, [isAdmin, businessDayId]);
+
+  const loadBusinessDays = async () => {
+    try {
+      const { days } = await fetchBusinessDays();
+      setBusinessDays(days);
+      // Newest first, so this is the day currently trading or the last one closed
+      setBusinessDayId(days[0]?.id ?? null);
+      if (days.length === 0) setLoading(false);
+    } catch (error) {
+      console.error('Error loading business days:', error);
+      toast.error('Failed to load business days');
+      setLoading(false);
+    }
+  };
+
+  const loadSettings = async () => {
+    const data = await fetchTipPoolSettings();
+    if (!data) {
+      toast.error('Failed to load tip pooling rules');
+      return;
+    }
+    const { id, ...rules } = data;
+    setSettingsId(id);
+    setSettings(rules);
+  };
+
+  const loadShift = async (dayId: string) => {
+    setLoading(true);
+    try {
+      setRows(await fetchTipShiftSummary(dayId));
+    } catch (error) {
+      console.error('Error loading tips:', error);
+      toast.error('Failed to load tips for this shift');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settingsId) return;
+    const kitchenPercent = Number(settings.kitchen_percent);
+    if (isNaN(kitchenPercent) || kitchenPercent < 0 || kitchenPercent > 100) {
+      toast.error('Kitchen share must be between 0 and 100%');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('tip_pool_settings')
+      .update({ ...settings, kitchen_percent: kitchenPercent })
+      .eq('id', settingsId);
+    setSaving(false);
+
+    if (error) {
+      toast.error('Failed to save tip pooling rules');
+      return;
+    }
+    toast.success('Tip pooling rules saved');
+  };
+
+  if (!user) return <Navigate to="/auth" />;
+  if (!isAdmin) return <Navigate to="/pos" />;
+
+  // Payouts follow the rules on screen, so changes can be previewed before saving
+  const payouts = distributeTips(rows, settings);
+  const totalCollected = payouts.reduce((sum, p) => sum + p.collected, 0);
+  const totalPayout = payouts.reduce((sum, p) => sum + p.payout, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader>
+        <div className="flex items-center gap-2 justify-center">
+          <HandCoins className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-bold">Tips</h1>
+        </div>
+      </AppHeader>
+
+      <div className="container mx-auto p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Pooling Rules</CardTitle>
+            <CardDescription>How each shift's tips are shared between staff</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="pool-enabled"
+                checked={settings.is_enabled}
+                onCheckedChange={(checked) => setSettings({ ...settings, is_enabled: checked })}
+              />
+              <Label htmlFor="pool-enabled">Pool tips (off: everyone keeps what they collected)</Label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="kitchen-percent">Kitchen share (%)</Label>
+                <Input
+                  id="kitchen-percent"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={settings.kitchen_percent}
+                  onChange={(e) => setSettings({ ...settings, kitchen_percent: parseFloat(e.target.value) || 0 })}
+                  disabled={!settings.is_enabled}
+                />
+                <p className="text-xs text-muted-foreground">Split between kitchen staff by hours clocked</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Front-of-house split</Label>
+                <Select
+                  value={settings.front_split}
+                  onValueChange={(value) => setSettings({ ...settings, front_split: value })}
+                  disabled={!settings.is_enabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FRONT_SPLITS.map(split => (
+                      <SelectItem key={split.value} value={split.value}>{split.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <Button onClick={handleSave} disabled={saving || !settingsId}>
+              Save Rules
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div>
+                <CardTitle>Shift Payouts</CardTitle>
+                <CardDescription>Tips are credited to the order's waiter, or to whoever took the payment</CardDescription>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shift-day">Business Day</Label>
+                <Select value={businessDayId ?? undefined} onValueChange={setBusinessDayId}>
+                  <SelectTrigger id="shift-day" className="w-44">
+                    <SelectValue placeholder="No business days" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {businessDays.map(day => (
+                      <SelectItem key={day.id} value={day.id}>
+                        {formatDateKey(day.business_date)}{day.status === 'open' ? ' (open)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading tips...</p>
+            ) : payouts.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No tips or clocked hours for this shift</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Area</TableHead>
+                    <TableHead className="text-right">Hours</TableHead>
+                    <TableHead className="text-right">Cash Tips</TableHead>
+                    <TableHead className="text-right">Card Tips</TableHead>
+                    <TableHead className="text-right">Collected</TableHead>
+                    <TableHead className="text-right">Payout</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {payouts.map((payout, index) => (
+                    <TableRow key={payout.employeeId}>
+                      <TableCell className="font-medium">{payout.fullName}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{payout.isKitchen ? 'Kitchen' : 'Front'}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{payout.hoursWorked.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(Number(rows[index].cash_tips))}</TableCell>
+                      <TableCell className="text-right">{formatMoney(Number(rows[index].card_tips))}</TableCell>
+                      <TableCell className="text-right">{formatMoney(payout.collected)}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatMoney(payout.payout)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={5}>Total</TableCell>
+                    <TableCell className="text-right">{formatMoney(totalCollected)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatMoney(totalPayout)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AdminTips;
@@ -47,6 +47,8 @@ const Auth = () => {
       navigate('/kitchen');
     } else if (userRoles.includes('cashier')) {
       navigate('/pos');
+    } else if (userRoles.includes('supervisor')) {
+      navigate('/admin/sales');
     } else {
       navigate('/');
     }
@@ -60,6 +62,8 @@ const Auth = () => {
       navigate('/waiter');
     } else if (role === 'kitchen') {
       navigate('/kitchen');
+    } else if (role === 'supervisor') {
+      navigate('/admin/sales');
     } else {
       navigate('/pos');
     }
@@ -9,6 +9,8 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Plus, MapPin, Clock, User } from 'lucide-react';
 import { toast } from 'sonner';
+import { formatMoney } from '@/lib/money';
+import { formatTime } from '@/lib/dateTime';
 
 interface DeliveryOrder {
   id: string;
@@ -159,11 +161,11 @@ const Delivery = () => {
           <Clock className="h-4 w-4 text-muted-foreground" />
           <p className="text-muted-foreground">
             {delivery.estimated_delivery
-              ? `ETA: ${new Date(delivery.estimated_delivery).toLocaleTimeString()}`
+              ? `ETA: ${formatTime(delivery.estimated_delivery)}`
               : 'No ETA set'}
           </p>
         </div>
-        <p className="font-semibold">Delivery Fee: R{delivery.delivery_fee.toFixed(2)}</p>
+        <p className="font-semibold">Delivery Fee: {formatMoney(delivery.delivery_fee)}</p>
       </div>
 
       <div className="flex gap-2 flex-wrap">
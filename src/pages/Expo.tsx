@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { Clock, ConciergeBell, CheckCircle2, AlertCircle, PauseCircle } from 'lucide-react';
+import { Navigate } from 'react-router-dom';
+import AppHeader from '@/components/AppHeader';
+import { formatTime } from '@/lib/dateTime';
+import { DEFAULT_PREP_MINUTES, ExpoCall, expediteOrder, getExpoCalls, getHoldingItems, getStationReadiness } from '@/lib/kitchen';
+
+interface OrderItem {
+  id: string;
+  product_name: string;
+  qty: number;
+  status: string;
+  kitchen_station: string;
+  course_number: number;
+  course_name: string | null;
+  // Null while the item's course is held by the waiter
+  fired_at: string | null;
+  // Set once the pass has called the item's course
+  called_at: string | null;
+  started_at: string | null;
+  products: { estimated_prep_minutes: number | null } | null;
+}
+
+interface Order {
+  id: string;
+  order_number: string;
+  order_type: string;
+  customer_name: string | null;
+  created_at: string;
+  status: string;
+  called_at: string | null;
+  called_course: string | null;
+  restaurant_tables: { table_number: string } | null;
+  order_items: OrderItem[];
+}
+
+const Expo = () => {
+  const { user, profile } = useAuth();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [calledOrders, setCalledOrders] = useState<Order[]>([]);
+  // Order and course being called, as `${orderId}:${courseNumber}`
+  const [expediting, setExpediting] = useState<string | null>(null);
+
+  const hasAccess = !!profile?.roles?.some(r => ['kitchen', 'admin'].includes(r));
+
+  useEffect(() => {
+    if (!hasAccess) return;
+    fetchOrders();
+
+    const channel = supabase
+      .channel('expo-orders')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, () => {
+        fetchOrders();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'order_items' }, () => {
+        fetchOrders();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [hasAccess]);
+
+  const fetchOrders = async () => {
+    const select = `
+      *,
+      restaurant_tables(table_number),
+      order_items(id, product_name, qty, status, kitchen_station, course_number, course_name, fired_at, called_at, started_at, products(estimated_prep_minutes))
+    `;
+    const [openRes, calledRes] = await Promise.all([
+      supabase
+        .from('orders')
+        .select(select)
+        .in('status', ['pending', 'confirmed', 'preparing'])
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('orders')
+        .select(select)
+        .in('status', ['pending', 'confirmed', 'preparing', 'ready'])
+        .not('called_at', 'is', null)
+        .order('called_at', { ascending: false })
+        .limit(8),
+    ]);
+
+    if (openRes.error || calledRes.error) {
+      console.error('Error fetching expo orders:', openRes.error || calledRes.error);
+      return;
+    }
+
+    // Only fired courses the pass hasn't called yet belong at the pass
+    setOrders((openRes.data || []).filter(order => getExpoCalls(order.order_items).length > 0));
+    setCalledOrders(calledRes.data || []);
+  };
+
+  if (!user) return <Navigate to="/auth" />;
+  if (!hasAccess) return <Navigate to="/pos" />;
+
+  const handleExpedite = async (order: Order, call: ExpoCall<OrderItem>) => {
+    setExpediting(`${order.id}:${call.courseNumber}`);
+    try {
+      await expediteOrder(order.id, call.courseNumber);
+      toast.success(`${getTicketLabel(order)}${isCoursed(order) ? ` ${getCourseLabel(call)}` : ''} called`);
+      fetchOrders();
+    } catch (error) {
+      console.error('Error expediting order:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to call order');
+    } finally {
+      setExpediting(null);
+    }
+  };
+
+  const getTicketLabel = (order: Order) =>
+    order.restaurant_tables ? `Table ${order.restaurant_tables.table_number}` : `#${order.order_number.split('-').pop()}`;
+
+  const getCourseLabel = (call: { courseNumber: number; courseName: string | null }) =>
+    call.courseName || `Course ${call.courseNumber}`;
+
+  const isCoursed = (order: Order) =>
+    new Set(order.order_items.filter(item => item.status !== 'cancelled').map(item => item.course_number)).size > 1;
+
+  // Courses the waiter hasn't fired yet; they wait at the table, not at the pass
+  const getHeldCourses = (order: Order) => [
+    ...new Set(order.order_items.filter(item => item.status !== 'cancelled' && !item.fired_at).map(item =>
+      getCourseLabel({ courseNumber: item.course_number, courseName: item.course_name }))),
+  ];
+
+  const getMinutesSince = (time: string) => Math.floor((Date.now() - new Date(time).getTime()) / 60000);
+
+  const getHoldReason = (item: OrderItem) => {
+    if (item.status === 'pending') return 'Not started';
+    if (item.started_at) {
+      const elapsed = getMinutesSince(item.started_at);
+      return `Cooking ${elapsed} / ${item.products?.estimated_prep_minutes || DEFAULT_PREP_MINUTES} min`;
+    }
+    return 'Cooking';
+  };
+
+  const isOverdue = (item: OrderItem) =>
+    item.status === 'preparing' && !!item.started_at &&
+    getMinutesSince(item.started_at) > (item.products?.estimated_prep_minutes || DEFAULT_PREP_MINUTES);
+
+  // One ticket per fired course; complete ones go to the front so nothing waits at the pass
+  const tickets = orders
+    .flatMap(order => getExpoCalls(order.order_items).map(call => ({ order, call, holding: getHoldingItems(call.items) })))
+    .sort((a, b) => Number(a.holding.length > 0) - Number(b.holding.length > 0));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader>
+        <div className="flex items-center gap-3">
+          <ConciergeBell className="h-6 w-6 text-primary" />
+          <h1 className="text-xl font-bold">Expo</h1>
+        </div>
+      </AppHeader>
+
+      <div className="p-6 space-y-6">
+        {calledOrders.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">At the pass:</span>
+            {calledOrders.map(order => (
+              <Badge key={order.id} variant="outline" className="text-sm py-1">
+                {getTicketLabel(order)}
+                {order.called_course && <span className="ml-1">{order.called_course}</span>}
+                {order.called_at && <span className="ml-2 text-muted-foreground">{formatTime(order.called_at)}</span>}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+          {tickets.map(({ order, call, holding }) => {
+            const complete = holding.length === 0;
+            const waiting = getMinutesSince(order.created_at);
+            const callKey = `${order.id}:${call.courseNumber}`;
+            const heldCourses = getHeldCourses(order);
+
+            return (
+              <Card key={callKey} className={complete ? 'border-success border-2' : ''}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-2xl font-bold">{getTicketLabel(order)}</CardTitle>
+                    <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      {waiting}m
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="outline">{order.order_type.replace('_', ' ').toUpperCase()}</Badge>
+                    {order.customer_name && <Badge variant="outline">{order.customer_name}</Badge>}
+                    {isCoursed(order) && <Badge>{getCourseLabel(call)}</Badge>}
+                    {heldCourses.length > 0 && (
+                      <Badge variant="secondary">
+                        <PauseCircle className="h-3 w-3 mr-1" />
+                        {heldCourses.join(', ')} held
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1 pt-2">
+                    {getStationReadiness(call.items).map(station => (
+                      <Badge
+                        key={station.station}
+                        variant={station.ready === station.total ? 'default' : 'secondary'}
+                        className={`capitalize ${station.ready === station.total ? 'bg-success text-success-foreground' : ''}`}
+                      >
+                        {station.station} {station.ready}/{station.total}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="space-y-2">
+                    {call.items.map(item => {
+                      const isHolding = holding.includes(item);
+                      return (
+                        <div
+                          key={item.id}
+                          className={`flex items-start justify-between gap-2 p-2 border rounded-lg ${
+                            isHolding ? (isOverdue(item) ? 'border-destructive bg-destructive/5' : 'border-warning bg-warning/5') : ''
+                          }`}
+                        >
+                          <div>
+                            <p className="font-medium">{item.qty}x {item.product_name}</p>
+                            {isHolding && (
+                              <p className={`text-xs flex items-center gap-1 ${isOverdue(item) ? 'text-destructive' : 'text-warning'}`}>
+                                <AlertCircle className="h-3 w-3" />
+                                {getHoldReason(item)}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex flex-col items-end gap-1">
+                            <Badge variant="secondary" className="text-xs capitalize">{item.kitchen_station}</Badge>
+                            {!isHolding && <CheckCircle2 className="h-4 w-4 text-success" />}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <Button
+                    className="w-full"
+                    disabled={!complete || expediting === callKey}
+                    onClick={() => handleExpedite(order, call)}
+                  >
+                    <ConciergeBell className="h-4 w-4 mr-2" />
+                    {complete
+                      ? `Call ${isCoursed(order) ? getCourseLabel(call) : 'Order'}`
+                      : `Waiting on ${holding.length} item${holding.length === 1 ? '' : 's'}`}
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {tickets.length === 0 && (
+          <div className="text-center py-20">
+            <ConciergeBell className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <p className="text-xl text-muted-foreground">No tickets on the pass</p>
+            <p className="text-sm text-muted-foreground mt-2">Tickets appear here as the kitchen works on them</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Expo;
@@ -1,115 +1,54 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Navigate } from 'react-router-dom';
+import { Navigate, Link } from 'react-router-dom';
 import { toast } from 'sonner';
-import { ChefHat, LogOut, Clock, CheckCircle } from 'lucide-react';
+import { ChefHat, LogOut, Clock, CheckCircle, Keyboard, Undo2, ListOrdered, ConciergeBell } from 'lucide-react';
 import AppHeader from '@/components/AppHeader';
+import KitchenRecallDialog from '@/components/KitchenRecallDialog';
+import KitchenAllDayPanel from '@/components/KitchenAllDayPanel';
+import { useBumpBar } from '@/hooks/useBumpBar';
+import { useKitchenTickets } from '@/hooks/useKitchenTickets';
+import { formatTime } from '@/lib/dateTime';
+import { KitchenStatus, KitchenTicketItem, describeBump, getNextKitchenStatus, recallLastBump } from '@/lib/kitchen';
 
-interface OrderItem {
-  id: string;
-  order_id: string;
-  product_id: string;
-  product_name: string;
-  qty: number;
-  special_instructions?: string;
-  status: string;
-  kitchen_station: string;
-  created_at: string;
-  started_at?: string;
-  completed_at?: string;
-  modifiers?: Array<{
-    modifier_name: string;
-    price_adjustment: number;
-  }>;
-  combo_selections?: Array<{
-    selected_product_name: string;
-    qty: number;
-  }>;
-  orders?: {
-    order_number: string;
-    restaurant_tables?: {
-      table_number: string;
-    };
-  };
-  estimated_prep_minutes?: number;
-}
+// Items on the line are always fired
+type FiredItem = KitchenTicketItem & { fired_at: string };
+
+const isOnLine = (item: KitchenTicketItem): item is FiredItem =>
+  (item.status === 'pending' || item.status === 'preparing') && !!item.fired_at;
 
 const Kitchen = () => {
   const { user, profile, signOut } = useAuth();
-  const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
-  const [loading, setLoading] = useState(true);
   const [selectedStation, setSelectedStation] = useState<string>('all');
+  const [showAllDay, setShowAllDay] = useState(false);
+  const [recallOpen, setRecallOpen] = useState(false);
 
-  if (!user) return <Navigate to="/auth" />;
-  const hasAccess = profile?.roles?.some(r => ['kitchen', 'admin'].includes(r));
-  if (!hasAccess) return <Navigate to="/pos" />;
-
-  useEffect(() => {
-    loadOrderItems();
-
-    // Real-time subscription for order items
-    const channel = supabase
-      .channel('order-items-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'order_items' }, () => {
-        loadOrderItems();
-      })
-      .subscribe();
+  const hasAccess = !!profile?.roles?.some(r => ['kitchen', 'admin'].includes(r));
+  const { items, loading } = useKitchenTickets({ enabled: hasAccess });
+  const orderItems = items
+    .filter(isOnLine)
+    .sort((a, b) => a.fired_at.localeCompare(b.fired_at));
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
+  const bumpBar = useBumpBar({
+    getTicketCount: () => filteredItems.length,
+    onBump: (index) => {
+      const item = filteredItems[index];
+      const next = item && getNextKitchenStatus(item.status);
+      if (next) updateItemStatus(item.id, next);
+    },
+    onRecall: () => handleRecallLast(),
+    onToggleAllDay: () => setShowAllDay(show => !show),
+  });
 
-  const loadOrderItems = async () => {
-    setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from('order_items')
-        .select(`
-          *,
-          orders!inner(
-            order_number,
-            restaurant_tables(table_number)
-          ),
-          products!inner(estimated_prep_minutes)
-        `)
-        .in('status', ['pending', 'preparing'])
-        .order('created_at', { ascending: true });
-
-      if (error) throw error;
-      
-      // Load modifiers and combo selections for each item
-      const itemsWithDetails = await Promise.all(
-        (data || []).map(async (item: any) => {
-          const [modifiersRes, comboRes] = await Promise.all([
-            supabase.from('order_item_modifiers').select('modifier_name, price_adjustment').eq('order_item_id', item.id),
-            supabase.from('order_item_combo_selections').select('selected_product_name, qty').eq('order_item_id', item.id),
-          ]);
-          
-          return {
-            ...item,
-            modifiers: modifiersRes.data || [],
-            combo_selections: comboRes.data || [],
-            estimated_prep_minutes: item.products?.estimated_prep_minutes || 10,
-          };
-        })
-      );
-      
-      setOrderItems(itemsWithDetails);
-    } catch (error) {
-      console.error('Error loading order items:', error);
-      toast.error('Failed to load orders');
-    } finally {
-      setLoading(false);
-    }
-  };
+  if (!user) return <Navigate to="/auth" />;
+  if (!hasAccess) return <Navigate to="/pos" />;
 
-  const updateItemStatus = async (itemId: string, newStatus: 'pending' | 'preparing' | 'ready' | 'served' | 'cancelled') => {
+  const updateItemStatus = async (itemId: string, newStatus: KitchenStatus) => {
     try {
       const { error } = await supabase
         .from('order_items')
@@ -118,8 +57,8 @@ const Kitchen = () => {
 
       if (error) throw error;
 
+      // The realtime change moves the card
       toast.success(`Item marked as ${newStatus}`);
-      loadOrderItems();
     } catch (error) {
       console.error('Error updating item status:', error);
       toast.error('Failed to update status');
@@ -145,19 +84,19 @@ const Kitchen = () => {
     return status === 'pending' ? 'secondary' : 'default';
   };
 
-  const getElapsedMinutes = (item: OrderItem) => {
-    const startTime = item.started_at ? new Date(item.started_at) : new Date(item.created_at);
+  const getElapsedMinutes = (item: FiredItem) => {
+    const startTime = new Date(item.started_at || item.fired_at);
     const now = new Date();
     return Math.floor((now.getTime() - startTime.getTime()) / 60000);
   };
 
-  const isOverdue = (item: OrderItem) => {
+  const isOverdue = (item: FiredItem) => {
     if (item.status !== 'preparing') return false;
     const elapsed = getElapsedMinutes(item);
     return elapsed > (item.estimated_prep_minutes || 10);
   };
 
-  const getTimerColor = (item: OrderItem) => {
+  const getTimerColor = (item: FiredItem) => {
     const elapsed = getElapsedMinutes(item);
     const estimated = item.estimated_prep_minutes || 10;
     if (elapsed > estimated) return 'text-destructive';
@@ -171,6 +110,21 @@ const Kitchen = () => {
 
   const stations = ['all', 'general', 'grill', 'fryer', 'salad', 'dessert'];
 
+  // A station tab only recalls that station's items; the all tab recalls this screen's own last bump
+  const handleRecallLast = async () => {
+    try {
+      const bump = await recallLastBump(selectedStation === 'all' ? { changedBy: user?.id } : { station: selectedStation });
+      if (!bump) {
+        toast.info('Nothing to recall');
+        return;
+      }
+      toast.success(`Recalled ${describeBump(bump)}`);
+    } catch (error) {
+      console.error('Error recalling ticket:', error);
+      toast.error('Failed to recall ticket');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <AppHeader>
@@ -182,13 +136,46 @@ const Kitchen = () => {
               <p className="text-sm text-muted-foreground">{profile?.full_name}</p>
             </div>
           </div>
-          <Button variant="ghost" size="icon" onClick={signOut}>
-            <LogOut className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant={bumpBar.enabled ? 'default' : 'outline'} size="sm" onClick={bumpBar.toggle}>
+              <Keyboard className="h-4 w-4 mr-2" />
+              Bump Bar
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setRecallOpen(true)}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              Recall
+            </Button>
+            <Button variant={showAllDay ? 'default' : 'outline'} size="sm" onClick={() => setShowAllDay(!showAllDay)}>
+              <ListOrdered className="h-4 w-4 mr-2" />
+              All Day
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/expo">
+                <ConciergeBell className="h-4 w-4 mr-2" />
+                Expo
+              </Link>
+            </Button>
+            <Button variant="ghost" size="icon" onClick={signOut}>
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       </AppHeader>
 
+      <KitchenRecallDialog
+        open={recallOpen}
+        onOpenChange={setRecallOpen}
+        scope={selectedStation === 'all' ? undefined : { station: selectedStation }}
+      />
+
       <div className="p-6">
+        {bumpBar.enabled && (
+          <p className="text-xs text-muted-foreground mb-4">
+            1-9 select a ticket · Enter bump · R recall · ← → move · ↑ ↓ scroll · A all day
+          </p>
+        )}
+        {showAllDay && <KitchenAllDayPanel items={orderItems} />}
+
         <Tabs value={selectedStation} onValueChange={setSelectedStation}>
           <TabsList className="mb-6">
             {stations.map(station => (
@@ -214,19 +201,23 @@ const Kitchen = () => {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-                {filteredItems.map(item => (
+                {filteredItems.map((item, index) => (
                   <Card 
                     key={item.id} 
-                    className={`${item.status === 'pending' ? 'border-primary' : ''} ${isOverdue(item) ? 'border-destructive border-2 animate-pulse' : ''}`}
+                    className={`${item.status === 'pending' ? 'border-primary' : ''} ${isOverdue(item) ? 'border-destructive border-2 animate-pulse' : ''} ${bumpBar.selectedIndex === index ? 'ring-4 ring-primary' : ''}`}
+                    onClick={() => bumpBar.enabled && bumpBar.setSelectedIndex(index)}
                   >
                     <CardHeader className="pb-3">
                       <div className="flex items-start justify-between gap-2">
+                        {bumpBar.enabled && index < 10 && (
+                          <Badge variant="outline" className="text-base font-bold">{(index + 1) % 10}</Badge>
+                        )}
                         <div className="flex-1">
                           <CardTitle className="text-base mb-1">
-                            Table {item.orders?.restaurant_tables?.table_number}
+                            Table {item.table_number}
                           </CardTitle>
                           <p className="text-xs text-muted-foreground">
-                            {item.orders?.order_number}
+                            {item.order_number}
                           </p>
                         </div>
                         <Badge 
@@ -236,11 +227,16 @@ const Kitchen = () => {
                           {item.status}
                         </Badge>
                       </div>
-                      <Badge 
-                        className={`${getStationColor(item.kitchen_station)} capitalize mt-2`}
-                      >
-                        {item.kitchen_station}
-                      </Badge>
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        <Badge 
+                          className={`${getStationColor(item.kitchen_station)} capitalize`}
+                        >
+                          {item.kitchen_station}
+                        </Badge>
+                        {item.course_name && (
+                          <Badge variant="outline">{item.course_name}</Badge>
+                        )}
+                      </div>
                     </CardHeader>
                     <CardContent className="space-y-3">
                       <div>
@@ -282,7 +278,7 @@ const Kitchen = () => {
                       <div className="space-y-2">
                         <div className="flex items-center gap-2 text-xs text-muted-foreground">
                           <Clock className="h-3 w-3" />
-                          {new Date(item.created_at).toLocaleTimeString()}
+                          {formatTime(item.fired_at)}
                         </div>
                         
                         {item.status === 'preparing' && (
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -6,103 +6,49 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { toast } from 'sonner';
-import { Clock, ChefHat, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Clock, ChefHat, CheckCircle2, AlertCircle, Keyboard, Undo2, ListOrdered } from 'lucide-react';
 import { Navigate } from 'react-router-dom';
 import AppHeader from '@/components/AppHeader';
+import KitchenRecallDialog from '@/components/KitchenRecallDialog';
+import KitchenAllDayPanel from '@/components/KitchenAllDayPanel';
+import { useBumpBar } from '@/hooks/useBumpBar';
+import { useKitchenTickets } from '@/hooks/useKitchenTickets';
+import { KitchenStatus, KitchenTicket, bumpItems, describeBump, expediteOrder, groupKitchenTickets, recallLastBump } from '@/lib/kitchen';
 
-interface OrderItem {
-  id: string;
-  product_name: string;
-  qty: number;
-  special_instructions: string | null;
-  status: string;
-  kitchen_station: string;
-  started_at: string | null;
-  weight_amount: number | null;
-  weight_unit: string | null;
-}
-
-interface Order {
-  id: string;
-  order_number: string;
-  order_type: string;
-  customer_name: string | null;
-  table_id: string | null;
-  created_at: string;
-  status: string;
-  order_items: OrderItem[];
-}
+const NEW_ORDER_SOUND = 'data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmwhBSuBzvLZizcIGWi77ea';
 
 const KitchenDisplay = () => {
   const { user, profile } = useAuth();
-  const [orders, setOrders] = useState<Order[]>([]);
   const [filter, setFilter] = useState<'all' | 'pending' | 'preparing'>('all');
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-
-  if (!user) return <Navigate to="/auth" />;
-  if (!profile?.roles?.some(r => ['kitchen', 'admin'].includes(r))) return <Navigate to="/pos" />;
-
-  useEffect(() => {
-    fetchOrders();
-    
-    // Play notification sound (create a simple beep)
-    audioRef.current = new Audio('data:audio/wav;base64,UklGRnoGAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQoGAACBhYqFbF1fdJivrJBhNjVgodDbq2EcBj+a2/LDciUFLIHO8tiJNwgZaLvt559NEAxQp+PwtmMcBjiR1/LMeSwFJHfH8N2QQAoUXrTp66hVFApGn+DyvmwhBSuBzvLZizcIGWi77ea');
+  const [showAllDay, setShowAllDay] = useState(false);
+  const [recallOpen, setRecallOpen] = useState(false);
 
-    // Subscribe to realtime updates
-    const channel = supabase
-      .channel('kitchen-orders')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'orders',
-        },
-        (payload) => {
-          if (payload.eventType === 'INSERT') {
-            audioRef.current?.play();
-            toast.success('New order received!');
-          }
-          fetchOrders();
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'order_items',
-        },
-        () => {
-          fetchOrders();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
-
-  const fetchOrders = async () => {
-    const { data, error } = await supabase
-      .from('orders')
-      .select(`
-        *,
-        order_items (*)
-      `)
-      .in('status', ['pending', 'confirmed', 'preparing'])
-      .order('created_at', { ascending: true });
+  const bumpBar = useBumpBar({
+    getTicketCount: () => filteredOrders.length,
+    onBump: (index) => {
+      if (filteredOrders[index]) bumpOrder(filteredOrders[index]);
+    },
+    onRecall: () => handleRecallLast(),
+    onToggleAllDay: () => setShowAllDay(show => !show),
+  });
+  const audioRef = useRef<HTMLAudioElement | null>(null);
 
-    if (error) {
-      console.error('Error fetching orders:', error);
-      return;
-    }
+  const hasAccess = !!profile?.roles?.some(r => ['kitchen', 'admin'].includes(r));
+  const { items } = useKitchenTickets({
+    enabled: hasAccess,
+    onOrderCreated: () => {
+      // Play notification sound (create a simple beep)
+      audioRef.current ??= new Audio(NEW_ORDER_SOUND);
+      audioRef.current.play();
+      toast.success('New order received!');
+    },
+  });
+  const orders = groupKitchenTickets(items);
 
-    setOrders(data || []);
-  };
+  if (!user) return <Navigate to="/auth" />;
+  if (!hasAccess) return <Navigate to="/pos" />;
 
-  const updateItemStatus = async (itemId: string, newStatus: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'served' | 'paid' | 'cancelled') => {
+  const updateItemStatus = async (itemId: string, newStatus: KitchenStatus) => {
     const { error } = await supabase
       .from('order_items')
       .update({ status: newStatus })
@@ -115,23 +61,17 @@ const KitchenDisplay = () => {
     }
 
     toast.success('Item status updated');
-    fetchOrders();
   };
 
-  const updateOrderStatus = async (orderId: string, newStatus: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'served' | 'paid' | 'cancelled') => {
-    const { error } = await supabase
-      .from('orders')
-      .update({ status: newStatus })
-      .eq('id', orderId);
-
-    if (error) {
-      toast.error('Failed to update order status');
-      console.error(error);
-      return;
+  // Ready tickets go through the pass, which notifies the waiter and readies the order once nothing is left
+  const callOrder = async (order: KitchenTicket) => {
+    try {
+      await expediteOrder(order.id);
+      toast.success('Order called');
+    } catch (error) {
+      console.error('Error calling order:', error);
+      toast.error('Failed to call order');
     }
-
-    toast.success('Order marked as ready');
-    fetchOrders();
   };
 
   const filteredOrders = orders.filter(order => {
@@ -151,6 +91,40 @@ const KitchenDisplay = () => {
     }
   };
 
+  // Bumping a ticket starts everything not yet started, then finishes everything cooking, then calls it
+  const bumpOrder = async (order: KitchenTicket) => {
+    const pending = order.order_items.filter(item => item.status === 'pending');
+    const preparing = order.order_items.filter(item => item.status === 'preparing');
+
+    try {
+      if (pending.length > 0) {
+        await bumpItems(pending.map(item => item.id), 'preparing');
+      } else if (preparing.length > 0) {
+        await bumpItems(preparing.map(item => item.id), 'ready');
+      } else {
+        await callOrder(order);
+      }
+    } catch (error) {
+      console.error('Error bumping order:', error);
+      toast.error('Failed to bump ticket');
+    }
+  };
+
+  // A quick recall only undoes this screen's own last bump, not one made at another screen
+  const handleRecallLast = async () => {
+    try {
+      const bump = await recallLastBump({ changedBy: user?.id });
+      if (!bump) {
+        toast.info('Nothing to recall');
+        return;
+      }
+      toast.success(`Recalled ${describeBump(bump)}`);
+    } catch (error) {
+      console.error('Error recalling ticket:', error);
+      toast.error('Failed to recall ticket');
+    }
+  };
+
   const getTimeSince = (createdAt: string) => {
     const minutes = Math.floor((Date.now() - new Date(createdAt).getTime()) / 60000);
     return minutes;
@@ -185,23 +159,49 @@ const KitchenDisplay = () => {
           >
             Preparing
           </Button>
+          <Button variant={bumpBar.enabled ? 'default' : 'outline'} size="sm" onClick={bumpBar.toggle}>
+            <Keyboard className="h-4 w-4 mr-2" />
+            Bump Bar
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setRecallOpen(true)}>
+            <Undo2 className="h-4 w-4 mr-2" />
+            Recall
+          </Button>
+          <Button variant={showAllDay ? 'default' : 'outline'} size="sm" onClick={() => setShowAllDay(!showAllDay)}>
+            <ListOrdered className="h-4 w-4 mr-2" />
+            All Day
+          </Button>
         </div>
       </AppHeader>
 
+      <KitchenRecallDialog open={recallOpen} onOpenChange={setRecallOpen} />
+
       <div className="p-6">
+        {bumpBar.enabled && (
+          <p className="text-xs text-muted-foreground mb-4">
+            1-9 select a ticket · Enter bump · R recall · ← → move · ↑ ↓ scroll · A all day
+          </p>
+        )}
+        {showAllDay && (
+          <KitchenAllDayPanel items={orders.flatMap(order => order.order_items)} />
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-          {filteredOrders.map((order) => {
+          {filteredOrders.map((order, index) => {
             const timeSince = getTimeSince(order.created_at);
             const isOverdue = timeSince > 20;
 
             return (
               <Card 
                 key={order.id}
-                className={`${isOverdue ? 'border-destructive border-2 animate-pulse' : ''}`}
+                className={`${isOverdue ? 'border-destructive border-2 animate-pulse' : ''} ${bumpBar.selectedIndex === index ? 'ring-4 ring-primary' : ''}`}
+                onClick={() => bumpBar.enabled && bumpBar.setSelectedIndex(index)}
               >
                 <CardHeader className="pb-3">
                   <div className="flex items-center justify-between">
-                    <CardTitle className="text-2xl font-bold">
+                    <CardTitle className="text-2xl font-bold flex items-center gap-2">
+                      {bumpBar.enabled && index < 10 && (
+                        <Badge variant="outline" className="text-base font-bold">{(index + 1) % 10}</Badge>
+                      )}
                       {order.order_number.split('-').pop()}
                     </CardTitle>
                     <div className="flex flex-col items-end gap-1">
@@ -242,9 +242,16 @@ const KitchenDisplay = () => {
                                 </p>
                               )}
                             </div>
-                            <Badge variant="secondary" className="text-xs">
-                              {item.kitchen_station}
-                            </Badge>
+                            <div className="flex flex-col items-end gap-1">
+                              <Badge variant="secondary" className="text-xs">
+                                {item.kitchen_station}
+                              </Badge>
+                              {item.course_name && (
+                                <Badge variant="outline" className="text-xs">
+                                  {item.course_name}
+                                </Badge>
+                              )}
+                            </div>
                           </div>
                           
                           <div className="flex gap-2">
@@ -279,14 +286,14 @@ const KitchenDisplay = () => {
                     </div>
                   </ScrollArea>
 
-                  {order.order_items.every(item => item.status === 'ready') && order.status !== 'ready' && (
+                  {order.order_items.every(item => item.status === 'ready') && (
                     <Button
                       className="w-full"
                       variant="default"
-                      onClick={() => updateOrderStatus(order.id, 'ready')}
+                      onClick={() => callOrder(order)}
                     >
                       <CheckCircle2 className="h-4 w-4 mr-2" />
-                      Mark Order Ready
+                      Call Order
                     </Button>
                   )}
                 </CardContent>
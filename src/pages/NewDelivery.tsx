@@ -11,6 +11,7 @@ import { Card } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { Search, Plus, Trash2 } from 'lucide-react';
 import { customerSchema, deliveryAddressSchema, validateForm, getFirstError } from '@/lib/validations';
+import { formatMoney } from '@/lib/money';
 
 interface Product {
   id: string;
@@ -390,7 +391,7 @@ const NewDelivery = () => {
                       <p className="font-medium">{product.name}</p>
                       <p className="text-sm text-muted-foreground">{product.sku}</p>
                     </div>
-                    <p className="font-semibold">R{product.price.toFixed(2)}</p>
+                    <p className="font-semibold">{formatMoney(product.price)}</p>
                   </div>
                 </div>
               ))}
@@ -404,7 +405,7 @@ const NewDelivery = () => {
                 <div className="flex-1">
                   <p className="font-medium">{item.product.name}</p>
                   <p className="text-sm text-muted-foreground">
-                    R{item.product.price.toFixed(2)} each
+                    {formatMoney(item.product.price)} each
                   </p>
                 </div>
                 <div className="flex items-center gap-2">
@@ -432,7 +433,7 @@ const NewDelivery = () => {
                   </Button>
                 </div>
                 <p className="font-semibold w-24 text-right">
-                  R{(item.product.price * item.qty).toFixed(2)}
+                  {formatMoney(item.product.price * item.qty)}
                 </p>
               </div>
             ))}
@@ -442,15 +443,15 @@ const NewDelivery = () => {
           <div className="border-t pt-4 space-y-2">
             <div className="flex justify-between">
               <span>Subtotal:</span>
-              <span className="font-semibold">R{calculateSubtotal().toFixed(2)}</span>
+              <span className="font-semibold">{formatMoney(calculateSubtotal())}</span>
             </div>
             <div className="flex justify-between">
               <span>Delivery Fee:</span>
-              <span className="font-semibold">R{parseFloat(deliveryFee || '0').toFixed(2)}</span>
+              <span className="font-semibold">{formatMoney(parseFloat(deliveryFee || '0'))}</span>
             </div>
             <div className="flex justify-between text-lg font-bold border-t pt-2">
               <span>Total:</span>
-              <span>R{calculateTotal().toFixed(2)}</span>
+              <span>{formatMoney(calculateTotal())}</span>
             </div>
           </div>
         </Card>
@@ -1,8 +1,9 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useSyncEngine } from '@/hooks/useSyncEngine';
+import { useSyncEngine, commitSaleToCloud } from '@/hooks/useSyncEngine';
 import { useNetworkStatus } from '@/hooks/useNetworkStatus';
-import { db, LocalProduct, initDatabase, resetDatabase as resetDb } from '@/lib/db';
+import { useCardPayment } from '@/hooks/useCardPayment';
+import { db, LocalProduct, LocalSale, LocalSaleItem, initDatabase, enqueueSync, resetDatabase as resetDb } from '@/lib/db';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,11 +13,13 @@ import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { toast } from 'sonner';
-import { Search, Wifi, WifiOff, LogOut, Trash2, Plus, Minus, Keyboard, Eye, ParkingSquare, CreditCard } from 'lucide-react';
+import { Search, Wifi, WifiOff, LogOut, Trash2, Plus, Minus, Keyboard, Eye, ParkingSquare, CreditCard, SplitSquareHorizontal, Gift, X, Wallet, FileText } from 'lucide-react';
 import { getCategoryIcon, getCategoryIconColor } from '@/lib/categoryIcons';
 import { Navigate, useNavigate } from 'react-router-dom';
 import AppHeader from '@/components/AppHeader';
 import { EODSubmissionDialog } from '@/components/EODSubmissionDialog';
+import { CashDrawerDialog } from '@/components/CashDrawerDialog';
+import { ShiftReportDialog } from '@/components/ShiftReportDialog';
 import ModifierSelector, { SelectedModifier } from '@/components/ModifierSelector';
 import NumberPadDialog from '@/components/NumberPadDialog';
 import SearchKeypad from '@/components/SearchKeypad';
@@ -27,6 +30,17 @@ import { printOrder, PrintOrderData, PrintItem } from '@/lib/printService';
 import { autoPrintOrder, isQZConnected, OrderData, initQZTray } from '@/lib/qzTray';
 import ParkedOrdersDialog, { getParkedOrdersCount } from '@/components/ParkedOrdersDialog';
 import BarTabDialog from '@/components/BarTabDialog';
+import TenderDialog from '@/components/TenderDialog';
+import { Tender, getSalePaymentMethod, describeTenders, LOYALTY_TENDER, TIPPABLE_METHODS, withTip } from '@/lib/tenders';
+import LoyaltyCustomerDialog from '@/components/LoyaltyCustomerDialog';
+import PaymentIntentDialog from '@/components/PaymentIntentDialog';
+import { PaymentIntent } from '@/lib/payments';
+import { LoyaltyCustomer, LoyaltySettings, fetchLoyaltySettings, getPointsEarned } from '@/lib/loyalty';
+import { applyPromotions, getPromotionTotal } from '@/lib/promotions';
+import { DrawerSession, fetchOpenDrawer } from '@/lib/cashDrawer';
+import { PrintableShiftReport, fetchXReport } from '@/lib/shiftReports';
+import { formatAmount, formatMoney, multiplyMoney, roundMoney, subtractMoney, sumMoney } from '@/lib/money';
+import { TaxSettings, calculateTax, getCachedTaxSettings, fetchTaxSettings, isTaxInvoice } from '@/lib/tax';
 
 interface CartItem {
   product: LocalProduct;
@@ -124,10 +138,10 @@ const ProductButton = ({ product, onAdd, hasModifiers, isLocked, cart, setCart }
       <span className="font-semibold text-xs leading-tight line-clamp-2">{product.name}</span>
       {product.pricing_type === 'weight_based' ? (
         <span className="text-sm font-bold text-primary mt-1">
-          R{product.price_per_unit?.toFixed(2)}/{product.unit_type || 'kg'}
+          {formatMoney(product.price_per_unit)}/{product.unit_type || 'kg'}
         </span>
       ) : (
-        <span className="text-sm font-bold text-primary mt-1">R{product.price.toFixed(2)}</span>
+        <span className="text-sm font-bold text-primary mt-1">{formatMoney(product.price)}</span>
       )}
       <Badge variant="secondary" className="mt-1 text-[10px]">Stock: {product.stock_qty}</Badge>
     </Button>
@@ -136,7 +150,7 @@ const ProductButton = ({ product, onAdd, hasModifiers, isLocked, cart, setCart }
 
 const POS = () => {
   const { user, profile, signOut } = useAuth();
-  const { isOnline, isSyncing, lastSync } = useSyncEngine(user?.id);
+  const { isOnline, isSyncing, lastSync, sync } = useSyncEngine(user?.id);
   const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState('');
   const [cart, setCart] = useState<CartItem[]>([]);
@@ -145,13 +159,15 @@ const POS = () => {
   const [cashReceived, setCashReceived] = useState<string>('');
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [isEODOpen, setIsEODOpen] = useState(false);
-  const [hasPendingEOD, setHasPendingEOD] = useState(false);
   const [isLocked, setIsLocked] = useState(false);
+  const [drawer, setDrawer] = useState<DrawerSession | null>(null);
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const [shiftReport, setShiftReport] = useState<PrintableShiftReport | null>(null);
   const [modifierDialogOpen, setModifierDialogOpen] = useState(false);
   const [selectedProductForCustomization, setSelectedProductForCustomization] = useState<LocalProduct | null>(null);
-  const [hasModifiers, setHasModifiers] = useState<Set<string>>(new Set());
-  const [categories, setCategories] = useState<{id: string, name: string}[]>([]);
   const [cashPadOpen, setCashPadOpen] = useState(false);
+  const [tipAmount, setTipAmount] = useState(0);
+  const [tipPadOpen, setTipPadOpen] = useState(false);
   const [showKeypad, setShowKeypad] = useState(false);
   const [printPreviewOpen, setPrintPreviewOpen] = useState(false);
   const [previewOrderData, setPreviewOrderData] = useState<PrintOrderData | null>(null);
@@ -159,6 +175,12 @@ const POS = () => {
   const [parkedOrdersOpen, setParkedOrdersOpen] = useState(false);
   const [parkedOrdersCount, setParkedOrdersCount] = useState(0);
   const [barTabOpen, setBarTabOpen] = useState(false);
+  const [tenderOpen, setTenderOpen] = useState(false);
+  const [loyaltyOpen, setLoyaltyOpen] = useState(false);
+  const { cardPayment, takeCardPayment, cancelCardPayment } = useCardPayment();
+  const [loyaltyCustomer, setLoyaltyCustomer] = useState<LoyaltyCustomer | null>(null);
+  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettings | null>(null);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(getCachedTaxSettings);
 
   // Database recovery function
   const resetDatabase = async () => {
@@ -200,47 +222,50 @@ const POS = () => {
     return () => clearInterval(interval);
   }, [user]);
 
-  // Load which products have modifiers and categories
   useEffect(() => {
-    loadProductFeatures();
-    loadCategories();
     setParkedOrdersCount(getParkedOrdersCount());
   }, []);
 
-  const loadCategories = async () => {
-    try {
-      const { data, error } = await supabase.from('categories').select('id, name');
-      if (!error && data) {
-        setCategories(data);
-      }
-    } catch (error) {
-      console.error('Error loading categories:', error);
+  useEffect(() => {
+    // Re-checked once a manager approves the last EOD, so the next shift is asked for a float
+    if (user && isOnline && !isLocked) {
+      loadDrawer();
     }
-  };
+  }, [user, isOnline, isLocked]);
 
-  const loadProductFeatures = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('product_modifiers')
-        .select('product_id');
-      
-      if (!error && data) {
-        setHasModifiers(new Set(data.map(pm => pm.product_id)));
-      }
-    } catch (error) {
-      console.error('Error loading product features:', error);
+  useEffect(() => {
+    if (user && isOnline) {
+      fetchLoyaltySettings().then(setLoyaltySettings);
     }
-  };
+  }, [user, isOnline]);
+
+  useEffect(() => {
+    // Falls back to the last settings seen on this device when offline
+    if (user) {
+      fetchTaxSettings().then(setTaxSettings);
+    }
+  }, [user, isOnline]);
+
+  // Categories and modifier links come from the offline menu cache
+  const categories = useLiveQuery(() => db.categories.toArray(), [], []);
+  const productModifierLinks = useLiveQuery(() => db.product_modifiers.toArray(), [], []);
+  const hasModifiers = useMemo(
+    () => new Set(productModifierLinks.map(pm => pm.product_id)),
+    [productModifierLinks]
+  );
+  const promotions = useLiveQuery(() => db.promotions.toArray(), [], []);
 
   const checkPendingEOD = async () => {
     if (!user) return;
 
-    const today = new Date().toISOString().split('T')[0];
+    // Each drawer closes into its own EOD, so only the latest one decides the lock; no dates involved,
+    // so a shift that ran past midnight unlocks as soon as a manager reviews it
     const { data, error } = await supabase
       .from('eod_sessions')
-      .select('status')
+      .select('status, rolled_from_day_id')
       .eq('cashier_id', user.id)
-      .eq('shift_date', today)
+      .order('submitted_at', { ascending: false })
+      .limit(1)
       .maybeSingle();
 
     if (error && error.code !== 'PGRST116') {
@@ -248,15 +273,37 @@ const POS = () => {
       return;
     }
 
-    if (data) {
-      setHasPendingEOD(true);
-      setIsLocked(data.status === 'pending');
-    } else {
-      setHasPendingEOD(false);
-      setIsLocked(false);
+    // A rejected EOD rolled into a later day is pending again, but the cashier has already been released
+    setIsLocked(data?.status === 'pending' && !data.rolled_from_day_id);
+  };
+
+  const loadDrawer = async () => {
+    if (!user) return;
+    try {
+      const openSession = await fetchOpenDrawer(user.id);
+      setDrawer(openSession);
+      // Prompt for the float at the start of a shift
+      if (!openSession) setIsDrawerOpen(true);
+    } catch (error) {
+      console.error('Error loading cash drawer:', error);
+    }
+  };
+
+  const handleXReport = async () => {
+    if (!drawer) return;
+    try {
+      setShiftReport(await fetchXReport(drawer));
+    } catch (error) {
+      console.error('Error generating X-report:', error);
+      toast.error('Failed to generate X-report');
     }
   };
 
+  const handleEODSubmitted = () => {
+    setDrawer(null);
+    checkPendingEOD();
+  };
+
   // Load products from IndexedDB with error handling
   const products = useLiveQuery(
     async () => {
@@ -364,7 +411,7 @@ const POS = () => {
   };
 
   const addItemDirectly = (product: LocalProduct, modifiers?: SelectedModifier[]) => {
-    const priceAdjustment = modifiers?.reduce((sum, m) => sum + m.price_adjustment, 0) || 0;
+    const priceAdjustment = sumMoney(modifiers?.map(m => m.price_adjustment) || []);
     
     const existing = cart.find(item => 
       item.product.id === product.id && 
@@ -413,53 +460,33 @@ const POS = () => {
   const getItemPrice = (item: CartItem) => {
     let basePrice = item.product.price;
     if (item.product.pricing_type === 'weight_based' && item.weight_amount && item.product.price_per_unit) {
-      basePrice = item.product.price_per_unit * item.weight_amount;
+      basePrice = multiplyMoney(item.product.price_per_unit, item.weight_amount);
     }
-    return basePrice + (item.price_adjustment || 0);
+    return sumMoney([basePrice, item.price_adjustment || 0]);
   };
 
+  const getLineTotal = (item: CartItem) => multiplyMoney(getItemPrice(item), item.qty);
+
   const calculateTotals = () => {
-    const subtotal = cart.reduce((sum, item) => sum + (getItemPrice(item) * item.qty), 0);
-    const taxAmount = cart.reduce((sum, item) => 
-      sum + (getItemPrice(item) * item.qty * item.product.tax_rate / 100), 0
+    const subtotal = sumMoney(cart.map(getLineTotal));
+    const promotionDiscounts = applyPromotions(promotions, cart.map(item => ({
+      productId: item.product.id,
+      categoryId: item.product.category_id,
+      unitPrice: getItemPrice(item),
+      qty: item.qty,
+    })));
+    // Manual discount on top of whatever promotions applied automatically
+    const totalDiscount = sumMoney([discountAmount, getPromotionTotal(promotionDiscounts)]);
+    // Inclusive prices already carry their VAT, so only exclusive pricing adds tax on top
+    const tax = calculateTax(
+      cart.map(item => ({ amount: getLineTotal(item), rate: item.product.tax_rate })),
+      taxSettings.prices_include_tax,
+      totalDiscount
     );
-    const total = subtotal + taxAmount - discountAmount;
-    return { subtotal, taxAmount, total };
+    return { subtotal, taxAmount: tax.taxAmount, taxBreakdown: tax.breakdown, total: tax.total, promotionDiscounts, totalDiscount };
   };
 
-  const processYocoPayment = async (saleId: string, amount: number) => {
-    try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-yoco-payment`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({
-          amount,
-          currency: 'ZAR',
-          sale_id: saleId,
-          metadata: {
-            cashier_id: user!.id,
-            timestamp: new Date().toISOString(),
-          },
-        }),
-      });
-
-      const data = await response.json();
-      
-      if (!data.success) {
-        throw new Error(data.error || 'Payment processing failed');
-      }
-
-      return data;
-    } catch (error) {
-      console.error('Yoco payment error:', error);
-      throw error;
-    }
-  };
-
-  const completeSale = async () => {
+  const completeSale = async (splitTenders?: Tender[]) => {
     if (cart.length === 0) {
       toast.error('Cart is empty');
       return;
@@ -470,84 +497,172 @@ const POS = () => {
       return;
     }
 
-    const { subtotal, taxAmount, total } = calculateTotals();
+    const saleTotals = calculateTotals();
+    const { subtotal, taxAmount, total, promotionDiscounts, totalDiscount } = saleTotals;
 
     if (total < 0) {
       toast.error('Total cannot be negative');
       return;
     }
 
+    // Single-tender checkout settles the whole total with the selected method
+    const tenders: Tender[] = splitTenders ?? [withTip({
+      method: paymentMethod,
+      amount: total,
+      tendered: paymentMethod === 'cash' && parseFloat(cashReceived) > total ? parseFloat(cashReceived) : undefined,
+    }, TIPPABLE_METHODS.includes(paymentMethod) ? tipAmount : 0)];
+    const salePaymentMethod = getSalePaymentMethod(tenders);
+    // Points only earn on what the customer actually paid
+    const loyaltyTenders = tenders.filter(t => t.method === LOYALTY_TENDER.value);
+    const pointsRedeemed = loyaltyTenders.reduce((sum, t) => sum + (t.points || 0), 0);
+    const amountPaid = subtractMoney(total, ...loyaltyTenders.map(t => t.amount));
+
+    const cardTenders = tenders.filter(t => t.method === 'card');
+    if (cardTenders.length > 0 && !isOnline) {
+      toast.error('Card payments need a connection. Use another payment method.');
+      return;
+    }
+
     setIsProcessingPayment(true);
 
     try {
       const saleId = crypto.randomUUID();
+
+      // Card results must be known before anything is saved, so a declined card leaves no sale behind
+      const cardIntents: PaymentIntent[] = [];
+      for (const tender of cardTenders) {
+        let intent: PaymentIntent;
+        try {
+          // The tip is charged on the card with the tender it belongs to
+          intent = await takeCardPayment({ saleId }, sumMoney([tender.amount, tender.tip || 0]));
+        } catch (error) {
+          console.error('Card payment error:', error);
+          intent = { transactionId: '', status: 'failed', error: error instanceof Error ? error.message : null };
+        }
+
+        if (intent.status !== 'completed') {
+          // Earlier card tenders of a split payment were already charged and have no sale to belong to
+          const approved = sumMoney(cardTenders.slice(0, cardIntents.length).flatMap(t => [t.amount, t.tip || 0]));
+          toast.error(`Card payment ${intent.status === 'cancelled' ? 'cancelled' : 'failed'}`, {
+            description: approved > 0
+              ? `${formatMoney(approved)} was already approved on card and must be reversed with the payment provider`
+              : intent.error || 'Try again or use another payment method',
+          });
+          return;
+        }
+        cardIntents.push(intent);
+      }
+      if (cardIntents.length > 0) {
+        toast.success('Card payment approved');
+      }
+
       const now = new Date();
 
-      // Save sale to IndexedDB
-      await db.sales.add({
+      // Order number comes from the cloud when reachable, otherwise a local fallback. Fetched before the
+      // local transaction opens, since a network call would end it early.
+      let orderNumber = `ORD-${saleId.slice(0, 6).toUpperCase()}`;
+      if (isOnline) {
+        const { data: orderNumberData } = await supabase.rpc('generate_order_number');
+        if (orderNumberData) orderNumber = orderNumberData;
+      }
+
+      const localSale: LocalSale = {
         id: saleId,
         cashier_id: user!.id,
         subtotal,
         tax_amount: taxAmount,
-        discount_amount: discountAmount,
+        discount_amount: totalDiscount,
         total,
-        payment_method: paymentMethod,
+        payment_method: salePaymentMethod,
         created_at: now,
         synced: false,
         sync_attempts: 0
-      });
+      };
 
-      // Process Yoco payment if card payment is selected
-      if (paymentMethod === 'card') {
-        try {
-          await processYocoPayment(saleId, total);
-          toast.success('Card payment processed successfully');
-        } catch (error) {
-          toast.error('Card payment failed. Please try again or use another payment method.');
-          setIsProcessingPayment(false);
-          return;
-        }
-      }
+      // The sale, its items, stock and the queued kitchen order and payments are written in one
+      // transaction, so a sync can never pick up the sale without its items
+      const orderId = crypto.randomUUID();
+      const saleItems: LocalSaleItem[] = [];
+      await db.transaction('rw', [db.sales, db.sale_items, db.products, db.sync_queue], async () => {
+        await db.sales.add(localSale);
 
-      // Create order for kitchen display
-      const { data: orderNumberData } = await supabase.rpc('generate_order_number');
-      const orderNumber = orderNumberData || `ORD-${saleId.slice(0, 6).toUpperCase()}`;
-      
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
+        await enqueueSync('order', {
+          id: orderId,
           order_number: orderNumber,
           order_type: 'takeout',
           status: 'pending',
-          discount_amount: discountAmount,
-        })
-        .select()
-        .single();
+          discount_amount: totalDiscount,
+          promotion_id: promotionDiscounts[0]?.promotionId ?? null,
+          customer_id: loyaltyCustomer?.id ?? null,
+          created_at: now.toISOString(),
+        });
 
-      if (orderError) {
-        console.error('Error creating order:', orderError);
-      }
+        for (const promotion of promotionDiscounts) {
+          await enqueueSync('promotion_usage', {
+            id: crypto.randomUUID(),
+            promotion_id: promotion.promotionId,
+            order_id: orderId,
+            customer_id: loyaltyCustomer?.id,
+            discount_applied: promotion.amount,
+          });
+        }
 
-      // Save sale items and create order items for kitchen
-      for (const item of cart) {
-        const itemPrice = getItemPrice(item);
-        await db.sale_items.add({
-          id: crypto.randomUUID(),
-          sale_id: saleId,
-          product_id: item.product.id,
-          product_name: item.product.name,
-          product_sku: item.product.sku,
-          qty: item.qty,
-          price_at_sale: itemPrice,
-          cost_at_sale: item.product.cost,
-          tax_rate: item.product.tax_rate,
-          line_total: itemPrice * item.qty
-        });
+        // One payments row per tender
+        let cardIndex = 0;
+        for (const tender of tenders) {
+          const change = subtractMoney(tender.tendered ?? tender.amount, tender.amount);
+          const cardIntent = tender.method === 'card' ? cardIntents[cardIndex++] : undefined;
+          await enqueueSync('payment', {
+            id: crypto.randomUUID(),
+            order_id: orderId,
+            sale_id: saleId,
+            payment_method: tender.method,
+            amount: tender.amount,
+            tip_amount: tender.tip || 0,
+            processed_by: user!.id,
+            notes: cardIntent
+              ? [cardIntent.provider, cardIntent.cardLastFour && `${(cardIntent.cardBrand || 'card').toUpperCase()} ****${cardIntent.cardLastFour}`]
+                  .filter(Boolean).join(' ') || null
+              : tender.points
+                ? `${tender.points} loyalty points`
+                : change > 0 ? `Tendered ${formatMoney(tender.tendered!)}, change ${formatMoney(change)}` : null,
+            created_at: now.toISOString(),
+          });
+        }
+
+        if (loyaltyCustomer) {
+          await enqueueSync('loyalty_sale', {
+            id: crypto.randomUUID(),
+            customer_id: loyaltyCustomer.id,
+            sale_id: saleId,
+            order_id: orderId,
+            amount_paid: amountPaid,
+            points_redeemed: pointsRedeemed,
+          });
+        }
 
-        // Create order item for kitchen display
-        if (orderData) {
-          const orderItemInsert = {
-            order_id: orderData.id,
+        for (const item of cart) {
+          const itemPrice = getItemPrice(item);
+          const saleItem: LocalSaleItem = {
+            id: crypto.randomUUID(),
+            sale_id: saleId,
+            product_id: item.product.id,
+            product_name: item.product.name,
+            product_sku: item.product.sku,
+            qty: item.qty,
+            price_at_sale: itemPrice,
+            cost_at_sale: item.product.cost,
+            tax_rate: item.product.tax_rate,
+            line_total: getLineTotal(item)
+          };
+          await db.sale_items.add(saleItem);
+          saleItems.push(saleItem);
+
+          // Queue order item for kitchen display
+          const orderItemId = crypto.randomUUID();
+          await enqueueSync('order_item', {
+            id: orderItemId,
+            order_id: orderId,
             product_id: item.product.id,
             product_name: item.product.name,
             product_sku: item.product.sku,
@@ -555,48 +670,63 @@ const POS = () => {
             price_at_order: itemPrice,
             cost_at_order: item.product.cost,
             tax_rate: item.product.tax_rate,
-            line_total: itemPrice * item.qty,
-            kitchen_station: (item.product.kitchen_station || 'general') as 'grill' | 'fryer' | 'salad' | 'dessert' | 'bar' | 'general',
+            line_total: getLineTotal(item),
+            kitchen_station: item.product.kitchen_station || 'general',
             weight_amount: item.weight_amount,
             weight_unit: item.weight_unit,
-          };
-          const { data: orderItemData, error: orderItemError } = await supabase
-            .from('order_items')
-            .insert(orderItemInsert)
-            .select()
-            .single();
-
-          // Add modifiers to order item
-          if (orderItemData && item.modifiers && item.modifiers.length > 0) {
-            const modifierInserts = item.modifiers.map(mod => ({
-              order_item_id: orderItemData.id,
+            created_at: now.toISOString(),
+          });
+
+          // Queue modifiers for the order item
+          for (const mod of item.modifiers || []) {
+            await enqueueSync('order_item_modifier', {
+              id: crypto.randomUUID(),
+              order_item_id: orderItemId,
               modifier_id: mod.modifier_id,
               modifier_name: mod.modifier_name,
               price_adjustment: mod.price_adjustment,
-            }));
-            await supabase.from('order_item_modifiers').insert(modifierInserts);
+            });
+          }
+
+          // Update local stock
+          const currentProduct = await db.products.get(item.product.id);
+          if (currentProduct) {
+            await db.products.update(item.product.id, {
+              stock_qty: Math.max(0, currentProduct.stock_qty - item.qty)
+            });
           }
         }
+      });
 
-        // Update local stock
-        const currentProduct = await db.products.get(item.product.id);
-        if (currentProduct) {
-          await db.products.update(item.product.id, {
-            stock_qty: Math.max(0, currentProduct.stock_qty - item.qty)
-          });
+      // Commit to cloud right away when online; otherwise the sync engine replays on reconnect
+      if (isOnline) {
+        try {
+          await commitSaleToCloud(localSale, saleItems);
+          await db.sales.update(saleId, { synced: true });
+        } catch (error) {
+          console.error('Error committing sale, will retry on next sync:', error);
         }
+        sync();
       }
 
-      toast.success('Sale completed successfully!');
+      if (loyaltyCustomer && loyaltySettings) {
+        toast.success('Sale completed successfully!', {
+          description: `${loyaltyCustomer.name} earned ${getPointsEarned(amountPaid, loyaltySettings)} points`
+        });
+      } else {
+        toast.success('Sale completed successfully!');
+      }
       
       // Clear cart
       setCart([]);
+      setLoyaltyCustomer(null);
       setDiscountAmount(0);
       setCashReceived('');
+      setTipAmount(0);
       setPaymentMethod('cash');
 
       // Print receipt
-      printReceipt(saleId, cart, { subtotal, taxAmount, total });
+      printReceipt(saleId, cart, saleTotals, describeTenders(tenders));
     } catch (error) {
       console.error('Error completing sale:', error);
       toast.error('Failed to complete sale');
@@ -605,7 +735,12 @@ const POS = () => {
     }
   };
 
-  const printReceipt = async (saleId: string, items: CartItem[], totals: any) => {
+  const printReceipt = async (
+    saleId: string,
+    items: CartItem[],
+    totals: ReturnType<typeof calculateTotals>,
+    paymentLabel: string
+  ) => {
     // Build print items with category information for routing
     const printItems: PrintItem[] = items.map(item => {
       const categoryName = getCategoryName(item.product.category_id);
@@ -619,7 +754,7 @@ const POS = () => {
         categoryName,
         kitchenStation: item.product.kitchen_station || 'general',
         price: itemPrice,
-        lineTotal: itemPrice * item.qty,
+        lineTotal: getLineTotal(item),
       };
     });
 
@@ -640,8 +775,13 @@ const POS = () => {
         total: totals.total,
         subtotal: totals.subtotal,
         tax: totals.taxAmount,
-        discount: discountAmount,
-        paymentMethod: paymentMethod,
+        taxInclusive: taxSettings.prices_include_tax,
+        taxBreakdown: totals.taxBreakdown,
+        vatNumber: taxSettings.vat_number,
+        isTaxInvoice: isTaxInvoice(totals.total, taxSettings),
+        discount: totals.totalDiscount,
+        discounts: totals.promotionDiscounts,
+        paymentMethod: paymentLabel,
         cashierName: profile?.full_name,
         timestamp: new Date(),
       };
@@ -663,9 +803,14 @@ const POS = () => {
       items: printItems,
       subtotal: totals.subtotal,
       taxAmount: totals.taxAmount,
-      discountAmount: discountAmount,
+      taxInclusive: taxSettings.prices_include_tax,
+      taxBreakdown: totals.taxBreakdown,
+      vatNumber: taxSettings.vat_number,
+      isTaxInvoice: isTaxInvoice(totals.total, taxSettings),
+      discountAmount: totals.totalDiscount,
+      discounts: totals.promotionDiscounts,
       total: totals.total,
-      paymentMethod: paymentMethod,
+      paymentMethod: paymentLabel,
       cashierName: profile?.full_name,
       timestamp: new Date(),
     };
@@ -694,7 +839,7 @@ const POS = () => {
       return;
     }
 
-    const { subtotal, taxAmount, total } = calculateTotals();
+    const { subtotal, taxAmount, taxBreakdown, total, promotionDiscounts, totalDiscount } = calculateTotals();
     
     const printItems: PrintItem[] = cart.map(item => {
       const categoryName = getCategoryName(item.product.category_id);
@@ -708,7 +853,7 @@ const POS = () => {
         categoryName,
         kitchenStation: item.product.kitchen_station || 'general',
         price: itemPrice,
-        lineTotal: itemPrice * item.qty,
+        lineTotal: getLineTotal(item),
       };
     });
 
@@ -718,7 +863,12 @@ const POS = () => {
       items: printItems,
       subtotal,
       taxAmount,
-      discountAmount,
+      taxInclusive: taxSettings.prices_include_tax,
+      taxBreakdown,
+      vatNumber: taxSettings.vat_number,
+      isTaxInvoice: isTaxInvoice(total, taxSettings),
+      discountAmount: totalDiscount,
+      discounts: promotionDiscounts,
       total,
       paymentMethod,
       cashierName: profile?.full_name,
@@ -752,7 +902,15 @@ const POS = () => {
             {isOnline ? 'Online' : 'Offline'}
           </Badge>
           {isSyncing && <Badge variant="secondary">Syncing...</Badge>}
-          <Button variant="ghost" size="sm" onClick={() => setIsEODOpen(true)} disabled={hasPendingEOD || isLocked}>
+          <Button variant="ghost" size="sm" onClick={() => setIsDrawerOpen(true)} disabled={isLocked || !isOnline}>
+            <Wallet className="h-4 w-4 mr-2" />
+            Drawer
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleXReport} disabled={!drawer || !isOnline}>
+            <FileText className="h-4 w-4 mr-2" />
+            X Report
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setIsEODOpen(true)} disabled={!drawer || isLocked || !isOnline}>
             <LogOut className="h-4 w-4 mr-2" />
             End of Day
           </Button>
@@ -859,6 +1017,16 @@ const POS = () => {
             <div className="flex justify-between items-center mb-2">
               <span className="font-semibold">Cart</span>
               <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs gap-1"
+                  onClick={() => setLoyaltyOpen(true)}
+                  disabled={isLocked || !isOnline}
+                >
+                  <Gift className="h-3 w-3" />
+                  Customer
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -882,6 +1050,16 @@ const POS = () => {
                 <span className="text-xs text-muted-foreground">{cart.length} items</span>
               </div>
             </div>
+            {loyaltyCustomer && (
+              <div className="flex items-center gap-2 mb-2 p-1.5 rounded bg-muted text-xs">
+                <Gift className="h-3 w-3 text-primary" />
+                <span className="flex-1 truncate font-medium">{loyaltyCustomer.name}</span>
+                <span className="text-muted-foreground">{loyaltyCustomer.loyalty_points} pts</span>
+                <Button size="icon" variant="ghost" className="h-5 w-5" onClick={() => setLoyaltyCustomer(null)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
             {cart.length === 0 ? (
               <p className="text-center text-muted-foreground py-6 text-sm">Cart is empty</p>
             ) : (
@@ -923,7 +1101,7 @@ const POS = () => {
                             <Plus className="h-2.5 w-2.5" />
                           </Button>
                         </div>
-                        <span className="font-bold text-xs w-16 text-right">R{(itemPrice * item.qty).toFixed(2)}</span>
+                        <span className="font-bold text-xs w-16 text-right">{formatMoney(getLineTotal(item))}</span>
                         <Button
                           size="icon"
                           variant="ghost"
@@ -943,12 +1121,18 @@ const POS = () => {
                 <div className="space-y-1 text-xs">
                   <div className="flex justify-between">
                     <span>Subtotal:</span>
-                    <span>R{totals.subtotal.toFixed(2)}</span>
+                    <span>{formatMoney(totals.subtotal)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Tax:</span>
-                    <span>R{totals.taxAmount.toFixed(2)}</span>
+                    <span>{taxSettings.prices_include_tax ? 'VAT (incl.):' : 'Tax:'}</span>
+                    <span>{formatMoney(totals.taxAmount)}</span>
                   </div>
+                  {totals.promotionDiscounts.map(promotion => (
+                    <div key={promotion.promotionId} className="flex justify-between text-green-600 dark:text-green-400">
+                      <span className="truncate">{promotion.name}:</span>
+                      <span>-{formatMoney(promotion.amount)}</span>
+                    </div>
+                  ))}
                   <div className="flex justify-between items-center">
                     <span>Discount:</span>
                     <Input
@@ -964,7 +1148,7 @@ const POS = () => {
                   <Separator />
                   <div className="flex justify-between text-base font-bold">
                     <span>Total:</span>
-                    <span>R{totals.total.toFixed(2)}</span>
+                    <span>{formatMoney(totals.total)}</span>
                   </div>
                 </div>
 
@@ -976,7 +1160,7 @@ const POS = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="cash">Cash</SelectItem>
-                      <SelectItem value="card">Card (Yoco)</SelectItem>
+                      <SelectItem value="card">Card</SelectItem>
                       <SelectItem value="capitec">Capitec Pay</SelectItem>
                       <SelectItem value="eft">EFT / Bank Transfer</SelectItem>
                       <SelectItem value="other">Other</SelectItem>
@@ -993,23 +1177,35 @@ const POS = () => {
                       disabled={isLocked}
                     >
                       <span>Cash Received:</span>
-                      <span className="font-bold">R{cashReceived || '0.00'}</span>
+                      <span className="font-bold">{formatMoney(parseFloat(cashReceived || '0'))}</span>
                     </Button>
-                    {cashReceived && parseFloat(cashReceived) >= totals.total && (
+                    {cashReceived && parseFloat(cashReceived) >= sumMoney([totals.total, tipAmount]) && (
                       <div className="flex justify-between items-center text-base font-bold text-green-600 dark:text-green-400">
                         <span>Change:</span>
-                        <span>R{(parseFloat(cashReceived) - totals.total).toFixed(2)}</span>
+                        <span>{formatMoney(subtractMoney(parseFloat(cashReceived), totals.total, tipAmount))}</span>
                       </div>
                     )}
                     {cashReceived && parseFloat(cashReceived) > 0 && parseFloat(cashReceived) < totals.total && (
                       <div className="flex justify-between items-center text-destructive">
                         <span>Short by:</span>
-                        <span>R{(totals.total - parseFloat(cashReceived)).toFixed(2)}</span>
+                        <span>{formatMoney(subtractMoney(totals.total, parseFloat(cashReceived)))}</span>
                       </div>
                     )}
                   </div>
                 )}
 
+                {TIPPABLE_METHODS.includes(paymentMethod) && (
+                  <Button
+                    variant="outline"
+                    className="w-full h-8 justify-between text-xs"
+                    onClick={() => setTipPadOpen(true)}
+                    disabled={isLocked}
+                  >
+                    <span>Tip:</span>
+                    <span className="font-bold">{formatMoney(tipAmount)}</span>
+                  </Button>
+                )}
+
                 <div className="flex gap-2">
                   <Button 
                     variant="outline"
@@ -1020,13 +1216,23 @@ const POS = () => {
                   >
                     <Eye className="h-4 w-4" />
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTenderOpen(true)}
+                    disabled={cart.length === 0 || isProcessingPayment || isLocked}
+                    className="flex-shrink-0"
+                  >
+                    <SplitSquareHorizontal className="h-4 w-4 mr-1" />
+                    Split
+                  </Button>
                   <Button 
                     className="flex-1" 
                     size="sm"
-                    onClick={completeSale}
+                    onClick={() => completeSale()}
                     disabled={cart.length === 0 || isProcessingPayment || isLocked}
                   >
-                    {isProcessingPayment ? 'Processing...' : `Complete Sale (R${totals.total.toFixed(2)})`}
+                    {isProcessingPayment ? 'Processing...' : `Complete Sale (${formatMoney(totals.total)})`}
                   </Button>
                 </div>
               </div>
@@ -1044,11 +1250,32 @@ const POS = () => {
         initialValue={cashReceived}
       />
 
+      <NumberPadDialog
+        open={tipPadOpen}
+        onClose={() => setTipPadOpen(false)}
+        onConfirm={(value) => setTipAmount(Math.max(0, roundMoney(parseFloat(value) || 0)))}
+        title="Enter Tip"
+        initialValue={tipAmount > 0 ? formatAmount(tipAmount) : ''}
+      />
+
       {/* EOD Dialog */}
       <EODSubmissionDialog
         open={isEODOpen}
         onOpenChange={setIsEODOpen}
-        onSubmitted={checkPendingEOD}
+        drawer={drawer}
+        onSubmitted={handleEODSubmitted}
+      />
+
+      <CashDrawerDialog
+        open={isDrawerOpen && !isLocked}
+        onOpenChange={setIsDrawerOpen}
+        drawer={drawer}
+        onDrawerChange={setDrawer}
+      />
+
+      <ShiftReportDialog
+        report={shiftReport}
+        onOpenChange={(open) => !open && setShiftReport(null)}
       />
 
       {/* Modifier Selection Dialog */}
@@ -1086,6 +1313,28 @@ const POS = () => {
         getItemPrice={getItemPrice}
       />
 
+      {/* Split Tender Dialog */}
+      <TenderDialog
+        open={tenderOpen}
+        onOpenChange={setTenderOpen}
+        total={totals.total}
+        onConfirm={(tenders) => completeSale(tenders)}
+        loyalty={loyaltyCustomer && loyaltySettings ? { customer: loyaltyCustomer, settings: loyaltySettings } : null}
+      />
+
+      <PaymentIntentDialog
+        open={!!cardPayment}
+        amount={cardPayment?.amount ?? 0}
+        intent={cardPayment?.intent ?? null}
+        onCancel={cancelCardPayment}
+      />
+
+      <LoyaltyCustomerDialog
+        open={loyaltyOpen}
+        onOpenChange={setLoyaltyOpen}
+        onSelect={setLoyaltyCustomer}
+      />
+
       {/* Bar Tab Dialog */}
       <BarTabDialog
         open={barTabOpen}
@@ -6,9 +6,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Clock, Play, Square, Coffee, Fingerprint } from "lucide-react";
 import { toast } from "sonner";
-import { format } from "date-fns";
 import { biometricAuth } from "@/lib/biometricAuth";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { formatMoney } from "@/lib/money";
+import { formatDate, formatTime } from "@/lib/dateTime";
 
 interface TimeEntry {
   id: string;
@@ -244,7 +245,7 @@ export default function TimeTracking() {
                 <div className="text-center">
                   <p className="text-sm text-muted-foreground mb-2">Clocked in at</p>
                   <p className="text-2xl font-bold">
-                    {format(new Date(activeEntry.clock_in), "HH:mm")}
+                    {formatTime(activeEntry.clock_in)}
                   </p>
                 </div>
                 <div className="flex gap-2 justify-center">
@@ -301,15 +302,15 @@ export default function TimeTracking() {
                 <div key={entry.id} className="flex justify-between items-center p-3 border rounded">
                   <div>
                     <p className="font-semibold">
-                      {format(new Date(entry.clock_in), "MMM dd, yyyy")}
+                      {formatDate(entry.clock_in)}
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      {format(new Date(entry.clock_in), "HH:mm")} - {entry.clock_out && format(new Date(entry.clock_out), "HH:mm")}
+                      {formatTime(entry.clock_in)} - {entry.clock_out && formatTime(entry.clock_out)}
                     </p>
                   </div>
                   <div className="text-right">
                     <p className="font-semibold">{entry.total_hours?.toFixed(2)} hrs</p>
-                    <p className="text-sm text-muted-foreground">R{entry.total_cost?.toFixed(2)}</p>
+                    <p className="text-sm text-muted-foreground">{formatMoney(entry.total_cost)}</p>
                   </div>
                 </div>
               ))}
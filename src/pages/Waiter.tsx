@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -11,6 +11,7 @@ import { Users, LogOut, Plus, Utensils, Clock, Search, Filter, Bell, ChevronRigh
 import AppHeader from '@/components/AppHeader';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { formatTime } from '@/lib/dateTime';
 
 interface Table {
   id: string;
@@ -30,6 +31,10 @@ interface Order {
   guest_count?: number;
   order_type: string;
   notes?: string;
+  waiter_id?: string | null;
+  // Set each time the pass calls a course, with that course's name when the order has several
+  called_at?: string | null;
+  called_course?: string | null;
   restaurant_tables?: {
     table_number: string;
   };
@@ -49,6 +54,8 @@ const Waiter = () => {
   const [pickupTime, setPickupTime] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  // Pass calls already seen, so each one notifies once; null until the first load
+  const seenReadyCalls = useRef<Set<string> | null>(null);
 
   if (!user) return <Navigate to="/auth" />;
   const hasAccess = profile?.roles?.some(r => ['waiter', 'admin'].includes(r));
@@ -109,13 +116,33 @@ const Waiter = () => {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      if (data) setOrders(data);
+      if (data) {
+        setOrders(data);
+        notifyReadyOrders(data);
+      }
     } catch (error) {
       console.error('Error loading orders:', error);
       toast.error('Failed to load orders');
     }
   };
 
+  // Let the waiter know when the pass calls one of their orders or courses; calls made before load don't notify
+  const notifyReadyOrders = (loaded: Order[]) => {
+    const readyCalls = loaded.filter(order => order.called_at);
+    const seen = seenReadyCalls.current;
+    seenReadyCalls.current = new Set(readyCalls.map(order => `${order.id}:${order.called_at}`));
+    if (!seen) return;
+
+    for (const order of readyCalls) {
+      if (seen.has(`${order.id}:${order.called_at}`)) continue;
+      if (order.waiter_id && order.waiter_id !== user?.id) continue;
+      const label = order.restaurant_tables
+        ? `Table ${order.restaurant_tables.table_number}`
+        : `Order #${order.order_number.split('-').pop()}`;
+      toast.success(`${label}${order.called_course ? ` ${order.called_course}` : ''} is ready`, { description: 'Collect it from the pass', duration: 10000 });
+    }
+  };
+
   const updateTableStatus = async (tableId: string, status: string) => {
     try {
       const { error } = await supabase
@@ -354,10 +381,7 @@ const Waiter = () => {
                                 <div className="flex items-center gap-4 text-sm text-muted-foreground">
                                   <span className="flex items-center gap-1">
                                     <Clock className="h-3 w-3" />
-                                    {new Date(order.created_at).toLocaleTimeString([], { 
-                                      hour: '2-digit', 
-                                      minute: '2-digit' 
-                                    })}
+                                    {formatTime(order.created_at)}
                                   </span>
                                   {order.guest_count && (
                                     <span className="flex items-center gap-1">
@@ -9,13 +9,26 @@ import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
 import { Navigate, useParams, useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
-import { Plus, Minus, Trash2, Send, Search, Settings, ArrowLeft, ShoppingCart, Filter } from 'lucide-react';
+import { Plus, Minus, Trash2, Send, Search, Settings, ArrowLeft, ShoppingCart, Filter, SplitSquareHorizontal, Flame, Wallet } from 'lucide-react';
 import { getCategoryIcon, getCategoryIconColor } from '@/lib/categoryIcons';
 import AppHeader from '@/components/AppHeader';
 import ModifierSelector, { SelectedModifier } from '@/components/ModifierSelector';
 import ComboSelector, { ComboSelection } from '@/components/ComboSelector';
+import SplitBillDialog from '@/components/SplitBillDialog';
+import TenderDialog from '@/components/TenderDialog';
+import PaymentIntentDialog from '@/components/PaymentIntentDialog';
+import { useCardPayment } from '@/hooks/useCardPayment';
+import { PaymentIntent } from '@/lib/payments';
+import { Tender } from '@/lib/tenders';
+import { applyPromotions, getPromotionTotal } from '@/lib/promotions';
+import { LocalPromotion } from '@/lib/db';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatMoney, sumMoney } from '@/lib/money';
+import { TaxSettings, calculateTax, fetchTaxSettings, getCachedTaxSettings } from '@/lib/tax';
+import { Course, DEFAULT_COURSE, fireCourse, getNextCourseNumber, getTicketCourses, isCourseHeld, shouldFireOnSend } from '@/lib/courses';
+import { printCourseFired } from '@/lib/printService';
 
 interface Product {
   id: string;
@@ -46,9 +59,16 @@ interface OrderItem {
   line_total: number;
   special_instructions?: string;
   kitchen_station: string;
+  seat_number?: number | null;
+  check_id?: string | null;
+  course_number: number;
+  course_name?: string | null;
+  // Null while the item's course is held
+  fired_at?: string | null;
   modifiers?: SelectedModifier[];
   combo_selections?: ComboSelection[];
   price_adjustment: number;
+  status?: string;
 }
 
 interface Order {
@@ -58,6 +78,7 @@ interface Order {
   status: string;
   customer_name?: string;
   guest_count?: number;
+  discount_amount?: number | null;
   notes?: string;
   restaurant_tables?: {
     table_number: string;
@@ -81,6 +102,17 @@ const WaiterOrder = () => {
   const [hasModifiers, setHasModifiers] = useState<Set<string>>(new Set());
   const [hasCombos, setHasCombos] = useState<Set<string>>(new Set());
   const [showCart, setShowCart] = useState(false);
+  const [splitDialogOpen, setSplitDialogOpen] = useState(false);
+  const [settleDialogOpen, setSettleDialogOpen] = useState(false);
+  const { cardPayment, takeCardPayment, cancelCardPayment } = useCardPayment();
+  const [promotions, setPromotions] = useState<LocalPromotion[]>([]);
+  // Promotions this order already counts towards; their usage caps must not count it twice
+  const [orderPromotionIds, setOrderPromotionIds] = useState<Set<string>>(new Set());
+  const [currentCourse, setCurrentCourse] = useState<Course>(DEFAULT_COURSE);
+  const [customCourses, setCustomCourses] = useState<Course[]>([]);
+  const [newCourseName, setNewCourseName] = useState('');
+  const [firingCourse, setFiringCourse] = useState<number | null>(null);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(getCachedTaxSettings);
 
   if (!user) return <Navigate to="/auth" />;
   const hasAccess = profile?.roles?.some(r => ['waiter', 'admin'].includes(r));
@@ -91,8 +123,24 @@ const WaiterOrder = () => {
     loadProducts();
     loadCategories();
     loadProductFeatures();
+    loadPromotions();
+    fetchTaxSettings().then(setTaxSettings);
   }, [orderId]);
 
+  const loadPromotions = async () => {
+    const [promotionsRes, usageRes] = await Promise.all([
+      supabase.from('promotions').select('*').eq('is_active', true),
+      supabase.from('promotion_usage').select('promotion_id').eq('order_id', orderId!),
+    ]);
+
+    if (promotionsRes.error || usageRes.error) {
+      console.error('Error loading promotions:', promotionsRes.error || usageRes.error);
+      return;
+    }
+    setPromotions(promotionsRes.data || []);
+    setOrderPromotionIds(new Set((usageRes.data || []).map(usage => usage.promotion_id)));
+  };
+
   const loadProductFeatures = async () => {
     try {
       const [modifiersRes, combosRes] = await Promise.all([
@@ -216,6 +264,8 @@ const WaiterOrder = () => {
       tax_rate: product.tax_rate,
       line_total: finalPrice,
       kitchen_station: product.kitchen_station || 'general',
+      course_number: currentCourse.number,
+      course_name: currentCourse.name,
       modifiers: modifiers || [],
       combo_selections: comboSelections || [],
       price_adjustment: priceAdjustment,
@@ -263,15 +313,37 @@ const WaiterOrder = () => {
     ));
   };
 
+  const updateItemSeat = (index: number, seat: string) => {
+    setOrderItems(orderItems.map((item, i) =>
+      i === index ? { ...item, seat_number: seat === 'none' ? null : parseInt(seat) } : item
+    ));
+  };
+
+  const updateItemCourse = (index: number, value: string) => {
+    const course = ticketCourses.find(c => c.number === parseInt(value));
+    if (!course) return;
+    setOrderItems(orderItems.map((item, i) =>
+      i === index ? { ...item, course_number: course.number, course_name: course.name } : item
+    ));
+  };
+
   const submitOrder = async () => {
-    if (orderItems.length === 0) {
+    // Items loaded from the database are already with the kitchen
+    const newItems = orderItems.filter(item => !item.id);
+    if (newItems.length === 0) {
       toast.error('Please add items to the order');
       return;
     }
 
+    const sentAt = new Date().toISOString();
+    const heldCourses = new Set<string>();
+
     try {
       await Promise.all(
-        orderItems.map(async (item) => {
+        newItems.map(async (item) => {
+          const fired = shouldFireOnSend(item.course_number, orderItems);
+          if (!fired) heldCourses.add(item.course_name || `Course ${item.course_number}`);
+
           const { data: insertedItem, error: itemError } = await supabase
             .from('order_items')
             .insert([{
@@ -285,7 +357,11 @@ const WaiterOrder = () => {
               tax_rate: item.tax_rate,
               line_total: item.line_total,
               special_instructions: item.special_instructions || null,
+              seat_number: item.seat_number ?? null,
               kitchen_station: item.kitchen_station as 'general' | 'grill' | 'fryer' | 'salad' | 'dessert' | 'bar',
+              course_number: item.course_number,
+              course_name: item.course_name || null,
+              fired_at: fired ? sentAt : null,
               status: 'pending' as const,
             }])
             .select()
@@ -329,11 +405,24 @@ const WaiterOrder = () => {
 
       if (orderError) throw orderError;
 
-      toast.success('Order sent to kitchen!');
+      // Promotions are re-evaluated over the whole order each time items are sent; any that no longer
+      // apply are released along with their usage
+      const { error: promotionError } = await supabase.rpc('apply_order_promotions', {
+        _order_id: orderId!,
+        _promotions: promotionDiscounts.map(promotion => ({
+          promotion_id: promotion.promotionId,
+          discount_applied: promotion.amount,
+        })),
+      });
+      if (promotionError) throw promotionError;
+
+      toast.success(heldCourses.size > 0
+        ? `Order sent to kitchen, ${[...heldCourses].join(', ')} held`
+        : 'Order sent to kitchen!');
       navigate('/waiter');
     } catch (error) {
       console.error('Error submitting order:', error);
-      toast.error('Failed to submit order');
+      toast.error((error as { message?: string })?.message || 'Failed to submit order');
     }
   };
 
@@ -343,8 +432,130 @@ const WaiterOrder = () => {
     return matchesSearch && matchesCategory;
   });
 
-  const calculateTotal = () => {
-    return orderItems.reduce((sum, item) => sum + item.line_total, 0);
+  const promotionDiscounts = applyPromotions(promotions.map(promotion => (orderPromotionIds.has(promotion.id)
+    ? { ...promotion, usage_count: Math.max((promotion.usage_count || 0) - 1, 0) }
+    : promotion
+  )), orderItems.map(item => ({
+    productId: item.product_id,
+    categoryId: products.find(p => p.id === item.product_id)?.category_id,
+    unitPrice: item.price_at_order,
+    qty: item.qty,
+  })));
+
+  // Totals go through the same VAT calculation as POS, so exclusive prices have VAT added on top
+  const getOrderTotal = (items: OrderItem[], discount: number) => calculateTax(
+    items.map(item => ({ amount: item.line_total, rate: item.tax_rate })),
+    taxSettings.prices_include_tax,
+    discount
+  ).total;
+
+  const calculateTotal = () => getOrderTotal(orderItems, getPromotionTotal(promotionDiscounts));
+
+  const savedItems = orderItems.filter((item): item is OrderItem & { id: string } => !!item.id);
+
+  // Cancelled items stay on the order but are not charged
+  const billedItems = savedItems.filter(item => item.status !== 'cancelled');
+
+  // What the table owes for everything already sent, after the order's promotion discount
+  const billTotal = getOrderTotal(billedItems, Number(order?.discount_amount) || 0);
+
+  // Card tenders are charged through the payment provider first, the same way POS takes them; the
+  // order is only settled once every card is approved, and settle_order checks each approval
+  const settleOrder = async (tenders: Tender[]) => {
+    setSettleDialogOpen(false);
+    try {
+      const cardTenders = tenders.filter(tender => tender.method === 'card');
+      const cardIntents: PaymentIntent[] = [];
+      for (const tender of cardTenders) {
+        let intent: PaymentIntent;
+        try {
+          intent = await takeCardPayment({ orderId: orderId! }, sumMoney([tender.amount, tender.tip || 0]));
+        } catch (error) {
+          console.error('Card payment error:', error);
+          intent = { transactionId: '', status: 'failed', error: error instanceof Error ? error.message : null };
+        }
+
+        if (intent.status !== 'completed') {
+          const approved = sumMoney(cardTenders.slice(0, cardIntents.length).flatMap(t => [t.amount, t.tip || 0]));
+          toast.error(`Card payment ${intent.status === 'cancelled' ? 'cancelled' : 'failed'}`, {
+            description: approved > 0
+              ? `${formatMoney(approved)} was already approved on card and must be reversed with the payment provider`
+              : intent.error || 'Try again or use another payment method',
+          });
+          return;
+        }
+        cardIntents.push(intent);
+      }
+
+      let cardIndex = 0;
+      const { error } = await supabase.rpc('settle_order', {
+        _order_id: orderId!,
+        _tenders: tenders.map(tender => ({
+          payment_method: tender.method,
+          amount: tender.amount,
+          tip_amount: tender.tip || 0,
+          transaction_id: tender.method === 'card' ? cardIntents[cardIndex++].transactionId : null,
+        })),
+      });
+      if (error) throw error;
+
+      toast.success('Bill settled');
+      navigate('/waiter');
+    } catch (error) {
+      console.error('Error settling order:', error);
+      toast.error('Failed to settle bill');
+    }
+  };
+
+  const ticketCourses = getTicketCourses(orderItems, customCourses);
+
+  const addCustomCourse = () => {
+    const name = newCourseName.trim();
+    if (!name) return;
+    const course = { number: getNextCourseNumber(ticketCourses), name };
+    setCustomCourses([...customCourses, course]);
+    setCurrentCourse(course);
+    setNewCourseName('');
+  };
+
+  // Saved items tell whether the course is with the kitchen; a course with only unsent items is new
+  const getCourseStatus = (courseNumber: number) => {
+    const saved = savedItems.filter(item => item.course_number === courseNumber);
+    if (saved.length === 0) return 'new';
+    return saved.some(item => !item.fired_at) ? 'held' : 'fired';
+  };
+
+  const handleFireCourse = async (course: Course) => {
+    if (!orderId) return;
+    setFiringCourse(course.number);
+    try {
+      const fired = await fireCourse(orderId, course.number);
+      if (fired.length === 0) {
+        toast.info(`${course.name} was already fired`);
+      } else {
+        toast.success(`${course.name} fired`);
+        printCourseFired({
+          orderNumber: order?.order_number || '',
+          tableName: order?.restaurant_tables?.table_number,
+          courseName: course.name,
+          items: fired.map(item => ({
+            productName: item.product_name,
+            qty: item.qty,
+            specialInstructions: item.special_instructions || undefined,
+            kitchenStation: item.kitchen_station,
+            categoryName: products.find(p => p.id === item.product_id)?.category_name,
+          })),
+          firedBy: profile?.full_name,
+          timestamp: new Date(),
+        }).catch(error => console.error('Failed to print course fired chit:', error));
+      }
+      loadOrder();
+    } catch (error) {
+      console.error('Error firing course:', error);
+      toast.error(`Failed to fire ${course.name}`);
+    } finally {
+      setFiringCourse(null);
+    }
   };
 
   if (loading) {
@@ -371,22 +582,70 @@ const WaiterOrder = () => {
             </div>
             <Badge variant="secondary">{order?.status}</Badge>
           </div>
-          <Button
-            variant="default"
-            size="sm"
-            className="relative"
-            onClick={() => setShowCart(!showCart)}
-          >
-            <ShoppingCart className="h-4 w-4 mr-2" />
-            {orderItems.length > 0 && (
-              <Badge variant="destructive" className="absolute -top-2 -right-2 h-5 w-5 p-0 flex items-center justify-center">
-                {orderItems.length}
-              </Badge>
+          <div className="flex items-center gap-2">
+            {savedItems.length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => setSplitDialogOpen(true)}>
+                <SplitSquareHorizontal className="h-4 w-4 mr-2" />
+                Split Bill
+              </Button>
             )}
-          </Button>
+            {savedItems.length > 0 && order?.status !== 'paid' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSettleDialogOpen(true)}
+                disabled={savedItems.length !== orderItems.length}
+                title={savedItems.length !== orderItems.length ? 'Send new items to the kitchen first' : undefined}
+              >
+                <Wallet className="h-4 w-4 mr-2" />
+                Settle
+              </Button>
+            )}
+            <Button
+              variant="default"
+              size="sm"
+              className="relative"
+              onClick={() => setShowCart(!showCart)}
+            >
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              {orderItems.length > 0 && (
+                <Badge variant="destructive" className="absolute -top-2 -right-2 h-5 w-5 p-0 flex items-center justify-center">
+                  {orderItems.length}
+                </Badge>
+              )}
+            </Button>
+          </div>
         </div>
       </AppHeader>
 
+      {order && (
+        <SplitBillDialog
+          open={splitDialogOpen}
+          onOpenChange={setSplitDialogOpen}
+          orderId={order.id}
+          orderNumber={order.order_number}
+          tableNumber={order.restaurant_tables?.table_number}
+          guestCount={order.guest_count}
+          discountAmount={Number(order.discount_amount) || 0}
+          items={billedItems}
+          onChanged={loadOrder}
+        />
+      )}
+
+      <TenderDialog
+        open={settleDialogOpen}
+        onOpenChange={setSettleDialogOpen}
+        total={billTotal}
+        onConfirm={settleOrder}
+      />
+
+      <PaymentIntentDialog
+        open={!!cardPayment}
+        amount={cardPayment?.amount ?? 0}
+        intent={cardPayment?.intent ?? null}
+        onCancel={cancelCardPayment}
+      />
+
       {selectedProductForCustomization && (
         <>
           <ModifierSelector
@@ -478,7 +737,7 @@ const WaiterOrder = () => {
                       </div>
                       <span className="font-semibold text-sm line-clamp-2">{product.name}</span>
                       <span className="text-lg font-bold text-primary mt-2">
-                        R{product.price.toFixed(2)}
+                        {formatMoney(product.price)}
                       </span>
                     </Button>
                   );
@@ -505,6 +764,36 @@ const WaiterOrder = () => {
                     Hide
                   </Button>
                 </div>
+                <div className="flex flex-wrap items-center gap-2 pt-2">
+                  <span className="text-xs text-muted-foreground">Add to:</span>
+                  {ticketCourses.map(course => (
+                    <Button
+                      key={course.number}
+                      size="sm"
+                      variant={currentCourse.number === course.number ? 'default' : 'outline'}
+                      className="h-7 text-xs"
+                      onClick={() => setCurrentCourse(course)}
+                    >
+                      {course.name}
+                    </Button>
+                  ))}
+                  <Input
+                    value={newCourseName}
+                    onChange={(e) => setNewCourseName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addCustomCourse()}
+                    placeholder="Custom course"
+                    className="h-7 w-32 text-xs"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={addCustomCourse}
+                    disabled={!newCourseName.trim()}
+                  >
+                    <Plus className="h-3 w-3" />
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent className="flex-1 overflow-y-auto space-y-3">
                 {orderItems.length === 0 ? (
@@ -517,76 +806,136 @@ const WaiterOrder = () => {
                   </div>
                 ) : (
                   <>
-                    {orderItems.map((item, index) => (
-                      <Card key={index} className="border-l-4 border-l-primary">
-                        <CardContent className="p-3 space-y-2">
-                          <div className="flex items-start gap-2">
-                            <div className="flex-1 min-w-0">
-                              <p className="font-medium text-sm line-clamp-1">{item.product_name}</p>
-                              <p className="text-xs text-muted-foreground">
-                                R{item.price_at_order.toFixed(2)} each
-                              </p>
-                              {item.modifiers && item.modifiers.length > 0 && (
-                                <div className="mt-1 space-y-0.5">
-                                  {item.modifiers.map((mod, i) => (
-                                    <p key={i} className="text-xs text-muted-foreground">
-                                      + {mod.modifier_name}
-                                      {mod.price_adjustment !== 0 && ` (+R${mod.price_adjustment.toFixed(2)})`}
+                    {ticketCourses.filter(course => orderItems.some(item => item.course_number === course.number)).map(course => {
+                      const status = getCourseStatus(course.number);
+                      return (
+                        <div key={course.number} className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <p className="text-sm font-semibold">{course.name}</p>
+                              <Badge variant={status === 'fired' ? 'default' : status === 'held' ? 'secondary' : 'outline'} className="capitalize">
+                                {status}
+                              </Badge>
+                            </div>
+                            {isCourseHeld(course.number, orderItems) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7"
+                                onClick={() => handleFireCourse(course)}
+                                disabled={firingCourse !== null}
+                              >
+                                <Flame className="h-3 w-3 mr-1" />
+                                Fire {course.name}
+                              </Button>
+                            )}
+                          </div>
+                          {orderItems.map((item, index) => item.course_number !== course.number ? null : (
+                            <Card key={index} className="border-l-4 border-l-primary">
+                              <CardContent className="p-3 space-y-2">
+                                <div className="flex items-start gap-2">
+                                  <div className="flex-1 min-w-0">
+                                    <p className="font-medium text-sm line-clamp-1">{item.product_name}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {formatMoney(item.price_at_order)} each
                                     </p>
-                                  ))}
+                                    {item.modifiers && item.modifiers.length > 0 && (
+                                      <div className="mt-1 space-y-0.5">
+                                        {item.modifiers.map((mod, i) => (
+                                          <p key={i} className="text-xs text-muted-foreground">
+                                            + {mod.modifier_name}
+                                            {mod.price_adjustment !== 0 && ` (+${formatMoney(mod.price_adjustment)})`}
+                                          </p>
+                                        ))}
+                                      </div>
+                                    )}
+                                    {item.combo_selections && item.combo_selections.length > 0 && (
+                                      <div className="mt-1 space-y-0.5">
+                                        <p className="text-xs font-semibold text-primary">Combo:</p>
+                                        {item.combo_selections.map((sel, i) => (
+                                          <p key={i} className="text-xs text-muted-foreground">
+                                            • {sel.selected_product_name} ×{sel.qty}
+                                          </p>
+                                        ))}
+                                      </div>
+                                    )}
+                                  </div>
+                                  <div className="flex flex-col items-end gap-2">
+                                    <div className="flex items-center gap-1 bg-muted rounded-md">
+                                      <Button
+                                        size="icon"
+                                        variant="ghost"
+                                        className="h-7 w-7"
+                                        onClick={() => updateItemQty(index, item.qty - 1)}
+                                      >
+                                        <Minus className="h-3 w-3" />
+                                      </Button>
+                                      <span className="w-8 text-center font-medium text-sm">{item.qty}</span>
+                                      <Button
+                                        size="icon"
+                                        variant="ghost"
+                                        className="h-7 w-7"
+                                        onClick={() => updateItemQty(index, item.qty + 1)}
+                                      >
+                                        <Plus className="h-3 w-3" />
+                                      </Button>
+                                    </div>
+                                    <p className="font-bold text-sm">{formatMoney(item.line_total)}</p>
+                                  </div>
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    className="h-7 w-7 text-destructive"
+                                    onClick={() => removeItem(index)}
+                                  >
+                                    <Trash2 className="h-3 w-3" />
+                                  </Button>
                                 </div>
-                              )}
-                              {item.combo_selections && item.combo_selections.length > 0 && (
-                                <div className="mt-1 space-y-0.5">
-                                  <p className="text-xs font-semibold text-primary">Combo:</p>
-                                  {item.combo_selections.map((sel, i) => (
-                                    <p key={i} className="text-xs text-muted-foreground">
-                                      • {sel.selected_product_name} ×{sel.qty}
-                                    </p>
-                                  ))}
+                                <div className="flex gap-2">
+                                  <Textarea
+                                    placeholder="Special instructions..."
+                                    value={item.special_instructions || ''}
+                                    onChange={(e) => updateItemInstructions(index, e.target.value)}
+                                    className="text-xs min-h-[50px] flex-1"
+                                  />
+                                  <div className="flex flex-col gap-1">
+                                    <Select
+                                      value={String(item.course_number)}
+                                      onValueChange={(value) => updateItemCourse(index, value)}
+                                      disabled={!!item.id}
+                                    >
+                                      <SelectTrigger className="h-8 w-24 text-xs">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {ticketCourses.map(c => (
+                                          <SelectItem key={c.number} value={String(c.number)}>{c.name}</SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                    <Select
+                                      value={item.seat_number ? String(item.seat_number) : 'none'}
+                                      onValueChange={(value) => updateItemSeat(index, value)}
+                                      disabled={!!item.id}
+                                    >
+                                      <SelectTrigger className="h-8 w-24 text-xs">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        <SelectItem value="none">No seat</SelectItem>
+                                        {Array.from({ length: Math.max(order?.guest_count || 0, 8) }, (_, i) => (
+                                          <SelectItem key={i} value={String(i + 1)}>Seat {i + 1}</SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
                                 </div>
-                              )}
-                            </div>
-                            <div className="flex flex-col items-end gap-2">
-                              <div className="flex items-center gap-1 bg-muted rounded-md">
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  className="h-7 w-7"
-                                  onClick={() => updateItemQty(index, item.qty - 1)}
-                                >
-                                  <Minus className="h-3 w-3" />
-                                </Button>
-                                <span className="w-8 text-center font-medium text-sm">{item.qty}</span>
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  className="h-7 w-7"
-                                  onClick={() => updateItemQty(index, item.qty + 1)}
-                                >
-                                  <Plus className="h-3 w-3" />
-                                </Button>
-                              </div>
-                              <p className="font-bold text-sm">R{item.line_total.toFixed(2)}</p>
-                            </div>
-                            <Button
-                              size="icon"
-                              variant="ghost"
-                              className="h-7 w-7 text-destructive"
-                              onClick={() => removeItem(index)}
-                            >
-                              <Trash2 className="h-3 w-3" />
-                            </Button>
-                          </div>
-                          <Textarea
-                            placeholder="Special instructions..."
-                            value={item.special_instructions || ''}
-                            onChange={(e) => updateItemInstructions(index, e.target.value)}
-                            className="text-xs min-h-[50px]"
-                          />
-                        </CardContent>
-                      </Card>
-                    ))}
+                              </CardContent>
+                            </Card>
+                          ))}
+                        </div>
+                      );
+                    })}
                   </>
                 )}
               </CardContent>
@@ -594,9 +943,15 @@ const WaiterOrder = () => {
                 <>
                   <Separator />
                   <CardContent className="pt-4 space-y-3">
+                    {promotionDiscounts.map(promotion => (
+                      <div key={promotion.promotionId} className="flex justify-between items-center text-sm text-green-600 dark:text-green-400">
+                        <span>{promotion.name}</span>
+                        <span>-{formatMoney(promotion.amount)}</span>
+                      </div>
+                    ))}
                     <div className="flex justify-between items-center text-lg font-bold">
                       <span>Total</span>
-                      <span className="text-primary">R{calculateTotal().toFixed(2)}</span>
+                      <span className="text-primary">{formatMoney(calculateTotal())}</span>
                     </div>
                     <Button
                       className="w-full"
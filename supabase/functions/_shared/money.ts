@@ -0,0 +1,87 @@
+// Integer-cent money helpers for edge functions; same rules as src/lib/money.ts so receipts,
+// sales and provider charges agree to the cent
+
+export type RoundingMode = 'half-up' | 'half-even' | 'down' | 'up';
+
+export interface MoneyFormat {
+  currency: string;
+  locale: string;
+  symbolPosition: 'before' | 'after';
+  decimalSeparator: string;
+}
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = {
+  currency: 'ZAR',
+  locale: 'en-ZA',
+  symbolPosition: 'before',
+  decimalSeparator: '.',
+};
+
+// Store settings row (store_settings table) to the format used here
+export const toMoneyFormat = (settings: {
+  currency_code: string;
+  locale: string;
+  symbol_position: string;
+  decimal_separator: string;
+} | null): MoneyFormat => settings
+  ? {
+      currency: settings.currency_code,
+      locale: settings.locale,
+      symbolPosition: settings.symbol_position === 'after' ? 'after' : 'before',
+      decimalSeparator: settings.decimal_separator,
+    }
+  : DEFAULT_MONEY_FORMAT;
+
+// Drops binary noise such as 1.005 * 100 = 100.49999999999999 before rounding
+const clean = (value: number) => Number(value.toPrecision(15));
+
+export const roundCents = (cents: number, mode: RoundingMode = 'half-up'): number => {
+  const value = clean(cents);
+  const sign = value < 0 ? -1 : 1;
+  const abs = Math.abs(value);
+  const floor = Math.floor(abs);
+  const fraction = clean(abs - floor);
+
+  let rounded: number;
+  switch (mode) {
+    case 'down':
+      rounded = floor;
+      break;
+    case 'up':
+      rounded = fraction > 0 ? floor + 1 : floor;
+      break;
+    case 'half-even':
+      rounded = fraction > 0.5 || (fraction === 0.5 && floor % 2 === 1) ? floor + 1 : floor;
+      break;
+    default:
+      rounded = fraction >= 0.5 ? floor + 1 : floor;
+  }
+  return sign * rounded || 0;
+};
+
+export const toCents = (amount: number, mode: RoundingMode = 'half-up') =>
+  roundCents(Number(amount || 0) * 100, mode);
+
+export const fromCents = (cents: number) => cents / 100;
+
+export const roundMoney = (amount: number, mode: RoundingMode = 'half-up') => fromCents(toCents(amount, mode));
+
+export const getCurrencySymbol = (format: MoneyFormat = DEFAULT_MONEY_FORMAT) => {
+  try {
+    return new Intl.NumberFormat(format.locale, { style: 'currency', currency: format.currency, currencyDisplay: 'narrowSymbol' })
+      .formatToParts(0)
+      .find(part => part.type === 'currency')?.value || format.currency;
+  } catch {
+    return format.currency;
+  }
+};
+
+// ASCII digits so the text prints on any thermal printer, e.g. "R1234.50", "-R5.00" or "12,50 €"
+export const formatMoney = (amount: number, format: MoneyFormat = DEFAULT_MONEY_FORMAT) => {
+  const cents = toCents(amount);
+  const abs = Math.abs(cents);
+  const sign = cents < 0 ? '-' : '';
+  const digits = `${Math.floor(abs / 100)}${format.decimalSeparator}${String(abs % 100).padStart(2, '0')}`;
+  const symbol = getCurrencySymbol(format);
+  return format.symbolPosition === 'after' ? `${sign}${digits} ${symbol}` : `${sign}${symbol}${digits}`;
+};
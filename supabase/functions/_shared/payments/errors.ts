@@ -0,0 +1,19 @@
+import { PaymentErrorCode, PaymentProviderError } from './types.ts';
+
+// What the cashier sees; raw provider errors never leave the edge function
+const CASHIER_MESSAGES: Record<PaymentErrorCode, string> = {
+  declined: 'Card declined. Ask the customer for another card or payment method.',
+  insufficient_funds: 'Insufficient funds. Ask the customer for another card or payment method.',
+  card_expired: 'Card expired. Ask the customer for another card.',
+  timeout: 'The payment timed out. Check the payment status before trying again.',
+  provider_unavailable: 'The payment provider is not responding. Try again or take another payment method.',
+  not_configured: 'Card payments are not set up. Ask a manager to check the payment settings.',
+  invalid_request: 'The payment could not be started. Check the amount and try again.',
+  unknown: 'Payment processing failed. Try again or take another payment method.',
+};
+
+export const toCashierMessage = (code: PaymentErrorCode | undefined) =>
+  CASHIER_MESSAGES[code ?? 'unknown'];
+
+export const getErrorCode = (error: unknown): PaymentErrorCode =>
+  error instanceof PaymentProviderError ? error.code : 'unknown';
@@ -0,0 +1,47 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { PaymentProvider } from './types.ts';
+import { yocoProvider } from './yoco.ts';
+import { snapscanProvider } from './snapscan.ts';
+import { simulatorProvider } from './simulator.ts';
+import { DEFAULT_MONEY_FORMAT } from '../money.ts';
+
+export const PAYMENT_PROVIDERS: Record<string, PaymentProvider> = {
+  [yocoProvider.name]: yocoProvider,
+  [snapscanProvider.name]: snapscanProvider,
+  [simulatorProvider.name]: simulatorProvider,
+};
+
+export interface ActivePaymentSettings {
+  provider: PaymentProvider;
+  currency: string;
+}
+
+/**
+ * The provider admins picked in payment_settings, charging in the store's currency. PAYMENT_PROVIDER
+ * overrides the provider so a local stack can run against the simulator without touching the database.
+ */
+export const resolvePaymentSettings = async (supabase: SupabaseClient): Promise<ActivePaymentSettings> => {
+  const [{ data }, { data: store }] = await Promise.all([
+    supabase
+      .from('payment_settings')
+      .select('active_provider')
+      .order('created_at')
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('store_settings')
+      .select('currency_code')
+      .order('created_at')
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const name = Deno.env.get('PAYMENT_PROVIDER') || data?.active_provider || yocoProvider.name;
+  return {
+    provider: PAYMENT_PROVIDERS[name] ?? yocoProvider,
+    currency: store?.currency_code || DEFAULT_MONEY_FORMAT.currency,
+  };
+};
+
+// Intents keep the provider that created them, even if admins switch providers mid-payment
+export const getProviderByName = (name: string): PaymentProvider | undefined => PAYMENT_PROVIDERS[name];
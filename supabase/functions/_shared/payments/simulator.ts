@@ -0,0 +1,58 @@
+import { PaymentProvider, WebhookEventType } from './types.ts';
+import { verifyStandardWebhook } from './webhooks.ts';
+import { toCents } from '../money.ts';
+
+// Local simulator: approves after a short delay. The cents of the amount pick a failure to rehearse:
+// .13 declined, .14 insufficient funds, .15 expired card.
+// Webhooks use the Standard Webhooks signature with SIMULATOR_WEBHOOK_SECRET and a body of
+// { "id", "type", "transaction_id", "amount" } so refunds and chargebacks can be rehearsed too.
+const APPROVAL_DELAY_MS = 4000;
+
+const SIMULATOR_EVENTS: WebhookEventType[] = [
+  'payment.succeeded',
+  'payment.failed',
+  'refund.succeeded',
+  'refund.failed',
+  'chargeback',
+];
+
+const SIMULATED_FAILURES = {
+  13: 'declined',
+  14: 'insufficient_funds',
+  15: 'card_expired',
+} as const;
+
+export const simulatorProvider: PaymentProvider = {
+  name: 'simulator',
+  paymentMethod: 'card',
+  createIntent: async ({ intentId }) => ({
+    providerId: `sim_${intentId}`,
+    status: 'pending',
+  }),
+  getIntent: async (intent) => {
+    const elapsed = Date.now() - new Date(intent.created_at).getTime();
+    if (elapsed < APPROVAL_DELAY_MS) {
+      return { providerId: intent.provider_transaction_id, status: elapsed < APPROVAL_DELAY_MS / 2 ? 'pending' : 'processing' };
+    }
+
+    const cents = toCents(Number(intent.amount)) % 100;
+    const failure = SIMULATED_FAILURES[cents as keyof typeof SIMULATED_FAILURES];
+    if (failure) {
+      return { providerId: intent.provider_transaction_id, status: 'failed', errorCode: failure };
+    }
+    return { providerId: intent.provider_transaction_id, status: 'completed', cardBrand: 'visa', cardLastFour: '4242' };
+  },
+  cancelIntent: async () => {},
+  refund: async ({ refundId }) => ({ providerRefundId: `sim_refund_${refundId}` }),
+  verifyWebhook: (req, rawBody) => verifyStandardWebhook(req, rawBody, Deno.env.get('SIMULATOR_WEBHOOK_SECRET')),
+  parseWebhook: (req, rawBody) => {
+    const event = JSON.parse(rawBody);
+    if (!SIMULATOR_EVENTS.includes(event?.type) || typeof event.transaction_id !== 'string') return null;
+    return {
+      eventId: event.id || req.headers.get('webhook-id'),
+      type: event.type,
+      providerId: event.transaction_id,
+      amountCents: typeof event.amount === 'number' ? event.amount : undefined,
+    };
+  },
+};
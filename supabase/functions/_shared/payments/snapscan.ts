@@ -0,0 +1,113 @@
+import { PaymentProvider, PaymentProviderError } from './types.ts';
+import { verifyHexHmac } from './webhooks.ts';
+import { toCents } from '../money.ts';
+
+// SnapScan-style QR payments: the POS shows a QR code carrying the amount and our intent id as
+// the merchant reference, and we poll the merchant API for a payment with that reference.
+const SNAPSCAN_API = 'https://pos.snapscan.io/merchant/api/v1';
+
+const getConfig = () => {
+  const snapCode = Deno.env.get('SNAPSCAN_SNAPCODE');
+  const apiKey = Deno.env.get('SNAPSCAN_API_KEY');
+  if (!snapCode || !apiKey) {
+    throw new PaymentProviderError('not_configured', 'SNAPSCAN_SNAPCODE or SNAPSCAN_API_KEY is not set');
+  }
+  return { snapCode, apiKey };
+};
+
+export const snapscanProvider: PaymentProvider = {
+  name: 'snapscan',
+  paymentMethod: 'qr',
+  createIntent: async ({ intentId, amountCents }) => {
+    const { snapCode } = getConfig();
+    const params = new URLSearchParams({ id: intentId, amount: String(amountCents), strict: 'true' });
+    return {
+      providerId: intentId,
+      status: 'pending',
+      actionUrl: `https://pos.snapscan.io/qr/${snapCode}?${params}`,
+      qrImageUrl: `https://pos.snapscan.io/qr/${snapCode}.png?${params}&snap_code_size=240`,
+    };
+  },
+  getIntent: async (intent) => {
+    const { apiKey } = getConfig();
+    let response: Response;
+    try {
+      response = await fetch(`${SNAPSCAN_API}/payments?merchantReference=${intent.provider_transaction_id}`, {
+        headers: { 'Authorization': `Basic ${btoa(`${apiKey}:`)}` },
+      });
+    } catch {
+      throw new PaymentProviderError('provider_unavailable', 'SnapScan unreachable');
+    }
+    if (!response.ok) {
+      return { providerId: intent.provider_transaction_id, status: 'pending' };
+    }
+
+    const payments: { status: string; requiredAmount: number }[] = await response.json();
+    const expectedCents = toCents(Number(intent.amount));
+    if (payments.some(p => p.status === 'completed' && p.requiredAmount === expectedCents)) {
+      return { providerId: intent.provider_transaction_id, status: 'completed' };
+    }
+    if (payments.length > 0 && payments.every(p => p.status === 'error')) {
+      return { providerId: intent.provider_transaction_id, status: 'failed', errorCode: 'declined' };
+    }
+    return { providerId: intent.provider_transaction_id, status: payments.length > 0 ? 'processing' : 'pending' };
+  },
+  cancelIntent: async () => {
+    // Strict QR codes only accept the exact amount once; closing the intent is enough
+  },
+  // Refunds go against SnapScan's own payment id, so look it up by our merchant reference first
+  refund: async ({ providerId, refundId, amountCents }) => {
+    const { apiKey } = getConfig();
+    const headers = { 'Authorization': `Basic ${btoa(`${apiKey}:`)}`, 'Content-Type': 'application/json' };
+
+    let payments: { id: number; status: string }[] = [];
+    try {
+      const response = await fetch(`${SNAPSCAN_API}/payments?merchantReference=${providerId}`, { headers });
+      if (response.ok) payments = await response.json();
+    } catch {
+      throw new PaymentProviderError('provider_unavailable', 'SnapScan unreachable');
+    }
+    const payment = payments.find(p => p.status === 'completed');
+    if (!payment) {
+      throw new PaymentProviderError('invalid_request', `No completed SnapScan payment for ${providerId}`);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${SNAPSCAN_API}/refunds`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ paymentId: payment.id, amount: amountCents, merchantReference: refundId }),
+      });
+    } catch {
+      throw new PaymentProviderError('provider_unavailable', 'SnapScan unreachable');
+    }
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new PaymentProviderError(
+        response.status >= 500 ? 'provider_unavailable' : 'invalid_request',
+        `SnapScan rejected refund (${response.status})`
+      );
+    }
+    return { providerRefundId: data?.id != null ? String(data.id) : null };
+  },
+  // SnapScan signs the raw form body and sends it as "Authorization: SnapScan signature=<hex>"
+  verifyWebhook: (req, rawBody) => verifyHexHmac(
+    req.headers.get('Authorization')?.match(/signature=([0-9a-f]+)/i)?.[1] ?? null,
+    rawBody,
+    Deno.env.get('SNAPSCAN_WEBHOOK_KEY')
+  ),
+  parseWebhook: (_req, rawBody) => {
+    const payload = new URLSearchParams(rawBody).get('payload');
+    const payment = payload ? JSON.parse(payload) : null;
+    if (!payment?.merchantReference || !payment.id) return null;
+    if (payment.status !== 'completed' && payment.status !== 'error') return null;
+    return {
+      // One payment can notify more than once as its status moves
+      eventId: `${payment.id}:${payment.status}`,
+      type: payment.status === 'completed' ? 'payment.succeeded' : 'payment.failed',
+      providerId: payment.merchantReference,
+      amountCents: payment.requiredAmount,
+    };
+  },
+};
@@ -0,0 +1,98 @@
+// Shared contract between the process-payment router and every payment provider
+
+export type IntentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export type PaymentErrorCode =
+  | 'declined'
+  | 'insufficient_funds'
+  | 'card_expired'
+  | 'timeout'
+  | 'provider_unavailable'
+  | 'not_configured'
+  | 'invalid_request'
+  | 'unknown';
+
+export interface CreateIntentRequest {
+  intentId: string;
+  amountCents: number;
+  currency: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface IntentResult {
+  providerId: string;
+  status: IntentStatus;
+  // Where the customer or terminal completes the payment, when the provider needs one
+  actionUrl?: string;
+  // QR providers: image the customer scans from the POS screen
+  qrImageUrl?: string;
+  cardBrand?: string;
+  cardLastFour?: string;
+  errorCode?: PaymentErrorCode;
+}
+
+export interface IntentRecord {
+  id: string;
+  provider_transaction_id: string;
+  amount: number;
+  currency: string;
+  created_at: string;
+}
+
+export interface RefundRequest {
+  // payment_transactions.provider_transaction_id of the charge being refunded
+  providerId: string;
+  // Our refunds.id; providers that support it dedupe on this so a retry cannot refund twice
+  refundId: string;
+  amountCents: number;
+  currency: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface RefundResult {
+  // The provider's id for the refund, when it gives one
+  providerRefundId: string | null;
+}
+
+export type WebhookEventType =
+  | 'payment.succeeded'
+  | 'payment.failed'
+  | 'refund.succeeded'
+  | 'refund.failed'
+  | 'chargeback';
+
+// A provider webhook reduced to what payment-webhook needs to move a transaction
+export interface WebhookEvent {
+  // Provider's delivery id; deliveries with an id we have already seen are skipped
+  eventId: string;
+  type: WebhookEventType;
+  // Matches payment_transactions.provider_transaction_id of the charge the event is about
+  providerId: string;
+  amountCents?: number;
+  cardBrand?: string;
+  cardLastFour?: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  // Recorded on payment_transactions.payment_method
+  paymentMethod: 'card' | 'qr';
+  createIntent(request: CreateIntentRequest): Promise<IntentResult>;
+  getIntent(intent: IntentRecord): Promise<IntentResult>;
+  cancelIntent(intent: IntentRecord): Promise<void>;
+  // Sends money back to the charge; throws PaymentProviderError when the provider rejects it
+  refund(request: RefundRequest): Promise<RefundResult>;
+  // Providers that push events implement both; verifyWebhook runs before the body is trusted
+  verifyWebhook?(req: Request, rawBody: string): Promise<boolean>;
+  // Returns null for events we do not track, which are acknowledged and dropped
+  parseWebhook?(req: Request, rawBody: string): WebhookEvent | null;
+}
+
+export class PaymentProviderError extends Error {
+  code: PaymentErrorCode;
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
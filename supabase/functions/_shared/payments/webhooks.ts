@@ -0,0 +1,50 @@
+import { encode as base64Encode, decode as base64Decode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { encode as hexEncode } from "https://deno.land/std@0.168.0/encoding/hex.ts";
+
+// Reject deliveries older than this to stop replayed requests
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+
+// Constant-time comparison so a signature cannot be guessed byte by byte
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+const hmacSha256 = async (key: Uint8Array, message: string) => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(message)));
+};
+
+/**
+ * Verify a Standard Webhooks delivery (webhook-id / webhook-timestamp / webhook-signature headers),
+ * as sent by Yoco and by our simulator.
+ */
+export async function verifyStandardWebhook(req: Request, rawBody: string, secret: string | undefined): Promise<boolean> {
+  const id = req.headers.get('webhook-id');
+  const timestamp = req.headers.get('webhook-timestamp');
+  const signatures = req.headers.get('webhook-signature');
+
+  if (!secret || !id || !timestamp || !signatures) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > MAX_CLOCK_SKEW_SECONDS) return false;
+
+  const signed = await hmacSha256(base64Decode(secret.replace(/^whsec_/, '')), `${id}.${timestamp}.${rawBody}`);
+  const expected = base64Encode(signed);
+
+  // The header may carry several space-separated "v1,<signature>" entries during key rotation
+  return signatures.split(' ').some(entry => safeEqual(entry.split(',')[1] || '', expected));
+}
+
+/**
+ * Verify a delivery signed with a hex HMAC-SHA256 of the raw body, as sent by SnapScan.
+ */
+export async function verifyHexHmac(signature: string | null, rawBody: string, secret: string | undefined): Promise<boolean> {
+  if (!secret || !signature) return false;
+  const signed = await hmacSha256(new TextEncoder().encode(secret), rawBody);
+  return safeEqual(signature, new TextDecoder().decode(hexEncode(signed)));
+}
@@ -0,0 +1,118 @@
+import { IntentStatus, PaymentProvider, PaymentProviderError, WebhookEventType } from './types.ts';
+import { verifyStandardWebhook } from './webhooks.ts';
+
+// Yoco Checkouts: the customer pays on Yoco's hosted page at actionUrl. Yoco card machines are not
+// driven from here; terminal payments are not supported by this provider.
+const YOCO_API = 'https://payments.yoco.com/api/checkouts';
+
+const yocoHeaders = () => {
+  const key = Deno.env.get('YOCO_SECRET_KEY');
+  if (!key) throw new PaymentProviderError('not_configured', 'YOCO_SECRET_KEY is not set');
+  return {
+    'Authorization': `Bearer ${key}`,
+    'Content-Type': 'application/json',
+  };
+};
+
+const mapYocoStatus = (status: string | undefined): IntentStatus => {
+  switch (status) {
+    case 'completed':
+      return 'completed';
+    case 'processing':
+      return 'processing';
+    case 'cancelled':
+    case 'expired':
+      return 'cancelled';
+    default:
+      return 'pending';
+  }
+};
+
+// Yoco event types we act on. Yoco reports chargebacks through settlement reports rather than
+// webhooks, so those reach us through the reconciliation import instead.
+const YOCO_EVENTS: Record<string, WebhookEventType> = {
+  'payment.succeeded': 'payment.succeeded',
+  'payment.failed': 'payment.failed',
+  'refund.succeeded': 'refund.succeeded',
+  'refund.failed': 'refund.failed',
+};
+
+const request = async (url: string, init: RequestInit) => {
+  try {
+    return await fetch(url, init);
+  } catch {
+    throw new PaymentProviderError('provider_unavailable', 'Yoco unreachable');
+  }
+};
+
+export const yocoProvider: PaymentProvider = {
+  name: 'yoco_checkout',
+  paymentMethod: 'card',
+  createIntent: async ({ intentId, amountCents, currency, metadata }) => {
+    const response = await request(YOCO_API, {
+      method: 'POST',
+      headers: { ...yocoHeaders(), 'Idempotency-Key': intentId },
+      body: JSON.stringify({
+        amount: amountCents,
+        currency,
+        externalId: intentId,
+        metadata: { ...metadata, intent_id: intentId },
+      }),
+    });
+    const data = await response.json();
+    if (!response.ok || !data?.id) {
+      throw new PaymentProviderError(
+        response.status === 401 || response.status === 403 ? 'not_configured'
+          : response.status >= 500 ? 'provider_unavailable' : 'invalid_request',
+        `Yoco rejected checkout (${response.status})`
+      );
+    }
+    return { providerId: data.id, status: mapYocoStatus(data.status), actionUrl: data.redirectUrl };
+  },
+  // The payment-webhook function carries card details; polling only tells us how far the checkout got
+  getIntent: async (intent) => {
+    const response = await request(`${YOCO_API}/${intent.provider_transaction_id}`, { headers: yocoHeaders() });
+    if (!response.ok) {
+      return { providerId: intent.provider_transaction_id, status: 'pending' };
+    }
+    const data = await response.json();
+    return { providerId: intent.provider_transaction_id, status: mapYocoStatus(data.status) };
+  },
+  cancelIntent: async () => {
+    // Yoco checkouts expire on their own; the intent is simply closed on our side
+  },
+  refund: async ({ providerId, refundId, amountCents, metadata }) => {
+    const response = await request(`${YOCO_API}/${providerId}/refund`, {
+      method: 'POST',
+      headers: { ...yocoHeaders(), 'Idempotency-Key': refundId },
+      body: JSON.stringify({ amount: amountCents, metadata: { ...metadata, refund_id: refundId } }),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || data?.status === 'failed') {
+      throw new PaymentProviderError(
+        response.status === 401 || response.status === 403 ? 'not_configured'
+          : response.status >= 500 ? 'provider_unavailable' : 'invalid_request',
+        `Yoco rejected refund (${response.status})`
+      );
+    }
+    return { providerRefundId: data?.refundId ?? null };
+  },
+  verifyWebhook: (req, rawBody) => verifyStandardWebhook(req, rawBody, Deno.env.get('YOCO_WEBHOOK_SECRET')),
+  parseWebhook: (req, rawBody) => {
+    const event = JSON.parse(rawBody);
+    const type = YOCO_EVENTS[event?.type];
+    const payment = event?.payload;
+    const checkoutId = payment?.metadata?.checkoutId;
+    if (!type || !checkoutId) return null;
+
+    const card = payment.paymentMethodDetails?.card;
+    return {
+      eventId: event.id || req.headers.get('webhook-id'),
+      type,
+      providerId: checkoutId,
+      amountCents: typeof payment.amount === 'number' ? payment.amount : undefined,
+      cardBrand: card?.scheme,
+      cardLastFour: typeof card?.maskedCard === 'string' ? card.maskedCard.slice(-4) : undefined,
+    };
+  },
+};
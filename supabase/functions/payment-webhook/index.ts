@@ -0,0 +1,187 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getProviderByName } from "../_shared/payments/registry.ts";
+import { WebhookEvent } from "../_shared/payments/types.ts";
+import { toCents } from "../_shared/money.ts";
+
+// Providers call this directly, so there is no user JWT; requests are trusted only by their signature.
+// Each provider is registered with its own URL: /functions/v1/payment-webhook?provider=<name>
+const jsonHeaders = { 'Content-Type': 'application/json' };
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { headers: jsonHeaders, status });
+
+const UNIQUE_VIOLATION = '23505';
+
+const findCharge = (supabase: SupabaseClient, provider: string, providerId: string) =>
+  supabase
+    .from('payment_transactions')
+    .select('id, amount, status, metadata')
+    .eq('payment_provider', provider)
+    .eq('provider_transaction_id', providerId)
+    .is('refund_id', null)
+    .maybeSingle();
+
+async function applyEvent(supabase: SupabaseClient, provider: string, event: WebhookEvent) {
+  const now = new Date().toISOString();
+
+  switch (event.type) {
+    case 'payment.succeeded':
+    case 'payment.failed': {
+      const succeeded = event.type === 'payment.succeeded';
+      // Only open intents move; a late delivery leaves a settled intent untouched
+      const { error } = await supabase
+        .from('payment_transactions')
+        .update({
+          status: succeeded ? 'completed' : 'failed',
+          card_brand: event.cardBrand ?? null,
+          card_last_four: event.cardLastFour ?? null,
+          error_message: succeeded ? null : 'Payment failed at the provider',
+          processed_at: now,
+        })
+        .eq('payment_provider', provider)
+        .eq('provider_transaction_id', event.providerId)
+        .in('status', ['pending', 'processing']);
+      if (error) throw error;
+      return;
+    }
+
+    case 'refund.succeeded': {
+      const { data: charge, error } = await findCharge(supabase, provider, event.providerId);
+      if (error) throw error;
+      if (!charge || charge.status !== 'completed') return;
+
+      // Partial refunds accumulate until they cover the charge
+      const metadata = (charge.metadata ?? {}) as Record<string, unknown>;
+      const chargeCents = toCents(Number(charge.amount));
+      const refundedCents = Number(metadata.refunded_cents ?? 0) + (event.amountCents ?? chargeCents);
+      const { error: updateError } = await supabase
+        .from('payment_transactions')
+        .update({
+          status: refundedCents >= chargeCents ? 'refunded' : 'completed',
+          metadata: { ...metadata, refunded_cents: refundedCents },
+        })
+        .eq('id', charge.id);
+      if (updateError) throw updateError;
+      return;
+    }
+
+    case 'refund.failed': {
+      // The refund was accepted when requested but bounced later; reopen it for a retry from Sales History
+      const { data: refundTransaction, error } = await supabase
+        .from('payment_transactions')
+        .select('id, refund_id')
+        .eq('payment_provider', provider)
+        .eq('status', 'refunded')
+        .not('refund_id', 'is', null)
+        .eq('metadata->>charge_id', event.providerId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      if (!refundTransaction) return;
+
+      const { error: updateError } = await supabase
+        .from('payment_transactions')
+        .update({ status: 'failed', error_message: 'Refund failed at the provider', processed_at: now })
+        .eq('id', refundTransaction.id);
+      if (updateError) throw updateError;
+
+      const { error: refundError } = await supabase
+        .from('refunds')
+        .update({ provider_status: 'failed' })
+        .eq('id', refundTransaction.refund_id);
+      if (refundError) throw refundError;
+      return;
+    }
+
+    case 'chargeback': {
+      const { error } = await supabase
+        .from('payment_transactions')
+        .update({ status: 'charged_back', error_message: 'Charged back by the cardholder', processed_at: now })
+        .eq('payment_provider', provider)
+        .eq('provider_transaction_id', event.providerId)
+        .is('refund_id', null)
+        .in('status', ['completed', 'refunded']);
+      if (error) throw error;
+      return;
+    }
+  }
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return respond({ error: 'Method not allowed' }, 405);
+  }
+
+  const provider = getProviderByName(new URL(req.url).searchParams.get('provider') ?? '');
+  if (!provider?.verifyWebhook || !provider.parseWebhook) {
+    return respond({ error: 'Unknown payment provider' }, 404);
+  }
+
+  try {
+    const rawBody = await req.text();
+
+    if (!(await provider.verifyWebhook(req, rawBody))) {
+      return respond({ error: 'Invalid signature' }, 401);
+    }
+
+    const event = provider.parseWebhook(req, rawBody);
+    if (!event) {
+      // Acknowledge events we do not track so the provider stops retrying them
+      return respond({ received: true });
+    }
+    if (!event.eventId) {
+      return respond({ error: 'Missing event id' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase configuration');
+      return respond({ error: 'Server configuration error' }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Claim the event first; a redelivery hits the unique key and is acknowledged without reprocessing
+    const { data: claimed, error: claimError } = await supabase
+      .from('payment_webhook_events')
+      .insert({
+        provider: provider.name,
+        event_id: event.eventId,
+        event_type: event.type,
+        provider_transaction_id: event.providerId,
+        payload: event,
+      })
+      .select('id')
+      .single();
+
+    if (claimError) {
+      if (claimError.code === UNIQUE_VIOLATION) {
+        return respond({ received: true, duplicate: true });
+      }
+      console.error('Database error recording webhook event');
+      return respond({ error: 'Update failed' }, 500);
+    }
+
+    try {
+      await applyEvent(supabase, provider.name, event);
+    } catch (error) {
+      // Release the claim so the provider's retry is processed
+      await supabase.from('payment_webhook_events').delete().eq('id', claimed.id);
+      throw error;
+    }
+
+    await supabase
+      .from('payment_webhook_events')
+      .update({ processed_at: new Date().toISOString() })
+      .eq('id', claimed.id);
+
+    return respond({ received: true });
+  } catch (error) {
+    console.error('Webhook error:', error instanceof Error ? error.message : 'Unknown error');
+    return respond({ error: 'Webhook processing failed' }, 500);
+  }
+});
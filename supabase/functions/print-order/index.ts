@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { formatMoney, MoneyFormat, toMoneyFormat } from "../_shared/money.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -50,14 +51,55 @@ interface OrderData {
   items: OrderItem[];
   subtotal: number;
   tax: number;
+  // VAT per rate; net + tax is what was paid at that rate
+  tax_breakdown?: { rate: number; net: number; tax: number }[];
+  tax_inclusive?: boolean;
+  vat_number?: string | null;
+  is_tax_invoice?: boolean;
   total: number;
   payment_method: string;
   cashier_name?: string;
   created_at: string;
 }
 
-// Generate ESC/POS receipt for customer
-function generateCustomerReceipt(order: OrderData, branding: any): string {
+interface TaxSettings {
+  prices_include_tax: boolean;
+  vat_number: string | null;
+  tax_invoice_threshold: number;
+}
+
+interface StoreSettings {
+  currency_code: string;
+  locale: string;
+  symbol_position: string;
+  decimal_separator: string;
+  date_format: string;
+  time_format: string;
+  timezone: string;
+}
+
+// How amounts and dates are printed; the defaults match a store that has never been configured
+interface StoreFormat {
+  money: MoneyFormat;
+  dateFormat: string;
+  timeFormat: string;
+  timezone: string;
+}
+
+const toStoreFormat = (settings: StoreSettings | null): StoreFormat => ({
+  money: toMoneyFormat(settings),
+  dateFormat: settings?.date_format || 'dd/MM/yyyy',
+  timeFormat: settings?.time_format || 'HH:mm',
+  timezone: settings?.timezone || 'Africa/Johannesburg',
+});
+
+// Generate ESC/POS receipt for customer; store tax settings fill in anything the till did not send
+function generateCustomerReceipt(order: OrderData, branding: any, taxSettings: TaxSettings | null, format: StoreFormat): string {
+  const inclusive = order.tax_inclusive ?? taxSettings?.prices_include_tax ?? true;
+  const vatNumber = order.vat_number || taxSettings?.vat_number;
+  const isTaxInvoice = order.is_tax_invoice ??
+    (taxSettings ? order.total > Number(taxSettings.tax_invoice_threshold) : false);
+
   let receipt = ESCPOS.INIT;
   
   // Header
@@ -77,11 +119,17 @@ function generateCustomerReceipt(order: OrderData, branding: any): string {
   if (branding?.phone) {
     receipt += 'Tel: ' + branding.phone + ESCPOS.LINE_FEED;
   }
+  if (vatNumber) {
+    receipt += 'VAT No: ' + vatNumber + ESCPOS.LINE_FEED;
+  }
   receipt += ESCPOS.LINE_FEED;
   
   // Order info
   receipt += '--------------------------------' + ESCPOS.LINE_FEED;
   receipt += ESCPOS.BOLD_ON;
+  if (isTaxInvoice) {
+    receipt += 'TAX INVOICE' + ESCPOS.LINE_FEED;
+  }
   receipt += 'Receipt #' + order.order_number.slice(-8) + ESCPOS.LINE_FEED;
   receipt += ESCPOS.BOLD_OFF;
   receipt += order.order_type.toUpperCase().replace('_', ' ') + ESCPOS.LINE_FEED;
@@ -91,7 +139,7 @@ function generateCustomerReceipt(order: OrderData, branding: any): string {
   if (order.customer_name) {
     receipt += 'Customer: ' + order.customer_name + ESCPOS.LINE_FEED;
   }
-  receipt += formatDateTime(order.created_at) + ESCPOS.LINE_FEED;
+  receipt += formatDateTime(order.created_at, format) + ESCPOS.LINE_FEED;
   if (order.cashier_name) {
     receipt += 'Served by: ' + order.cashier_name + ESCPOS.LINE_FEED;
   }
@@ -112,14 +160,14 @@ function generateCustomerReceipt(order: OrderData, branding: any): string {
       for (const mod of item.modifiers) {
         receipt += '  + ' + mod.modifier_name;
         if (mod.price_adjustment > 0) {
-          receipt += ' (+R' + mod.price_adjustment.toFixed(2) + ')';
+          receipt += ' (+' + formatMoney(mod.price_adjustment, format.money) + ')';
         }
         receipt += ESCPOS.LINE_FEED;
       }
     }
     
     // Price aligned right
-    const priceStr = 'R' + item.line_total.toFixed(2);
+    const priceStr = formatMoney(item.line_total, format.money);
     receipt += '                        ' + priceStr + ESCPOS.LINE_FEED;
   }
   
@@ -127,12 +175,19 @@ function generateCustomerReceipt(order: OrderData, branding: any): string {
   receipt += '--------------------------------' + ESCPOS.LINE_FEED;
   
   // Totals
-  receipt += 'Subtotal:          R' + order.subtotal.toFixed(2) + ESCPOS.LINE_FEED;
-  receipt += 'VAT (incl):        R' + order.tax.toFixed(2) + ESCPOS.LINE_FEED;
+  receipt += 'Subtotal:          ' + formatMoney(order.subtotal, format.money) + ESCPOS.LINE_FEED;
+  if (order.tax_breakdown && order.tax_breakdown.length > 0) {
+    for (const line of order.tax_breakdown) {
+      receipt += 'VAT ' + Number(line.rate) + '%' + (inclusive ? ' (incl)' : '') + ' on ' + formatMoney(line.net, format.money) +
+        ': ' + formatMoney(line.tax, format.money) + ESCPOS.LINE_FEED;
+    }
+  } else {
+    receipt += (inclusive ? 'VAT (incl):        ' : 'VAT:               ') + formatMoney(order.tax, format.money) + ESCPOS.LINE_FEED;
+  }
   receipt += '--------------------------------' + ESCPOS.LINE_FEED;
   receipt += ESCPOS.BOLD_ON;
   receipt += ESCPOS.DOUBLE_HEIGHT;
-  receipt += 'TOTAL:             R' + order.total.toFixed(2) + ESCPOS.LINE_FEED;
+  receipt += 'TOTAL:             ' + formatMoney(order.total, format.money) + ESCPOS.LINE_FEED;
   receipt += ESCPOS.NORMAL_SIZE;
   receipt += ESCPOS.BOLD_OFF;
   receipt += 'Payment: ' + order.payment_method.toUpperCase() + ESCPOS.LINE_FEED;
@@ -144,7 +199,7 @@ function generateCustomerReceipt(order: OrderData, branding: any): string {
   receipt += ESCPOS.BOLD_ON;
   receipt += (branding?.footer_text || 'Thank you for your business!') + ESCPOS.LINE_FEED;
   receipt += ESCPOS.BOLD_OFF;
-  receipt += 'VAT included where applicable' + ESCPOS.LINE_FEED;
+  receipt += (inclusive ? 'VAT included where applicable' : 'VAT added at checkout') + ESCPOS.LINE_FEED;
   receipt += ESCPOS.LINE_FEED;
   receipt += ESCPOS.LINE_FEED;
   receipt += ESCPOS.LINE_FEED;
@@ -154,7 +209,7 @@ function generateCustomerReceipt(order: OrderData, branding: any): string {
 }
 
 // Generate ESC/POS kitchen slip
-function generateKitchenSlip(order: OrderData): string {
+function generateKitchenSlip(order: OrderData, format: StoreFormat): string {
   let slip = ESCPOS.INIT;
   
   // Big header
@@ -207,7 +262,7 @@ function generateKitchenSlip(order: OrderData): string {
   slip += '================================' + ESCPOS.LINE_FEED;
   slip += ESCPOS.ALIGN_CENTER;
   slip += 'Items: ' + order.items.length + ' | Qty: ' + order.items.reduce((sum, i) => sum + i.qty, 0) + ESCPOS.LINE_FEED;
-  slip += formatDateTime(order.created_at) + ESCPOS.LINE_FEED;
+  slip += formatDateTime(order.created_at, format) + ESCPOS.LINE_FEED;
   slip += ESCPOS.LINE_FEED;
   slip += ESCPOS.LINE_FEED;
   slip += ESCPOS.LINE_FEED;
@@ -216,9 +271,43 @@ function generateKitchenSlip(order: OrderData): string {
   return slip;
 }
 
-function formatDateTime(isoString: string): string {
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Formats with the date-fns style patterns offered in store settings (yyyy, MMM, MM, dd, d, HH, h, mm, a),
+// using the wall clock in the store's timezone rather than the edge function's UTC clock
+function formatDateTime(isoString: string, format: StoreFormat): string {
   const date = new Date(isoString);
-  return date.toLocaleDateString('en-ZA') + ', ' + date.toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit' });
+  const options: Intl.DateTimeFormatOptions = {
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  };
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', { ...options, timeZone: format.timezone }).formatToParts(date);
+  } catch {
+    // Unknown zone in settings: print UTC rather than fail the print
+    parts = new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' }).formatToParts(date);
+  }
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const hour = get('hour');
+  const tokens: Record<string, string> = {
+    yyyy: String(get('year')),
+    MMM: MONTHS[get('month') - 1],
+    MM: pad(get('month')),
+    dd: pad(get('day')),
+    d: String(get('day')),
+    HH: pad(hour),
+    h: String(hour % 12 || 12),
+    mm: pad(get('minute')),
+    a: hour < 12 ? 'AM' : 'PM',
+  };
+  const pattern = format.dateFormat + ' ' + format.timeFormat;
+  return pattern.replace(/yyyy|MMM|MM|dd|d|HH|h|mm|a/g, token => tokens[token]);
 }
 
 // Send raw ESC/POS data to printer via TCP (port 9100)
@@ -346,9 +435,24 @@ serve(async (req) => {
       .limit(1)
       .single();
 
+    const { data: taxSettings } = await supabase
+      .from('tax_settings')
+      .select('prices_include_tax, vat_number, tax_invoice_threshold')
+      .order('created_at')
+      .limit(1)
+      .maybeSingle();
+
+    const { data: storeSettings } = await supabase
+      .from('store_settings')
+      .select('currency_code, locale, symbol_position, decimal_separator, date_format, time_format, timezone')
+      .order('created_at')
+      .limit(1)
+      .maybeSingle();
+    const storeFormat = toStoreFormat(storeSettings);
+
     // Generate print data
-    const customerReceiptData = generateCustomerReceipt(order_data, branding);
-    const kitchenSlipData = generateKitchenSlip(order_data);
+    const customerReceiptData = generateCustomerReceipt(order_data, branding, taxSettings, storeFormat);
+    const kitchenSlipData = generateKitchenSlip(order_data, storeFormat);
 
     const results: {
       receipt: { success: boolean; error?: string };
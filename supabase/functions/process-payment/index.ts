@@ -0,0 +1,323 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { IntentRecord, IntentResult } from "../_shared/payments/types.ts";
+import { getErrorCode, toCashierMessage } from "../_shared/payments/errors.ts";
+import { getProviderByName, resolvePaymentSettings } from "../_shared/payments/registry.ts";
+import { roundMoney, toCents } from "../_shared/money.ts";
+
+// Strict CORS configuration
+const getAllowedOrigins = (): string[] => {
+  const origins = Deno.env.get('ALLOWED_ORIGINS');
+  if (origins) {
+    return origins.split(',').map(o => o.trim());
+  }
+  return [
+    'https://lovable.dev',
+    'https://*.lovable.dev',
+    'http://localhost:5173',
+    'http://localhost:3000',
+  ];
+};
+
+const getCorsHeaders = (origin: string | null): Record<string, string> => {
+  const allowedOrigins = getAllowedOrigins();
+  const isAllowed = origin && allowedOrigins.some(allowed => {
+    if (allowed.includes('*')) {
+      const pattern = new RegExp('^' + allowed.replace('*', '.*') + '$');
+      return pattern.test(origin);
+    }
+    return allowed === origin;
+  });
+  
+  return {
+    'Access-Control-Allow-Origin': isAllowed && origin ? origin : allowedOrigins[0],
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+    'X-XSS-Protection': '1; mode=block',
+  };
+};
+
+// Input validation
+function validatePaymentInput(data: unknown): { valid: boolean; error?: string; sanitized?: { amount: number; metadata?: Record<string, unknown>; sale_id?: string; order_id?: string } } {
+  if (!data || typeof data !== 'object') {
+    return { valid: false, error: 'Invalid request body' };
+  }
+
+  const { amount, metadata, sale_id, order_id } = data as Record<string, unknown>;
+
+  // Validate amount
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+    return { valid: false, error: 'Amount must be a valid number' };
+  }
+  
+  if (amount <= 0) {
+    return { valid: false, error: 'Amount must be positive' };
+  }
+  
+  if (amount > 1000000) { // Max 1 million in the store currency
+    return { valid: false, error: 'Amount exceeds maximum limit' };
+  }
+
+  // Validate sale_id if provided (UUID format)
+  if (sale_id !== undefined && sale_id !== null) {
+    if (typeof sale_id !== 'string') {
+      return { valid: false, error: 'Invalid sale_id format' };
+    }
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(sale_id)) {
+      return { valid: false, error: 'Invalid sale_id format' };
+    }
+  }
+
+  // Dine-in tables are paid against their order, which already exists
+  if (order_id !== undefined && order_id !== null) {
+    if (typeof order_id !== 'string' || !uuidRegex.test(order_id)) {
+      return { valid: false, error: 'Invalid order_id format' };
+    }
+  }
+
+  return {
+    valid: true,
+    sanitized: {
+      amount: roundMoney(amount),
+      metadata: metadata && typeof metadata === 'object' ? metadata as Record<string, unknown> : undefined,
+      sale_id: sale_id as string | undefined,
+      order_id: order_id as string | undefined,
+    }
+  };
+}
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Payment router. The POS creates an intent with whichever provider admins selected, polls it until the
+// result is known, and only commits the sale once it is completed. Provider webhooks can settle it first.
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only allow POST method
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Method not allowed' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 405 }
+    );
+  }
+
+  const respond = (body: Record<string, unknown>, status = 200) =>
+    new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status });
+
+  try {
+    // Authenticate the request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return respond({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      console.error('Missing Supabase configuration');
+      return respond({ success: false, error: 'Server configuration error' }, 500);
+    }
+    
+    // Create client with user's token to verify authentication
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } }
+    });
+
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+    
+    if (authError || !user) {
+      return respond({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    // Create service role client for database operations
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Verify user has cashier or admin role
+    const { data: roleCheck } = await supabase.rpc('has_role', { 
+      _user_id: user.id, 
+      _role: 'cashier' 
+    });
+    
+    const { data: adminCheck } = await supabase.rpc('has_role', { 
+      _user_id: user.id, 
+      _role: 'admin' 
+    });
+
+    if (!roleCheck && !adminCheck) {
+      return respond({ success: false, error: 'Insufficient permissions' }, 403);
+    }
+
+    // Parse and validate request body
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return respond({ success: false, error: 'Invalid request body' }, 400);
+    }
+
+    const action = typeof body?.action === 'string' ? body.action : 'create';
+
+    if (action === 'create') {
+      const validation = validatePaymentInput(body);
+      if (!validation.valid || !validation.sanitized) {
+        return respond({ success: false, error: validation.error, error_code: 'invalid_request' }, 400);
+      }
+
+      const { amount, metadata, sale_id, order_id } = validation.sanitized;
+      const { provider, currency } = await resolvePaymentSettings(supabase);
+      const intentId = crypto.randomUUID();
+
+      // The sale does not exist yet; commit_sale links the intent to it through metadata.sale_id.
+      // Table payments name their order instead, and settling the order claims the intent.
+      const intentMetadata = { ...metadata, sale_id, order_id, processed_by: user.id };
+
+      let result: IntentResult;
+      try {
+        result = await provider.createIntent({
+          intentId,
+          amountCents: toCents(amount),
+          currency,
+          metadata: intentMetadata,
+        });
+      } catch (error) {
+        console.error(`${provider.name} error creating intent:`, error instanceof Error ? error.message : 'Unknown error');
+        const errorCode = getErrorCode(error);
+        return respond({ success: false, error: toCashierMessage(errorCode), error_code: errorCode }, 502);
+      }
+
+      if (result.status === 'failed') {
+        return respond({ success: false, error: toCashierMessage(result.errorCode), error_code: result.errorCode ?? 'unknown' }, 400);
+      }
+
+      const { error: dbError } = await supabase
+        .from('payment_transactions')
+        .insert({
+          id: intentId,
+          order_id: order_id ?? null,
+          amount,
+          currency,
+          payment_provider: provider.name,
+          payment_method: provider.paymentMethod,
+          status: result.status,
+          provider_transaction_id: result.providerId,
+          metadata: { ...intentMetadata, action_url: result.actionUrl ?? null, qr_image_url: result.qrImageUrl ?? null },
+        });
+
+      if (dbError) {
+        console.error('Database error saving payment intent');
+        return respond({ success: false, error: 'Payment processing failed' }, 500);
+      }
+
+      return respond({
+        success: true,
+        transaction_id: intentId,
+        provider: provider.name,
+        payment_method: provider.paymentMethod,
+        status: result.status,
+        action_url: result.actionUrl ?? null,
+        qr_image_url: result.qrImageUrl ?? null,
+      });
+    }
+
+    const transactionId = body?.transaction_id;
+    if (typeof transactionId !== 'string' || !uuidRegex.test(transactionId)) {
+      return respond({ success: false, error: 'Invalid transaction_id format' }, 400);
+    }
+
+    const { data: intent } = await supabase
+      .from('payment_transactions')
+      .select('id, payment_provider, provider_transaction_id, amount, currency, created_at, status, card_brand, card_last_four, error_message, metadata')
+      .eq('id', transactionId)
+      .maybeSingle();
+
+    // Cashiers can only follow their own intents
+    const owner = (intent?.metadata as Record<string, unknown> | null)?.processed_by;
+    if (!intent || (owner !== user.id && !adminCheck)) {
+      return respond({ success: false, error: 'Payment not found' }, 404);
+    }
+
+    const provider = getProviderByName(intent.payment_provider);
+    if (!provider) {
+      return respond({ success: false, error: toCashierMessage('not_configured'), error_code: 'not_configured' }, 500);
+    }
+
+    const isOpen = intent.status === 'pending' || intent.status === 'processing';
+
+    if (action === 'cancel') {
+      if (isOpen) {
+        await provider.cancelIntent(intent as IntentRecord);
+        await supabase
+          .from('payment_transactions')
+          .update({ status: 'cancelled', processed_at: new Date().toISOString() })
+          .eq('id', intent.id)
+          .in('status', ['pending', 'processing']);
+      }
+      return respond({ success: true, transaction_id: intent.id, status: isOpen ? 'cancelled' : intent.status });
+    }
+
+    if (action !== 'status') {
+      return respond({ success: false, error: 'Unknown action' }, 400);
+    }
+
+    // Already settled by the webhook or an earlier poll
+    if (!isOpen) {
+      return respond({
+        success: true,
+        transaction_id: intent.id,
+        status: intent.status,
+        card_brand: intent.card_brand,
+        card_last_four: intent.card_last_four,
+        error: intent.error_message,
+      });
+    }
+
+    let result: IntentResult;
+    try {
+      result = await provider.getIntent(intent as IntentRecord);
+    } catch (error) {
+      // The POS keeps polling; a provider hiccup is not a failed payment
+      console.error(`${provider.name} error checking intent:`, error instanceof Error ? error.message : 'Unknown error');
+      result = { providerId: intent.provider_transaction_id, status: intent.status as IntentResult['status'] };
+    }
+
+    if (result.status !== intent.status) {
+      const settled = result.status !== 'pending' && result.status !== 'processing';
+      await supabase
+        .from('payment_transactions')
+        .update({
+          status: result.status,
+          card_brand: result.cardBrand ?? intent.card_brand,
+          card_last_four: result.cardLastFour ?? intent.card_last_four,
+          error_message: result.errorCode ? toCashierMessage(result.errorCode) : null,
+          processed_at: settled ? new Date().toISOString() : null,
+        })
+        .eq('id', intent.id)
+        .in('status', ['pending', 'processing']);
+    }
+
+    return respond({
+      success: true,
+      transaction_id: intent.id,
+      status: result.status,
+      card_brand: result.cardBrand ?? intent.card_brand,
+      card_last_four: result.cardLastFour ?? intent.card_last_four,
+      error: result.errorCode ? toCashierMessage(result.errorCode) : null,
+      error_code: result.errorCode ?? null,
+    });
+  } catch (error) {
+    console.error('Payment processing error:', error instanceof Error ? error.message : 'Unknown error');
+    
+    return respond({ success: false, error: 'Payment processing failed' }, 500);
+  }
+});
@@ -0,0 +1,291 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { fromCents, toCents } from "../_shared/money.ts";
+import { getErrorCode } from "../_shared/payments/errors.ts";
+import { getProviderByName } from "../_shared/payments/registry.ts";
+import { PaymentErrorCode } from "../_shared/payments/types.ts";
+
+// Strict CORS configuration
+const getAllowedOrigins = (): string[] => {
+  const origins = Deno.env.get('ALLOWED_ORIGINS');
+  if (origins) {
+    return origins.split(',').map(o => o.trim());
+  }
+  return [
+    'https://lovable.dev',
+    'https://*.lovable.dev',
+    'http://localhost:5173',
+    'http://localhost:3000',
+  ];
+};
+
+const getCorsHeaders = (origin: string | null): Record<string, string> => {
+  const allowedOrigins = getAllowedOrigins();
+  const isAllowed = origin && allowedOrigins.some(allowed => {
+    if (allowed.includes('*')) {
+      const pattern = new RegExp('^' + allowed.replace('*', '.*') + '$');
+      return pattern.test(origin);
+    }
+    return allowed === origin;
+  });
+  
+  return {
+    'Access-Control-Allow-Origin': isAllowed && origin ? origin : allowedOrigins[0],
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+    'X-XSS-Protection': '1; mode=block',
+  };
+};
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A run that claimed a refund and then died releases it after this long
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Sends a recorded card refund back to the charges it came from, through each charge's payment provider.
+// The refund is spread newest charge first, never asking a charge for more than it has left.
+// The refund itself is written by the process_refund RPC; this only moves the money and logs the result.
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Method not allowed' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 405 }
+    );
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      console.error('Missing Supabase configuration');
+      return new Response(
+        JSON.stringify({ success: false, error: 'Server configuration error' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      );
+    }
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } }
+    });
+
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Refunds need an admin or supervisor
+    const { data: adminCheck } = await supabase.rpc('has_role', {
+      _user_id: user.id,
+      _role: 'admin'
+    });
+
+    const { data: supervisorCheck } = await supabase.rpc('has_role', {
+      _user_id: user.id,
+      _role: 'supervisor'
+    });
+
+    if (!adminCheck && !supervisorCheck) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Insufficient permissions' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid request body' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const refundId = (body as Record<string, unknown> | null)?.refund_id;
+    if (typeof refundId !== 'string' || !uuidRegex.test(refundId)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid refund_id format' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const { data: refund } = await supabase
+      .from('refunds')
+      .select('id, sale_id, order_id, amount, refund_method, provider_status')
+      .eq('id', refundId)
+      .maybeSingle();
+
+    if (!refund || refund.refund_method !== 'card') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Card refund not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      );
+    }
+
+    // Retries are allowed after a failure, never after a success
+    if (refund.provider_status === 'succeeded') {
+      return new Response(
+        JSON.stringify({ success: true, status: 'succeeded' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      );
+    }
+
+    // Claim the refund so concurrent retries can't both send it; a claim left by a crashed run expires
+    const staleClaim = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+    const { data: claimed } = await supabase
+      .from('refunds')
+      .update({ provider_status: 'processing', provider_claimed_at: new Date().toISOString() })
+      .eq('id', refund.id)
+      .or(`provider_status.in.(pending,failed),and(provider_status.eq.processing,provider_claimed_at.lt.${staleClaim})`)
+      .select('id');
+
+    if (!claimed?.length) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Refund is already being processed' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      );
+    }
+
+    // Card refunds go back through the providers that took the charges, whichever one admins use today
+    const [{ data: charges }, { data: refunded }] = await Promise.all([
+      supabase
+        .from('payment_transactions')
+        .select('provider_transaction_id, payment_provider, payment_method, currency, amount')
+        .eq('sale_id', refund.sale_id)
+        .eq('status', 'completed')
+        .is('refund_id', null)
+        .gt('amount', 0)
+        .not('provider_transaction_id', 'is', null)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('payment_transactions')
+        .select('refund_id, amount, metadata')
+        .eq('sale_id', refund.sale_id)
+        .eq('status', 'refunded'),
+    ]);
+
+    // What each charge has already given back, and how much of this refund a previous attempt sent
+    const refundedByCharge = new Map<string, number>();
+    let alreadySentCents = 0;
+    for (const row of refunded || []) {
+      const chargeId = (row.metadata as Record<string, unknown> | null)?.charge_id as string | undefined;
+      const cents = -toCents(Number(row.amount));
+      if (chargeId) refundedByCharge.set(chargeId, (refundedByCharge.get(chargeId) || 0) + cents);
+      if (row.refund_id === refund.id) alreadySentCents += cents;
+    }
+
+    // Newest charge first, each capped at what it still holds
+    let remainingCents = toCents(Number(refund.amount)) - alreadySentCents;
+    const portions: { charge: NonNullable<typeof charges>[number]; amountCents: number }[] = [];
+    for (const charge of charges || []) {
+      if (remainingCents <= 0) break;
+      if (!getProviderByName(charge.payment_provider)) continue;
+      const available = toCents(Number(charge.amount)) - (refundedByCharge.get(charge.provider_transaction_id!) || 0);
+      const amountCents = Math.min(available, remainingCents);
+      if (amountCents <= 0) continue;
+      portions.push({ charge, amountCents });
+      remainingCents -= amountCents;
+    }
+
+    if (remainingCents > 0) {
+      await supabase.from('refunds').update({ provider_status: 'failed' }).eq('id', refund.id);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Card charges on this sale cannot cover the refund' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 422 }
+      );
+    }
+
+    let succeeded = true;
+    for (const { charge, amountCents } of portions) {
+      const provider = getProviderByName(charge.payment_provider)!;
+      let providerRefundId: string | null = null;
+      let errorCode: PaymentErrorCode | null = null;
+      try {
+        ({ providerRefundId } = await provider.refund({
+          providerId: charge.provider_transaction_id!,
+          // One key per charge, stable across retries of this refund
+          refundId: `${refund.id}:${charge.provider_transaction_id}`,
+          amountCents,
+          currency: charge.currency,
+          metadata: { refund_id: refund.id, sale_id: refund.sale_id, processed_by: user.id },
+        }));
+      } catch (error) {
+        console.error(`${provider.name} error refunding charge:`, error instanceof Error ? error.message : 'Unknown error');
+        errorCode = getErrorCode(error);
+        succeeded = false;
+      }
+
+      const { error: dbError } = await supabase
+        .from('payment_transactions')
+        .insert({
+          sale_id: refund.sale_id,
+          order_id: refund.order_id,
+          refund_id: refund.id,
+          amount: -fromCents(amountCents),
+          currency: charge.currency,
+          payment_provider: provider.name,
+          payment_method: charge.payment_method,
+          status: errorCode === null ? 'refunded' : 'failed',
+          provider_transaction_id: providerRefundId,
+          error_message: errorCode === null ? null : 'Refund rejected by provider',
+          metadata: { charge_id: charge.provider_transaction_id, processed_by: user.id, error_code: errorCode },
+          processed_at: new Date().toISOString(),
+        });
+
+      if (dbError) {
+        console.error('Database error saving refund transaction');
+      }
+    }
+
+    await supabase
+      .from('refunds')
+      .update({ provider_status: succeeded ? 'succeeded' : 'failed' })
+      .eq('id', refund.id);
+
+    if (!succeeded) {
+      // Don't expose raw provider errors to client
+      return new Response(
+        JSON.stringify({ success: false, error: 'Refund processing failed' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, status: 'succeeded' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    );
+  } catch (error) {
+    console.error('Refund processing error:', error instanceof Error ? error.message : 'Unknown error');
+
+    return new Response(
+      JSON.stringify({ success: false, error: 'Refund processing failed' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
@@ -0,0 +1,80 @@
+-- Atomic sale commit: sale, items, inventory adjustments and stock decrement in one transaction.
+-- Keyed on the client-generated sale id so the sync engine can retry safely.
+CREATE OR REPLACE FUNCTION public.commit_sale(_sale jsonb, _items jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale_id uuid := (_sale->>'id')::uuid;
+  _cashier_id uuid := (_sale->>'cashier_id')::uuid;
+  _item jsonb;
+BEGIN
+  -- Cashiers can only commit their own sales; admins can commit any
+  IF _cashier_id IS DISTINCT FROM auth.uid() AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Not allowed to commit sale %', _sale_id USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.sales (
+    id, cashier_id, subtotal, tax_amount, discount_amount, total,
+    payment_method, notes, created_at, synced_at
+  )
+  VALUES (
+    _sale_id,
+    _cashier_id,
+    (_sale->>'subtotal')::numeric,
+    COALESCE((_sale->>'tax_amount')::numeric, 0),
+    COALESCE((_sale->>'discount_amount')::numeric, 0),
+    (_sale->>'total')::numeric,
+    _sale->>'payment_method',
+    _sale->>'notes',
+    COALESCE((_sale->>'created_at')::timestamptz, now()),
+    now()
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  -- Already committed by an earlier attempt: nothing else to do
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    INSERT INTO public.sale_items (
+      id, sale_id, product_id, product_name, product_sku, qty,
+      price_at_sale, cost_at_sale, tax_rate, line_total
+    )
+    VALUES (
+      COALESCE((_item->>'id')::uuid, gen_random_uuid()),
+      _sale_id,
+      (_item->>'product_id')::uuid,
+      _item->>'product_name',
+      _item->>'product_sku',
+      (_item->>'qty')::integer,
+      (_item->>'price_at_sale')::numeric,
+      COALESCE((_item->>'cost_at_sale')::numeric, 0),
+      COALESCE((_item->>'tax_rate')::numeric, 0),
+      (_item->>'line_total')::numeric
+    );
+
+    INSERT INTO public.inventory_adjustments (product_id, user_id, delta_qty, reason, notes)
+    VALUES (
+      (_item->>'product_id')::uuid,
+      _cashier_id,
+      -((_item->>'qty')::integer),
+      'sale',
+      'Sale ' || _sale_id
+    );
+
+    -- Single-statement decrement so concurrent terminals cannot lose updates
+    UPDATE public.products
+    SET stock_qty = GREATEST(0, stock_qty - (_item->>'qty')::integer)
+    WHERE id = (_item->>'product_id')::uuid;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.commit_sale(jsonb, jsonb) TO authenticated;
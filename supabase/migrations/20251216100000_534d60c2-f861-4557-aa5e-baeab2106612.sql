@@ -0,0 +1,100 @@
+-- Delta sync support for offline terminals
+-- Menu tables without updated_at get one so terminals can pull changes since their cursor
+ALTER TABLE public.categories ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+ALTER TABLE public.product_modifiers ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+ALTER TABLE public.combo_components ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE TRIGGER update_categories_updated_at
+BEFORE UPDATE ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_product_modifiers_updated_at
+BEFORE UPDATE ON public.product_modifiers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_combo_components_updated_at
+BEFORE UPDATE ON public.combo_components
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_products_updated_at ON public.products(updated_at);
+CREATE INDEX IF NOT EXISTS idx_categories_updated_at ON public.categories(updated_at);
+CREATE INDEX IF NOT EXISTS idx_modifier_groups_updated_at ON public.modifier_groups(updated_at);
+CREATE INDEX IF NOT EXISTS idx_modifiers_updated_at ON public.modifiers(updated_at);
+CREATE INDEX IF NOT EXISTS idx_product_modifiers_updated_at ON public.product_modifiers(updated_at);
+CREATE INDEX IF NOT EXISTS idx_combo_products_updated_at ON public.combo_products(updated_at);
+CREATE INDEX IF NOT EXISTS idx_combo_components_updated_at ON public.combo_components(updated_at);
+
+-- Tombstones for deleted or deactivated menu rows (hidden rows never reach terminals via RLS)
+CREATE TABLE public.sync_tombstones (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sync_tombstones_deleted_at ON public.sync_tombstones(deleted_at);
+
+ALTER TABLE public.sync_tombstones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view sync tombstones"
+ON public.sync_tombstones FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION public.record_sync_tombstone()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.sync_tombstones (table_name, record_id)
+  VALUES (TG_TABLE_NAME, OLD.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER products_sync_tombstone_delete
+AFTER DELETE ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+
+CREATE TRIGGER products_sync_tombstone_deactivate
+AFTER UPDATE OF is_active ON public.products
+FOR EACH ROW WHEN (OLD.is_active AND NOT NEW.is_active)
+EXECUTE FUNCTION public.record_sync_tombstone();
+
+CREATE TRIGGER categories_sync_tombstone_delete
+AFTER DELETE ON public.categories
+FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+
+CREATE TRIGGER modifier_groups_sync_tombstone_delete
+AFTER DELETE ON public.modifier_groups
+FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+
+CREATE TRIGGER modifier_groups_sync_tombstone_deactivate
+AFTER UPDATE OF is_active ON public.modifier_groups
+FOR EACH ROW WHEN (OLD.is_active AND NOT NEW.is_active)
+EXECUTE FUNCTION public.record_sync_tombstone();
+
+CREATE TRIGGER modifiers_sync_tombstone_delete
+AFTER DELETE ON public.modifiers
+FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+
+CREATE TRIGGER modifiers_sync_tombstone_deactivate
+AFTER UPDATE OF is_available ON public.modifiers
+FOR EACH ROW WHEN (OLD.is_available AND NOT NEW.is_available)
+EXECUTE FUNCTION public.record_sync_tombstone();
+
+CREATE TRIGGER product_modifiers_sync_tombstone_delete
+AFTER DELETE ON public.product_modifiers
+FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+
+CREATE TRIGGER combo_products_sync_tombstone_delete
+AFTER DELETE ON public.combo_products
+FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+
+CREATE TRIGGER combo_components_sync_tombstone_delete
+AFTER DELETE ON public.combo_components
+FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
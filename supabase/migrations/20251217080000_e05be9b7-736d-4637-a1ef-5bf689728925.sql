@@ -0,0 +1,33 @@
+-- Per-terminal offline sync health, reported by each POS after every sync run
+CREATE TABLE public.terminal_sync_status (
+  terminal_id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id),
+  pending_count INTEGER NOT NULL DEFAULT 0,
+  dead_letter_count INTEGER NOT NULL DEFAULT 0,
+  queued_count INTEGER NOT NULL DEFAULT 0,
+  oldest_pending_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_sync_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.terminal_sync_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view terminal sync status"
+ON public.terminal_sync_status FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR user_id = auth.uid());
+
+CREATE POLICY "Staff can report terminal sync status"
+ON public.terminal_sync_status FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Staff can update terminal sync status"
+ON public.terminal_sync_status FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'cashier'::app_role) OR has_role(auth.uid(), 'waiter'::app_role))
+WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER update_terminal_sync_status_updated_at
+BEFORE UPDATE ON public.terminal_sync_status
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,101 @@
+-- Split bills for dine-in orders: seats on items, sub-checks that settle independently
+ALTER TABLE public.order_items ADD COLUMN seat_number INTEGER;
+
+CREATE TABLE public.order_checks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  check_number INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'settled')),
+  settled_at TIMESTAMPTZ,
+  settled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (order_id, check_number)
+);
+
+CREATE INDEX idx_order_checks_order_id ON public.order_checks(order_id);
+
+ALTER TABLE public.order_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view order checks" ON public.order_checks
+  FOR SELECT USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'cashier') OR
+    public.has_role(auth.uid(), 'waiter')
+  );
+
+CREATE POLICY "Staff can manage order checks" ON public.order_checks
+  FOR ALL USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'cashier') OR
+    public.has_role(auth.uid(), 'waiter')
+  );
+
+-- Items split by seat or by item point at their check; even splits leave this empty
+ALTER TABLE public.order_items
+  ADD COLUMN check_id UUID REFERENCES public.order_checks(id) ON DELETE SET NULL;
+
+ALTER TABLE public.payments
+  ADD COLUMN check_id UUID REFERENCES public.order_checks(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_payments_check_id ON public.payments(check_id);
+
+-- Settle one check: record its payment, close it, and mark the order paid once no checks remain open.
+-- Returns true when the order is fully paid.
+CREATE OR REPLACE FUNCTION public.settle_order_check(
+  _check_id uuid,
+  _payment_method text,
+  _tip_amount numeric DEFAULT 0
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _check public.order_checks%ROWTYPE;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to settle check %', _check_id USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _check FROM public.order_checks WHERE id = _check_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Check % not found', _check_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A retried settle must not record a second payment
+  IF _check.status = 'open' THEN
+    INSERT INTO public.payments (order_id, check_id, amount, payment_method, tip_amount, processed_by, notes)
+    VALUES (
+      _check.order_id,
+      _check.id,
+      _check.amount,
+      _payment_method,
+      COALESCE(_tip_amount, 0),
+      auth.uid(),
+      _check.label
+    );
+
+    UPDATE public.order_checks
+    SET status = 'settled', settled_at = now(), settled_by = auth.uid()
+    WHERE id = _check.id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_checks
+    WHERE order_id = _check.order_id AND status = 'open'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.orders SET status = 'paid' WHERE id = _check.order_id;
+  RETURN true;
+END;
+$$;
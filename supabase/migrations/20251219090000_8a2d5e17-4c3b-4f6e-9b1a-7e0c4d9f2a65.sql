@@ -0,0 +1,59 @@
+-- Automatic promotions at checkout
+-- Stackable promotions combine with each other; the rest only apply on their own
+ALTER TABLE public.promotions ADD COLUMN IF NOT EXISTS is_stackable BOOLEAN NOT NULL DEFAULT false;
+
+-- One usage row per promotion per order, so re-evaluating an open order updates rather than re-counts
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promotion_usage_promotion_order
+ON public.promotion_usage(promotion_id, order_id);
+
+-- Record a promotion against an order and bump its usage count in the same statement.
+-- Returns true when this call counted a new use.
+CREATE OR REPLACE FUNCTION public.record_promotion_usage(
+  _promotion_id uuid,
+  _order_id uuid,
+  _discount_applied numeric,
+  _customer_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _inserted boolean;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to record promotion usage' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.promotion_usage (promotion_id, order_id, customer_id, discount_applied)
+  VALUES (_promotion_id, _order_id, _customer_id, _discount_applied)
+  ON CONFLICT (promotion_id, order_id)
+  DO UPDATE SET discount_applied = EXCLUDED.discount_applied
+  RETURNING (xmax = 0) INTO _inserted;
+
+  IF _inserted THEN
+    UPDATE public.promotions
+    SET usage_count = COALESCE(usage_count, 0) + 1
+    WHERE id = _promotion_id;
+  END IF;
+
+  RETURN _inserted;
+END;
+$$;
+
+-- Terminals cache promotions offline; inactive ones are hidden by RLS, so send tombstones
+CREATE INDEX IF NOT EXISTS idx_promotions_updated_at ON public.promotions(updated_at);
+
+CREATE TRIGGER promotions_sync_tombstone_delete
+AFTER DELETE ON public.promotions
+FOR EACH ROW EXECUTE FUNCTION public.record_sync_tombstone();
+
+CREATE TRIGGER promotions_sync_tombstone_deactivate
+AFTER UPDATE OF is_active ON public.promotions
+FOR EACH ROW WHEN (OLD.is_active AND NOT NEW.is_active)
+EXECUTE FUNCTION public.record_sync_tombstone();
@@ -0,0 +1,191 @@
+-- Loyalty points: earn on sales, redeem as a tender, every change recorded in a ledger
+
+-- Single-row programme settings, edited by admins
+CREATE TABLE public.loyalty_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Points earned per R1 paid (excluding any points redeemed on the sale)
+  points_per_rand NUMERIC NOT NULL DEFAULT 1 CHECK (points_per_rand >= 0),
+  -- Rand value of one point when redeemed
+  rand_per_point NUMERIC NOT NULL DEFAULT 0.10 CHECK (rand_per_point > 0),
+  min_redeem_points INTEGER NOT NULL DEFAULT 0 CHECK (min_redeem_points >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.loyalty_settings DEFAULT VALUES;
+
+ALTER TABLE public.loyalty_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage loyalty settings"
+ON public.loyalty_settings FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Staff can view loyalty settings"
+ON public.loyalty_settings FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'cashier'::app_role) OR has_role(auth.uid(), 'waiter'::app_role));
+
+CREATE TRIGGER update_loyalty_settings_updated_at
+BEFORE UPDATE ON public.loyalty_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Points ledger; customers.loyalty_points is the running balance
+CREATE TABLE public.loyalty_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  sale_id UUID REFERENCES public.sales(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('earn', 'redeem', 'adjust')),
+  points INTEGER NOT NULL,
+  balance_after INTEGER NOT NULL,
+  reason TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_loyalty_transactions_customer ON public.loyalty_transactions(customer_id, created_at DESC);
+-- A sale earns and redeems at most once, so replays from offline terminals are no-ops
+CREATE UNIQUE INDEX idx_loyalty_transactions_sale_type
+ON public.loyalty_transactions(sale_id, transaction_type)
+WHERE sale_id IS NOT NULL;
+
+ALTER TABLE public.loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view loyalty transactions"
+ON public.loyalty_transactions FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Staff look customers up by phone without seeing the rest of their record
+CREATE OR REPLACE FUNCTION public.lookup_loyalty_customer(_phone text)
+RETURNS TABLE (id uuid, name text, phone text, loyalty_points integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.name, c.phone, COALESCE(c.loyalty_points, 0)
+  FROM public.customers c
+  WHERE c.phone = _phone
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR has_role(auth.uid(), 'cashier'::app_role)
+      OR has_role(auth.uid(), 'waiter'::app_role)
+    )
+  LIMIT 1
+$$;
+
+-- Earn and redeem points for a committed sale, and roll it into the customer's totals.
+-- Returns the points earned; replaying the same sale changes nothing.
+CREATE OR REPLACE FUNCTION public.record_loyalty_sale(
+  _customer_id uuid,
+  _sale_id uuid,
+  _order_id uuid,
+  _amount_paid numeric,
+  _points_redeemed integer DEFAULT 0
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.loyalty_settings%ROWTYPE;
+  _balance integer;
+  _earned integer := 0;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to record loyalty points' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.loyalty_transactions WHERE sale_id = _sale_id) THEN
+    SELECT COALESCE(SUM(points), 0) INTO _earned
+    FROM public.loyalty_transactions
+    WHERE sale_id = _sale_id AND transaction_type = 'earn';
+    RETURN _earned;
+  END IF;
+
+  SELECT COALESCE(loyalty_points, 0) INTO _balance
+  FROM public.customers WHERE id = _customer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', _customer_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _settings FROM public.loyalty_settings ORDER BY created_at LIMIT 1;
+
+  IF COALESCE(_points_redeemed, 0) > 0 THEN
+    IF _points_redeemed > _balance THEN
+      RAISE EXCEPTION 'Customer % has only % points', _customer_id, _balance USING ERRCODE = '22023';
+    END IF;
+
+    _balance := _balance - _points_redeemed;
+    INSERT INTO public.loyalty_transactions (customer_id, sale_id, order_id, transaction_type, points, balance_after, created_by)
+    VALUES (_customer_id, _sale_id, _order_id, 'redeem', -_points_redeemed, _balance, auth.uid());
+  END IF;
+
+  IF _settings.id IS NOT NULL AND _settings.is_enabled THEN
+    _earned := FLOOR(GREATEST(_amount_paid, 0) * _settings.points_per_rand);
+  END IF;
+
+  IF _earned > 0 THEN
+    _balance := _balance + _earned;
+    INSERT INTO public.loyalty_transactions (customer_id, sale_id, order_id, transaction_type, points, balance_after, created_by)
+    VALUES (_customer_id, _sale_id, _order_id, 'earn', _earned, _balance, auth.uid());
+  END IF;
+
+  UPDATE public.customers
+  SET loyalty_points = _balance,
+      total_orders = COALESCE(total_orders, 0) + 1,
+      total_spent = COALESCE(total_spent, 0) + _amount_paid
+  WHERE id = _customer_id;
+
+  RETURN _earned;
+END;
+$$;
+
+-- Manual corrections by admins; the reason is kept on the ledger row
+CREATE OR REPLACE FUNCTION public.adjust_loyalty_points(
+  _customer_id uuid,
+  _points integer,
+  _reason text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance integer;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can adjust loyalty points' USING ERRCODE = '42501';
+  END IF;
+
+  IF _points = 0 OR COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'An adjustment needs a non-zero amount and a reason' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(loyalty_points, 0) + _points INTO _balance
+  FROM public.customers WHERE id = _customer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', _customer_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _balance < 0 THEN
+    RAISE EXCEPTION 'Adjustment would make the balance negative' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.loyalty_transactions (customer_id, transaction_type, points, balance_after, reason, created_by)
+  VALUES (_customer_id, 'adjust', _points, _balance, btrim(_reason), auth.uid());
+
+  UPDATE public.customers SET loyalty_points = _balance WHERE id = _customer_id;
+
+  RETURN _balance;
+END;
+$$;
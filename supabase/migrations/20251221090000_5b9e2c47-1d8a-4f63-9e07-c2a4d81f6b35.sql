@@ -0,0 +1,3 @@
+-- Supervisors can authorise refunds and voids without full admin access.
+-- Kept in its own migration: a new enum value cannot be used in the transaction that adds it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'supervisor';
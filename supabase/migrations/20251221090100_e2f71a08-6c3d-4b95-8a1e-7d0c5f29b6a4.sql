@@ -0,0 +1,203 @@
+-- Refunds and voids: reverse a completed sale in full or by line, with a reason code and audit trail.
+-- Stock is restored through inventory_adjustments and the money goes back out as negative payments.
+ALTER TABLE public.sales
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'completed'
+    CHECK (status IN ('completed', 'partially_refunded', 'refunded', 'voided')),
+  ADD COLUMN refunded_amount NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.sale_items ADD COLUMN refunded_qty INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE public.refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID REFERENCES public.sales(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  refund_type TEXT NOT NULL CHECK (refund_type IN ('refund', 'void')),
+  reason_code TEXT NOT NULL CHECK (reason_code IN (
+    'customer_request', 'wrong_item', 'quality_issue', 'pricing_error', 'duplicate_sale', 'other'
+  )),
+  reason_notes TEXT,
+  refund_method TEXT NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount >= 0),
+  -- Card refunds are sent to the provider after the refund is recorded
+  provider_status TEXT CHECK (provider_status IN ('pending', 'succeeded', 'failed')),
+  processed_by UUID REFERENCES public.profiles(id) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE public.refund_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id UUID REFERENCES public.refunds(id) ON DELETE CASCADE NOT NULL,
+  sale_item_id UUID REFERENCES public.sale_items(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  product_name TEXT NOT NULL,
+  qty INTEGER NOT NULL CHECK (qty > 0),
+  amount NUMERIC NOT NULL
+);
+
+CREATE INDEX idx_refunds_sale_id ON public.refunds(sale_id);
+CREATE INDEX idx_refunds_created_at ON public.refunds(created_at DESC);
+CREATE INDEX idx_refund_items_refund_id ON public.refund_items(refund_id);
+
+ALTER TABLE public.payments
+  ADD COLUMN refund_id UUID REFERENCES public.refunds(id) ON DELETE SET NULL;
+
+ALTER TABLE public.payment_transactions
+  ADD COLUMN refund_id UUID REFERENCES public.refunds(id) ON DELETE SET NULL;
+
+ALTER TABLE public.eod_sessions ADD COLUMN total_refunds NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refund_items ENABLE ROW LEVEL SECURITY;
+
+-- Refunds are only written through process_refund; cashiers see refunds of their own sales for EOD
+CREATE POLICY "Managers and sale cashier can view refunds" ON public.refunds
+  FOR SELECT USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'supervisor') OR
+    EXISTS (SELECT 1 FROM public.sales WHERE sales.id = refunds.sale_id AND sales.cashier_id = auth.uid())
+  );
+
+CREATE POLICY "Managers can view refund items" ON public.refund_items
+  FOR SELECT USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'supervisor')
+  );
+
+CREATE POLICY "Supervisors can view all sales" ON public.sales
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'supervisor'));
+
+CREATE POLICY "Supervisors can view all sale items" ON public.sale_items
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'supervisor'));
+
+CREATE POLICY "Supervisors can view payments" ON public.payments
+  FOR SELECT USING (public.has_role(auth.uid(), 'supervisor'));
+
+-- Refund a sale. _items is an array of {sale_item_id, qty}; NULL or empty refunds everything still refundable.
+-- A void cancels the whole sale and its order. Line amounts are prorated against the sale total so tax
+-- and discounts come back in the same proportion they were charged. Returns the refund id.
+CREATE OR REPLACE FUNCTION public.process_refund(
+  _sale_id uuid,
+  _reason_code text,
+  _refund_method text,
+  _items jsonb DEFAULT NULL,
+  _reason_notes text DEFAULT NULL,
+  _void boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.sales%ROWTYPE;
+  _sale_item public.sale_items%ROWTYPE;
+  _order_id uuid;
+  _refund_id uuid := gen_random_uuid();
+  _full boolean := _void OR _items IS NULL OR jsonb_array_length(_items) = 0;
+  _item jsonb;
+  _qty integer;
+  _line_amount numeric;
+  _amount numeric := 0;
+  _remaining_qty integer;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'supervisor'::app_role)) THEN
+    RAISE EXCEPTION 'Only admins and supervisors can refund sales' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _sale FROM public.sales WHERE id = _sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', _sale_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _sale.status IN ('refunded', 'voided') THEN
+    RAISE EXCEPTION 'Sale % has already been %', _sale_id, _sale.status USING ERRCODE = '22023';
+  END IF;
+
+  IF _void AND _sale.status <> 'completed' THEN
+    RAISE EXCEPTION 'Sale % is partially refunded and can no longer be voided', _sale_id USING ERRCODE = '22023';
+  END IF;
+
+  SELECT order_id INTO _order_id FROM public.payments
+  WHERE sale_id = _sale_id AND refund_id IS NULL
+  LIMIT 1;
+
+  INSERT INTO public.refunds (id, sale_id, order_id, refund_type, reason_code, reason_notes, refund_method, amount, processed_by)
+  VALUES (_refund_id, _sale_id, _order_id, CASE WHEN _void THEN 'void' ELSE 'refund' END,
+          _reason_code, _reason_notes, _refund_method, 0, auth.uid());
+
+  FOR _sale_item IN SELECT * FROM public.sale_items WHERE sale_id = _sale_id FOR UPDATE
+  LOOP
+    IF _full THEN
+      _qty := _sale_item.qty - _sale_item.refunded_qty;
+    ELSE
+      SELECT COALESCE(SUM((value->>'qty')::integer), 0) INTO _qty
+      FROM jsonb_array_elements(_items)
+      WHERE (value->>'sale_item_id')::uuid = _sale_item.id;
+
+      IF _qty > _sale_item.qty - _sale_item.refunded_qty THEN
+        RAISE EXCEPTION 'Only % of % can still be refunded',
+          _sale_item.qty - _sale_item.refunded_qty, _sale_item.product_name USING ERRCODE = '22023';
+      END IF;
+    END IF;
+
+    CONTINUE WHEN _qty <= 0;
+
+    _line_amount := CASE WHEN _sale.subtotal > 0
+      THEN ROUND(_sale.total * (_sale_item.line_total / _sale_item.qty * _qty) / _sale.subtotal, 2)
+      ELSE 0 END;
+    _amount := _amount + _line_amount;
+
+    INSERT INTO public.refund_items (refund_id, sale_item_id, product_id, product_name, qty, amount)
+    VALUES (_refund_id, _sale_item.id, _sale_item.product_id, _sale_item.product_name, _qty, _line_amount);
+
+    UPDATE public.sale_items SET refunded_qty = refunded_qty + _qty WHERE id = _sale_item.id;
+
+    INSERT INTO public.inventory_adjustments (product_id, user_id, delta_qty, reason, notes)
+    VALUES (_sale_item.product_id, auth.uid(), _qty, CASE WHEN _void THEN 'void' ELSE 'refund' END,
+            'Refund ' || _refund_id || ' of sale ' || _sale_id);
+
+    UPDATE public.products SET stock_qty = stock_qty + _qty WHERE id = _sale_item.product_id;
+  END LOOP;
+
+  IF _amount = 0 AND NOT _full THEN
+    RAISE EXCEPTION 'Nothing selected to refund' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.sale_items WHERE sale_id = _sale_id AND refunded_qty < qty
+  ) INTO _full;
+
+  -- Rounding per line can leave a cent behind; the last refund settles the sale exactly
+  IF _full THEN
+    _amount := _sale.total - _sale.refunded_amount;
+  END IF;
+  _amount := LEAST(_amount, _sale.total - _sale.refunded_amount);
+
+  UPDATE public.refunds
+  SET amount = _amount,
+      provider_status = CASE WHEN _refund_method = 'card' THEN 'pending' END
+  WHERE id = _refund_id;
+
+  UPDATE public.sales
+  SET refunded_amount = refunded_amount + _amount,
+      status = CASE WHEN _void THEN 'voided' WHEN _full THEN 'refunded' ELSE 'partially_refunded' END
+  WHERE id = _sale_id;
+
+  IF _order_id IS NOT NULL THEN
+    INSERT INTO public.payments (order_id, sale_id, refund_id, payment_method, amount, processed_by, notes)
+    VALUES (_order_id, _sale_id, _refund_id, _refund_method, -_amount, auth.uid(),
+            CASE WHEN _void THEN 'Void: ' ELSE 'Refund: ' END || _reason_code);
+
+    IF _void THEN
+      UPDATE public.orders SET status = 'cancelled' WHERE id = _order_id;
+    END IF;
+  END IF;
+
+  RETURN _refund_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_refund(uuid, text, text, jsonb, text, boolean) TO authenticated;
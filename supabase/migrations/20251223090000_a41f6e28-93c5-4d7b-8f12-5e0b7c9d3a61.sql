@@ -0,0 +1,25 @@
+-- Which payment provider the process-payment router dispatches card/QR tenders to
+CREATE TABLE public.payment_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  active_provider TEXT NOT NULL DEFAULT 'yoco' CHECK (active_provider IN ('yoco', 'snapscan', 'simulator')),
+  currency TEXT NOT NULL DEFAULT 'ZAR' CHECK (currency ~ '^[A-Z]{3}$'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.payment_settings DEFAULT VALUES;
+
+ALTER TABLE public.payment_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage payment settings"
+ON public.payment_settings FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Staff can view payment settings"
+ON public.payment_settings FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'cashier'::app_role));
+
+CREATE TRIGGER update_payment_settings_updated_at
+BEFORE UPDATE ON public.payment_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
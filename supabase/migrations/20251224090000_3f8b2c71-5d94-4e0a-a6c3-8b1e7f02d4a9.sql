@@ -0,0 +1,27 @@
+-- Provider webhooks: every delivery is recorded once so redeliveries are not applied twice
+ALTER TABLE public.payment_transactions DROP CONSTRAINT IF EXISTS payment_transactions_status_check;
+ALTER TABLE public.payment_transactions
+  ADD CONSTRAINT payment_transactions_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled', 'refunded', 'charged_back'));
+
+CREATE TABLE public.payment_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  provider_transaction_id TEXT,
+  payload JSONB,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, event_id)
+);
+
+CREATE INDEX idx_payment_webhook_events_transaction
+  ON public.payment_webhook_events(provider, provider_transaction_id);
+
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the payment-webhook function with the service role
+CREATE POLICY "Admins can view payment webhook events"
+ON public.payment_webhook_events FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
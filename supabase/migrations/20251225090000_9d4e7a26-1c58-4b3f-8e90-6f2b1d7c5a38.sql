@@ -0,0 +1,117 @@
+-- Tips: captured per payment (and per bar tab), attributed to the order's waiter, then pooled per shift
+
+-- Bar tabs settle outside the sales flow, so they carry their own tender and tip
+ALTER TABLE public.bar_tabs
+  ADD COLUMN payment_method TEXT,
+  ADD COLUMN tip_amount NUMERIC NOT NULL DEFAULT 0 CHECK (tip_amount >= 0);
+
+-- Single-row pooling rules, edited by admins
+CREATE TABLE public.tip_pool_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- When off, everyone keeps the tips they collected
+  is_enabled BOOLEAN NOT NULL DEFAULT false,
+  -- Share of all tips that goes to kitchen staff, split by hours worked
+  kitchen_percent NUMERIC NOT NULL DEFAULT 0 CHECK (kitchen_percent >= 0 AND kitchen_percent <= 100),
+  -- How front-of-house splits the rest: keep what each collected, or pool by hours worked
+  front_split TEXT NOT NULL DEFAULT 'collected' CHECK (front_split IN ('collected', 'hours')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.tip_pool_settings DEFAULT VALUES;
+
+ALTER TABLE public.tip_pool_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage tip pool settings"
+ON public.tip_pool_settings FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Managers can view tip pool settings"
+ON public.tip_pool_settings FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'supervisor'::app_role));
+
+CREATE TRIGGER update_tip_pool_settings_updated_at
+BEFORE UPDATE ON public.tip_pool_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.eod_sessions ADD COLUMN total_tips NUMERIC NOT NULL DEFAULT 0;
+
+-- Everyone who collected tips or clocked time in the window, with their tips by tender and hours worked.
+-- Tips belong to the order's waiter, falling back to whoever took the payment; bar tab tips to whoever opened the tab.
+-- The pooling itself happens in the client (src/lib/tips.ts) so admins can preview rule changes.
+CREATE OR REPLACE FUNCTION public.get_tip_shift_summary(_start timestamptz, _end timestamptz)
+RETURNS TABLE (
+  employee_id uuid,
+  full_name text,
+  is_kitchen boolean,
+  hours_worked numeric,
+  cash_tips numeric,
+  card_tips numeric,
+  other_tips numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'supervisor'::app_role)) THEN
+    RAISE EXCEPTION 'Not allowed to view tip payouts' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH tips AS (
+    SELECT COALESCE(o.waiter_id, p.processed_by) AS employee_id, p.payment_method, p.tip_amount
+    FROM public.payments p
+    LEFT JOIN public.orders o ON o.id = p.order_id
+    WHERE p.tip_amount > 0
+      AND p.refund_id IS NULL
+      AND p.created_at >= _start AND p.created_at < _end
+    UNION ALL
+    SELECT t.opened_by, t.payment_method, t.tip_amount
+    FROM public.bar_tabs t
+    WHERE t.status = 'settled'
+      AND t.tip_amount > 0
+      AND t.closed_at >= _start AND t.closed_at < _end
+  ),
+  tip_totals AS (
+    SELECT
+      tips.employee_id,
+      SUM(tips.tip_amount) FILTER (WHERE tips.payment_method = 'cash') AS cash_tips,
+      SUM(tips.tip_amount) FILTER (WHERE tips.payment_method = 'card') AS card_tips,
+      SUM(tips.tip_amount) FILTER (WHERE tips.payment_method IS DISTINCT FROM 'cash' AND tips.payment_method IS DISTINCT FROM 'card') AS other_tips
+    FROM tips
+    WHERE tips.employee_id IS NOT NULL
+    GROUP BY tips.employee_id
+  ),
+  hours AS (
+    SELECT
+      tt.employee_id,
+      SUM(COALESCE(
+        tt.total_hours,
+        -- Still clocked in, or clocked out before total_hours was filled in
+        GREATEST(0, EXTRACT(EPOCH FROM (
+          LEAST(COALESCE(tt.clock_out, now()), _end) - tt.clock_in
+          - COALESCE(tt.break_end - tt.break_start, interval '0')
+        )) / 3600)
+      )) AS hours_worked
+    FROM public.time_tracking tt
+    WHERE tt.clock_in >= _start AND tt.clock_in < _end
+    GROUP BY tt.employee_id
+  )
+  SELECT
+    pr.id,
+    pr.full_name,
+    EXISTS (SELECT 1 FROM public.user_roles ur WHERE ur.user_id = pr.id AND ur.role = 'kitchen'::app_role),
+    ROUND(COALESCE(h.hours_worked, 0), 2),
+    COALESCE(tt.cash_tips, 0),
+    COALESCE(tt.card_tips, 0),
+    COALESCE(tt.other_tips, 0)
+  FROM public.profiles pr
+  LEFT JOIN tip_totals tt ON tt.employee_id = pr.id
+  LEFT JOIN hours h ON h.employee_id = pr.id
+  WHERE tt.employee_id IS NOT NULL OR h.employee_id IS NOT NULL
+  ORDER BY pr.full_name;
+END;
+$$;
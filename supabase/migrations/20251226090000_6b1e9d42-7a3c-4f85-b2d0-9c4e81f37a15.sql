@@ -0,0 +1,205 @@
+-- Cash drawer sessions: one per cashier shift, from the opening float to a blind count at close
+
+CREATE TABLE public.cash_drawer_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cashier_id UUID NOT NULL REFERENCES public.profiles(id),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float NUMERIC NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  -- Filled in by close_cash_drawer; the cashier never sees expected_cash
+  expected_cash NUMERIC,
+  counted_cash NUMERIC,
+  -- Denomination (as text) -> quantity counted, e.g. {"200": 3, "0.5": 4}
+  count_breakdown JSONB,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- A cashier has at most one open drawer
+CREATE UNIQUE INDEX idx_cash_drawer_sessions_open ON public.cash_drawer_sessions(cashier_id) WHERE status = 'open';
+
+CREATE TABLE public.cash_drawer_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.cash_drawer_sessions(id) ON DELETE CASCADE,
+  -- drop: cash taken to the safe; pay_in: cash added; pay_out: petty cash paid from the drawer
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('drop', 'pay_in', 'pay_out')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_cash_drawer_movements_session ON public.cash_drawer_movements(session_id);
+
+ALTER TABLE public.eod_sessions ADD COLUMN drawer_session_id UUID REFERENCES public.cash_drawer_sessions(id);
+
+ALTER TABLE public.cash_drawer_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cash_drawer_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Cashiers view own drawers, managers view all"
+ON public.cash_drawer_sessions FOR SELECT
+TO authenticated
+USING (
+  cashier_id = auth.uid() OR
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'supervisor'::app_role)
+);
+
+-- Drawers are opened directly and only ever closed through close_cash_drawer
+CREATE POLICY "Cashiers open own drawer"
+ON public.cash_drawer_sessions FOR INSERT
+TO authenticated
+WITH CHECK (cashier_id = auth.uid() AND status = 'open');
+
+CREATE POLICY "Cashiers view own drawer movements, managers view all"
+ON public.cash_drawer_movements FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'supervisor'::app_role) OR
+  EXISTS (
+    SELECT 1 FROM public.cash_drawer_sessions s
+    WHERE s.id = cash_drawer_movements.session_id AND s.cashier_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Cashiers record movements on own open drawer"
+ON public.cash_drawer_movements FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid() AND
+  EXISTS (
+    SELECT 1 FROM public.cash_drawer_sessions s
+    WHERE s.id = cash_drawer_movements.session_id AND s.cashier_id = auth.uid() AND s.status = 'open'
+  )
+);
+
+CREATE TRIGGER update_cash_drawer_sessions_updated_at
+BEFORE UPDATE ON public.cash_drawer_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- EOD rows now come from close_cash_drawer, which works out expected cash on the server.
+-- Cashiers can no longer write expected or actual cash themselves.
+DROP POLICY IF EXISTS "Cashiers insert own EOD sessions only" ON public.eod_sessions;
+DROP POLICY IF EXISTS "Cashiers update own pending EOD sessions only" ON public.eod_sessions;
+
+CREATE POLICY "Admins update EOD sessions"
+ON public.eod_sessions FOR UPDATE
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Close the caller's drawer with a blind count and submit the shift's EOD for approval.
+-- Expected cash = float + cash tenders and cash tips + pay-ins - pay-outs - drops - cash refunds,
+-- all within the drawer's open window. Returns the new eod_sessions id.
+CREATE OR REPLACE FUNCTION public.close_cash_drawer(_session_id uuid, _count_breakdown jsonb, _notes text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.cash_drawer_sessions%ROWTYPE;
+  _closed_at timestamptz := now();
+  _counted numeric := 0;
+  _denomination record;
+  _cash_tenders numeric;
+  _cash_tips numeric;
+  _legacy_cash numeric;
+  _movements numeric;
+  _cash_refunds numeric;
+  _expected numeric;
+  _total_sales numeric;
+  _total_transactions integer;
+  _total_refunds numeric;
+  _total_tips numeric;
+  _eod_id uuid;
+BEGIN
+  SELECT * INTO _session FROM public.cash_drawer_sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _session.cashier_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Cash drawer not found' USING ERRCODE = '42501';
+  END IF;
+  IF _session.status <> 'open' THEN
+    RAISE EXCEPTION 'This cash drawer is already closed';
+  END IF;
+
+  FOR _denomination IN SELECT key, value FROM jsonb_each_text(COALESCE(_count_breakdown, '{}'::jsonb)) LOOP
+    IF _denomination.value::numeric < 0 OR _denomination.value::numeric <> trunc(_denomination.value::numeric) THEN
+      RAISE EXCEPTION 'Invalid count for %', _denomination.key;
+    END IF;
+    _counted := _counted + _denomination.key::numeric * _denomination.value::numeric;
+  END LOOP;
+
+  -- Tender amounts already exclude change given
+  SELECT COALESCE(SUM(p.amount), 0), COALESCE(SUM(p.tip_amount), 0)
+  INTO _cash_tenders, _cash_tips
+  FROM public.payments p
+  JOIN public.sales s ON s.id = p.sale_id
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at
+    AND p.payment_method = 'cash'
+    AND p.refund_id IS NULL;
+
+  -- Sales recorded before per-tender payments count in full when paid in cash
+  SELECT COALESCE(SUM(s.total), 0) INTO _legacy_cash
+  FROM public.sales s
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at
+    AND s.payment_method = 'cash'
+    AND NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.sale_id = s.id);
+
+  SELECT COALESCE(SUM(CASE WHEN m.movement_type = 'pay_in' THEN m.amount ELSE -m.amount END), 0)
+  INTO _movements
+  FROM public.cash_drawer_movements m
+  WHERE m.session_id = _session.id;
+
+  -- Refunds against this cashier's sales, including sales from earlier shifts
+  SELECT
+    COALESCE(SUM(r.amount) FILTER (WHERE r.refund_method = 'cash'), 0),
+    COALESCE(SUM(r.amount), 0)
+  INTO _cash_refunds, _total_refunds
+  FROM public.refunds r
+  JOIN public.sales s ON s.id = r.sale_id
+  WHERE s.cashier_id = _session.cashier_id
+    AND r.created_at >= _session.opened_at AND r.created_at < _closed_at;
+
+  SELECT COALESCE(SUM(s.total), 0), COUNT(*)
+  INTO _total_sales, _total_transactions
+  FROM public.sales s
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at;
+
+  SELECT COALESCE(SUM(p.tip_amount), 0) INTO _total_tips
+  FROM public.payments p
+  JOIN public.sales s ON s.id = p.sale_id
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at
+    AND p.refund_id IS NULL;
+
+  _expected := _session.opening_float + _cash_tenders + _cash_tips + _legacy_cash + _movements - _cash_refunds;
+
+  UPDATE public.cash_drawer_sessions
+  SET status = 'closed',
+      closed_at = _closed_at,
+      expected_cash = _expected,
+      counted_cash = _counted,
+      count_breakdown = COALESCE(_count_breakdown, '{}'::jsonb),
+      notes = _notes
+  WHERE id = _session.id;
+
+  INSERT INTO public.eod_sessions (
+    cashier_id, drawer_session_id, expected_cash, actual_cash, total_sales, total_refunds,
+    total_tips, total_transactions, cashier_notes, submitted_at, status
+  )
+  VALUES (
+    _session.cashier_id, _session.id, _expected, _counted, _total_sales, _total_refunds,
+    _total_tips, _total_transactions, _notes, _closed_at, 'pending'
+  )
+  RETURNING id INTO _eod_id;
+
+  RETURN _eod_id;
+END;
+$$;
@@ -0,0 +1,237 @@
+-- X-reports (read-only, mid-shift) and Z-reports (closing, numbered, never changed once written)
+
+-- Everything one cashier rang up in a window, as one JSON document for printing.
+-- Shared by X-reports (window = open drawer so far) and Z-reports (window = the closed drawer).
+CREATE OR REPLACE FUNCTION public.get_shift_report(
+  _cashier_id uuid,
+  _start timestamptz,
+  _end timestamptz,
+  _drawer_session_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report jsonb;
+BEGIN
+  IF NOT (
+    _cashier_id = auth.uid() OR
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'supervisor'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this shift report' USING ERRCODE = '42501';
+  END IF;
+
+  WITH shift_sales AS (
+    SELECT s.* FROM public.sales s
+    WHERE s.cashier_id = _cashier_id AND s.created_at >= _start AND s.created_at < _end
+  ),
+  tenders AS (
+    SELECT p.payment_method AS method, p.amount, p.tip_amount
+    FROM public.payments p
+    JOIN shift_sales s ON s.id = p.sale_id
+    WHERE p.refund_id IS NULL
+    UNION ALL
+    -- Sales recorded before per-tender payments
+    SELECT s.payment_method, s.total, 0
+    FROM shift_sales s
+    WHERE NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.sale_id = s.id)
+  ),
+  shift_refunds AS (
+    SELECT r.* FROM public.refunds r
+    JOIN public.sales s ON s.id = r.sale_id
+    WHERE s.cashier_id = _cashier_id AND r.created_at >= _start AND r.created_at < _end
+  ),
+  movements AS (
+    SELECT m.* FROM public.cash_drawer_movements m WHERE m.session_id = _drawer_session_id
+  )
+  SELECT jsonb_build_object(
+    'cashier_id', _cashier_id,
+    'cashier_name', (SELECT full_name FROM public.profiles WHERE id = _cashier_id),
+    'period_start', _start,
+    'period_end', _end,
+    'sales', (
+      SELECT jsonb_build_object(
+        'count', COUNT(*),
+        'subtotal', COALESCE(SUM(subtotal), 0),
+        'tax', COALESCE(SUM(tax_amount), 0),
+        'discounts', COALESCE(SUM(discount_amount), 0),
+        'discounted_count', COUNT(*) FILTER (WHERE discount_amount > 0),
+        'total', COALESCE(SUM(total), 0)
+      )
+      FROM shift_sales
+    ),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('method', method, 'count', count, 'amount', amount, 'tips', tips) ORDER BY amount DESC)
+      FROM (
+        SELECT method, COUNT(*) AS count, SUM(amount) AS amount, SUM(tip_amount) AS tips
+        FROM tenders GROUP BY method
+      ) t
+    ), '[]'::jsonb),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('category', category, 'qty', qty, 'amount', amount) ORDER BY amount DESC)
+      FROM (
+        SELECT COALESCE(c.name, 'Uncategorised') AS category, SUM(si.qty) AS qty, SUM(si.line_total) AS amount
+        FROM public.sale_items si
+        JOIN shift_sales s ON s.id = si.sale_id
+        LEFT JOIN public.products pr ON pr.id = si.product_id
+        LEFT JOIN public.categories c ON c.id = pr.category_id
+        GROUP BY COALESCE(c.name, 'Uncategorised')
+      ) t
+    ), '[]'::jsonb),
+    'tax_rates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('rate', rate, 'net', net, 'tax', tax) ORDER BY rate DESC)
+      FROM (
+        SELECT si.tax_rate AS rate, SUM(si.line_total) AS net, ROUND(SUM(si.line_total * si.tax_rate / 100), 2) AS tax
+        FROM public.sale_items si
+        JOIN shift_sales s ON s.id = si.sale_id
+        GROUP BY si.tax_rate
+      ) t
+    ), '[]'::jsonb),
+    'refunds', (
+      SELECT jsonb_build_object(
+        'count', COUNT(*) FILTER (WHERE refund_type <> 'void'),
+        'amount', COALESCE(SUM(amount) FILTER (WHERE refund_type <> 'void'), 0),
+        'cash', COALESCE(SUM(amount) FILTER (WHERE refund_method = 'cash'), 0)
+      )
+      FROM shift_refunds
+    ),
+    'voids', (
+      SELECT jsonb_build_object(
+        'count', COUNT(*) FILTER (WHERE refund_type = 'void'),
+        'amount', COALESCE(SUM(amount) FILTER (WHERE refund_type = 'void'), 0)
+      )
+      FROM shift_refunds
+    ),
+    'tips', (
+      SELECT jsonb_build_object(
+        'total', COALESCE(SUM(tip_amount), 0),
+        'cash', COALESCE(SUM(tip_amount) FILTER (WHERE method = 'cash'), 0),
+        'card', COALESCE(SUM(tip_amount) FILTER (WHERE method = 'card'), 0)
+      )
+      FROM tenders
+    ),
+    'cash_movements', jsonb_build_object(
+      'opening_float', COALESCE((SELECT opening_float FROM public.cash_drawer_sessions WHERE id = _drawer_session_id), 0),
+      'drops', COALESCE((SELECT SUM(amount) FROM movements WHERE movement_type = 'drop'), 0),
+      'pay_ins', COALESCE((SELECT SUM(amount) FROM movements WHERE movement_type = 'pay_in'), 0),
+      'pay_outs', COALESCE((SELECT SUM(amount) FROM movements WHERE movement_type = 'pay_out'), 0),
+      'entries', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('type', movement_type, 'amount', amount, 'reason', reason, 'created_at', created_at) ORDER BY created_at)
+        FROM movements
+      ), '[]'::jsonb)
+    )
+  )
+  INTO _report;
+
+  RETURN _report;
+END;
+$$;
+
+CREATE TABLE public.z_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Gapless running number, assigned by create_z_report
+  report_number INTEGER NOT NULL UNIQUE,
+  eod_session_id UUID NOT NULL UNIQUE REFERENCES public.eod_sessions(id),
+  cashier_id UUID NOT NULL REFERENCES public.profiles(id),
+  drawer_session_id UUID REFERENCES public.cash_drawer_sessions(id),
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  report JSONB NOT NULL,
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.z_reports ENABLE ROW LEVEL SECURITY;
+
+-- Written only by create_z_report; nobody may change or remove one afterwards
+CREATE POLICY "Managers and own cashier can view Z-reports"
+ON public.z_reports FOR SELECT
+TO authenticated
+USING (
+  cashier_id = auth.uid() OR
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'supervisor'::app_role)
+);
+
+CREATE OR REPLACE FUNCTION public.prevent_z_report_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Z-reports cannot be changed or deleted';
+END;
+$$;
+
+CREATE TRIGGER z_reports_immutable
+BEFORE UPDATE OR DELETE ON public.z_reports
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_z_report_changes();
+
+-- Issue the Z-report for an approved EOD. Safe to call again: returns the existing report.
+CREATE OR REPLACE FUNCTION public.create_z_report(_eod_session_id uuid)
+RETURNS public.z_reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _eod public.eod_sessions%ROWTYPE;
+  _drawer public.cash_drawer_sessions%ROWTYPE;
+  _start timestamptz;
+  _end timestamptz;
+  _report jsonb;
+  _result public.z_reports%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can issue Z-reports' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _result FROM public.z_reports WHERE eod_session_id = _eod_session_id;
+  IF FOUND THEN
+    RETURN _result;
+  END IF;
+
+  SELECT * INTO _eod FROM public.eod_sessions WHERE id = _eod_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EOD session not found';
+  END IF;
+  IF _eod.status <> 'approved' THEN
+    RAISE EXCEPTION 'Z-reports are issued once the EOD is approved';
+  END IF;
+
+  IF _eod.drawer_session_id IS NOT NULL THEN
+    SELECT * INTO _drawer FROM public.cash_drawer_sessions WHERE id = _eod.drawer_session_id;
+    _start := _drawer.opened_at;
+    _end := COALESCE(_drawer.closed_at, _eod.submitted_at);
+  ELSE
+    -- EODs from before cash drawers cover the whole shift day
+    _start := _eod.shift_date::timestamptz;
+    _end := (_eod.shift_date + 1)::timestamptz;
+  END IF;
+
+  _report := public.get_shift_report(_eod.cashier_id, _start, _end, _eod.drawer_session_id)
+    || jsonb_build_object('cash_count', jsonb_build_object(
+      'expected', _eod.expected_cash,
+      'counted', _eod.actual_cash,
+      'difference', _eod.cash_difference
+    ));
+
+  -- Serialise numbering so report numbers never skip or repeat
+  LOCK TABLE public.z_reports IN SHARE ROW EXCLUSIVE MODE;
+
+  INSERT INTO public.z_reports (
+    report_number, eod_session_id, cashier_id, drawer_session_id, period_start, period_end, report, created_by
+  )
+  VALUES (
+    (SELECT COALESCE(MAX(report_number), 0) + 1 FROM public.z_reports),
+    _eod.id, _eod.cashier_id, _eod.drawer_session_id, _start, _end, _report, auth.uid()
+  )
+  RETURNING * INTO _result;
+
+  RETURN _result;
+END;
+$$;
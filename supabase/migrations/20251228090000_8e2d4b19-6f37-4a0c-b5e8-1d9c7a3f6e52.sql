@@ -0,0 +1,353 @@
+-- Business days: drawers and EODs belong to the site day they were opened in, not a calendar date,
+-- so a shift running past midnight stays in one day. Managers close the day once every EOD is approved.
+
+CREATE TABLE public.business_days (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_date DATE NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES public.profiles(id),
+  notes TEXT,
+  -- Totals across every cashier's EOD, fixed at close
+  total_sales NUMERIC,
+  total_refunds NUMERIC,
+  total_tips NUMERIC,
+  expected_cash NUMERIC,
+  actual_cash NUMERIC,
+  eod_count INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.business_days ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view business days"
+ON public.business_days FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE TRIGGER update_business_days_updated_at
+BEFORE UPDATE ON public.business_days
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.cash_drawer_sessions ADD COLUMN business_day_id UUID REFERENCES public.business_days(id);
+
+ALTER TABLE public.eod_sessions
+  ADD COLUMN business_day_id UUID REFERENCES public.business_days(id),
+  -- Set when a rejected EOD is carried into a later day so its own day can close
+  ADD COLUMN rolled_from_day_id UUID REFERENCES public.business_days(id);
+
+CREATE UNIQUE INDEX idx_eod_sessions_drawer ON public.eod_sessions(drawer_session_id) WHERE drawer_session_id IS NOT NULL;
+CREATE INDEX idx_eod_sessions_business_day ON public.eod_sessions(business_day_id);
+
+-- Existing EODs and drawers get a day per shift date; days with nothing left to review are closed
+INSERT INTO public.business_days (business_date, opened_at)
+SELECT shift_date, MIN(created_at) FROM public.eod_sessions GROUP BY shift_date
+UNION
+SELECT opened_at::date, MIN(opened_at) FROM public.cash_drawer_sessions
+WHERE opened_at::date NOT IN (SELECT shift_date FROM public.eod_sessions)
+GROUP BY opened_at::date;
+
+UPDATE public.eod_sessions e SET business_day_id = d.id
+FROM public.business_days d WHERE d.business_date = e.shift_date;
+
+UPDATE public.cash_drawer_sessions s SET business_day_id = COALESCE(
+  (SELECT e.business_day_id FROM public.eod_sessions e WHERE e.drawer_session_id = s.id),
+  (SELECT d.id FROM public.business_days d WHERE d.business_date = s.opened_at::date)
+);
+
+UPDATE public.business_days d SET status = 'closed', closed_at = NOW()
+WHERE NOT EXISTS (SELECT 1 FROM public.eod_sessions e WHERE e.business_day_id = d.id AND e.status <> 'approved')
+  AND NOT EXISTS (SELECT 1 FROM public.cash_drawer_sessions s WHERE s.business_day_id = d.id AND s.status = 'open');
+
+-- The open day new drawers join; when every day is closed a new one starts on the terminal's local date
+-- (or the day after the last closed one, if that day has already been closed)
+CREATE OR REPLACE FUNCTION public.get_current_business_day(_local_date date)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _day_id uuid;
+  _last_closed date;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('business_days'));
+
+  SELECT id INTO _day_id FROM public.business_days
+  WHERE status = 'open' ORDER BY business_date LIMIT 1;
+  IF FOUND THEN
+    RETURN _day_id;
+  END IF;
+
+  SELECT MAX(business_date) INTO _last_closed FROM public.business_days;
+
+  INSERT INTO public.business_days (business_date)
+  VALUES (GREATEST(_local_date, COALESCE(_last_closed + 1, _local_date)))
+  RETURNING id INTO _day_id;
+
+  RETURN _day_id;
+END;
+$$;
+
+-- Drawers are now opened through open_cash_drawer so they always join a business day
+DROP POLICY IF EXISTS "Cashiers open own drawer" ON public.cash_drawer_sessions;
+
+CREATE OR REPLACE FUNCTION public.open_cash_drawer(_opening_float numeric, _local_date date)
+RETURNS public.cash_drawer_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _result public.cash_drawer_sessions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+  IF _opening_float IS NULL OR _opening_float < 0 THEN
+    RAISE EXCEPTION 'Opening float cannot be negative';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.cash_drawer_sessions WHERE cashier_id = auth.uid() AND status = 'open') THEN
+    RAISE EXCEPTION 'You already have an open cash drawer';
+  END IF;
+
+  INSERT INTO public.cash_drawer_sessions (cashier_id, opening_float, business_day_id)
+  VALUES (auth.uid(), _opening_float, public.get_current_business_day(_local_date))
+  RETURNING * INTO _result;
+
+  RETURN _result;
+END;
+$$;
+
+-- close_cash_drawer now files the EOD under the drawer's business day
+CREATE OR REPLACE FUNCTION public.close_cash_drawer(_session_id uuid, _count_breakdown jsonb, _notes text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.cash_drawer_sessions%ROWTYPE;
+  _closed_at timestamptz := now();
+  _counted numeric := 0;
+  _denomination record;
+  _cash_tenders numeric;
+  _cash_tips numeric;
+  _legacy_cash numeric;
+  _movements numeric;
+  _cash_refunds numeric;
+  _expected numeric;
+  _total_sales numeric;
+  _total_transactions integer;
+  _total_refunds numeric;
+  _total_tips numeric;
+  _business_date date;
+  _eod_id uuid;
+BEGIN
+  SELECT * INTO _session FROM public.cash_drawer_sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _session.cashier_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Cash drawer not found' USING ERRCODE = '42501';
+  END IF;
+  IF _session.status <> 'open' THEN
+    RAISE EXCEPTION 'This cash drawer is already closed';
+  END IF;
+
+  FOR _denomination IN SELECT key, value FROM jsonb_each_text(COALESCE(_count_breakdown, '{}'::jsonb)) LOOP
+    IF _denomination.value::numeric < 0 OR _denomination.value::numeric <> trunc(_denomination.value::numeric) THEN
+      RAISE EXCEPTION 'Invalid count for %', _denomination.key;
+    END IF;
+    _counted := _counted + _denomination.key::numeric * _denomination.value::numeric;
+  END LOOP;
+
+  -- Tender amounts already exclude change given
+  SELECT COALESCE(SUM(p.amount), 0), COALESCE(SUM(p.tip_amount), 0)
+  INTO _cash_tenders, _cash_tips
+  FROM public.payments p
+  JOIN public.sales s ON s.id = p.sale_id
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at
+    AND p.payment_method = 'cash'
+    AND p.refund_id IS NULL;
+
+  -- Sales recorded before per-tender payments count in full when paid in cash
+  SELECT COALESCE(SUM(s.total), 0) INTO _legacy_cash
+  FROM public.sales s
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at
+    AND s.payment_method = 'cash'
+    AND NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.sale_id = s.id);
+
+  SELECT COALESCE(SUM(CASE WHEN m.movement_type = 'pay_in' THEN m.amount ELSE -m.amount END), 0)
+  INTO _movements
+  FROM public.cash_drawer_movements m
+  WHERE m.session_id = _session.id;
+
+  -- Refunds against this cashier's sales, including sales from earlier shifts
+  SELECT
+    COALESCE(SUM(r.amount) FILTER (WHERE r.refund_method = 'cash'), 0),
+    COALESCE(SUM(r.amount), 0)
+  INTO _cash_refunds, _total_refunds
+  FROM public.refunds r
+  JOIN public.sales s ON s.id = r.sale_id
+  WHERE s.cashier_id = _session.cashier_id
+    AND r.created_at >= _session.opened_at AND r.created_at < _closed_at;
+
+  SELECT COALESCE(SUM(s.total), 0), COUNT(*)
+  INTO _total_sales, _total_transactions
+  FROM public.sales s
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at;
+
+  SELECT COALESCE(SUM(p.tip_amount), 0) INTO _total_tips
+  FROM public.payments p
+  JOIN public.sales s ON s.id = p.sale_id
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at
+    AND p.refund_id IS NULL;
+
+  _expected := _session.opening_float + _cash_tenders + _cash_tips + _legacy_cash + _movements - _cash_refunds;
+
+  SELECT business_date INTO _business_date FROM public.business_days WHERE id = _session.business_day_id;
+
+  UPDATE public.cash_drawer_sessions
+  SET status = 'closed',
+      closed_at = _closed_at,
+      expected_cash = _expected,
+      counted_cash = _counted,
+      count_breakdown = COALESCE(_count_breakdown, '{}'::jsonb),
+      notes = _notes
+  WHERE id = _session.id;
+
+  INSERT INTO public.eod_sessions (
+    cashier_id, drawer_session_id, business_day_id, shift_date, expected_cash, actual_cash, total_sales,
+    total_refunds, total_tips, total_transactions, cashier_notes, submitted_at, status
+  )
+  VALUES (
+    _session.cashier_id, _session.id, _session.business_day_id, COALESCE(_business_date, CURRENT_DATE), _expected,
+    _counted, _total_sales, _total_refunds, _total_tips, _total_transactions, _notes, _closed_at, 'pending'
+  )
+  RETURNING id INTO _eod_id;
+
+  RETURN _eod_id;
+END;
+$$;
+
+-- Carry a rejected EOD into the next open day for another review, so its own day can close
+CREATE OR REPLACE FUNCTION public.roll_forward_eod(_eod_session_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _eod public.eod_sessions%ROWTYPE;
+  _from_date date;
+  _target_id uuid;
+  _target_date date;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'supervisor'::app_role)) THEN
+    RAISE EXCEPTION 'Only managers can roll EODs forward' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _eod FROM public.eod_sessions WHERE id = _eod_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EOD session not found';
+  END IF;
+  IF _eod.status <> 'rejected' THEN
+    RAISE EXCEPTION 'Only rejected EODs can be rolled forward';
+  END IF;
+
+  SELECT business_date INTO _from_date FROM public.business_days WHERE id = _eod.business_day_id;
+  _from_date := COALESCE(_from_date, _eod.shift_date);
+
+  PERFORM pg_advisory_xact_lock(hashtext('business_days'));
+
+  SELECT id, business_date INTO _target_id, _target_date FROM public.business_days
+  WHERE status = 'open' AND business_date > _from_date
+  ORDER BY business_date LIMIT 1;
+
+  IF NOT FOUND THEN
+    SELECT GREATEST(_from_date + 1, COALESCE(MAX(business_date) + 1, _from_date + 1)) INTO _target_date
+    FROM public.business_days WHERE business_date > _from_date;
+
+    INSERT INTO public.business_days (business_date) VALUES (_target_date) RETURNING id INTO _target_id;
+  END IF;
+
+  UPDATE public.eod_sessions
+  SET business_day_id = _target_id,
+      rolled_from_day_id = COALESCE(rolled_from_day_id, _eod.business_day_id),
+      shift_date = _target_date,
+      status = 'pending',
+      reviewed_at = NULL,
+      reviewed_by = NULL
+  WHERE id = _eod.id;
+
+  RETURN _target_id;
+END;
+$$;
+
+-- Site-level day close: every drawer closed and every EOD approved, then the day's totals are fixed
+CREATE OR REPLACE FUNCTION public.close_business_day(_business_day_id uuid, _notes text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _day public.business_days%ROWTYPE;
+  _open_drawers integer;
+  _unapproved integer;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'supervisor'::app_role)) THEN
+    RAISE EXCEPTION 'Only managers can close the day' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _day FROM public.business_days WHERE id = _business_day_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Business day not found';
+  END IF;
+  IF _day.status <> 'open' THEN
+    RAISE EXCEPTION 'This day is already closed';
+  END IF;
+
+  SELECT COUNT(*) INTO _open_drawers FROM public.cash_drawer_sessions
+  WHERE business_day_id = _day.id AND status = 'open';
+  IF _open_drawers > 0 THEN
+    RAISE EXCEPTION '% cash drawer(s) are still open', _open_drawers;
+  END IF;
+
+  SELECT COUNT(*) INTO _unapproved FROM public.eod_sessions
+  WHERE business_day_id = _day.id AND status <> 'approved';
+  IF _unapproved > 0 THEN
+    RAISE EXCEPTION '% EOD(s) are not approved; review them or roll rejected ones forward', _unapproved;
+  END IF;
+
+  UPDATE public.business_days d
+  SET status = 'closed',
+      closed_at = now(),
+      closed_by = auth.uid(),
+      notes = _notes,
+      total_sales = t.total_sales,
+      total_refunds = t.total_refunds,
+      total_tips = t.total_tips,
+      expected_cash = t.expected_cash,
+      actual_cash = t.actual_cash,
+      eod_count = t.eod_count
+  FROM (
+    SELECT
+      COALESCE(SUM(e.total_sales), 0) AS total_sales,
+      COALESCE(SUM(e.total_refunds), 0) AS total_refunds,
+      COALESCE(SUM(e.total_tips), 0) AS total_tips,
+      COALESCE(SUM(e.expected_cash), 0) AS expected_cash,
+      COALESCE(SUM(e.actual_cash), 0) AS actual_cash,
+      COUNT(*)::integer AS eod_count
+    FROM public.eod_sessions e
+    WHERE e.business_day_id = _day.id
+  ) t
+  WHERE d.id = _day.id;
+END;
+$$;
@@ -0,0 +1,171 @@
+-- Store-level tax settings: whether menu prices include VAT, and what receipts need to be a tax invoice
+CREATE TABLE public.tax_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- South African menu prices normally include VAT, so VAT is extracted rather than added
+  prices_include_tax BOOLEAN NOT NULL DEFAULT true,
+  vat_number TEXT,
+  -- Receipts above this total print as a "Tax Invoice"
+  tax_invoice_threshold NUMERIC NOT NULL DEFAULT 50 CHECK (tax_invoice_threshold >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.tax_settings DEFAULT VALUES;
+
+ALTER TABLE public.tax_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage tax settings"
+ON public.tax_settings FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Every till and waiter device prices orders with these
+CREATE POLICY "Staff can view tax settings"
+ON public.tax_settings FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE TRIGGER update_tax_settings_updated_at
+BEFORE UPDATE ON public.tax_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Shift reports split VAT per rate the same way receipts do: extracted from inclusive prices, added to exclusive ones
+CREATE OR REPLACE FUNCTION public.get_shift_report(
+  _cashier_id uuid,
+  _start timestamptz,
+  _end timestamptz,
+  _drawer_session_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report jsonb;
+  _inclusive boolean;
+BEGIN
+  IF NOT (
+    _cashier_id = auth.uid() OR
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'supervisor'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this shift report' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT prices_include_tax INTO _inclusive FROM public.tax_settings ORDER BY created_at LIMIT 1;
+  _inclusive := COALESCE(_inclusive, true);
+
+  WITH shift_sales AS (
+    SELECT s.* FROM public.sales s
+    WHERE s.cashier_id = _cashier_id AND s.created_at >= _start AND s.created_at < _end
+  ),
+  tenders AS (
+    SELECT p.payment_method AS method, p.amount, p.tip_amount
+    FROM public.payments p
+    JOIN shift_sales s ON s.id = p.sale_id
+    WHERE p.refund_id IS NULL
+    UNION ALL
+    -- Sales recorded before per-tender payments
+    SELECT s.payment_method, s.total, 0
+    FROM shift_sales s
+    WHERE NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.sale_id = s.id)
+  ),
+  shift_refunds AS (
+    SELECT r.* FROM public.refunds r
+    JOIN public.sales s ON s.id = r.sale_id
+    WHERE s.cashier_id = _cashier_id AND r.created_at >= _start AND r.created_at < _end
+  ),
+  movements AS (
+    SELECT m.* FROM public.cash_drawer_movements m WHERE m.session_id = _drawer_session_id
+  )
+  SELECT jsonb_build_object(
+    'cashier_id', _cashier_id,
+    'cashier_name', (SELECT full_name FROM public.profiles WHERE id = _cashier_id),
+    'period_start', _start,
+    'period_end', _end,
+    'sales', (
+      SELECT jsonb_build_object(
+        'count', COUNT(*),
+        'subtotal', COALESCE(SUM(subtotal), 0),
+        'tax', COALESCE(SUM(tax_amount), 0),
+        'discounts', COALESCE(SUM(discount_amount), 0),
+        'discounted_count', COUNT(*) FILTER (WHERE discount_amount > 0),
+        'total', COALESCE(SUM(total), 0)
+      )
+      FROM shift_sales
+    ),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('method', method, 'count', count, 'amount', amount, 'tips', tips) ORDER BY amount DESC)
+      FROM (
+        SELECT method, COUNT(*) AS count, SUM(amount) AS amount, SUM(tip_amount) AS tips
+        FROM tenders GROUP BY method
+      ) t
+    ), '[]'::jsonb),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('category', category, 'qty', qty, 'amount', amount) ORDER BY amount DESC)
+      FROM (
+        SELECT COALESCE(c.name, 'Uncategorised') AS category, SUM(si.qty) AS qty, SUM(si.line_total) AS amount
+        FROM public.sale_items si
+        JOIN shift_sales s ON s.id = si.sale_id
+        LEFT JOIN public.products pr ON pr.id = si.product_id
+        LEFT JOIN public.categories c ON c.id = pr.category_id
+        GROUP BY COALESCE(c.name, 'Uncategorised')
+      ) t
+    ), '[]'::jsonb),
+    'tax_rates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('rate', rate, 'net', net, 'tax', tax) ORDER BY rate DESC)
+      FROM (
+        SELECT rate, CASE WHEN _inclusive THEN gross - tax ELSE gross END AS net, tax
+        FROM (
+          SELECT si.tax_rate AS rate, SUM(si.line_total) AS gross,
+            CASE WHEN _inclusive
+              THEN ROUND(SUM(si.line_total * si.tax_rate / (100 + si.tax_rate)), 2)
+              ELSE ROUND(SUM(si.line_total * si.tax_rate / 100), 2)
+            END AS tax
+          FROM public.sale_items si
+          JOIN shift_sales s ON s.id = si.sale_id
+          GROUP BY si.tax_rate
+        ) rates
+      ) t
+    ), '[]'::jsonb),
+    'refunds', (
+      SELECT jsonb_build_object(
+        'count', COUNT(*) FILTER (WHERE refund_type <> 'void'),
+        'amount', COALESCE(SUM(amount) FILTER (WHERE refund_type <> 'void'), 0),
+        'cash', COALESCE(SUM(amount) FILTER (WHERE refund_method = 'cash'), 0)
+      )
+      FROM shift_refunds
+    ),
+    'voids', (
+      SELECT jsonb_build_object(
+        'count', COUNT(*) FILTER (WHERE refund_type = 'void'),
+        'amount', COALESCE(SUM(amount) FILTER (WHERE refund_type = 'void'), 0)
+      )
+      FROM shift_refunds
+    ),
+    'tips', (
+      SELECT jsonb_build_object(
+        'total', COALESCE(SUM(tip_amount), 0),
+        'cash', COALESCE(SUM(tip_amount) FILTER (WHERE method = 'cash'), 0),
+        'card', COALESCE(SUM(tip_amount) FILTER (WHERE method = 'card'), 0)
+      )
+      FROM tenders
+    ),
+    'cash_movements', jsonb_build_object(
+      'opening_float', COALESCE((SELECT opening_float FROM public.cash_drawer_sessions WHERE id = _drawer_session_id), 0),
+      'drops', COALESCE((SELECT SUM(amount) FROM movements WHERE movement_type = 'drop'), 0),
+      'pay_ins', COALESCE((SELECT SUM(amount) FROM movements WHERE movement_type = 'pay_in'), 0),
+      'pay_outs', COALESCE((SELECT SUM(amount) FROM movements WHERE movement_type = 'pay_out'), 0),
+      'entries', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('type', movement_type, 'amount', amount, 'reason', reason, 'created_at', created_at) ORDER BY created_at)
+        FROM movements
+      ), '[]'::jsonb)
+    )
+  )
+  INTO _report;
+
+  RETURN _report;
+END;
+$$;
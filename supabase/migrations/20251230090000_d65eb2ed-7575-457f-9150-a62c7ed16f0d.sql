@@ -0,0 +1,39 @@
+-- Store-level regional settings: how money, dates and times are shown and which currency is charged,
+-- so the same build can run a branch in another country
+CREATE TABLE public.store_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency_code TEXT NOT NULL DEFAULT 'ZAR' CHECK (currency_code ~ '^[A-Z]{3}$'),
+  -- Picks the currency symbol, e.g. "R" for ZAR in en-ZA
+  locale TEXT NOT NULL DEFAULT 'en-ZA',
+  symbol_position TEXT NOT NULL DEFAULT 'before' CHECK (symbol_position IN ('before', 'after')),
+  decimal_separator TEXT NOT NULL DEFAULT '.' CHECK (decimal_separator IN ('.', ',')),
+  -- date-fns patterns
+  date_format TEXT NOT NULL DEFAULT 'dd/MM/yyyy',
+  time_format TEXT NOT NULL DEFAULT 'HH:mm',
+  -- IANA zone the business day and printed times follow
+  timezone TEXT NOT NULL DEFAULT 'Africa/Johannesburg',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The currency charged so far came from payment settings
+INSERT INTO public.store_settings (currency_code)
+SELECT COALESCE((SELECT currency FROM public.payment_settings ORDER BY created_at LIMIT 1), 'ZAR');
+
+ALTER TABLE public.payment_settings DROP COLUMN currency;
+
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage store settings"
+ON public.store_settings FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Needed before sign-in too, e.g. to show prices on the login and display screens
+CREATE POLICY "Anyone can view store settings"
+ON public.store_settings FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_store_settings_updated_at
+BEFORE UPDATE ON public.store_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
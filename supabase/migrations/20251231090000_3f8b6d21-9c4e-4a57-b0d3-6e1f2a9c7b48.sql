@@ -0,0 +1,14 @@
+-- Courses on dine-in tickets: each item belongs to a course, and later courses are held
+-- until the waiter fires them. The kitchen only sees items that have been fired.
+ALTER TABLE public.order_items
+  -- Sequence of the course on the ticket: 1 starters, 2 mains, 3 desserts, higher for custom courses
+  ADD COLUMN course_number INTEGER NOT NULL DEFAULT 1 CHECK (course_number > 0),
+  -- Null for tickets that are not coursed, e.g. counter and takeaway sales
+  ADD COLUMN course_name TEXT,
+  -- Null while the course is held; counter sales and existing items go straight to the kitchen
+  ADD COLUMN fired_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE INDEX idx_order_items_order_course ON public.order_items (order_id, course_number);
+
+CREATE INDEX idx_order_items_fired_open ON public.order_items (fired_at)
+WHERE fired_at IS NOT NULL AND status IN ('pending', 'preparing');
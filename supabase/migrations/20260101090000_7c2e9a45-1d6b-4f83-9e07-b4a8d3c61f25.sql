@@ -0,0 +1,68 @@
+-- Audit trail for kitchen status changes (bumps and recalls) so a mistaken bump can be traced and
+-- undone. Rows are written by a trigger so every screen and device is covered.
+CREATE TABLE public.kitchen_status_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_item_id UUID REFERENCES public.order_items(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  from_status order_status NOT NULL,
+  to_status order_status NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- All items bumped by one statement share this time, which is how a ticket is recalled as a whole
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_kitchen_status_events_created ON public.kitchen_status_events (created_at DESC);
+CREATE INDEX idx_kitchen_status_events_item ON public.kitchen_status_events (order_item_id, created_at DESC);
+
+ALTER TABLE public.kitchen_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Kitchen staff can view status events"
+ON public.kitchen_status_events FOR SELECT
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'kitchen'::app_role) OR
+  has_role(auth.uid(), 'waiter'::app_role)
+);
+
+CREATE OR REPLACE FUNCTION public.log_kitchen_status_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.kitchen_status_events (order_item_id, order_id, from_status, to_status, changed_by)
+  VALUES (NEW.id, NEW.order_id, OLD.status, NEW.status, auth.uid());
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER log_order_item_status_change
+AFTER UPDATE OF status ON public.order_items
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.log_kitchen_status_event();
+
+-- A recalled item is cooking again, so it is no longer complete
+CREATE OR REPLACE FUNCTION public.set_order_item_started_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'preparing' AND OLD.status = 'pending' AND NEW.started_at IS NULL THEN
+    NEW.started_at = NOW();
+  END IF;
+  IF NEW.status = 'ready' AND OLD.status = 'preparing' AND NEW.completed_at IS NULL THEN
+    NEW.completed_at = NOW();
+  END IF;
+  IF OLD.status = 'ready' AND NEW.status IN ('pending', 'preparing') THEN
+    NEW.completed_at = NULL;
+  END IF;
+  IF OLD.status = 'preparing' AND NEW.status = 'pending' THEN
+    NEW.started_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,69 @@
+-- Expo (pass) screen: the expeditor releases a whole ticket once every station has it ready.
+-- ready_at is when the order was called, whichever screen did it, and is what the waiter screen
+-- listens for.
+ALTER TABLE public.orders
+  ADD COLUMN ready_at TIMESTAMPTZ,
+  ADD COLUMN expedited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_orders_ready_at ON public.orders (ready_at DESC) WHERE ready_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.set_order_ready_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'ready' AND OLD.status IS DISTINCT FROM 'ready' THEN
+    NEW.ready_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_order_ready_at
+BEFORE UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.set_order_ready_at();
+
+-- Mark an order ready from the pass. Refuses while any item is still cooking or its course is held,
+-- so a ticket cannot be called short.
+CREATE OR REPLACE FUNCTION public.expedite_order(_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'kitchen'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to expedite order %', _order_id USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', _order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'confirmed', 'preparing') THEN
+    RAISE EXCEPTION 'Order % is already %', _order.order_number, _order.status USING ERRCODE = '55000';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_items
+    WHERE order_id = _order_id
+      AND status <> 'cancelled'
+      AND (status <> 'ready' OR fired_at IS NULL)
+  ) THEN
+    RAISE EXCEPTION 'Order % still has items that are not ready', _order.order_number USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'ready', expedited_by = auth.uid()
+  WHERE id = _order_id;
+END;
+$$;
@@ -0,0 +1,92 @@
+-- Kitchen screens load their tickets in one round trip: every item with its order, table, prep time,
+-- modifiers and combo selections already joined. With _order_ids the items of just those orders are
+-- returned, whatever their status, so a realtime change can be filled in without a full reload.
+-- Runs as the caller, so the usual RLS on each table applies.
+CREATE OR REPLACE FUNCTION public.get_kitchen_tickets(_order_ids uuid[] DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  product_id uuid,
+  product_name text,
+  qty integer,
+  special_instructions text,
+  status order_status,
+  kitchen_station kitchen_station,
+  course_number integer,
+  course_name text,
+  created_at timestamptz,
+  fired_at timestamptz,
+  started_at timestamptz,
+  completed_at timestamptz,
+  weight_amount numeric,
+  weight_unit text,
+  order_number text,
+  order_type order_type,
+  order_status order_status,
+  order_created_at timestamptz,
+  customer_name text,
+  table_number text,
+  estimated_prep_minutes integer,
+  modifiers jsonb,
+  combo_selections jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    oi.id,
+    oi.order_id,
+    oi.product_id,
+    oi.product_name,
+    oi.qty,
+    oi.special_instructions,
+    oi.status,
+    oi.kitchen_station,
+    oi.course_number,
+    oi.course_name,
+    oi.created_at,
+    oi.fired_at,
+    oi.started_at,
+    oi.completed_at,
+    oi.weight_amount,
+    oi.weight_unit,
+    o.order_number,
+    o.order_type,
+    o.status,
+    o.created_at,
+    o.customer_name,
+    rt.table_number,
+    p.estimated_prep_minutes,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'modifier_name', m.modifier_name,
+        'price_adjustment', m.price_adjustment
+      ) ORDER BY m.created_at)
+      FROM public.order_item_modifiers m
+      WHERE m.order_item_id = oi.id
+    ), '[]'::jsonb),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', c.id,
+        'selected_product_name', c.selected_product_name,
+        'qty', c.qty
+      ) ORDER BY c.created_at)
+      FROM public.order_item_combo_selections c
+      WHERE c.order_item_id = oi.id
+    ), '[]'::jsonb)
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  LEFT JOIN public.restaurant_tables rt ON rt.id = o.table_id
+  LEFT JOIN public.products p ON p.id = oi.product_id
+  WHERE CASE
+    WHEN _order_ids IS NULL THEN o.status IN ('pending', 'confirmed', 'preparing')
+    ELSE oi.order_id = ANY(_order_ids)
+  END
+  ORDER BY o.created_at, oi.created_at
+$$;
+
+-- Modifiers and combo selections are inserted after their item, so the screens patch them in as they arrive
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_item_modifiers;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_item_combo_selections;
@@ -0,0 +1,49 @@
+-- Terminals are shared, so the heartbeat row belongs to the terminal, not to whoever reported last.
+-- Under the old policies a second cashier could not see the row another user reported, so the
+-- upsert's ON CONFLICT update failed and the terminal's status went stale. Reports now go through
+-- this function, which any signed-in staff member can call for their terminal.
+CREATE OR REPLACE FUNCTION public.report_terminal_sync_status(
+  _terminal_id text,
+  _pending_count integer,
+  _dead_letter_count integer,
+  _queued_count integer,
+  _oldest_pending_at timestamptz,
+  _last_error text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role) OR
+    has_role(auth.uid(), 'supervisor'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to report terminal sync status' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.terminal_sync_status (
+    terminal_id, user_id, pending_count, dead_letter_count, queued_count,
+    oldest_pending_at, last_error, last_sync_at
+  )
+  VALUES (
+    _terminal_id, auth.uid(), _pending_count, _dead_letter_count, _queued_count,
+    _oldest_pending_at, _last_error, now()
+  )
+  ON CONFLICT (terminal_id) DO UPDATE SET
+    user_id = EXCLUDED.user_id,
+    pending_count = EXCLUDED.pending_count,
+    dead_letter_count = EXCLUDED.dead_letter_count,
+    queued_count = EXCLUDED.queued_count,
+    oldest_pending_at = EXCLUDED.oldest_pending_at,
+    last_error = EXCLUDED.last_error,
+    last_sync_at = EXCLUDED.last_sync_at;
+END;
+$$;
+
+-- Rows are only written by the function above
+DROP POLICY "Staff can report terminal sync status" ON public.terminal_sync_status;
+DROP POLICY "Staff can update terminal sync status" ON public.terminal_sync_status;
@@ -0,0 +1,124 @@
+-- Settling checks takes the order lock first. Locking only the check let the last two checks settle
+-- side by side: each still saw the other open, both returned false and the order was never paid.
+CREATE OR REPLACE FUNCTION public.settle_order_check(
+  _check_id uuid,
+  _payment_method text,
+  _tip_amount numeric DEFAULT 0
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id uuid;
+  _check public.order_checks%ROWTYPE;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to settle check %', _check_id USING ERRCODE = '42501';
+  END IF;
+
+  SELECT order_id INTO _order_id FROM public.order_checks WHERE id = _check_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Check % not found', _check_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Settles of the same order queue up here, so the open-check test below sees every earlier settle
+  PERFORM 1 FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  SELECT * INTO _check FROM public.order_checks WHERE id = _check_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Check % not found', _check_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A retried settle must not record a second payment
+  IF _check.status = 'open' THEN
+    INSERT INTO public.payments (order_id, check_id, amount, payment_method, tip_amount, processed_by, notes)
+    VALUES (
+      _check.order_id,
+      _check.id,
+      _check.amount,
+      _payment_method,
+      COALESCE(_tip_amount, 0),
+      auth.uid(),
+      _check.label
+    );
+
+    UPDATE public.order_checks
+    SET status = 'settled', settled_at = now(), settled_by = auth.uid()
+    WHERE id = _check.id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_checks
+    WHERE order_id = _check.order_id AND status = 'open'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.orders SET status = 'paid' WHERE id = _check.order_id;
+  RETURN true;
+END;
+$$;
+
+-- Replace an order's checks in one transaction, so a failure partway cannot leave the order with no
+-- checks or with items pointing at the wrong one. _checks is an array of
+-- { "label": text, "amount": numeric, "item_ids": [uuid] }; even splits leave item_ids empty.
+CREATE OR REPLACE FUNCTION public.replace_order_checks(_order_id uuid, _checks jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _draft jsonb;
+  _check_number integer := 0;
+  _check_id uuid;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to split order %', _order_id USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_array_length(_checks) = 0 THEN
+    RAISE EXCEPTION 'Nothing to split' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1 FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', _order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_checks WHERE order_id = _order_id AND status = 'settled'
+  ) THEN
+    RAISE EXCEPTION 'Checks cannot be rebuilt once one has been settled' USING ERRCODE = '55000';
+  END IF;
+
+  -- Removing old checks clears check_id on their items
+  DELETE FROM public.order_checks WHERE order_id = _order_id;
+
+  FOR _draft IN SELECT * FROM jsonb_array_elements(_checks) LOOP
+    _check_number := _check_number + 1;
+
+    INSERT INTO public.order_checks (order_id, check_number, label, amount)
+    VALUES (_order_id, _check_number, _draft->>'label', (_draft->>'amount')::numeric)
+    RETURNING id INTO _check_id;
+
+    UPDATE public.order_items
+    SET check_id = _check_id
+    WHERE order_id = _order_id
+      AND id IN (SELECT jsonb_array_elements_text(COALESCE(_draft->'item_ids', '[]'::jsonb))::uuid);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,69 @@
+-- Waiters re-send orders as courses are added, and promotions are re-evaluated each time. They need
+-- to see which promotions the order already used, so its own usage does not count against a cap.
+DROP POLICY "Staff can view promotion usage" ON public.promotion_usage;
+
+CREATE POLICY "Staff can view promotion usage"
+ON public.promotion_usage FOR SELECT
+USING (
+  has_role(auth.uid(), 'admin'::app_role) OR
+  has_role(auth.uid(), 'cashier'::app_role) OR
+  has_role(auth.uid(), 'waiter'::app_role)
+);
+
+-- Apply the promotions chosen for an order in one go: record usage for each, release usage of any
+-- that no longer apply, and set the order's discount. _promotions is an array of
+-- { "promotion_id": uuid, "discount_applied": numeric }.
+CREATE OR REPLACE FUNCTION public.apply_order_promotions(_order_id uuid, _promotions jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promotion jsonb;
+  _released uuid;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to apply promotions' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', _order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR _released IN
+    DELETE FROM public.promotion_usage
+    WHERE order_id = _order_id
+      AND promotion_id NOT IN (
+        SELECT (value->>'promotion_id')::uuid FROM jsonb_array_elements(_promotions)
+      )
+    RETURNING promotion_id
+  LOOP
+    UPDATE public.promotions
+    SET usage_count = GREATEST(COALESCE(usage_count, 0) - 1, 0)
+    WHERE id = _released;
+  END LOOP;
+
+  FOR _promotion IN SELECT * FROM jsonb_array_elements(_promotions) LOOP
+    PERFORM public.record_promotion_usage(
+      (_promotion->>'promotion_id')::uuid,
+      _order_id,
+      (_promotion->>'discount_applied')::numeric
+    );
+  END LOOP;
+
+  UPDATE public.orders
+  SET
+    discount_amount = COALESCE((
+      SELECT SUM((value->>'discount_applied')::numeric) FROM jsonb_array_elements(_promotions)
+    ), 0),
+    promotion_id = (_promotions->0->>'promotion_id')::uuid
+  WHERE id = _order_id;
+END;
+$$;
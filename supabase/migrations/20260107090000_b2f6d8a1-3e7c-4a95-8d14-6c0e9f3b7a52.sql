@@ -0,0 +1,116 @@
+-- One row per sale recorded against a loyalty customer. This is the replay guard for
+-- record_loyalty_sale: the points ledger alone missed sales that earned and redeemed nothing
+-- (programme off, or under one point), so each outbox retry added to the customer's totals again.
+CREATE TABLE public.loyalty_sales (
+  sale_id UUID PRIMARY KEY REFERENCES public.sales(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  amount_paid NUMERIC NOT NULL,
+  points_earned INTEGER NOT NULL DEFAULT 0,
+  points_redeemed INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_loyalty_sales_customer ON public.loyalty_sales(customer_id, created_at DESC);
+
+ALTER TABLE public.loyalty_sales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view loyalty sales"
+ON public.loyalty_sales FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Sales already on the ledger are already in the customer totals
+INSERT INTO public.loyalty_sales (sale_id, customer_id, order_id, amount_paid, points_earned, points_redeemed)
+SELECT
+  lt.sale_id,
+  (array_agg(lt.customer_id))[1],
+  (array_agg(lt.order_id))[1],
+  s.total,
+  COALESCE(SUM(lt.points) FILTER (WHERE lt.transaction_type = 'earn'), 0),
+  COALESCE(-SUM(lt.points) FILTER (WHERE lt.transaction_type = 'redeem'), 0)
+FROM public.loyalty_transactions lt
+JOIN public.sales s ON s.id = lt.sale_id
+GROUP BY lt.sale_id, s.total;
+
+-- Points are per unit of the store currency, not per Rand
+ALTER TABLE public.loyalty_settings RENAME COLUMN points_per_rand TO points_per_unit;
+ALTER TABLE public.loyalty_settings RENAME COLUMN rand_per_point TO value_per_point;
+
+COMMENT ON COLUMN public.loyalty_settings.points_per_unit IS 'Points earned per 1 of the store currency paid, excluding points redeemed on the sale';
+COMMENT ON COLUMN public.loyalty_settings.value_per_point IS 'Value of one point in the store currency when redeemed';
+
+CREATE OR REPLACE FUNCTION public.record_loyalty_sale(
+  _customer_id uuid,
+  _sale_id uuid,
+  _order_id uuid,
+  _amount_paid numeric,
+  _points_redeemed integer DEFAULT 0
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.loyalty_settings%ROWTYPE;
+  _balance integer;
+  _earned integer := 0;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to record loyalty points' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COALESCE(loyalty_points, 0) INTO _balance
+  FROM public.customers WHERE id = _customer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', _customer_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Claim the sale first; a replay finds it taken and changes nothing
+  INSERT INTO public.loyalty_sales (sale_id, customer_id, order_id, amount_paid, points_redeemed)
+  VALUES (_sale_id, _customer_id, _order_id, _amount_paid, COALESCE(_points_redeemed, 0))
+  ON CONFLICT (sale_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    SELECT points_earned INTO _earned FROM public.loyalty_sales WHERE sale_id = _sale_id;
+    RETURN _earned;
+  END IF;
+
+  SELECT * INTO _settings FROM public.loyalty_settings ORDER BY created_at LIMIT 1;
+
+  IF COALESCE(_points_redeemed, 0) > 0 THEN
+    IF _points_redeemed > _balance THEN
+      RAISE EXCEPTION 'Customer % has only % points', _customer_id, _balance USING ERRCODE = '22023';
+    END IF;
+
+    _balance := _balance - _points_redeemed;
+    INSERT INTO public.loyalty_transactions (customer_id, sale_id, order_id, transaction_type, points, balance_after, created_by)
+    VALUES (_customer_id, _sale_id, _order_id, 'redeem', -_points_redeemed, _balance, auth.uid());
+  END IF;
+
+  IF _settings.id IS NOT NULL AND _settings.is_enabled THEN
+    _earned := FLOOR(GREATEST(_amount_paid, 0) * _settings.points_per_unit);
+  END IF;
+
+  IF _earned > 0 THEN
+    _balance := _balance + _earned;
+    INSERT INTO public.loyalty_transactions (customer_id, sale_id, order_id, transaction_type, points, balance_after, created_by)
+    VALUES (_customer_id, _sale_id, _order_id, 'earn', _earned, _balance, auth.uid());
+  END IF;
+
+  UPDATE public.loyalty_sales SET points_earned = _earned WHERE sale_id = _sale_id;
+
+  UPDATE public.customers
+  SET loyalty_points = _balance,
+      total_orders = COALESCE(total_orders, 0) + 1,
+      total_spent = COALESCE(total_spent, 0) + _amount_paid
+  WHERE id = _customer_id;
+
+  RETURN _earned;
+END;
+$$;
@@ -0,0 +1,14 @@
+-- The Yoco provider takes online Checkouts payments the customer completes on a hosted page;
+-- it does not drive Yoco card machines. Name it for what it is so nobody picks it expecting the terminal.
+ALTER TABLE public.payment_settings DROP CONSTRAINT payment_settings_active_provider_check;
+
+UPDATE public.payment_settings SET active_provider = 'yoco_checkout' WHERE active_provider = 'yoco';
+
+ALTER TABLE public.payment_settings
+  ALTER COLUMN active_provider SET DEFAULT 'yoco_checkout',
+  ADD CONSTRAINT payment_settings_active_provider_check
+    CHECK (active_provider IN ('yoco_checkout', 'snapscan', 'simulator'));
+
+-- Open intents, refunds and redelivered webhooks look their provider up by this name
+UPDATE public.payment_transactions SET payment_provider = 'yoco_checkout' WHERE payment_provider = 'yoco';
+UPDATE public.payment_webhook_events SET provider = 'yoco_checkout' WHERE provider = 'yoco';
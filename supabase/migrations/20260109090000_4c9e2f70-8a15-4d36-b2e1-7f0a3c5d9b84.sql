@@ -0,0 +1,74 @@
+-- Settle a whole (unsplit) table from the waiter screen: one payment per tender, each with its own tip.
+-- Split orders are settled check by check through settle_order_check instead.
+CREATE OR REPLACE FUNCTION public.settle_order(
+  _order_id uuid,
+  _tenders jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _total numeric;
+  _tendered numeric;
+  _tender jsonb;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to settle order %', _order_id USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', _order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A retried settle must not record a second payment
+  IF _order.status = 'paid' THEN
+    RETURN true;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_checks WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'Order % is split; settle its checks instead', _order_id USING ERRCODE = '55000';
+  END IF;
+
+  IF jsonb_typeof(_tenders) <> 'array' OR jsonb_array_length(_tenders) = 0 THEN
+    RAISE EXCEPTION 'At least one tender is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT GREATEST(COALESCE(SUM(line_total), 0) - COALESCE(_order.discount_amount, 0), 0) INTO _total
+  FROM public.order_items
+  WHERE order_id = _order_id AND status <> 'cancelled';
+
+  SELECT COALESCE(SUM((t->>'amount')::numeric), 0) INTO _tendered
+  FROM jsonb_array_elements(_tenders) t;
+
+  IF ROUND(_tendered, 2) <> ROUND(_total, 2) THEN
+    RAISE EXCEPTION 'Tenders of % do not match the order total of %', _tendered, _total USING ERRCODE = '22023';
+  END IF;
+
+  FOR _tender IN SELECT * FROM jsonb_array_elements(_tenders) LOOP
+    IF COALESCE((_tender->>'tip_amount')::numeric, 0) < 0 THEN
+      RAISE EXCEPTION 'Tip cannot be negative' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.payments (order_id, amount, payment_method, tip_amount, processed_by)
+    VALUES (
+      _order_id,
+      (_tender->>'amount')::numeric,
+      _tender->>'payment_method',
+      COALESCE((_tender->>'tip_amount')::numeric, 0),
+      auth.uid()
+    );
+  END LOOP;
+
+  UPDATE public.orders SET status = 'paid' WHERE id = _order_id;
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,254 @@
+-- A refund takes cash out of the till it is made at, not the till that rang up the sale. Expected cash
+-- and the shift report both count refunds by who processed them, so a refund at another till no longer
+-- shows as a variance on both drawers.
+CREATE OR REPLACE FUNCTION public.close_cash_drawer(_session_id uuid, _count_breakdown jsonb, _notes text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.cash_drawer_sessions%ROWTYPE;
+  _closed_at timestamptz := now();
+  _counted numeric := 0;
+  _denomination record;
+  _cash_tenders numeric;
+  _cash_tips numeric;
+  _legacy_cash numeric;
+  _movements numeric;
+  _cash_refunds numeric;
+  _expected numeric;
+  _total_sales numeric;
+  _total_transactions integer;
+  _total_refunds numeric;
+  _total_tips numeric;
+  _business_date date;
+  _eod_id uuid;
+BEGIN
+  SELECT * INTO _session FROM public.cash_drawer_sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _session.cashier_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Cash drawer not found' USING ERRCODE = '42501';
+  END IF;
+  IF _session.status <> 'open' THEN
+    RAISE EXCEPTION 'This cash drawer is already closed';
+  END IF;
+
+  FOR _denomination IN SELECT key, value FROM jsonb_each_text(COALESCE(_count_breakdown, '{}'::jsonb)) LOOP
+    IF _denomination.value::numeric < 0 OR _denomination.value::numeric <> trunc(_denomination.value::numeric) THEN
+      RAISE EXCEPTION 'Invalid count for %', _denomination.key;
+    END IF;
+    _counted := _counted + _denomination.key::numeric * _denomination.value::numeric;
+  END LOOP;
+
+  -- Tender amounts already exclude change given
+  SELECT COALESCE(SUM(p.amount), 0), COALESCE(SUM(p.tip_amount), 0)
+  INTO _cash_tenders, _cash_tips
+  FROM public.payments p
+  JOIN public.sales s ON s.id = p.sale_id
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at
+    AND p.payment_method = 'cash'
+    AND p.refund_id IS NULL;
+
+  -- Sales recorded before per-tender payments count in full when paid in cash
+  SELECT COALESCE(SUM(s.total), 0) INTO _legacy_cash
+  FROM public.sales s
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at
+    AND s.payment_method = 'cash'
+    AND NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.sale_id = s.id);
+
+  SELECT COALESCE(SUM(CASE WHEN m.movement_type = 'pay_in' THEN m.amount ELSE -m.amount END), 0)
+  INTO _movements
+  FROM public.cash_drawer_movements m
+  WHERE m.session_id = _session.id;
+
+  -- Cash refunds leave the drawer of whoever processed them, whichever till rang up the sale
+  SELECT
+    COALESCE(SUM(r.amount) FILTER (WHERE r.refund_method = 'cash'), 0),
+    COALESCE(SUM(r.amount), 0)
+  INTO _cash_refunds, _total_refunds
+  FROM public.refunds r
+  WHERE r.processed_by = _session.cashier_id
+    AND r.created_at >= _session.opened_at AND r.created_at < _closed_at;
+
+  SELECT COALESCE(SUM(s.total), 0), COUNT(*)
+  INTO _total_sales, _total_transactions
+  FROM public.sales s
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at;
+
+  SELECT COALESCE(SUM(p.tip_amount), 0) INTO _total_tips
+  FROM public.payments p
+  JOIN public.sales s ON s.id = p.sale_id
+  WHERE s.cashier_id = _session.cashier_id
+    AND s.created_at >= _session.opened_at AND s.created_at < _closed_at
+    AND p.refund_id IS NULL;
+
+  _expected := _session.opening_float + _cash_tenders + _cash_tips + _legacy_cash + _movements - _cash_refunds;
+
+  SELECT business_date INTO _business_date FROM public.business_days WHERE id = _session.business_day_id;
+
+  UPDATE public.cash_drawer_sessions
+  SET status = 'closed',
+      closed_at = _closed_at,
+      expected_cash = _expected,
+      counted_cash = _counted,
+      count_breakdown = COALESCE(_count_breakdown, '{}'::jsonb),
+      notes = _notes
+  WHERE id = _session.id;
+
+  INSERT INTO public.eod_sessions (
+    cashier_id, drawer_session_id, business_day_id, shift_date, expected_cash, actual_cash, total_sales,
+    total_refunds, total_tips, total_transactions, cashier_notes, submitted_at, status
+  )
+  VALUES (
+    _session.cashier_id, _session.id, _session.business_day_id, COALESCE(_business_date, CURRENT_DATE), _expected,
+    _counted, _total_sales, _total_refunds, _total_tips, _total_transactions, _notes, _closed_at, 'pending'
+  )
+  RETURNING id INTO _eod_id;
+
+  RETURN _eod_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_shift_report(
+  _cashier_id uuid,
+  _start timestamptz,
+  _end timestamptz,
+  _drawer_session_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report jsonb;
+  _inclusive boolean;
+BEGIN
+  IF NOT (
+    _cashier_id = auth.uid() OR
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'supervisor'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this shift report' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT prices_include_tax INTO _inclusive FROM public.tax_settings ORDER BY created_at LIMIT 1;
+  _inclusive := COALESCE(_inclusive, true);
+
+  WITH shift_sales AS (
+    SELECT s.* FROM public.sales s
+    WHERE s.cashier_id = _cashier_id AND s.created_at >= _start AND s.created_at < _end
+  ),
+  tenders AS (
+    SELECT p.payment_method AS method, p.amount, p.tip_amount
+    FROM public.payments p
+    JOIN shift_sales s ON s.id = p.sale_id
+    WHERE p.refund_id IS NULL
+    UNION ALL
+    -- Sales recorded before per-tender payments
+    SELECT s.payment_method, s.total, 0
+    FROM shift_sales s
+    WHERE NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.sale_id = s.id)
+  ),
+  -- Refunds this cashier processed, which is whose drawer the cash came out of
+  shift_refunds AS (
+    SELECT r.* FROM public.refunds r
+    WHERE r.processed_by = _cashier_id AND r.created_at >= _start AND r.created_at < _end
+  ),
+  movements AS (
+    SELECT m.* FROM public.cash_drawer_movements m WHERE m.session_id = _drawer_session_id
+  )
+  SELECT jsonb_build_object(
+    'cashier_id', _cashier_id,
+    'cashier_name', (SELECT full_name FROM public.profiles WHERE id = _cashier_id),
+    'period_start', _start,
+    'period_end', _end,
+    'sales', (
+      SELECT jsonb_build_object(
+        'count', COUNT(*),
+        'subtotal', COALESCE(SUM(subtotal), 0),
+        'tax', COALESCE(SUM(tax_amount), 0),
+        'discounts', COALESCE(SUM(discount_amount), 0),
+        'discounted_count', COUNT(*) FILTER (WHERE discount_amount > 0),
+        'total', COALESCE(SUM(total), 0)
+      )
+      FROM shift_sales
+    ),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('method', method, 'count', count, 'amount', amount, 'tips', tips) ORDER BY amount DESC)
+      FROM (
+        SELECT method, COUNT(*) AS count, SUM(amount) AS amount, SUM(tip_amount) AS tips
+        FROM tenders GROUP BY method
+      ) t
+    ), '[]'::jsonb),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('category', category, 'qty', qty, 'amount', amount) ORDER BY amount DESC)
+      FROM (
+        SELECT COALESCE(c.name, 'Uncategorised') AS category, SUM(si.qty) AS qty, SUM(si.line_total) AS amount
+        FROM public.sale_items si
+        JOIN shift_sales s ON s.id = si.sale_id
+        LEFT JOIN public.products pr ON pr.id = si.product_id
+        LEFT JOIN public.categories c ON c.id = pr.category_id
+        GROUP BY COALESCE(c.name, 'Uncategorised')
+      ) t
+    ), '[]'::jsonb),
+    'tax_rates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('rate', rate, 'net', net, 'tax', tax) ORDER BY rate DESC)
+      FROM (
+        SELECT rate, CASE WHEN _inclusive THEN gross - tax ELSE gross END AS net, tax
+        FROM (
+          SELECT si.tax_rate AS rate, SUM(si.line_total) AS gross,
+            CASE WHEN _inclusive
+              THEN ROUND(SUM(si.line_total * si.tax_rate / (100 + si.tax_rate)), 2)
+              ELSE ROUND(SUM(si.line_total * si.tax_rate / 100), 2)
+            END AS tax
+          FROM public.sale_items si
+          JOIN shift_sales s ON s.id = si.sale_id
+          GROUP BY si.tax_rate
+        ) rates
+      ) t
+    ), '[]'::jsonb),
+    'refunds', (
+      SELECT jsonb_build_object(
+        'count', COUNT(*) FILTER (WHERE refund_type <> 'void'),
+        'amount', COALESCE(SUM(amount) FILTER (WHERE refund_type <> 'void'), 0),
+        'cash', COALESCE(SUM(amount) FILTER (WHERE refund_method = 'cash'), 0)
+      )
+      FROM shift_refunds
+    ),
+    'voids', (
+      SELECT jsonb_build_object(
+        'count', COUNT(*) FILTER (WHERE refund_type = 'void'),
+        'amount', COALESCE(SUM(amount) FILTER (WHERE refund_type = 'void'), 0)
+      )
+      FROM shift_refunds
+    ),
+    'tips', (
+      SELECT jsonb_build_object(
+        'total', COALESCE(SUM(tip_amount), 0),
+        'cash', COALESCE(SUM(tip_amount) FILTER (WHERE method = 'cash'), 0),
+        'card', COALESCE(SUM(tip_amount) FILTER (WHERE method = 'card'), 0)
+      )
+      FROM tenders
+    ),
+    'cash_movements', jsonb_build_object(
+      'opening_float', COALESCE((SELECT opening_float FROM public.cash_drawer_sessions WHERE id = _drawer_session_id), 0),
+      'drops', COALESCE((SELECT SUM(amount) FROM movements WHERE movement_type = 'drop'), 0),
+      'pay_ins', COALESCE((SELECT SUM(amount) FROM movements WHERE movement_type = 'pay_in'), 0),
+      'pay_outs', COALESCE((SELECT SUM(amount) FROM movements WHERE movement_type = 'pay_out'), 0),
+      'entries', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('type', movement_type, 'amount', amount, 'reason', reason, 'created_at', created_at) ORDER BY created_at)
+        FROM movements
+      ), '[]'::jsonb)
+    )
+  )
+  INTO _report;
+
+  RETURN _report;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Stores have always had tax added on top of menu prices, so that stays the default. A tax settings row
+-- nobody has saved yet was seeded with the old inclusive default and would have silently switched the
+-- store to inclusive totals; admins choose inclusive pricing themselves under Tax Settings.
+ALTER TABLE public.tax_settings ALTER COLUMN prices_include_tax SET DEFAULT false;
+
+UPDATE public.tax_settings SET prices_include_tax = false WHERE updated_at = created_at;
+
+COMMENT ON COLUMN public.tax_settings.prices_include_tax IS 'True when menu prices already include VAT; false adds tax on top at checkout';
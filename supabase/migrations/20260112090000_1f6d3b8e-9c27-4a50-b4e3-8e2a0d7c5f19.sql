@@ -0,0 +1,194 @@
+-- The pass calls a ticket one fired course at a time. Holding a coursed table until every later course
+-- was fired and cooked left starters waiting at the pass, so each item now records when it was called,
+-- and the order only turns ready (the customer board) once everything on it has been called.
+ALTER TABLE public.order_items ADD COLUMN called_at TIMESTAMPTZ;
+
+-- Last call from the pass and the course it was for; the waiter screen listens for these
+ALTER TABLE public.orders
+  ADD COLUMN called_at TIMESTAMPTZ,
+  ADD COLUMN called_course TEXT;
+
+CREATE INDEX idx_orders_called_at ON public.orders (called_at DESC) WHERE called_at IS NOT NULL;
+
+UPDATE public.order_items oi
+SET called_at = COALESCE(o.ready_at, o.updated_at)
+FROM public.orders o
+WHERE o.id = oi.order_id
+  AND o.status IN ('ready', 'served', 'paid')
+  AND oi.fired_at IS NOT NULL;
+
+UPDATE public.orders SET called_at = ready_at WHERE ready_at IS NOT NULL;
+
+DROP FUNCTION public.expedite_order(uuid);
+
+-- Call what is waiting at the pass for an order: one course, or every fired course when none is given.
+-- Refuses while any of those items is still cooking, so a course cannot be called short.
+CREATE FUNCTION public.expedite_order(_order_id uuid, _course_number integer DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _called_at timestamptz := now();
+  _course_name text;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'kitchen'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to expedite order %', _order_id USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', _order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'confirmed', 'preparing') THEN
+    RAISE EXCEPTION 'Order % is already %', _order.order_number, _order.status USING ERRCODE = '55000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.order_items
+    WHERE order_id = _order_id
+      AND status <> 'cancelled'
+      AND fired_at IS NOT NULL
+      AND called_at IS NULL
+      AND (_course_number IS NULL OR course_number = _course_number)
+  ) THEN
+    RAISE EXCEPTION 'Order % has nothing waiting to be called', _order.order_number USING ERRCODE = '55000';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_items
+    WHERE order_id = _order_id
+      AND status NOT IN ('cancelled', 'ready')
+      AND fired_at IS NOT NULL
+      AND called_at IS NULL
+      AND (_course_number IS NULL OR course_number = _course_number)
+  ) THEN
+    RAISE EXCEPTION 'Order % still has items that are not ready', _order.order_number USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.order_items
+  SET called_at = _called_at
+  WHERE order_id = _order_id
+    AND status = 'ready'
+    AND fired_at IS NOT NULL
+    AND called_at IS NULL
+    AND (_course_number IS NULL OR course_number = _course_number);
+
+  -- Name the course for the waiter only when the ticket has more than one
+  IF (SELECT COUNT(DISTINCT course_number) FROM public.order_items WHERE order_id = _order_id AND status <> 'cancelled') > 1 THEN
+    SELECT string_agg(DISTINCT COALESCE(course_name, 'Course ' || course_number), ', ') INTO _course_name
+    FROM public.order_items
+    WHERE order_id = _order_id AND called_at = _called_at;
+  END IF;
+
+  UPDATE public.orders
+  SET called_at = _called_at,
+      called_course = _course_name,
+      expedited_by = auth.uid(),
+      status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM public.order_items
+          WHERE order_id = _order_id AND status <> 'cancelled' AND called_at IS NULL
+        ) THEN status
+        ELSE 'ready'
+      END
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Kitchen screens drop items once the pass has called them
+DROP FUNCTION public.get_kitchen_tickets(uuid[]);
+
+CREATE FUNCTION public.get_kitchen_tickets(_order_ids uuid[] DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  product_id uuid,
+  product_name text,
+  qty integer,
+  special_instructions text,
+  status order_status,
+  kitchen_station kitchen_station,
+  course_number integer,
+  course_name text,
+  created_at timestamptz,
+  fired_at timestamptz,
+  called_at timestamptz,
+  started_at timestamptz,
+  completed_at timestamptz,
+  weight_amount numeric,
+  weight_unit text,
+  order_number text,
+  order_type order_type,
+  order_status order_status,
+  order_created_at timestamptz,
+  customer_name text,
+  table_number text,
+  estimated_prep_minutes integer,
+  modifiers jsonb,
+  combo_selections jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    oi.id,
+    oi.order_id,
+    oi.product_id,
+    oi.product_name,
+    oi.qty,
+    oi.special_instructions,
+    oi.status,
+    oi.kitchen_station,
+    oi.course_number,
+    oi.course_name,
+    oi.created_at,
+    oi.fired_at,
+    oi.called_at,
+    oi.started_at,
+    oi.completed_at,
+    oi.weight_amount,
+    oi.weight_unit,
+    o.order_number,
+    o.order_type,
+    o.status,
+    o.created_at,
+    o.customer_name,
+    rt.table_number,
+    p.estimated_prep_minutes,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'modifier_name', m.modifier_name,
+        'price_adjustment', m.price_adjustment
+      ) ORDER BY m.created_at)
+      FROM public.order_item_modifiers m
+      WHERE m.order_item_id = oi.id
+    ), '[]'::jsonb),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', c.id,
+        'selected_product_name', c.selected_product_name,
+        'qty', c.qty
+      ) ORDER BY c.created_at)
+      FROM public.order_item_combo_selections c
+      WHERE c.order_item_id = oi.id
+    ), '[]'::jsonb)
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  LEFT JOIN public.restaurant_tables rt ON rt.id = o.table_id
+  LEFT JOIN public.products p ON p.id = oi.product_id
+  WHERE CASE
+    WHEN _order_ids IS NULL THEN o.status IN ('pending', 'confirmed', 'preparing')
+    ELSE oi.order_id = ANY(_order_ids)
+  END
+  ORDER BY o.created_at, oi.created_at
+$$;
@@ -0,0 +1,127 @@
+-- Terminals record promotion usage when they sync, possibly long after an offline sale applied the
+-- discount. The sale has already happened by then, so a use past the cap is still recorded but flagged.
+ALTER TABLE public.promotion_usage ADD COLUMN over_limit BOOLEAN NOT NULL DEFAULT false;
+
+-- Record a promotion against an order and bump its usage count, holding the promotion row so
+-- concurrent uses are counted one at a time. Returns true when this call counted a new use.
+CREATE OR REPLACE FUNCTION public.record_promotion_usage(
+  _promotion_id uuid,
+  _order_id uuid,
+  _discount_applied numeric,
+  _customer_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promotion public.promotions%ROWTYPE;
+  _inserted boolean;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'supervisor'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to record promotion usage' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _promotion FROM public.promotions WHERE id = _promotion_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Promotion % not found', _promotion_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.promotion_usage (promotion_id, order_id, customer_id, discount_applied, over_limit)
+  VALUES (
+    _promotion_id,
+    _order_id,
+    _customer_id,
+    _discount_applied,
+    _promotion.usage_limit IS NOT NULL AND COALESCE(_promotion.usage_count, 0) >= _promotion.usage_limit
+  )
+  ON CONFLICT (promotion_id, order_id)
+  DO UPDATE SET discount_applied = EXCLUDED.discount_applied
+  RETURNING (xmax = 0) INTO _inserted;
+
+  IF _inserted THEN
+    UPDATE public.promotions
+    SET usage_count = COALESCE(usage_count, 0) + 1
+    WHERE id = _promotion_id;
+  END IF;
+
+  RETURN _inserted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_order_promotions(_order_id uuid, _promotions jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promotion jsonb;
+  _limited public.promotions%ROWTYPE;
+  _released uuid;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'supervisor'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to apply promotions' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', _order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR _released IN
+    DELETE FROM public.promotion_usage
+    WHERE order_id = _order_id
+      AND promotion_id NOT IN (
+        SELECT (value->>'promotion_id')::uuid FROM jsonb_array_elements(_promotions)
+      )
+    RETURNING promotion_id
+  LOOP
+    UPDATE public.promotions
+    SET usage_count = GREATEST(COALESCE(usage_count, 0) - 1, 0)
+    WHERE id = _released;
+  END LOOP;
+
+  FOR _promotion IN SELECT * FROM jsonb_array_elements(_promotions) LOOP
+    -- Orders placed online are held to the cap; a new use past it means another order took the last one
+    SELECT * INTO _limited FROM public.promotions WHERE id = (_promotion->>'promotion_id')::uuid FOR UPDATE;
+
+    IF _limited.usage_limit IS NOT NULL
+      AND COALESCE(_limited.usage_count, 0) >= _limited.usage_limit
+      AND NOT EXISTS (
+        SELECT 1 FROM public.promotion_usage
+        WHERE order_id = _order_id AND promotion_id = _limited.id
+      )
+    THEN
+      RAISE EXCEPTION 'Promotion % has reached its usage limit', _limited.name USING ERRCODE = '55000';
+    END IF;
+
+    PERFORM public.record_promotion_usage(
+      (_promotion->>'promotion_id')::uuid,
+      _order_id,
+      (_promotion->>'discount_applied')::numeric
+    );
+  END LOOP;
+
+  UPDATE public.orders
+  SET
+    discount_amount = COALESCE((
+      SELECT SUM((value->>'discount_applied')::numeric) FROM jsonb_array_elements(_promotions)
+    ), 0),
+    promotion_id = (_promotions->0->>'promotion_id')::uuid
+  WHERE id = _order_id;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- process-refund claims a card refund before sending it, so two retries can't both reach the provider.
+-- A claim older than a few minutes is taken to belong to a run that died and can be claimed again.
+ALTER TABLE public.refunds DROP CONSTRAINT refunds_provider_status_check;
+
+ALTER TABLE public.refunds
+  ADD CONSTRAINT refunds_provider_status_check
+    CHECK (provider_status IN ('pending', 'processing', 'succeeded', 'failed')),
+  ADD COLUMN provider_claimed_at TIMESTAMPTZ;
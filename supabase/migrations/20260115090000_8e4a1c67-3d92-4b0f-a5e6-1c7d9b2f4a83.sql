@@ -0,0 +1,79 @@
+-- A shift's hours counted only time entries that started inside it, so anyone who clocked in before
+-- the first drawer opened (openers, kitchen prep) lost all their hours and their share of the pool.
+-- Entries overlapping the window now count, clamped to it.
+CREATE OR REPLACE FUNCTION public.get_tip_shift_summary(_start timestamptz, _end timestamptz)
+RETURNS TABLE (
+  employee_id uuid,
+  full_name text,
+  is_kitchen boolean,
+  hours_worked numeric,
+  cash_tips numeric,
+  card_tips numeric,
+  other_tips numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'supervisor'::app_role)) THEN
+    RAISE EXCEPTION 'Not allowed to view tip payouts' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH tips AS (
+    SELECT COALESCE(o.waiter_id, p.processed_by) AS employee_id, p.payment_method, p.tip_amount
+    FROM public.payments p
+    LEFT JOIN public.orders o ON o.id = p.order_id
+    WHERE p.tip_amount > 0
+      AND p.refund_id IS NULL
+      AND p.created_at >= _start AND p.created_at < _end
+    UNION ALL
+    SELECT t.opened_by, t.payment_method, t.tip_amount
+    FROM public.bar_tabs t
+    WHERE t.status = 'settled'
+      AND t.tip_amount > 0
+      AND t.closed_at >= _start AND t.closed_at < _end
+  ),
+  tip_totals AS (
+    SELECT
+      tips.employee_id,
+      SUM(tips.tip_amount) FILTER (WHERE tips.payment_method = 'cash') AS cash_tips,
+      SUM(tips.tip_amount) FILTER (WHERE tips.payment_method = 'card') AS card_tips,
+      SUM(tips.tip_amount) FILTER (WHERE tips.payment_method IS DISTINCT FROM 'cash' AND tips.payment_method IS DISTINCT FROM 'card') AS other_tips
+    FROM tips
+    WHERE tips.employee_id IS NOT NULL
+    GROUP BY tips.employee_id
+  ),
+  hours AS (
+    -- Only the part of each time entry inside the window counts, so openers who clocked in before the
+    -- first drawer opened keep the hours they worked during the day
+    SELECT
+      tt.employee_id,
+      SUM(GREATEST(0, EXTRACT(EPOCH FROM (
+        LEAST(COALESCE(tt.clock_out, now()), _end) - GREATEST(tt.clock_in, _start)
+        - CASE
+            WHEN tt.break_start IS NULL OR tt.break_end IS NULL THEN interval '0'
+            ELSE GREATEST(interval '0', LEAST(tt.break_end, _end) - GREATEST(tt.break_start, _start))
+          END
+      )) / 3600)) AS hours_worked
+    FROM public.time_tracking tt
+    WHERE tt.clock_in < _end AND COALESCE(tt.clock_out, now()) > _start
+    GROUP BY tt.employee_id
+  )
+  SELECT
+    pr.id,
+    pr.full_name,
+    EXISTS (SELECT 1 FROM public.user_roles ur WHERE ur.user_id = pr.id AND ur.role = 'kitchen'::app_role),
+    ROUND(COALESCE(h.hours_worked, 0), 2),
+    COALESCE(tt.cash_tips, 0),
+    COALESCE(tt.card_tips, 0),
+    COALESCE(tt.other_tips, 0)
+  FROM public.profiles pr
+  LEFT JOIN tip_totals tt ON tt.employee_id = pr.id
+  LEFT JOIN hours h ON h.employee_id = pr.id
+  WHERE tt.employee_id IS NOT NULL OR h.employee_id IS NOT NULL
+  ORDER BY pr.full_name;
+END;
+$$;
@@ -0,0 +1,210 @@
+-- Card payments taken at the table go through the same payment intents as POS. The waiter screens pass
+-- the approved intent with each card tender, and settling checks it belongs to the order, was approved
+-- for exactly the tender plus its tip, and has not already paid for something else.
+CREATE OR REPLACE FUNCTION public.claim_order_payment_intent(
+  _transaction_id uuid,
+  _order_id uuid,
+  _amount numeric,
+  _payment_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _intent public.payment_transactions%ROWTYPE;
+BEGIN
+  IF _transaction_id IS NULL THEN
+    RAISE EXCEPTION 'Card tenders need an approved card payment' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _intent FROM public.payment_transactions WHERE id = _transaction_id FOR UPDATE;
+
+  IF NOT FOUND OR _intent.order_id IS DISTINCT FROM _order_id THEN
+    RAISE EXCEPTION 'Card payment % not found for this order', _transaction_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _intent.status <> 'completed' THEN
+    RAISE EXCEPTION 'Card payment % is %', _transaction_id, _intent.status USING ERRCODE = '55000';
+  END IF;
+
+  IF _intent.metadata ? 'payment_id' THEN
+    RAISE EXCEPTION 'Card payment % has already been used', _transaction_id USING ERRCODE = '55000';
+  END IF;
+
+  IF ROUND(_intent.amount, 2) <> ROUND(_amount, 2) THEN
+    RAISE EXCEPTION 'Card payment of % does not match the tender of %', _intent.amount, _amount USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.payment_transactions
+  SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('payment_id', _payment_id)
+  WHERE id = _transaction_id;
+END;
+$$;
+
+-- Only the settle functions call this
+REVOKE EXECUTE ON FUNCTION public.claim_order_payment_intent(uuid, uuid, numeric, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.settle_order(
+  _order_id uuid,
+  _tenders jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _total numeric;
+  _tendered numeric;
+  _tender jsonb;
+  _payment_id uuid;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to settle order %', _order_id USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', _order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A retried settle must not record a second payment
+  IF _order.status = 'paid' THEN
+    RETURN true;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_checks WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'Order % is split; settle its checks instead', _order_id USING ERRCODE = '55000';
+  END IF;
+
+  IF jsonb_typeof(_tenders) <> 'array' OR jsonb_array_length(_tenders) = 0 THEN
+    RAISE EXCEPTION 'At least one tender is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT GREATEST(COALESCE(SUM(line_total), 0) - COALESCE(_order.discount_amount, 0), 0) INTO _total
+  FROM public.order_items
+  WHERE order_id = _order_id AND status <> 'cancelled';
+
+  SELECT COALESCE(SUM((t->>'amount')::numeric), 0) INTO _tendered
+  FROM jsonb_array_elements(_tenders) t;
+
+  IF ROUND(_tendered, 2) <> ROUND(_total, 2) THEN
+    RAISE EXCEPTION 'Tenders of % do not match the order total of %', _tendered, _total USING ERRCODE = '22023';
+  END IF;
+
+  FOR _tender IN SELECT * FROM jsonb_array_elements(_tenders) LOOP
+    IF COALESCE((_tender->>'tip_amount')::numeric, 0) < 0 THEN
+      RAISE EXCEPTION 'Tip cannot be negative' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.payments (order_id, amount, payment_method, tip_amount, processed_by)
+    VALUES (
+      _order_id,
+      (_tender->>'amount')::numeric,
+      _tender->>'payment_method',
+      COALESCE((_tender->>'tip_amount')::numeric, 0),
+      auth.uid()
+    )
+    RETURNING id INTO _payment_id;
+
+    IF _tender->>'payment_method' = 'card' THEN
+      PERFORM public.claim_order_payment_intent(
+        (_tender->>'transaction_id')::uuid,
+        _order_id,
+        (_tender->>'amount')::numeric + COALESCE((_tender->>'tip_amount')::numeric, 0),
+        _payment_id
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE public.orders SET status = 'paid' WHERE id = _order_id;
+  RETURN true;
+END;
+$$;
+
+-- Split checks settled by card carry their approved payment too
+DROP FUNCTION public.settle_order_check(uuid, text, numeric);
+
+CREATE FUNCTION public.settle_order_check(
+  _check_id uuid,
+  _payment_method text,
+  _tip_amount numeric DEFAULT 0,
+  _transaction_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id uuid;
+  _check public.order_checks%ROWTYPE;
+  _payment_id uuid;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to settle check %', _check_id USING ERRCODE = '42501';
+  END IF;
+
+  SELECT order_id INTO _order_id FROM public.order_checks WHERE id = _check_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Check % not found', _check_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Settles of the same order queue up here, so the open-check test below sees every earlier settle
+  PERFORM 1 FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  SELECT * INTO _check FROM public.order_checks WHERE id = _check_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Check % not found', _check_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A retried settle must not record a second payment
+  IF _check.status = 'open' THEN
+    INSERT INTO public.payments (order_id, check_id, amount, payment_method, tip_amount, processed_by, notes)
+    VALUES (
+      _check.order_id,
+      _check.id,
+      _check.amount,
+      _payment_method,
+      COALESCE(_tip_amount, 0),
+      auth.uid(),
+      _check.label
+    )
+    RETURNING id INTO _payment_id;
+
+    IF _payment_method = 'card' THEN
+      PERFORM public.claim_order_payment_intent(
+        _transaction_id, _check.order_id, _check.amount + COALESCE(_tip_amount, 0), _payment_id
+      );
+    END IF;
+
+    UPDATE public.order_checks
+    SET status = 'settled', settled_at = now(), settled_by = auth.uid()
+    WHERE id = _check.id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_checks
+    WHERE order_id = _check.order_id AND status = 'open'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.orders SET status = 'paid' WHERE id = _check.order_id;
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,202 @@
+-- Dine-in bills are totalled the same way the tills total a sale (calculateTax in src/lib/tax.ts):
+-- the discount is shared across tax rates in whole cents by value, VAT is rounded once per rate, and
+-- when prices exclude VAT it is added on top. Settling an order and splitting it into checks both use it.
+CREATE OR REPLACE FUNCTION public.get_order_bill_total(_order_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH settings AS (
+    -- Unsaved settings mean exclusive prices, as on the tills
+    SELECT COALESCE(
+      (SELECT prices_include_tax FROM public.tax_settings ORDER BY created_at LIMIT 1),
+      false
+    ) AS inclusive
+  ),
+  rates AS (
+    SELECT tax_rate AS rate, SUM(ROUND(line_total * 100)) AS gross
+    FROM public.order_items
+    WHERE order_id = _order_id AND status <> 'cancelled'
+    GROUP BY tax_rate
+  ),
+  totals AS (
+    SELECT
+      SUM(gross) AS gross,
+      LEAST(
+        ROUND(COALESCE((SELECT discount_amount FROM public.orders WHERE id = _order_id), 0) * 100),
+        SUM(gross)
+      ) AS discount
+    FROM rates
+  ),
+  exact AS (
+    SELECT r.rate, r.gross, t.discount,
+      CASE WHEN t.gross > 0 THEN t.discount * r.gross / t.gross ELSE 0 END AS share
+    FROM rates r CROSS JOIN totals t
+  ),
+  -- Whole cents first, then the cents left over go to the largest remainders, higher rates winning ties
+  ranked AS (
+    SELECT rate, gross, discount, TRUNC(share) AS part,
+      ROW_NUMBER() OVER (ORDER BY share - TRUNC(share) DESC, rate DESC) AS remainder_rank
+    FROM exact
+  ),
+  bases AS (
+    SELECT rate,
+      gross - part - CASE WHEN remainder_rank <= discount - SUM(part) OVER () THEN 1 ELSE 0 END AS base
+    FROM ranked
+  )
+  SELECT ROUND(COALESCE(SUM(
+    b.base + CASE
+      WHEN s.inclusive THEN 0
+      ELSE ROUND(b.base * b.rate / 100)
+    END
+  ), 0) / 100, 2)
+  FROM bases b CROSS JOIN settings s;
+$$;
+
+CREATE OR REPLACE FUNCTION public.settle_order(
+  _order_id uuid,
+  _tenders jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _total numeric;
+  _tendered numeric;
+  _tender jsonb;
+  _payment_id uuid;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to settle order %', _order_id USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', _order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A retried settle must not record a second payment
+  IF _order.status = 'paid' THEN
+    RETURN true;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_checks WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'Order % is split; settle its checks instead', _order_id USING ERRCODE = '55000';
+  END IF;
+
+  IF jsonb_typeof(_tenders) <> 'array' OR jsonb_array_length(_tenders) = 0 THEN
+    RAISE EXCEPTION 'At least one tender is required' USING ERRCODE = '22023';
+  END IF;
+
+  _total := public.get_order_bill_total(_order_id);
+
+  SELECT COALESCE(SUM((t->>'amount')::numeric), 0) INTO _tendered
+  FROM jsonb_array_elements(_tenders) t;
+
+  IF ROUND(_tendered, 2) <> ROUND(_total, 2) THEN
+    RAISE EXCEPTION 'Tenders of % do not match the order total of %', _tendered, _total USING ERRCODE = '22023';
+  END IF;
+
+  FOR _tender IN SELECT * FROM jsonb_array_elements(_tenders) LOOP
+    IF COALESCE((_tender->>'tip_amount')::numeric, 0) < 0 THEN
+      RAISE EXCEPTION 'Tip cannot be negative' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.payments (order_id, amount, payment_method, tip_amount, processed_by)
+    VALUES (
+      _order_id,
+      (_tender->>'amount')::numeric,
+      _tender->>'payment_method',
+      COALESCE((_tender->>'tip_amount')::numeric, 0),
+      auth.uid()
+    )
+    RETURNING id INTO _payment_id;
+
+    IF _tender->>'payment_method' = 'card' THEN
+      PERFORM public.claim_order_payment_intent(
+        (_tender->>'transaction_id')::uuid,
+        _order_id,
+        (_tender->>'amount')::numeric + COALESCE((_tender->>'tip_amount')::numeric, 0),
+        _payment_id
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE public.orders SET status = 'paid' WHERE id = _order_id;
+  RETURN true;
+END;
+$$;
+
+-- Checks must add up to what the order owes, VAT included
+CREATE OR REPLACE FUNCTION public.replace_order_checks(_order_id uuid, _checks jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _draft jsonb;
+  _check_number integer := 0;
+  _check_id uuid;
+  _checks_total numeric;
+  _bill_total numeric;
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'admin'::app_role) OR
+    has_role(auth.uid(), 'cashier'::app_role) OR
+    has_role(auth.uid(), 'waiter'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to split order %', _order_id USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_array_length(_checks) = 0 THEN
+    RAISE EXCEPTION 'Nothing to split' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1 FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', _order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_checks WHERE order_id = _order_id AND status = 'settled'
+  ) THEN
+    RAISE EXCEPTION 'Checks cannot be rebuilt once one has been settled' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT COALESCE(SUM((c->>'amount')::numeric), 0) INTO _checks_total
+  FROM jsonb_array_elements(_checks) c;
+
+  _bill_total := public.get_order_bill_total(_order_id);
+
+  IF ROUND(_checks_total, 2) <> ROUND(_bill_total, 2) THEN
+    RAISE EXCEPTION 'Checks of % do not add up to the order total of %', _checks_total, _bill_total USING ERRCODE = '22023';
+  END IF;
+
+  -- Removing old checks clears check_id on their items
+  DELETE FROM public.order_checks WHERE order_id = _order_id;
+
+  FOR _draft IN SELECT * FROM jsonb_array_elements(_checks) LOOP
+    _check_number := _check_number + 1;
+
+    INSERT INTO public.order_checks (order_id, check_number, label, amount)
+    VALUES (_order_id, _check_number, _draft->>'label', (_draft->>'amount')::numeric)
+    RETURNING id INTO _check_id;
+
+    UPDATE public.order_items
+    SET check_id = _check_id
+    WHERE order_id = _order_id
+      AND id IN (SELECT jsonb_array_elements_text(COALESCE(_draft->'item_ids', '[]'::jsonb))::uuid);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Recent forward bumps for the recall screens, one row per bump (every item one statement moved forward
+-- together), newest first. Grouping here means a bump of a large ticket is always recalled whole. Screens
+-- can limit it to their own station's items or to the bumps their user made.
+CREATE OR REPLACE FUNCTION public.get_recent_kitchen_bumps(
+  _limit integer DEFAULT 10,
+  _station kitchen_station DEFAULT NULL,
+  _changed_by uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  order_id uuid,
+  order_number text,
+  table_number text,
+  from_status order_status,
+  to_status order_status,
+  changed_by uuid,
+  changed_by_name text,
+  changed_at timestamptz,
+  items jsonb
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.order_id,
+    o.order_number,
+    rt.table_number,
+    e.from_status,
+    e.to_status,
+    e.changed_by,
+    p.full_name,
+    e.created_at,
+    jsonb_agg(jsonb_build_object(
+      'id', oi.id,
+      'product_name', oi.product_name,
+      'qty', oi.qty
+    ) ORDER BY oi.created_at)
+  FROM public.kitchen_status_events e
+  JOIN public.order_items oi ON oi.id = e.order_item_id
+  JOIN public.orders o ON o.id = e.order_id
+  LEFT JOIN public.restaurant_tables rt ON rt.id = o.table_id
+  LEFT JOIN public.profiles p ON p.id = e.changed_by
+  -- Forward along pending, preparing, ready, with the item still where the bump left it
+  WHERE array_position(ARRAY['pending', 'preparing', 'ready']::order_status[], e.to_status)
+      > COALESCE(array_position(ARRAY['pending', 'preparing', 'ready']::order_status[], e.from_status), 0)
+    AND oi.status = e.to_status
+    AND (_station IS NULL OR oi.kitchen_station = _station)
+    AND (_changed_by IS NULL OR e.changed_by = _changed_by)
+  GROUP BY e.order_id, o.order_number, rt.table_number, e.from_status, e.to_status, e.changed_by, p.full_name, e.created_at
+  ORDER BY e.created_at DESC, e.order_id
+  LIMIT _limit;
+$$;